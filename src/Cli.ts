@@ -7,22 +7,91 @@
  *
  * The CLI is structured as a single main command with multiple subcommands:
  * - init: Initialize database with schema and sample data
+ * - migrate: Show, apply or revert schema migrations
  * - get: Retrieve a specific todo by ID
  * - list: Display all todos from the database
+ * - tui: Browse and edit todos in a full-screen, keyboard-driven view
+ * - search: Find todos by the words in their titles
+ * - due: List pending todos by the day they are due
+ * - overdue: List pending todos whose due day has passed
  * - create: Create a new todo item
- * - clear: Remove all todos from the database
+ * - update: Change fields of an existing todo item
+ * - prioritize: Set the priority of a todo item
+ * - move: Change where a todo item stands in the list
+ * - delete: Move todos to the trash
+ * - trash: List, restore or permanently remove trashed todos
+ * - tag: Add, remove, list and rename tags
+ * - user: List, add and show the users who own todos
+ * - history: Show how a todo changed over time
+ * - log: Show the recorded changes to todos
+ * - undo: Revert the most recent changes
+ * - clear: Remove all or some todos from the database, taking a backup
+ * - backup: List and restore the backups taken by clear
+ * - export: Write the todos to a JSON, NDJSON or CSV file
+ * - import: Read todos from a JSON, NDJSON or CSV file
  * - sync: Synchronize todos from the external API
+ * - push: Send local changes to the external API
+ * - cache: Show or clear the cache of API responses
+ * - config: Show and change settings
  *
  * @since 1.0.0
  */
 
-import { Command } from "@effect/cli";
+import { Command, Options } from "@effect/cli";
+import { Effect } from "effect";
 import { initDbCommand } from "./cmd/initDb.js";
+import { migrateCommand } from "./cmd/migrate.js";
 import { getLocalTodoCommand } from "./cmd/getLocalTodo.js";
 import { listLocalTodosCommand } from "./cmd/listLocalTodos.js";
+import { tuiCommand } from "./cmd/tui.js";
+import { searchTodosCommand } from "./cmd/searchTodos.js";
+import { dueTodosCommand, overdueTodosCommand } from "./cmd/dueTodos.js";
 import { createTodoCommand } from "./cmd/createTodo.js";
+import { updateTodoCommand } from "./cmd/updateTodo.js";
+import { prioritizeTodoCommand } from "./cmd/prioritizeTodo.js";
+import { moveTodoCommand } from "./cmd/moveTodo.js";
+import { deleteTodosCommand } from "./cmd/deleteTodos.js";
+import { trashCommand } from "./cmd/trash.js";
+import { tagCommand } from "./cmd/tag.js";
+import { userCommand } from "./cmd/user.js";
+import { historyCommand, logCommand, undoCommand } from "./cmd/history.js";
 import { clearTodosCommand } from "./cmd/clearTodos.js";
+import { backupCommand } from "./cmd/backup.js";
+import { exportTodosCommand } from "./cmd/exportTodos.js";
+import { importTodosCommand } from "./cmd/importTodos.js";
 import { syncTodoCommand } from "./cmd/syncTodos.js";
+import { pushTodosCommand } from "./cmd/pushTodos.js";
+import { configCommand } from "./cmd/config.js";
+import { cacheCommand } from "./cmd/cache.js";
+import { OutputFormat } from "./domain/OutputFormat.js";
+import { CurrentOutputFormat } from "./service/RenderService.js";
+import { ConfigFlags, ConfigService } from "./service/ConfigService.js";
+import { DatabaseLive } from "./service/DatabaseLayer.js";
+
+/**
+ * Provides a todo command with the configured database and output format.
+ *
+ * Only applied to commands that work with todos, so that `config` neither
+ * opens the database nor depends on the settings it is used to repair.
+ *
+ * @param command - The command to wrap
+ * @returns The command with DatabaseService, HttpCacheService,
+ *          MigrationService and CurrentOutputFormat provided
+ *
+ * @since 1.0.0
+ */
+const withTodoContext = <Name extends string, R, E, A>(
+  command: Command.Command<Name, R, E, A>
+) =>
+  command.pipe(
+    Command.provideEffect(
+      CurrentOutputFormat,
+      Effect.flatMap(ConfigService, (config) => config.resolve("format")).pipe(
+        Effect.map(({ value }) => value)
+      )
+    ),
+    Command.provide(DatabaseLive)
+  );
 
 /**
  * Main database command that groups all todo-related subcommands.
@@ -31,17 +100,63 @@ import { syncTodoCommand } from "./cmd/syncTodos.js";
  * All subcommands are registered under this main command to provide
  * a consistent CLI interface.
  *
+ * It also owns the global options, which are handed to the ConfigService
+ * through {@link ConfigFlags} and take precedence over every other source:
+ * - `--format`, exposed to every subcommand through {@link CurrentOutputFormat}
+ * - `--db`, which selects the database file behind DatabaseService and
+ *   MigrationService
+ *
  * @since 1.0.0
  */
-const dbCommand = Command.make("db").pipe(
+const dbCommand = Command.make("db", {
+  /** Output format used by commands that print todos */
+  format: Options.choice("format", OutputFormat.literals).pipe(
+    Options.withDescription(
+      "Output format for printed todos: pretty, json, ndjson, csv or table (default: the 'format' setting)"
+    ),
+    Options.optional
+  ),
+  /** Location of the SQLite database file */
+  db: Options.text("db").pipe(
+    Options.withDescription(
+      "Path to the SQLite database file (default: the 'dbPath' setting)"
+    ),
+    Options.optional
+  ),
+}).pipe(
   Command.withSubcommands([
-    initDbCommand,
-    getLocalTodoCommand,
-    listLocalTodosCommand,
-    createTodoCommand,
-    clearTodosCommand,
-    syncTodoCommand,
-  ])
+    withTodoContext(initDbCommand),
+    withTodoContext(migrateCommand),
+    withTodoContext(getLocalTodoCommand),
+    withTodoContext(listLocalTodosCommand),
+    withTodoContext(tuiCommand),
+    withTodoContext(searchTodosCommand),
+    withTodoContext(dueTodosCommand),
+    withTodoContext(overdueTodosCommand),
+    withTodoContext(createTodoCommand),
+    withTodoContext(updateTodoCommand),
+    withTodoContext(prioritizeTodoCommand),
+    withTodoContext(moveTodoCommand),
+    withTodoContext(deleteTodosCommand),
+    withTodoContext(trashCommand),
+    withTodoContext(tagCommand),
+    withTodoContext(userCommand),
+    withTodoContext(historyCommand),
+    withTodoContext(logCommand),
+    withTodoContext(undoCommand),
+    withTodoContext(clearTodosCommand),
+    withTodoContext(backupCommand),
+    withTodoContext(exportTodosCommand),
+    withTodoContext(importTodosCommand),
+    withTodoContext(syncTodoCommand),
+    withTodoContext(pushTodosCommand),
+    withTodoContext(cacheCommand),
+    configCommand,
+  ]),
+  Command.provideSync(ConfigFlags, ({ format, db }) => ({
+    format,
+    dbPath: db,
+  }))
 );
 
 /**
@@ -5,7 +5,7 @@
  *
  * This file serves as the executable entry point that:
  * - Sets up the Effect runtime environment
- * - Configures service dependencies (TodoService, DatabaseService, ProgressBarService)
+ * - Configures service dependencies (TodoService, ConfigService, ProgressBarService, PromptService, RenderService)
  * - Runs the CLI with proper error handling
  * - Provides the Node.js context layer for platform-specific operations
  *
@@ -17,31 +17,39 @@
  */
 
 import { NodeContext, NodeRuntime } from "@effect/platform-node";
-import { Effect, Layer } from "effect";
+import { Console, Effect, Layer } from "effect";
 import { run } from "./Cli.js";
 import { TodoService } from "./service/TodoService.js";
-import { DatabaseService } from "./service/DatabaseService.js";
+import { ConfigService } from "./service/ConfigService.js";
 import { ProgressBarService } from "./service/ProgressBarService.js";
+import { PromptService } from "./service/PromptService.js";
+import { RenderService } from "./service/RenderService.js";
 
 /**
  * Main service layer that combines all required dependencies.
  *
  * This layer merges:
  * - NodeContext.layer: Provides Node.js platform context
- * - TodoService.Default: HTTP client for external API operations
- * - DatabaseService.Default: SQLite database operations
+ * - TodoService.Default: Remote todo operations on the configured backend
+ * - ConfigService.Default: Settings from flags, environment and config files
  * - ProgressBarService.Default: Progress bar utilities for CLI feedback
+ * - PromptService.Default: Questions asked in the terminal
+ * - RenderService.Default: Output formatting for printed todos
  *
  * All CLI commands will have access to these services through
- * Effect's dependency injection system.
+ * Effect's dependency injection system. DatabaseService and MigrationService
+ * are provided by the root command instead (see Cli.ts), because the
+ * database location depends on the parsed `--db` flag.
  *
  * @since 1.0.0
  */
 const MainLayer = Layer.mergeAll(
   NodeContext.layer,
   TodoService.Default,
-  DatabaseService.Default,
-  ProgressBarService.Default
+  ConfigService.Default,
+  ProgressBarService.Default,
+  PromptService.Default,
+  RenderService.Default
 );
 
 /**
@@ -50,12 +58,23 @@ const MainLayer = Layer.mergeAll(
  * This is the main execution flow that:
  * 1. Runs the CLI with command line arguments
  * 2. Provides the service layer to all commands
- * 3. Executes using Node.js runtime with error reporting disabled
+ * 3. Prints schema version and configuration problems, which every
+ *    database command can hit
+ * 4. Executes using Node.js runtime with error reporting disabled
  *
  * Error reporting is disabled to provide clean CLI output without
  * internal Effect stack traces for user-facing errors.
  */
 run(process.argv).pipe(
+  Effect.tapErrorTag("SchemaOutdated", (error) =>
+    Console.error(`❌ ${error.message}`)
+  ),
+  Effect.tapErrorTag("MigrationError", (error) =>
+    Console.error(`❌ ${error.message}`)
+  ),
+  Effect.tapErrorTag("ConfigError", (error) =>
+    Console.error(`❌ ${error.message}`)
+  ),
   Effect.provide(MainLayer),
   NodeRuntime.runMain({ disableErrorReporting: true })
 );
@@ -0,0 +1,142 @@
+/**
+ * Backup management command implementation.
+ *
+ * This module provides the `backup` command group for the snapshots that
+ * `clear` takes of the todos it removes:
+ * - backup list: Show every backup, newest first
+ * - backup restore: Bring the todos of a backup back
+ *
+ * @since 1.0.0
+ */
+
+import { Command, Args } from "@effect/cli";
+import { Effect, Console, Option } from "effect";
+import { DatabaseService } from "../service/DatabaseService.js";
+import { RenderService } from "../service/RenderService.js";
+
+/**
+ * CLI command for listing the backups taken by `clear`.
+ *
+ * @example
+ * ```bash
+ * pnpm dev backup list
+ * ```
+ *
+ * Expected output:
+ * ```
+ * 💾 Backups:
+ * #2  2024-05-02 09:30:00  3 todo(s)  completed todos of user 1
+ * #1  2024-05-01 10:15:00  5 todo(s)  all todos
+ * ```
+ *
+ * @since 1.0.0
+ */
+const backupListCommand = Command.make(
+  "list",
+  {},
+  Effect.fn("backupListCommand")(function* () {
+    const backups = yield* DatabaseService.getBackups();
+    if (backups.length === 0) {
+      yield* Console.log(
+        "💾 No backups yet; `clear` takes one before removing"
+      );
+      return;
+    }
+    const rows = backups.map(({ id, createdAt, count, scope }) => [
+      `#${id}`,
+      createdAt,
+      `${count} todo(s)`,
+      scope,
+    ]);
+    const widths = rows[0].map((_, column) =>
+      Math.max(...rows.map((row) => row[column].length))
+    );
+    yield* Console.log("💾 Backups:");
+    for (const row of rows) {
+      yield* Console.log(
+        row
+          .map((cell, column) =>
+            column === row.length - 1 ? cell : cell.padEnd(widths[column])
+          )
+          .join("  ")
+      );
+    }
+  })
+);
+
+/**
+ * CLI command for restoring the todos of a backup.
+ *
+ * Todos come back exactly as they were cleared, trash and sync state
+ * included. Todos whose ID is taken again, e.g. by a later sync, are
+ * skipped rather than overwritten. The backup is kept, and `undo` removes
+ * the restored todos again.
+ *
+ * @example
+ * ```bash
+ * # Restore the latest backup
+ * pnpm dev backup restore
+ *
+ * # Restore a specific backup
+ * pnpm dev backup restore 1
+ * ```
+ *
+ * Expected output:
+ * ```
+ * ♻️ Restored 4 todo(s) from backup #1 (all todos):
+ * Todo({ "userId": 1, "id": 1, "title": "Learn Effect", "completed": "pending" })
+ * ---
+ * ...
+ * ⏭️ Skipped 1 todo(s) whose ID is taken: 3
+ * ```
+ *
+ * @since 1.0.0
+ */
+const backupRestoreCommand = Command.make(
+  "restore",
+  {
+    /** The number of the backup to restore */
+    id: Args.integer({ name: "id" }).pipe(
+      Args.withDescription("Backup number to restore (default: the latest)"),
+      Args.optional
+    ),
+  },
+  Effect.fn("backupRestoreCommand")(
+    function* ({ id }) {
+      const { backup, restored, skipped } =
+        yield* DatabaseService.restoreBackup(Option.getOrUndefined(id));
+      if (restored.length === 0) {
+        yield* Console.log(
+          `📭 Nothing restored from backup #${backup.id} (${backup.scope})`
+        );
+      } else {
+        yield* RenderService.renderTodos(restored, {
+          header: `♻️ Restored ${restored.length} todo(s) from backup #${backup.id} (${backup.scope}):`,
+        });
+      }
+      if (skipped.length > 0) {
+        yield* Console.log(
+          `⏭️ Skipped ${
+            skipped.length
+          } todo(s) whose ID is taken: ${skipped.join(", ")}`
+        );
+      }
+    },
+    Effect.catchTag("BackupNotFound", ({ id }) =>
+      Console.log(
+        id === undefined
+          ? "❌ No backups yet; `clear` takes one before removing"
+          : `❌ Backup #${id} not found; see 'backup list'`
+      )
+    )
+  )
+);
+
+/**
+ * CLI command group for managing the backups taken by `clear`.
+ *
+ * @since 1.0.0
+ */
+export const backupCommand = Command.make("backup").pipe(
+  Command.withSubcommands([backupListCommand, backupRestoreCommand])
+);
@@ -0,0 +1,91 @@
+/**
+ * HTTP cache command implementation.
+ *
+ * This module provides the `cache` command group for inspecting and emptying
+ * the cache of remote API responses (see HttpCacheService):
+ * - cache stats: Show how many responses are cached and how often they were reused
+ * - cache clear: Remove every cached response
+ *
+ * @since 1.0.0
+ */
+
+import { Command } from "@effect/cli";
+import { Effect, Console, Option } from "effect";
+import { HttpCacheService } from "../service/HttpCacheService.js";
+
+/**
+ * CLI command for showing cache statistics.
+ *
+ * @example
+ * ```bash
+ * pnpm dev cache stats
+ * ```
+ *
+ * Expected output:
+ * ```
+ * 🗄️ HTTP cache:
+ * Entries: 3
+ * Size: 412 bytes
+ * Hits (304 Not Modified): 7
+ * Oldest entry: 2024-05-01 10:15:00
+ * Newest entry: 2024-05-02 08:00:12
+ * ```
+ *
+ * @since 1.0.0
+ */
+const cacheStatsCommand = Command.make(
+  "stats",
+  {},
+  Effect.fn("cacheStatsCommand")(function* () {
+    const stats = yield* HttpCacheService.stats();
+    if (stats.entries === 0) {
+      yield* Console.log("🗄️ HTTP cache is empty");
+      return;
+    }
+    yield* Console.log("🗄️ HTTP cache:");
+    yield* Console.log(`Entries: ${stats.entries}`);
+    yield* Console.log(`Size: ${stats.bytes} bytes`);
+    yield* Console.log(`Hits (304 Not Modified): ${stats.hits}`);
+    if (Option.isSome(stats.oldest)) {
+      yield* Console.log(`Oldest entry: ${stats.oldest.value}`);
+    }
+    if (Option.isSome(stats.newest)) {
+      yield* Console.log(`Newest entry: ${stats.newest.value}`);
+    }
+  })
+);
+
+/**
+ * CLI command for removing every cached response.
+ *
+ * The next sync downloads every todo in full again.
+ *
+ * @example
+ * ```bash
+ * pnpm dev cache clear
+ * ```
+ *
+ * Expected output:
+ * ```
+ * ✅ Removed 3 cached response(s)
+ * ```
+ *
+ * @since 1.0.0
+ */
+const cacheClearCommand = Command.make(
+  "clear",
+  {},
+  Effect.fn("cacheClearCommand")(function* () {
+    const removed = yield* HttpCacheService.clear();
+    yield* Console.log(`✅ Removed ${removed} cached response(s)`);
+  })
+);
+
+/**
+ * CLI command group for managing the HTTP cache.
+ *
+ * @since 1.0.0
+ */
+export const cacheCommand = Command.make("cache").pipe(
+  Command.withSubcommands([cacheStatsCommand, cacheClearCommand])
+);
@@ -1,50 +1,170 @@
 /**
  * Todo clearing command implementation.
  *
- * This module provides the CLI command for removing all todo items
- * from the local database. This is a destructive operation that
- * cannot be undone, so it should be used with caution.
+ * This module provides the CLI command for removing todo items from the
+ * local database, all of them or those of a user, the completed ones or
+ * the synced ones. This is a destructive operation, so it should be used
+ * with caution: it asks for confirmation first, takes a backup that
+ * `backup restore` brings back, and `undo` right after it reverts it too.
  *
  * @since 1.0.0
  */
 
-import { Command } from "@effect/cli";
-import { Effect, Console } from "effect";
+import { Command, Options, Prompt } from "@effect/cli";
+import { Effect, Console, Option } from "effect";
 import { DatabaseService } from "../service/DatabaseService.js";
+import { PromptService } from "../service/PromptService.js";
+import { RenderService } from "../service/RenderService.js";
+import {
+  describeClearFilter,
+  type TodoClearFilter,
+} from "../domain/TodoBackup.js";
 
 /**
- * CLI command for clearing all todos from the local database.
+ * CLI command for clearing todos from the local database.
  *
  * This command:
- * - Removes all todo records from the database
- * - Provides confirmation message when operation completes
- * - Cannot be undone - all data will be permanently lost
+ * - Removes all todos, including the trash, or only those matching the
+ *   `--user`, `--completed-only` and `--synced-only` options (all of the
+ *   given ones). Synced todos are on the API without local changes, so a
+ *   sync brings them back
+ * - With `--dry-run`, lists the todos that would be removed and changes
+ *   nothing
+ * - Shows how many todos would be removed and asks to confirm by typing
+ *   that number, unless `--yes` is given. Without a terminal on standard
+ *   input (in scripts and pipes) it fails instead of asking, so scripts
+ *   have to pass `--yes`
+ * - Takes a timestamped backup of the removed todos first, which
+ *   `backup restore` brings back
+ * - Records the removed todos in the history, so `undo` can restore them
  * - Does not affect the database schema (table structure remains)
  *
+ * Subtasks that are not removed with their parent become top-level todos.
+ *
  * This is useful for:
  * - Cleaning up test data
  * - Resetting the application state
  * - Preparing for fresh data import
+ * - Dropping finished work that is safe on the API
  *
  * @example
  * ```bash
+ * # Confirm by typing the number of todos
  * pnpm dev clear
+ *
+ * # See which completed todos of user 1 would go
+ * pnpm dev clear --user 1 --completed-only --dry-run
+ *
+ * # Clear synced todos without asking, e.g. in a script
+ * pnpm dev clear --synced-only --yes
  * ```
  *
  * Expected output:
  * ```
- * ✅ Cleared all todos
+ * ? Delete all 5 todo(s), including 1 in the trash? Type 5 to confirm › 5
+ * ✅ Cleared all 5 todo(s)
+ * 💾 Backup #3 taken; restore it with 'backup restore 3'
  * ```
  *
- * @warning This operation permanently deletes all todo data and cannot be undone.
+ * @warning This operation deletes todo data; only `backup restore` or `undo`
+ * can bring it back.
  *
  * @since 1.0.0
  */
 export const clearTodosCommand = Command.make(
   "clear",
-  {},
-  Effect.fn("clearTodosCommand")(function* () {
-    yield* DatabaseService.clearAllTodos();
-    yield* Console.log("✅ Cleared all todos");
-  })
+  {
+    /** Only clear the todos of this user */
+    userId: Options.integer("user").pipe(
+      Options.withDescription("Only clear the todos of this user ID"),
+      Options.optional
+    ),
+    /** Only clear completed todos */
+    completedOnly: Options.boolean("completed-only").pipe(
+      Options.withDescription("Only clear completed todos")
+    ),
+    /** Only clear todos that are on the API without local changes */
+    syncedOnly: Options.boolean("synced-only").pipe(
+      Options.withDescription(
+        "Only clear todos that are on the API and have no local changes"
+      )
+    ),
+    /** List the matching todos instead of clearing them */
+    dryRun: Options.boolean("dry-run").pipe(
+      Options.withDescription(
+        "Show which todos would be cleared without clearing them"
+      )
+    ),
+    /** Skip the confirmation */
+    yes: Options.boolean("yes").pipe(
+      Options.withAlias("y"),
+      Options.withDescription("Clear without asking for confirmation")
+    ),
+  },
+  Effect.fn("clearTodosCommand")(
+    function* ({ userId, completedOnly, syncedOnly, dryRun, yes }) {
+      const filter: TodoClearFilter = {
+        ...(Option.isSome(userId) ? { userId: userId.value } : {}),
+        ...(completedOnly ? { completedOnly } : {}),
+        ...(syncedOnly ? { syncedOnly } : {}),
+      };
+      const scoped = Object.keys(filter).length > 0;
+      const scope = describeClearFilter(filter);
+      const describe = (count: number, trashed: number) =>
+        `${scoped ? `${count} todo(s) (${scope})` : `all ${count} todo(s)`}${
+          trashed > 0 ? `, including ${trashed} in the trash` : ""
+        }`;
+
+      const matching = yield* DatabaseService.clearTodos(filter, {
+        dryRun: true,
+      });
+      const total = matching.todos.length;
+      if (total === 0) {
+        yield* Console.log(
+          scoped ? `📭 No ${scope} to clear` : "📭 No todos to clear"
+        );
+        return;
+      }
+
+      if (dryRun) {
+        yield* RenderService.renderTodos(matching.todos, {
+          header: `🔍 Would clear ${describe(total, matching.trashed)}:`,
+          footer: "🚫 Nothing cleared (dry run)",
+        });
+        return;
+      }
+
+      if (!yes) {
+        const prompts = yield* PromptService;
+        const answer = yield* prompts.ask(
+          Prompt.text({
+            message: `Delete ${describe(
+              total,
+              matching.trashed
+            )}? Type ${total} to confirm`,
+          }),
+          "a confirmation"
+        );
+        if (answer.trim() !== String(total)) {
+          yield* Console.log("🚫 Nothing cleared");
+          return;
+        }
+      }
+
+      const { todos, backup } = yield* DatabaseService.clearTodos(filter);
+      if (backup === undefined) {
+        yield* Console.log("📭 Nothing left to clear");
+        return;
+      }
+      yield* Console.log(`✅ Cleared ${describe(todos.length, 0)}`);
+      yield* Console.log(
+        `💾 Backup #${backup.id} taken; restore it with 'backup restore ${backup.id}'`
+      );
+    },
+    Effect.catchTags({
+      NotInteractive: ({ message }) =>
+        Console.log(`❌ ${message}; pass --yes to clear anyway`),
+      QuitException: () => Console.log("🚫 Nothing cleared"),
+    })
+  )
 );
@@ -0,0 +1,190 @@
+/**
+ * Configuration command implementation.
+ *
+ * This module provides the `config` command group for inspecting and changing
+ * the CLI settings (see ConfigService for how they are resolved):
+ * - config get: Show the effective value of one setting and where it came from
+ * - config set: Store a setting in the project or user config file
+ * - config list: Show the effective value and source of every setting
+ *
+ * @since 1.0.0
+ */
+
+import { Command, Args, Options } from "@effect/cli";
+import { Effect, Console, Schema } from "effect";
+import {
+  ConfigKey,
+  configCodecs,
+  type TodoConfig,
+  type ResolvedSetting,
+} from "../domain/Config.js";
+import {
+  ConfigService,
+  configSettings,
+  formatConfigSource,
+} from "../service/ConfigService.js";
+
+/**
+ * Argument selecting one of the settings by name.
+ * @since 1.0.0
+ */
+const keyArg = Args.choice(
+  ConfigKey.literals.map((key) => [key, key] as const),
+  { name: "key" }
+).pipe(Args.withDescription(`Setting name (${ConfigKey.literals.join(", ")})`));
+
+/**
+ * Formats a setting value for console output, hiding secret values.
+ * Structured values (rates, durations) are shown in their string form.
+ * @since 1.0.0
+ */
+const formatValue = <K extends ConfigKey>(
+  key: K,
+  value: TodoConfig[K]
+): string =>
+  configSettings[key].secret && value !== ""
+    ? "<hidden>"
+    : typeof value === "object"
+    ? Schema.encodeSync(configCodecs[key])(value)
+    : String(value);
+
+/**
+ * Formats a resolved setting as `key = value (source)`.
+ * @since 1.0.0
+ */
+const formatSetting = (setting: ResolvedSetting<ConfigKey>): string =>
+  `${setting.key} = ${formatValue(
+    setting.key,
+    setting.value
+  )} (${formatConfigSource(setting.source)})`;
+
+/**
+ * CLI command for showing the effective value of a single setting.
+ *
+ * @example
+ * ```bash
+ * TODO_FORMAT=table pnpm dev config get format
+ * ```
+ *
+ * Expected output:
+ * ```
+ * format = table (env TODO_FORMAT)
+ * ```
+ *
+ * @since 1.0.0
+ */
+const configGetCommand = Command.make(
+  "get",
+  { key: keyArg },
+  Effect.fn("configGetCommand")(function* ({ key }) {
+    const config = yield* ConfigService;
+    const setting = yield* config.resolve(key);
+    yield* Console.log(formatSetting(setting));
+  })
+);
+
+/**
+ * CLI command for storing a setting in a config file.
+ *
+ * By default the setting is written to the nearest `.todorc.json` (or a new
+ * one in the current directory); with `--global` it goes to the user config
+ * file. The value is validated before anything is written.
+ *
+ * @example
+ * ```bash
+ * # Use a shared database for this project
+ * pnpm dev config set dbPath data/todos.db
+ *
+ * # Default to table output everywhere
+ * pnpm dev config set --global format table
+ * ```
+ *
+ * Expected output:
+ * ```
+ * ✅ Set format = table in /home/me/.config/todo/config.json
+ * ```
+ *
+ * @since 1.0.0
+ */
+const configSetCommand = Command.make(
+  "set",
+  {
+    key: keyArg,
+    /** The new value, in the same form as the flag or environment variable */
+    value: Args.text({ name: "value" }).pipe(
+      Args.withDescription("Value to store")
+    ),
+    /** Write to the user config file instead of the project one */
+    global: Options.boolean("global").pipe(
+      Options.withDescription(
+        "Store the setting in the user config file instead of .todorc.json"
+      )
+    ),
+  },
+  Effect.fn("configSetCommand")(function* ({ key, value, global }) {
+    const file = yield* ConfigService.set(
+      key,
+      value,
+      global ? "user" : "project"
+    );
+    yield* Console.log(`✅ Set ${key} = ${formatValue(key, value)} in ${file}`);
+  })
+);
+
+/**
+ * CLI command for showing every setting with its effective value and source.
+ *
+ * @example
+ * ```bash
+ * pnpm dev --format json config list
+ * ```
+ *
+ * Expected output:
+ * ```
+ * ⚙️ Settings:
+ * dbPath = /work/todos.db (default)
+ *   Path to the SQLite database file (--db, TODO_DB_PATH)
+ * concurrency = 1 (default)
+ *   Default sync concurrency (positive integer or 'unbounded') (--concurrency, TODO_CONCURRENCY)
+ * format = json (flag --format)
+ *   Default output format (pretty, json, ndjson, csv or table) (--format, TODO_FORMAT)
+ * apiUrl = https://jsonplaceholder.typicode.com (default)
+ *   Base URL of the remote todo API (TODO_API_URL)
+ * apiAuth =  (default)
+ *   Authorization header sent to the remote todo API (e.g. 'Bearer <token>') (TODO_API_AUTH)
+ * source = rest (default)
+ *   Remote backend to sync with (rest, file or fake) (--source, TODO_SOURCE)
+ * sourceFile = /work/remote-todos.json (default)
+ *   Todo file of the file backend (.json, or .ndjson/.jsonl) (TODO_SOURCE_FILE)
+ * ```
+ *
+ * @since 1.0.0
+ */
+const configListCommand = Command.make(
+  "list",
+  {},
+  Effect.fn("configListCommand")(function* () {
+    const settings = yield* ConfigService.list();
+    yield* Console.log("⚙️ Settings:");
+    for (const setting of settings) {
+      const { description, flag, env } = configSettings[setting.key];
+      yield* Console.log(formatSetting(setting));
+      yield* Console.log(
+        `  ${description} (${flag === undefined ? env : `${flag}, ${env}`})`
+      );
+    }
+  })
+);
+
+/**
+ * CLI command group for showing and changing settings.
+ *
+ * @since 1.0.0
+ */
+export const configCommand = Command.make("config").pipe(
+  Command.withSubcommands([
+    configGetCommand,
+    configSetCommand,
+    configListCommand,
+  ])
+);
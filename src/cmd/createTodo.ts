@@ -2,26 +2,48 @@
  * Todo creation command implementation.
  *
  * This module provides the CLI command for creating new todo items in the local database.
- * It handles user input validation, todo creation, and user feedback.
+ * It handles user input validation, prompting for missing fields, todo creation,
+ * and user feedback.
  *
  * @since 1.0.0
  */
 
-import { Command, Args } from "@effect/cli";
-import { Effect, Console, Option } from "effect";
+import { Command, Args, Options, Prompt } from "@effect/cli";
+import { Effect, Console, DateTime, Either, Option, Schema } from "effect";
 import { DatabaseService } from "../service/DatabaseService.js";
-import { Todo } from "../domain/Todo.js";
+import { PromptService } from "../service/PromptService.js";
+import { Todo, TodoTitle } from "../domain/Todo.js";
+import { parseDueDate } from "../domain/DueDate.js";
+
+/**
+ * Checks a title typed at the prompt against the Todo schema, so that the
+ * prompt asks again instead of the todo failing to save.
+ */
+const validateTitle = (title: string) =>
+  Schema.decode(TodoTitle)(title).pipe(
+    Effect.mapError(() => "The title must be 1 to 255 characters long")
+  );
 
 /**
  * CLI command for creating a new todo item.
  *
  * This command allows users to create new todos with:
- * - Required user ID (integer)
- * - Required title (string, 1-255 characters)
+ * - User ID (integer)
+ * - Title (string, 1-255 characters)
  * - Optional completion status (boolean, defaults to false)
+ * - Optional `--due` date, either relative (`tomorrow`, `+3d`, `next friday`)
+ *   or an ISO date
+ * - Optional `--parent` todo ID, making the new todo a subtask of that todo
+ * - Optional `--allow-unknown-user` flag, needed to create a todo for a user
+ *   that is not in the local database
+ *
+ * When the user ID or the title is left out, the command asks for it, and for
+ * the completion status, in the terminal; the title is checked as it is
+ * entered. Without a terminal on standard input (in scripts and pipes) it
+ * fails instead of asking.
  *
  * The command validates all inputs using the Todo schema, ensuring:
- * - User ID is a valid integer
+ * - User ID is a valid integer of a known user (see `user list`)
  * - Title is non-empty and within the 255 character limit
  * - Completion status is a valid boolean
  *
@@ -35,6 +57,15 @@ import { Todo } from "../domain/Todo.js";
  *
  * # Create a todo with default completion status (false)
  * pnpm dev create 1 "Write documentation"
+ *
+ * # Create a todo due next Friday
+ * pnpm dev create --due "next friday" 1 "Prepare the demo"
+ *
+ * # Create a subtask of todo 5
+ * pnpm dev create --parent 5 1 "Write the slides"
+ *
+ * # Ask for the user ID, the title and the completion status
+ * pnpm dev create
  * ```
  *
  * Expected output:
@@ -48,35 +79,125 @@ import { Todo } from "../domain/Todo.js";
 export const createTodoCommand = Command.make(
   "create",
   {
-    /** User ID for the todo (must be a positive integer) */
+    /** User ID for the todo (asked for when left out) */
     userId: Args.integer({ name: "user-id" }).pipe(
-      Args.withDescription("User ID for the todo")
+      Args.withDescription("User ID for the todo (asked for when left out)"),
+      Args.optional
     ),
-    /** Todo title (must be non-empty and less than 255 characters) */
+    /** Todo title, 1-255 characters (asked for when left out) */
     title: Args.text({ name: "title" }).pipe(
-      Args.withDescription("Todo title")
+      Args.withDescription("Todo title (asked for when left out)"),
+      Args.optional
     ),
     /** Whether the todo is completed (optional, defaults to false) */
     completed: Args.boolean({ name: "completed" }).pipe(
       Args.withDescription("Whether the todo is completed"),
       Args.optional
     ),
+    /** When the todo is due (optional) */
+    due: Options.text("due").pipe(
+      Options.withDescription(
+        "Due date: today, tomorrow, +3d, +2w, a day name like next friday, or an ISO date"
+      ),
+      Options.optional
+    ),
+    /** The todo to create this todo as a subtask of (optional) */
+    parent: Options.integer("parent").pipe(
+      Options.withDescription("Create the todo as a subtask of this todo ID"),
+      Options.optional
+    ),
+    /** Accept a user that is not in the local database */
+    allowUnknownUser: Options.boolean("allow-unknown-user").pipe(
+      Options.withDescription(
+        "Create the todo even if the user is not in the local database"
+      )
+    ),
   },
-  Effect.fn("createTodoCommand")(function* ({
-    userId,
-    title,
-    completed,
-  }: {
-    userId: number;
-    title: string;
-    completed: Option.Option<boolean>;
-  }) {
-    const todo = yield* DatabaseService.createTodo({
+  Effect.fn("createTodoCommand")(
+    function* ({
       userId,
       title,
-      completed: Option.getOrElse(completed, () => false),
-    });
-    yield* Console.log("✅ Created new todo:");
-    yield* Console.log(Todo.pretty(todo));
-  })
+      completed,
+      due,
+      parent,
+      allowUnknownUser,
+    }: {
+      userId: Option.Option<number>;
+      title: Option.Option<string>;
+      completed: Option.Option<boolean>;
+      due: Option.Option<string>;
+      parent: Option.Option<number>;
+      allowUnknownUser: boolean;
+    }) {
+      const now = DateTime.setZone(
+        yield* DateTime.now,
+        DateTime.zoneMakeLocal()
+      );
+      const dueAt = Option.isSome(due)
+        ? parseDueDate(due.value, now)
+        : undefined;
+      if (dueAt !== undefined && Either.isLeft(dueAt)) {
+        yield* Console.log(`❌ ${dueAt.left}`);
+        return;
+      }
+
+      // Ask for the missing fields, or fail before asking anything when
+      // there is no one to ask
+      const prompts = yield* PromptService;
+      const missing = [
+        ...(Option.isNone(userId) ? ["the user ID"] : []),
+        ...(Option.isNone(title) ? ["the title"] : []),
+      ];
+      if (missing.length > 0) {
+        yield* prompts.ensureInteractive(missing.join(" and "));
+      }
+      const resolvedUserId = Option.isSome(userId)
+        ? userId.value
+        : yield* prompts.ask(
+            Prompt.integer({ message: "User ID", min: 1 }),
+            "the user ID"
+          );
+      const resolvedTitle = Option.isSome(title)
+        ? title.value
+        : yield* prompts.ask(
+            Prompt.text({ message: "Title", validate: validateTitle }),
+            "the title"
+          );
+      // The completion status can only be given after the title
+      const resolvedCompleted = Option.isSome(completed)
+        ? completed.value
+        : Option.isNone(title)
+        ? yield* prompts.ask(
+            Prompt.confirm({ message: "Already completed?", initial: false }),
+            "the completion status"
+          )
+        : false;
+
+      const todo = yield* DatabaseService.createTodo(
+        {
+          userId: resolvedUserId,
+          title: resolvedTitle,
+          completed: resolvedCompleted,
+          ...(dueAt !== undefined ? { dueAt: dueAt.right } : {}),
+          ...(Option.isSome(parent) ? { parentId: parent.value } : {}),
+        },
+        { allowUnknownUser }
+      );
+      yield* Console.log("✅ Created new todo:");
+      yield* Console.log(Todo.pretty(todo));
+    },
+    Effect.catchTags({
+      TodoNotFound: ({ id }) =>
+        Console.log(`❌ Parent todo ${id} not found in local database`),
+      UserNotFound: ({ id }) =>
+        Console.log(
+          `❌ User ${id} not found in local database; add it with 'user add', sync it, or pass --allow-unknown-user`
+        ),
+      NotInteractive: ({ message }) =>
+        Console.log(
+          `❌ ${message}; usage: create <user-id> <title> [completed]`
+        ),
+      QuitException: () => Console.log("🚫 Cancelled; no todo created"),
+    })
+  )
 );
@@ -0,0 +1,71 @@
+/**
+ * Todo deletion command implementation.
+ *
+ * This module provides the CLI command for moving one or more todo items
+ * to the trash. Deleted todos are hidden from `get` and `list` but can be
+ * brought back with `trash restore` until the trash is emptied.
+ *
+ * @since 1.0.0
+ */
+
+import { Command, Args } from "@effect/cli";
+import { Effect, Console } from "effect";
+import { DatabaseService } from "../service/DatabaseService.js";
+
+/**
+ * CLI command for moving todos to the trash.
+ *
+ * This command:
+ * - Takes one or more integer ID arguments
+ * - Soft-deletes each todo by moving it to the trash, together with its
+ *   subtasks
+ * - Reports IDs that do not exist (or are already in the trash) and continues
+ *   with the remaining ones
+ *
+ * @example
+ * ```bash
+ * # Delete a single todo
+ * pnpm dev delete 3
+ *
+ * # Delete several todos at once
+ * pnpm dev delete 3 4 5
+ * ```
+ *
+ * Expected output:
+ * ```
+ * 🗑️ Moved todo 3 to trash: "Master TypeScript"
+ * ❌ Todo 99 not found in local database
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const deleteTodosCommand = Command.make(
+  "delete",
+  {
+    /** IDs of the todos to move to the trash */
+    ids: Args.repeated(Args.integer({ name: "id" })).pipe(
+      Args.withDescription("Todo IDs to move to the trash")
+    ),
+  },
+  Effect.fn("deleteTodosCommand")(function* ({ ids }) {
+    if (ids.length === 0) {
+      yield* Console.log("❌ Please provide at least one todo ID to delete");
+      return;
+    }
+
+    for (const id of ids) {
+      yield* DatabaseService.deleteTodo(id).pipe(
+        Effect.flatMap(({ todo, subtasks }) =>
+          Console.log(
+            subtasks === 0
+              ? `🗑️ Moved todo ${todo.id} to trash: "${todo.title}"`
+              : `🗑️ Moved todo ${todo.id} and ${subtasks} subtask(s) to trash: "${todo.title}"`
+          )
+        ),
+        Effect.catchTag("TodoNotFound", ({ id }) =>
+          Console.log(`❌ Todo ${id} not found in local database`)
+        )
+      );
+    }
+  })
+);
@@ -0,0 +1,193 @@
+/**
+ * Due date command implementations.
+ *
+ * This module provides the CLI commands for listing pending todos by the day
+ * they are due:
+ * - due: Show every pending todo with a due date, or those due within a few days
+ * - overdue: Show the pending todos due on a day that has passed
+ *
+ * Due dates are set with `create --due` and `update --due`.
+ *
+ * @since 1.0.0
+ */
+
+import { Command, Options } from "@effect/cli";
+import { Effect, DateTime, Option, Schema, type Types } from "effect";
+import { DatabaseService } from "../service/DatabaseService.js";
+import { RenderService } from "../service/RenderService.js";
+import { groupByDueDay, type DueDay } from "../domain/DueDate.js";
+import type { TodoQuery } from "../domain/TodoQuery.js";
+
+/**
+ * Option for only listing the todos of one user.
+ */
+const userOption = Options.integer("user").pipe(
+  Options.withDescription("Only list todos of this user ID"),
+  Options.optional
+);
+
+/**
+ * Turns days of due todos into headings such as
+ * `📅 Friday 2026-10-23 (in 4 days)`, relative to today.
+ */
+const withHeadings = (
+  days: ReadonlyArray<DueDay>,
+  today: DateTime.Zoned
+): Array<DueDay & { readonly heading: string }> => {
+  const todayMillis = Date.parse(DateTime.formatIsoDate(today));
+  return days.map((day) => {
+    const ahead = Math.round(
+      (Date.parse(day.day) - todayMillis) / (24 * 60 * 60 * 1000)
+    );
+    const relative =
+      ahead < 0
+        ? `${-ahead} day(s) overdue`
+        : ahead === 0
+        ? "today"
+        : ahead === 1
+        ? "tomorrow"
+        : `in ${ahead} days`;
+    return {
+      ...day,
+      heading: `📅 ${day.weekDay} ${day.day} (${relative})`,
+    };
+  });
+};
+
+/**
+ * Lists the pending todos matching a query by the day they are due.
+ */
+const renderDueTodos = Effect.fn("renderDueTodos")(function* (
+  query: TodoQuery,
+  now: DateTime.Zoned,
+  texts: {
+    readonly header: string;
+    readonly empty: string;
+    readonly count: string;
+  }
+) {
+  const { todos, total } = yield* DatabaseService.queryTodos(query);
+  yield* RenderService.renderTodoGroups(
+    withHeadings(groupByDueDay(todos, now.zone), now),
+    {
+      header: texts.header,
+      footer: total === 0 ? texts.empty : `${total} ${texts.count}`,
+    }
+  );
+});
+
+/**
+ * CLI command for listing pending todos by due date.
+ *
+ * This command:
+ * - Retrieves the pending todos with a due date, soonest first
+ * - Limits them to those due within the next `--days` days (today included),
+ *   overdue ones included, when the option is given
+ * - Groups them by the day they are due, in the local time zone
+ * - Displays the todos in the format selected with the global `--format`
+ *   option; only the pretty format shows the day headings
+ *
+ * @example
+ * ```bash
+ * # Every pending todo with a due date
+ * pnpm dev due
+ *
+ * # What is due this week for user 1
+ * pnpm dev due --days 7 --user 1
+ * ```
+ *
+ * Expected output:
+ * ```
+ * 📅 Todos by Due Date:
+ * 📅 Monday 2026-10-19 (today)
+ * Todo({ "userId": 1, "id": 3, "title": "Write documentation", "completed": "pending", "dueAt": DateTime.Utc(2026-10-18T22:00:00.000Z) })
+ * ---
+ * 📅 Friday 2026-10-23 (in 4 days)
+ * Todo({ "userId": 1, "id": 5, "title": "Prepare the demo", "completed": "pending", "dueAt": DateTime.Utc(2026-10-22T22:00:00.000Z) })
+ * ---
+ * 2 todo(s) due
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const dueTodosCommand = Command.make(
+  "due",
+  {
+    /** Only list todos owned by this user */
+    userId: userOption,
+    /** Only list todos due within this many days */
+    days: Options.integer("days").pipe(
+      Options.withDescription(
+        "Only list todos due within this many days, counting from today (0 for today only)"
+      ),
+      Options.withSchema(Schema.Int.pipe(Schema.nonNegative())),
+      Options.optional
+    ),
+  },
+  Effect.fn("dueTodosCommand")(function* ({ userId, days }) {
+    const now = DateTime.setZone(yield* DateTime.now, DateTime.zoneMakeLocal());
+    const query: Types.Mutable<TodoQuery> = {
+      status: "pending",
+      hasDueDate: true,
+      sort: "due",
+    };
+    if (Option.isSome(userId)) query.userId = userId.value;
+    if (Option.isSome(days)) {
+      query.dueBefore = DateTime.toUtc(
+        DateTime.add(DateTime.startOf(now, "day"), { days: days.value + 1 })
+      );
+    }
+
+    yield* renderDueTodos(query, now, {
+      header: "📅 Todos by Due Date:",
+      empty: "No pending todos with a due date",
+      count: "todo(s) due",
+    });
+  })
+);
+
+/**
+ * CLI command for listing overdue todos.
+ *
+ * A todo is overdue when it is still pending and was due on a day before
+ * today, in the local time zone. The todos are grouped by the day they were
+ * due, the longest overdue first.
+ *
+ * @example
+ * ```bash
+ * pnpm dev overdue
+ * ```
+ *
+ * Expected output:
+ * ```
+ * ⏰ Overdue Todos:
+ * 📅 Thursday 2026-10-15 (4 day(s) overdue)
+ * Todo({ "userId": 1, "id": 2, "title": "Build a CLI app", "completed": "pending", "dueAt": DateTime.Utc(2026-10-14T22:00:00.000Z) })
+ * ---
+ * 1 overdue todo(s)
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const overdueTodosCommand = Command.make(
+  "overdue",
+  {
+    /** Only list todos owned by this user */
+    userId: userOption,
+  },
+  Effect.fn("overdueTodosCommand")(function* ({ userId }) {
+    const now = DateTime.setZone(yield* DateTime.now, DateTime.zoneMakeLocal());
+    const query: Types.Mutable<TodoQuery> = {
+      status: "pending",
+      dueBefore: DateTime.toUtc(DateTime.startOf(now, "day")),
+      sort: "due",
+    };
+    if (Option.isSome(userId)) query.userId = userId.value;
+
+    yield* renderDueTodos(query, now, {
+      header: "⏰ Overdue Todos:",
+      empty: "✅ Nothing is overdue",
+      count: "overdue todo(s)",
+    });
+  })
+);
@@ -0,0 +1,90 @@
+/**
+ * Todo export command implementation.
+ *
+ * This module provides the CLI command for writing the local todos to a
+ * JSON, NDJSON or CSV file, e.g. to move them to another machine with
+ * `import` or to open them in a spreadsheet.
+ *
+ * @since 1.0.0
+ */
+
+import { Command, Options } from "@effect/cli";
+import { Effect, Console, Option, Schema } from "effect";
+import { FileSystem } from "@effect/platform";
+import { DatabaseService } from "../service/DatabaseService.js";
+import { formatCsv } from "../service/RenderService.js";
+import { Todo } from "../domain/Todo.js";
+import { TodoFileFormat, formatFromPath } from "../domain/TodoFile.js";
+
+/**
+ * CLI command for exporting the local todos to a file.
+ *
+ * This command:
+ * - Reads every todo outside the trash from the local database
+ * - Encodes them with the Todo schema, so that `completed` is a real boolean
+ * - Writes them as a JSON array, one JSON todo per line (NDJSON) or CSV with
+ *   a header row, in the format given with `--format`, or else the format
+ *   matching the extension of `--out` (JSON for other extensions)
+ * - Prints the file to the console instead when `--out` is omitted
+ *
+ * Exported files can be read back with `import`.
+ *
+ * @example
+ * ```bash
+ * # Export to a spreadsheet
+ * pnpm dev export --out todos.csv
+ *
+ * # Export as NDJSON to the console
+ * pnpm dev export --format ndjson
+ * ```
+ *
+ * Expected output:
+ * ```
+ * 📦 Exported 5 todo(s) to todos.csv (csv)
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const exportTodosCommand = Command.make(
+  "export",
+  {
+    /** Format of the exported file */
+    format: Options.choice("format", TodoFileFormat.literals).pipe(
+      Options.withDescription(
+        "File format: json, ndjson or csv (default: from the extension of --out, else json)"
+      ),
+      Options.optional
+    ),
+    /** File to write the todos to */
+    out: Options.file("out").pipe(
+      Options.withDescription(
+        "File to write the todos to (default: print them to the console)"
+      ),
+      Options.optional
+    ),
+  },
+  Effect.fn("exportTodosCommand")(function* ({ format, out }) {
+    const fileFormat = Option.getOrElse(
+      Option.orElse(format, () => Option.flatMap(out, formatFromPath)),
+      () => "json" as const
+    );
+    const todos = yield* DatabaseService.getAllTodos();
+    const encoded = yield* Schema.encode(Schema.Array(Todo))(todos);
+    const content =
+      fileFormat === "json"
+        ? JSON.stringify(encoded, null, 2)
+        : fileFormat === "ndjson"
+        ? encoded.map((todo) => JSON.stringify(todo)).join("\n")
+        : formatCsv(encoded);
+
+    if (Option.isNone(out)) {
+      yield* Console.log(content);
+      return;
+    }
+    const fs = yield* FileSystem.FileSystem;
+    yield* fs.writeFileString(out.value, `${content}\n`);
+    yield* Console.log(
+      `📦 Exported ${todos.length} todo(s) to ${out.value} (${fileFormat})`
+    );
+  })
+);
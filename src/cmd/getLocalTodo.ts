@@ -11,7 +11,7 @@
 import { Command, Args } from "@effect/cli";
 import { Effect, Console } from "effect";
 import { DatabaseService } from "../service/DatabaseService.js";
-import { Todo } from "../domain/Todo.js";
+import { RenderService } from "../service/RenderService.js";
 
 /**
  * CLI command for retrieving a todo by ID from the local database.
@@ -19,7 +19,7 @@ import { Todo } from "../domain/Todo.js";
  * This command:
  * - Takes a required integer ID argument
  * - Queries the local database for the todo
- * - Displays the todo in a formatted way using the pretty printer
+ * - Displays the todo in the format selected with the global `--format` option
  * - Handles "not found" cases with user-friendly messages
  *
  * @example
@@ -29,6 +29,9 @@ import { Todo } from "../domain/Todo.js";
  *
  * # Try to retrieve non-existent todo
  * pnpm dev get 999
+ *
+ * # Retrieve todo with ID 1 as JSON
+ * pnpm dev --format json get 1
  * ```
  *
  * Expected output (success):
@@ -55,8 +58,9 @@ export const getLocalTodoCommand = Command.make(
   Effect.fn("getLocalTodoCommand")(
     function* ({ id }) {
       const todo = yield* DatabaseService.getTodoById(id);
-      yield* Console.log("💾 From Local Database:");
-      yield* Console.log(Todo.pretty(todo));
+      yield* RenderService.renderTodo(todo, {
+        header: "💾 From Local Database:",
+      });
     },
     Effect.catchTag("TodoNotFound", ({ id }) =>
       Console.log(`❌ Todo ${id} not found in local database`)
@@ -0,0 +1,208 @@
+/**
+ * Change history command implementations.
+ *
+ * This module provides the CLI commands for reviewing and reverting the
+ * writes recorded in the history:
+ * - history: Show how one todo changed over time
+ * - log: Show every recorded write, optionally only recent ones
+ * - undo: Revert the most recent writes
+ *
+ * Every write to todos made through the CLI (create, update, delete, sync,
+ * import, clear...) is recorded as one numbered operation.
+ *
+ * @since 1.0.0
+ */
+
+import { Command, Args, Options } from "@effect/cli";
+import { Effect, Console, Duration, Option, Schema } from "effect";
+import { DatabaseService } from "../service/DatabaseService.js";
+import { describeEvent, type TodoOperation } from "../domain/TodoHistory.js";
+import { OlderThanSchema } from "./trash.js";
+
+/**
+ * Heading of an operation, e.g. `#12 2026-10-19 14:03:11 update`.
+ */
+const heading = (operation: TodoOperation): string =>
+  `#${operation.id} ${operation.at} ${operation.name}`;
+
+/**
+ * Note on the undo that reverted an operation, if any.
+ */
+const undoneNote = (operation: TodoOperation): string =>
+  operation.undoneBy !== undefined ? ` (undone by #${operation.undoneBy})` : "";
+
+/**
+ * Number of different todos an operation changed.
+ */
+const changedTodos = (operation: TodoOperation): number =>
+  new Set(operation.events.map((event) => event.todoId)).size;
+
+/**
+ * CLI command for showing the history of a todo.
+ *
+ * Lists every recorded write that changed the todo, oldest first, with the
+ * fields it changed. Todos in the trash and todos deleted for good keep
+ * their history.
+ *
+ * @example
+ * ```bash
+ * pnpm dev history 3
+ * ```
+ *
+ * Expected output:
+ * ```
+ * 📜 History of todo 3:
+ * #4 2026-10-19 14:03:11 create: created "Write the docs"
+ * #7 2026-10-19 14:05:42 update: title: "Write the docs" → "Write the README", status: pending → completed
+ * #9 2026-10-19 14:10:03 delete (undone by #10): moved to trash
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const historyCommand = Command.make(
+  "history",
+  {
+    /** The ID of the todo whose history to show */
+    id: Args.integer({ name: "id" }).pipe(
+      Args.withDescription("Todo ID to show the history of")
+    ),
+  },
+  Effect.fn("historyCommand")(
+    function* ({ id }) {
+      const operations = yield* DatabaseService.getTodoHistory(id);
+      if (operations.length === 0) {
+        yield* Console.log(`📜 No recorded changes for todo ${id}`);
+        return;
+      }
+      yield* Console.log(`📜 History of todo ${id}:`);
+      for (const operation of operations) {
+        yield* Console.log(
+          `${heading(operation)}${undoneNote(operation)}: ${operation.events
+            .map(describeEvent)
+            .join("; ")}`
+        );
+      }
+    },
+    Effect.catchTag("TodoNotFound", ({ id }) =>
+      Console.log(`❌ Todo ${id} not found in local database`)
+    )
+  )
+);
+
+/**
+ * CLI command for showing the recorded writes.
+ *
+ * Lists the writes oldest first, each with the todos it changed. Undone
+ * writes stay in the log, marked with the undo that reverted them.
+ *
+ * @example
+ * ```bash
+ * # Everything recorded
+ * pnpm dev log
+ *
+ * # What changed in the last two hours
+ * pnpm dev log --since 2h
+ * ```
+ *
+ * Expected output:
+ * ```
+ * 📜 Changes in the last 2h:
+ * #12 2026-10-19 14:03:11 sync, 2 todo(s)
+ *   todo 1: title: "Learn Effect" → "Learn Effect in depth"
+ *   todo 7: created "Review the release notes"
+ * #13 2026-10-19 14:20:45 clear, 5 todo(s) (undone by #14)
+ *   todo 1: deleted "Learn Effect in depth" for good
+ *   ...
+ * #14 2026-10-19 14:21:02 undo, 5 todo(s)
+ *   ...
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const logCommand = Command.make(
+  "log",
+  {
+    /** Only show writes made at most this long ago */
+    since: Options.text("since").pipe(
+      Options.withDescription(
+        "Only show changes made within this long (e.g. 30m, 12h, 7d, 2w)"
+      ),
+      Options.withSchema(OlderThanSchema),
+      Options.optional
+    ),
+  },
+  Effect.fn("logCommand")(function* ({ since }) {
+    const operations = yield* DatabaseService.getOperations(
+      Option.getOrUndefined(since)
+    );
+    const period = Option.match(since, {
+      onNone: () => "",
+      onSome: (duration) => ` in the last ${Duration.format(duration)}`,
+    });
+    if (operations.length === 0) {
+      yield* Console.log(`📜 No changes recorded${period}`);
+      return;
+    }
+    yield* Console.log(`📜 Changes${period}:`);
+    for (const operation of operations) {
+      yield* Console.log(
+        `${heading(operation)}, ${changedTodos(operation)} todo(s)${undoneNote(
+          operation
+        )}`
+      );
+      for (const event of operation.events) {
+        yield* Console.log(`  todo ${event.todoId}: ${describeEvent(event)}`);
+      }
+    }
+  })
+);
+
+/**
+ * CLI command for undoing the most recent writes.
+ *
+ * Puts every todo the writes touched back the way it was before, newest
+ * write first. Writes that were already undone are skipped, so running
+ * `undo` again goes further back. The undo itself shows up in the log.
+ *
+ * Undo only changes the local database: a change that was already pushed
+ * stays on the API until the next push.
+ *
+ * @example
+ * ```bash
+ * # Undo the last write
+ * pnpm dev undo
+ *
+ * # Undo the last three writes
+ * pnpm dev undo --steps 3
+ * ```
+ *
+ * Expected output:
+ * ```
+ * ↩️ Undid #13 clear, 5 todo(s)
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const undoCommand = Command.make(
+  "undo",
+  {
+    /** How many writes to undo */
+    steps: Options.integer("steps").pipe(
+      Options.withDescription("Number of recent changes to undo"),
+      Options.withSchema(Schema.Int.pipe(Schema.positive())),
+      Options.withDefault(1)
+    ),
+  },
+  Effect.fn("undoCommand")(function* ({ steps }) {
+    const undone = yield* DatabaseService.undoOperations(steps);
+    if (undone.length === 0) {
+      yield* Console.log("📭 Nothing to undo");
+      return;
+    }
+    for (const operation of undone) {
+      yield* Console.log(
+        `↩️ Undid ${heading(operation)}, ${changedTodos(operation)} todo(s)`
+      );
+    }
+  })
+);
@@ -0,0 +1,143 @@
+/**
+ * Todo import command implementation.
+ *
+ * This module provides the CLI command for reading todos from a JSON, NDJSON
+ * or CSV file (such as one written by `export`) into the local database.
+ * Every todo is validated on its own, invalid ones are reported by line, and
+ * the valid ones are written in a single transaction.
+ *
+ * @since 1.0.0
+ */
+
+import { Command, Args, Options } from "@effect/cli";
+import { Effect, Console, Either, Option } from "effect";
+import { FileSystem } from "@effect/platform";
+import { DatabaseService } from "../service/DatabaseService.js";
+import {
+  ImportMode,
+  TodoFileFormat,
+  formatFromPath,
+  parseTodoFile,
+} from "../domain/TodoFile.js";
+
+/**
+ * CLI command for importing todos from a file.
+ *
+ * This command:
+ * - Reads the file in the format given with `--format`, or else the format
+ *   matching its extension (`.json`, `.ndjson`/`.jsonl` or `.csv`)
+ * - Decodes every todo with the Todo schema, and reports each invalid one
+ *   with its line number and the validation error
+ * - Writes the valid todos in a single transaction: with `--mode merge` (the
+ *   default) new todos are added and local todos with the same ID are
+ *   overwritten; with `--mode replace` every local todo is removed first
+ * - Marks imported todos as local changes, so `push` sends them to the API
+ * - With `--dry-run`, reports what would change without writing anything
+ *
+ * @example
+ * ```bash
+ * # Add the todos of an export, overwriting todos with the same ID
+ * pnpm dev import todos.csv
+ *
+ * # See what replacing all local todos would do
+ * pnpm dev import --mode replace --dry-run backup.json
+ * ```
+ *
+ * Expected output:
+ * ```
+ * ❌ Line 3: Invalid todo
+ *    { readonly userId: UserId; readonly id: TodoId; readonly title: TodoTitle; readonly completed: CompletedField }
+ *    └─ ["title"]
+ *       └─ Title cannot be empty
+ * 📥 Imported 4 todo(s) from todos.csv: 3 added, 1 updated, 0 unchanged
+ * ⚠️ Skipped 1 invalid todo(s)
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const importTodosCommand = Command.make(
+  "import",
+  {
+    args: {
+      /** File to read the todos from */
+      file: Args.file({ name: "file", exists: "yes" }).pipe(
+        Args.withDescription("JSON, NDJSON or CSV file of todos to import")
+      ),
+    },
+    options: {
+      /** How to combine the imported todos with the local ones */
+      mode: Options.choice("mode", ImportMode.literals).pipe(
+        Options.withDescription(
+          "merge: add and overwrite todos by ID; replace: remove all local todos first (default: merge)"
+        ),
+        Options.withDefault("merge" as const)
+      ),
+      /** Report what would change without writing */
+      dryRun: Options.boolean("dry-run").pipe(
+        Options.withDescription(
+          "Validate the file and report what would change without writing anything"
+        )
+      ),
+      /** Format of the file, overriding its extension */
+      format: Options.choice("format", TodoFileFormat.literals).pipe(
+        Options.withDescription(
+          "File format: json, ndjson or csv (default: from the file extension)"
+        ),
+        Options.optional
+      ),
+    },
+  },
+  Effect.fn("importTodosCommand")(
+    function* ({ args: { file }, options: { mode, dryRun, format } }) {
+      const fileFormat = Option.orElse(format, () => formatFromPath(file));
+      if (Option.isNone(fileFormat)) {
+        yield* Console.log(
+          `❌ Cannot tell the format of ${file} from its extension; use --format json|ndjson|csv`
+        );
+        return;
+      }
+
+      const fs = yield* FileSystem.FileSystem;
+      const entries = yield* parseTodoFile(
+        yield* fs.readFileString(file),
+        fileFormat.value
+      );
+
+      // Report every invalid todo with the ParseError, indented below its line
+      const invalid = entries.flatMap(({ line, todo }) =>
+        Either.isLeft(todo) ? [{ line, error: todo.left }] : []
+      );
+      for (const { line, error } of invalid) {
+        const [first, ...rest] = error.message.split("\n");
+        yield* Console.log(`❌ Line ${line}: ${first}`);
+        for (const detail of rest) {
+          yield* Console.log(`   ${detail}`);
+        }
+      }
+
+      const todos = entries.flatMap(({ todo }) =>
+        Either.isRight(todo) ? [todo.right] : []
+      );
+      const { inserted, updated, unchanged, removed } =
+        yield* DatabaseService.importTodos(todos, { mode, dryRun });
+      const changes = `${inserted} added, ${updated} updated, ${unchanged} unchanged${
+        mode === "replace" ? `, ${removed} removed first` : ""
+      }`;
+      yield* Console.log(
+        dryRun
+          ? `🔍 Dry run: would import ${todos.length} todo(s) from ${file}: ${changes}`
+          : `📥 Imported ${todos.length} todo(s) from ${file}: ${changes}`
+      );
+      if (invalid.length > 0) {
+        yield* Console.log(`⚠️ Skipped ${invalid.length} invalid todo(s)`);
+      }
+    },
+    Effect.catchTags({
+      TodoFileError: ({ message }) => Console.log(`❌ ${message}`),
+      TodoCycle: ({ id, parentId }) =>
+        Console.log(
+          `❌ Nothing imported: todo ${id} cannot be a subtask of todo ${parentId}, as that would make it a subtask of itself`
+        ),
+    })
+  )
+);
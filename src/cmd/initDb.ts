@@ -16,12 +16,13 @@ import { DatabaseService } from "../service/DatabaseService.js";
  * CLI command for initializing the database.
  *
  * This command:
- * - Creates the todos table if it doesn't exist
+ * - Applies all pending schema migrations (creating the tables on first run)
  * - Populates the database with sample data if empty
  * - Provides user feedback on successful initialization
  *
  * The command takes no arguments and can be run multiple times safely
- * (it won't duplicate data if the database already contains todos).
+ * (it won't duplicate data if the database already contains todos, and
+ * migrations that are already applied are skipped).
  *
  * @example
  * ```bash
@@ -30,6 +31,8 @@ import { DatabaseService } from "../service/DatabaseService.js";
  *
  * Expected output:
  * ```
+ * ⬆️ Applied 001 create_todos
+ * ⬆️ Applied 002 index_todos_user_id
  * ✅ Database initialized successfully!
  * ```
  *
@@ -39,7 +42,14 @@ export const initDbCommand = Command.make(
   "init",
   {},
   Effect.fn("initDbCommand")(function* () {
-    yield* DatabaseService.initializeDatabase();
+    const applied = yield* DatabaseService.initializeDatabase();
+    for (const migration of applied) {
+      yield* Console.log(
+        `⬆️ Applied ${String(migration.version).padStart(3, "0")} ${
+          migration.name
+        }`
+      );
+    }
     yield* Console.log("✅ Database initialized successfully!");
   })
 );
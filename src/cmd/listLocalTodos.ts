@@ -1,32 +1,57 @@
 /**
  * Todo listing command implementation.
  *
- * This module provides the CLI command for displaying all todo items
- * from the local database. It retrieves all todos and formats them
- * for console display with visual separators.
+ * This module provides the CLI command for displaying todo items
+ * from the local database. It supports filtering, sorting and pagination,
+ * and formats the matching todos for console display with visual separators.
  *
  * @since 1.0.0
  */
 
-import { Command } from "@effect/cli";
-import { Effect, Console } from "effect";
+import { Command, Options } from "@effect/cli";
+import { Effect, Option, Schema, type Types } from "effect";
 import { DatabaseService } from "../service/DatabaseService.js";
-import { Todo } from "../domain/Todo.js";
+import { RenderService } from "../service/RenderService.js";
+import { TodoSortField, type TodoQuery } from "../domain/TodoQuery.js";
+import { TagName } from "../domain/Todo.js";
 
 /**
- * CLI command for listing all todos from the local database.
+ * CLI command for listing todos from the local database.
  *
  * This command:
- * - Retrieves all todos from the database (ordered by ID)
- * - Displays each todo using the pretty printer
- * - Adds visual separators between todos for readability
- * - Shows a header indicating the data source
+ * - Retrieves the todos matching the given filters (all todos by default)
+ * - Sorts them by the requested field (by default most important first, then
+ *   in the order set with `move`)
+ * - Applies `--limit`/`--offset` pagination
+ * - With `--tree`, shows subtasks indented under their parent, each parent
+ *   with the number of its completed and total subtasks
+ * - Displays the todos in the format selected with the global `--format` option
+ *   (pretty printer with visual separators by default)
+ * - Shows a header indicating the data source, or how many of the matching
+ *   todos are shown when filters or pagination narrow the list, and a
+ *   footer with the total number of matches
  *
- * The output includes all todo fields: userId, id, title, and completion status.
+ * Filters are combined, so a todo has to satisfy all of them to be listed.
  *
  * @example
  * ```bash
+ * # List everything
  * pnpm dev list
+ *
+ * # Pending todos of user 1 mentioning "effect", most recently updated first
+ * pnpm dev list --user 1 --status pending --title-contains effect --sort updated --desc
+ *
+ * # Todos with their subtasks indented below them
+ * pnpm dev list --tree
+ *
+ * # Todos tagged both work and urgent
+ * pnpm dev list --tag work --tag urgent
+ *
+ * # Third page of 20 todos
+ * pnpm dev list --limit 20 --offset 40
+ *
+ * # Machine-readable output
+ * pnpm dev --format ndjson list --status completed
  * ```
  *
  * Expected output:
@@ -36,21 +61,116 @@ import { Todo } from "../domain/Todo.js";
  * ---
  * Todo({ "userId": 1, "id": 2, "title": "Build a CLI app", "completed": "completed" })
  * ---
- * Todo({ "userId": 2, "id": 3, "title": "Master TypeScript", "completed": "pending" })
- * ---
+ * Showing 1-2 of 2 matching todo(s)
  * ```
  *
  * @since 1.0.0
  */
 export const listLocalTodosCommand = Command.make(
   "list",
-  {},
-  Effect.fn("listLocalTodosCommand")(function* () {
-    const todos = yield* DatabaseService.getAllTodos();
-    yield* Console.log("💾 All Todos from Local Database:");
-    for (const todo of todos) {
-      yield* Console.log(Todo.pretty(todo));
-      yield* Console.log("---");
+  {
+    /** Only list todos owned by this user */
+    userId: Options.integer("user").pipe(
+      Options.withDescription("Only list todos of this user ID"),
+      Options.optional
+    ),
+    /** Only list todos with this completion status */
+    status: Options.choice("status", ["completed", "pending"]).pipe(
+      Options.withDescription("Only list completed or pending todos"),
+      Options.optional
+    ),
+    /** Only list todos whose title contains this text */
+    titleContains: Options.text("title-contains").pipe(
+      Options.withDescription(
+        "Only list todos whose title contains this text (case-insensitive)"
+      ),
+      Options.optional
+    ),
+    /** Only list todos carrying all of these tags */
+    tags: Options.text("tag").pipe(
+      Options.withDescription(
+        "Only list todos carrying this tag; repeat to require several tags"
+      ),
+      Options.repeated,
+      Options.withSchema(Schema.mutable(Schema.Array(TagName)))
+    ),
+    /** Field to sort by */
+    sort: Options.choice("sort", TodoSortField.literals).pipe(
+      Options.withDescription(
+        "Field to sort by (default: priority, then the order set with move)"
+      ),
+      Options.withDefault("priority" as const)
+    ),
+    /** Show subtasks indented under their parent */
+    tree: Options.boolean("tree").pipe(
+      Options.withDescription(
+        "Show subtasks indented under their parent, with a completion rollup"
+      )
+    ),
+    /** Sort in descending order */
+    desc: Options.boolean("desc").pipe(
+      Options.withDescription("Sort in descending order")
+    ),
+    /** Maximum number of todos to show */
+    limit: Options.integer("limit").pipe(
+      Options.withDescription("Maximum number of todos to show"),
+      Options.withSchema(Schema.Int.pipe(Schema.positive())),
+      Options.optional
+    ),
+    /** Number of matching todos to skip */
+    offset: Options.integer("offset").pipe(
+      Options.withDescription("Number of matching todos to skip"),
+      Options.withSchema(Schema.NonNegativeInt),
+      Options.optional
+    ),
+  },
+  Effect.fn("listLocalTodosCommand")(function* ({
+    userId,
+    status,
+    titleContains,
+    tags,
+    sort,
+    tree,
+    desc,
+    limit,
+    offset,
+  }) {
+    const query: Types.Mutable<TodoQuery> = { sort, descending: desc };
+    if (Option.isSome(userId)) query.userId = userId.value;
+    if (Option.isSome(status)) query.status = status.value;
+    if (Option.isSome(titleContains)) query.titleContains = titleContains.value;
+    if (tags.length > 0) query.tags = tags;
+    if (Option.isSome(limit)) query.limit = limit.value;
+    if (Option.isSome(offset)) query.offset = offset.value;
+
+    const narrowed =
+      Option.isSome(userId) ||
+      Option.isSome(status) ||
+      Option.isSome(titleContains) ||
+      tags.length > 0 ||
+      Option.isSome(limit) ||
+      Option.isSome(offset);
+
+    const { todos, total } = yield* DatabaseService.queryTodos(query);
+    const first = Option.getOrElse(offset, () => 0) + 1;
+    const texts = {
+      header: narrowed
+        ? `💾 Matching todos (${todos.length} of ${total}):`
+        : "💾 All Todos from Local Database:",
+      footer:
+        todos.length === 0
+          ? `No todos to show (${total} matching todo(s))`
+          : `Showing ${first}-${
+              first + todos.length - 1
+            } of ${total} matching todo(s)`,
+    };
+    if (tree) {
+      const counts = yield* DatabaseService.getSubtaskCounts(
+        todos.map((todo) => todo.id)
+      );
+      yield* RenderService.renderTodoTree(todos, counts, texts);
+    } else {
+      yield* RenderService.renderTodos(todos, texts);
     }
   })
 );
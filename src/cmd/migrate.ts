@@ -0,0 +1,178 @@
+/**
+ * Schema migration command implementation.
+ *
+ * This module provides the `migrate` command group for inspecting and changing
+ * the schema version of the local database:
+ * - migrate status: Show which migrations are applied
+ * - migrate up: Apply pending migrations
+ * - migrate down: Revert applied migrations
+ *
+ * @since 1.0.0
+ */
+
+import { Command, Options } from "@effect/cli";
+import { Effect, Console, Option, Schema } from "effect";
+import { MigrationService } from "../service/MigrationService.js";
+
+/**
+ * Shared `--to <version>` option for `migrate up` and `migrate down`.
+ */
+const toOption = Options.integer("to").pipe(
+  Options.withSchema(Schema.NonNegativeInt),
+  Options.optional
+);
+
+/**
+ * Formats a migration as "NNN name" for console output.
+ */
+const label = (migration: { version: number; name: string }) =>
+  `${String(migration.version).padStart(3, "0")} ${migration.name}`;
+
+/**
+ * CLI command for showing the migration status of the database.
+ *
+ * @example
+ * ```bash
+ * pnpm dev migrate status
+ * ```
+ *
+ * Expected output:
+ * ```
+ * 💾 Schema version 1 (latest: 2)
+ * ✅ 001 create_todos (applied 2024-05-01 10:15:00)
+ * ⏳ 002 index_todos_user_id (pending)
+ * ```
+ *
+ * @since 1.0.0
+ */
+const migrateStatusCommand = Command.make(
+  "status",
+  {},
+  Effect.fn("migrateStatusCommand")(function* () {
+    const { currentVersion, latestVersion, migrations } =
+      yield* MigrationService.status();
+    yield* Console.log(
+      `💾 Schema version ${currentVersion} (latest: ${latestVersion})`
+    );
+    for (const migration of migrations) {
+      if (migration.appliedAt === undefined) {
+        yield* Console.log(`⏳ ${label(migration)} (pending)`);
+      } else if (migration.checksumMismatch) {
+        yield* Console.log(
+          `❌ ${label(migration)} (applied ${
+            migration.appliedAt
+          }, checksum mismatch)`
+        );
+      } else {
+        yield* Console.log(
+          `✅ ${label(migration)} (applied ${migration.appliedAt})`
+        );
+      }
+    }
+  })
+);
+
+/**
+ * CLI command for applying pending migrations.
+ *
+ * @example
+ * ```bash
+ * # Apply every pending migration
+ * pnpm dev migrate up
+ *
+ * # Apply pending migrations up to version 2
+ * pnpm dev migrate up --to 2
+ * ```
+ *
+ * Expected output:
+ * ```
+ * ⬆️ Applied 002 index_todos_user_id
+ * ✅ Database schema is at version 2
+ * ```
+ *
+ * @since 1.0.0
+ */
+const migrateUpCommand = Command.make(
+  "up",
+  {
+    /** Version to migrate up to (defaults to the latest) */
+    to: toOption.pipe(
+      Options.withDescription("Version to migrate up to (default: latest)")
+    ),
+  },
+  Effect.fn("migrateUpCommand")(function* ({ to }) {
+    const applied = yield* MigrationService.migrateUp(
+      Option.getOrUndefined(to)
+    );
+    for (const migration of applied) {
+      yield* Console.log(`⬆️ Applied ${label(migration)}`);
+    }
+    const { currentVersion } = yield* MigrationService.status();
+    yield* Console.log(
+      applied.length === 0
+        ? `✅ Nothing to apply, database schema is at version ${currentVersion}`
+        : `✅ Database schema is at version ${currentVersion}`
+    );
+  })
+);
+
+/**
+ * CLI command for reverting applied migrations.
+ *
+ * @example
+ * ```bash
+ * # Revert the most recent migration
+ * pnpm dev migrate down
+ *
+ * # Revert every migration above version 1
+ * pnpm dev migrate down --to 1
+ * ```
+ *
+ * Expected output:
+ * ```
+ * ⬇️ Reverted 002 index_todos_user_id
+ * ✅ Database schema is at version 1
+ * ```
+ *
+ * @warning Reverting a migration can drop columns or tables along with their data.
+ *
+ * @since 1.0.0
+ */
+const migrateDownCommand = Command.make(
+  "down",
+  {
+    /** Version to migrate down to (defaults to one step down) */
+    to: toOption.pipe(
+      Options.withDescription(
+        "Version to migrate down to (default: revert the last migration)"
+      )
+    ),
+  },
+  Effect.fn("migrateDownCommand")(function* ({ to }) {
+    const reverted = yield* MigrationService.migrateDown(
+      Option.getOrUndefined(to)
+    );
+    for (const migration of reverted) {
+      yield* Console.log(`⬇️ Reverted ${label(migration)}`);
+    }
+    const { currentVersion } = yield* MigrationService.status();
+    yield* Console.log(
+      reverted.length === 0
+        ? `✅ Nothing to revert, database schema is at version ${currentVersion}`
+        : `✅ Database schema is at version ${currentVersion}`
+    );
+  })
+);
+
+/**
+ * CLI command group for managing schema migrations.
+ *
+ * @since 1.0.0
+ */
+export const migrateCommand = Command.make("migrate").pipe(
+  Command.withSubcommands([
+    migrateStatusCommand,
+    migrateUpCommand,
+    migrateDownCommand,
+  ])
+);
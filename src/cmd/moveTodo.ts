@@ -0,0 +1,113 @@
+/**
+ * Todo reordering command implementation.
+ *
+ * This module provides the CLI command for changing where a todo item stands
+ * in the manual order of the todo list. Todos are listed by priority first,
+ * and in this order within each priority, so a moved todo takes the
+ * priority of where it is put.
+ *
+ * @since 1.0.0
+ */
+
+import { Command, Args, Options } from "@effect/cli";
+import { Effect, Console, Option } from "effect";
+import { DatabaseService } from "../service/DatabaseService.js";
+import { Todo } from "../domain/Todo.js";
+import type { TodoPlacement } from "../domain/TodoPlacement.js";
+
+/**
+ * CLI command for moving a todo in the manual order.
+ *
+ * This command:
+ * - Takes a required integer ID argument
+ * - Accepts exactly one of `--before <id>`, `--after <id>` and `--top`
+ * - Gives the todo the priority of the todo it is placed next to, or of the
+ *   todo listed first for `--top`, so that it is listed right there, and
+ *   reports when that changes its priority
+ * - Handles "not found" cases with user-friendly messages
+ *
+ * The order exists only locally, so it is not sent by `push`.
+ *
+ * @example
+ * ```bash
+ * # Put todo 5 right before todo 3
+ * pnpm dev move 5 --before 3
+ *
+ * # Put todo 7 at the top of the list
+ * pnpm dev move 7 --top
+ * ```
+ *
+ * Expected output:
+ * ```
+ * ✅ Moved todo 5 before todo 3 (priority low → high):
+ * Todo({ "userId": 1, "id": 5, "title": "Prepare the demo", "completed": "pending" })
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const moveTodoCommand = Command.make(
+  "move",
+  {
+    /** The ID of the todo to move */
+    id: Args.integer({ name: "id" }).pipe(
+      Args.withDescription("Todo ID to move")
+    ),
+    /** Put the todo right before this one */
+    before: Options.integer("before").pipe(
+      Options.withDescription(
+        "Put the todo right before the todo with this ID (the todo takes its priority)"
+      ),
+      Options.optional
+    ),
+    /** Put the todo right after this one */
+    after: Options.integer("after").pipe(
+      Options.withDescription(
+        "Put the todo right after the todo with this ID (the todo takes its priority)"
+      ),
+      Options.optional
+    ),
+    /** Put the todo at the top of the list */
+    top: Options.boolean("top").pipe(
+      Options.withDescription(
+        "Put the todo at the top of the list (the todo takes the priority of the todo listed first)"
+      )
+    ),
+  },
+  Effect.fn("moveTodoCommand")(
+    function* ({ id, before, after, top }) {
+      const given = [Option.isSome(before), Option.isSome(after), top];
+      if (given.filter(Boolean).length !== 1) {
+        yield* Console.log(
+          "❌ Please provide exactly one of --before, --after or --top"
+        );
+        return;
+      }
+
+      const placement: TodoPlacement = Option.isSome(before)
+        ? { _tag: "Before", id: before.value }
+        : Option.isSome(after)
+        ? { _tag: "After", id: after.value }
+        : { _tag: "Top" };
+      const { todo, previousPriority } = yield* DatabaseService.moveTodo(
+        id,
+        placement
+      );
+      const priority = todo.priority ?? "normal";
+      const change =
+        priority === previousPriority
+          ? ""
+          : ` (priority ${previousPriority} → ${priority})`;
+      yield* Console.log(
+        placement._tag === "Top"
+          ? `✅ Moved todo ${id} to the top${change}:`
+          : `✅ Moved todo ${id} ${placement._tag.toLowerCase()} todo ${
+              placement.id
+            }${change}:`
+      );
+      yield* Console.log(Todo.pretty(todo));
+    },
+    Effect.catchTag("TodoNotFound", ({ id }) =>
+      Console.log(`❌ Todo ${id} not found in local database`)
+    )
+  )
+);
@@ -0,0 +1,66 @@
+/**
+ * Todo prioritization command implementation.
+ *
+ * This module provides the CLI command for setting the priority of a todo
+ * item in the local database. Todos are listed most important first.
+ *
+ * @since 1.0.0
+ */
+
+import { Command, Args } from "@effect/cli";
+import { Effect, Console } from "effect";
+import { DatabaseService } from "../service/DatabaseService.js";
+import { Todo, TodoPriority } from "../domain/Todo.js";
+
+/**
+ * CLI command for setting the priority of a todo.
+ *
+ * This command:
+ * - Takes a required integer ID and one of the priority levels `low`,
+ *   `normal`, `high` or `urgent`
+ * - Sets the priority and bumps the update timestamp
+ * - Handles "not found" cases with user-friendly messages
+ *
+ * Priorities exist only locally, so they are not sent by `push`.
+ *
+ * @example
+ * ```bash
+ * pnpm dev prioritize 3 urgent
+ * ```
+ *
+ * Expected output:
+ * ```
+ * ✅ Todo 3 is now of urgent priority:
+ * Todo({ "userId": 1, "id": 3, "title": "Write documentation", "completed": "pending", "priority": "urgent" })
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const prioritizeTodoCommand = Command.make(
+  "prioritize",
+  {
+    /** The ID of the todo to prioritize */
+    id: Args.integer({ name: "id" }).pipe(
+      Args.withDescription("Todo ID to set the priority of")
+    ),
+    /** The new priority */
+    level: Args.choice(
+      TodoPriority.literals.map((level) => [level, level] as const),
+      { name: "level" }
+    ).pipe(
+      Args.withDescription(`Priority (${TodoPriority.literals.join(", ")})`)
+    ),
+  },
+  Effect.fn("prioritizeTodoCommand")(
+    function* ({ id, level }) {
+      const todo = yield* DatabaseService.updateTodo(id, { priority: level });
+      yield* Console.log(`✅ Todo ${id} is now of ${level} priority:`);
+      yield* Console.log(Todo.pretty(todo));
+    },
+    Effect.catchTags({
+      TodoNotFound: ({ id }) =>
+        Console.log(`❌ Todo ${id} not found in local database`),
+      TodoValidationError: ({ message }) => Console.log(`❌ ${message}`),
+    })
+  )
+);
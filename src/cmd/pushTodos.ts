@@ -0,0 +1,149 @@
+/**
+ * Todo push command implementation.
+ *
+ * This module provides the CLI command for sending local changes to the
+ * external API, the counterpart of `sync`. Todos created locally are sent with
+ * POST, todos modified locally with PUT. Only todos with pending changes are
+ * pushed; each one is marked as pushed as soon as the API accepts it.
+ *
+ * @since 1.0.0
+ */
+
+import { Command, Options } from "@effect/cli";
+import { Effect, Console, Option } from "effect";
+import { TodoService } from "../service/TodoService.js";
+import { DatabaseService } from "../service/DatabaseService.js";
+import { ProgressBarService } from "../service/ProgressBarService.js";
+import { ConfigService } from "../service/ConfigService.js";
+import {
+  ConcurrencySchema,
+  describeConcurrency,
+} from "../domain/Concurrency.js";
+
+/**
+ * Pushes every todo with pending local changes to the API.
+ *
+ * This function:
+ * - Creates todos that were never on the API (POST)
+ * - Replaces todos that were modified since the last push or pull (PUT)
+ * - Records the API's ID for each pushed todo and clears its pending change
+ * - Shows a progress bar while pushing
+ *
+ * Shared by `push` and `sync --bidirectional`.
+ *
+ * @param concurrency - How many todos to push concurrently
+ * @returns Effect that resolves to the number of created and updated todos
+ * @throws {CreateTodoError} When the API rejects a new todo
+ * @throws {UpdateTodoError} When the API rejects a modified todo
+ *
+ * @since 1.0.0
+ */
+export const pushDirtyTodos = Effect.fn("pushDirtyTodos")(function* (
+  concurrency: typeof ConcurrencySchema.Type
+) {
+  const progressBar = yield* ProgressBarService;
+  const dirty = yield* DatabaseService.getDirtyTodos();
+  if (dirty.length === 0) {
+    yield* Console.log("✅ No local changes to push");
+    return { created: 0, updated: 0 };
+  }
+
+  yield* Console.log(
+    `📤 Pushing ${dirty.length} local change(s) to API (${describeConcurrency(
+      concurrency
+    )})...`
+  );
+
+  let created = 0;
+  let updated = 0;
+  yield* progressBar.initializeProgress(0, dirty.length);
+
+  yield* Effect.forEach(
+    dirty,
+    Effect.fn("pushTodo")(function* ({ todo, remoteId }) {
+      if (Option.isSome(remoteId)) {
+        const remote = yield* TodoService.updateTodo(remoteId.value, todo);
+        yield* DatabaseService.markTodoPushed(todo.id, remote);
+        updated++;
+      } else {
+        const remote = yield* TodoService.createTodo(todo);
+        yield* DatabaseService.markTodoPushed(todo.id, remote);
+        created++;
+      }
+      yield* progressBar.updateProgress(created + updated, dirty.length);
+    }),
+    { concurrency }
+  );
+
+  yield* Console.log(
+    `🎉 Successfully pushed ${
+      created + updated
+    } todo(s) to API (${created} created, ${updated} updated)!`
+  );
+  return { created, updated };
+});
+
+/**
+ * CLI command for pushing local changes to the external API.
+ *
+ * This command:
+ * - Sends todos created with `create` to the API with POST
+ * - Sends todos changed with `update` (or `create`d and changed) with PUT
+ * - Leaves todos in the trash alone
+ * - Supports configurable concurrency (the `--concurrency` flag overrides
+ *   the `concurrency` setting)
+ *
+ * The API is the one configured with the `apiUrl` setting, so pushes can be
+ * pointed at a local stand-in server with `TODO_API_URL`.
+ *
+ * @example
+ * ```bash
+ * pnpm dev create 1 "Write the release notes"
+ * pnpm dev push
+ *
+ * # Push to a local server, two todos at a time
+ * TODO_API_URL=http://localhost:3000 pnpm dev push --concurrency 2
+ * ```
+ *
+ * Expected output:
+ * ```
+ * 📤 Pushing 1 local change(s) to API (sequential)...
+ * ⏳ Progress: [██████████████████████████████] 1/1 (100%)
+ * 🎉 Successfully pushed 1 todo(s) to API (1 created, 0 updated)!
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const pushTodosCommand = Command.make(
+  "push",
+  {
+    /**
+     * Concurrency level for parallel processing.
+     * Can be a positive integer or "unbounded" for maximum concurrency.
+     */
+    concurrency: Options.text("concurrency").pipe(
+      Options.withDescription(
+        "Concurrency level: number of todos to push concurrently or 'unbounded' (default: the 'concurrency' setting)"
+      ),
+      Options.withSchema(ConcurrencySchema),
+      Options.optional
+    ),
+  },
+  Effect.fn("pushTodosCommand")(
+    function* (options) {
+      const config = yield* ConfigService;
+      const { value: concurrency } = yield* config.resolve(
+        "concurrency",
+        Option.map(options.concurrency, String)
+      );
+      yield* pushDirtyTodos(concurrency);
+    },
+    Effect.catchTags({
+      CreateTodoError: ({ message }) => Console.log(`❌ ${message}`),
+      UpdateTodoError: ({ message }) => Console.log(`❌ ${message}`),
+      RequestTimeout: ({ message }) => Console.log(`❌ ${message}`),
+      RateLimited: ({ message }) => Console.log(`❌ ${message}`),
+      CircuitOpen: ({ message }) => Console.log(`❌ ${message}`),
+    })
+  )
+);
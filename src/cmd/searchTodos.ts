@@ -0,0 +1,108 @@
+/**
+ * Todo search command implementation.
+ *
+ * This module provides the CLI command for finding todos in the local
+ * database by the words in their titles, using the SQLite full-text index.
+ *
+ * @since 1.0.0
+ */
+
+import { Command, Args, Options } from "@effect/cli";
+import { Effect, Option, Schema, type Types } from "effect";
+import { DatabaseService } from "../service/DatabaseService.js";
+import { RenderService } from "../service/RenderService.js";
+import type { TodoQuery } from "../domain/TodoQuery.js";
+
+/**
+ * CLI command for searching todos in the local database.
+ *
+ * This command:
+ * - Finds the todos whose titles contain every word of the query, ignoring
+ *   case and accents
+ * - Matches words ending in `*` as prefixes and text in double quotes as a
+ *   phrase (quote the query for the shell to pass the double quotes on)
+ * - Narrows the matches with `--user` and `--status` like `list`, and shows
+ *   at most `--limit` of them
+ * - Ranks the matches by relevance (bm25), most relevant first
+ * - Displays the todos in the format selected with the global `--format`
+ *   option, highlighting the matched terms in the pretty format
+ *
+ * Trashed todos are never found.
+ *
+ * @example
+ * ```bash
+ * # Todos mentioning effect
+ * pnpm dev search effect
+ *
+ * # Pending todos of user 1 with a word starting with "doc"
+ * pnpm dev search 'doc*' --user 1 --status pending
+ *
+ * # A phrase
+ * pnpm dev search '"build a cli"'
+ * ```
+ *
+ * Expected output:
+ * ```
+ * 🔍 Todos matching "effect":
+ * Todo({ "userId": 1, "id": 4, "title": "Use SQLite with Effect", "completed": "pending" })
+ * ---
+ * Todo({ "userId": 1, "id": 1, "title": "Learn Effect", "completed": "pending" })
+ * ---
+ * Found 2 matching todo(s)
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const searchTodosCommand = Command.make(
+  "search",
+  {
+    args: {
+      /** Words, prefixes and phrases to search for */
+      query: Args.text({ name: "query" }).pipe(
+        Args.withDescription(
+          'Words to search for; end a word with * to match prefixes, and put a phrase in "double quotes"'
+        ),
+        Args.atLeast(1)
+      ),
+    },
+    options: {
+      /** Only search todos owned by this user */
+      userId: Options.integer("user").pipe(
+        Options.withDescription("Only search todos of this user ID"),
+        Options.optional
+      ),
+      /** Only search todos with this completion status */
+      status: Options.choice("status", ["completed", "pending"]).pipe(
+        Options.withDescription("Only search completed or pending todos"),
+        Options.optional
+      ),
+      /** Maximum number of todos to show */
+      limit: Options.integer("limit").pipe(
+        Options.withDescription("Maximum number of todos to show"),
+        Options.withSchema(Schema.Int.pipe(Schema.positive())),
+        Options.optional
+      ),
+    },
+  },
+  Effect.fn("searchTodosCommand")(function* ({
+    args: { query },
+    options: { userId, status, limit },
+  }) {
+    const filters: Types.Mutable<
+      Pick<TodoQuery, "userId" | "status" | "limit">
+    > = {};
+    if (Option.isSome(userId)) filters.userId = userId.value;
+    if (Option.isSome(status)) filters.status = status.value;
+    if (Option.isSome(limit)) filters.limit = limit.value;
+
+    const text = query.join(" ");
+    const hits = yield* DatabaseService.searchTodos(text, filters);
+    yield* RenderService.renderSearchHits(hits, {
+      header: `🔍 Todos matching ${JSON.stringify(text)}:`,
+      footer:
+        hits.length === 0
+          ? "No matching todos"
+          : `Found ${hits.length} matching todo(s)`,
+    });
+  })
+);
@@ -7,43 +7,221 @@
  *
  * Features:
  * - Batch synchronization of multiple todos
+ * - Refreshes the local users from the API before saving todos, and refuses
+ *   todos of users it still does not know
+ * - Bulk modes (all todos, an ID range or one user's todos) that fetch the
+ *   whole batch with a single list request
  * - Configurable concurrency (sequential, parallel, or unbounded)
  * - Real-time progress bar with completion percentage
+ * - Per-todo results with a summary table, and a failed-todos file that can
+ *   be retried with `--retry-failed`
+ * - Limits on outbound requests: a timeout per request, a rate limit and a
+ *   circuit breaker that stops the batch when the API keeps failing
  * - Comprehensive error handling and validation
  * - Schema validation for concurrency parameters
  *
  * @since 1.0.0
  */
 
-import { Command, Args, Options } from "@effect/cli";
-import { Effect, Console, Schema } from "effect";
+import { Command, Args, Options, Prompt } from "@effect/cli";
+import { Effect, Console, Either, Option, Schema } from "effect";
+import { FileSystem, Path } from "@effect/platform";
 import { TodoService } from "../service/TodoService.js";
 import { DatabaseService } from "../service/DatabaseService.js";
 import { ProgressBarService } from "../service/ProgressBarService.js";
+import { PromptService } from "../service/PromptService.js";
+import { ConfigFlags, ConfigService } from "../service/ConfigService.js";
+import { HttpCacheEnabled } from "../service/HttpCacheService.js";
+import { pushDirtyTodos } from "./pushTodos.js";
+import {
+  ConcurrencySchema,
+  describeConcurrency,
+} from "../domain/Concurrency.js";
+import type { Todo } from "../domain/Todo.js";
+import type { TodoConflict } from "../domain/DatabaseErrors.js";
+import type {
+  CircuitOpen,
+  GetTodoByIdError,
+  RateLimited,
+  RequestTimeout,
+} from "../domain/TodoServiceErrors.js";
+import { TodoSourceName } from "../domain/TodoSource.js";
+import {
+  MaxFailuresSchema,
+  RateSchema,
+  TimeoutSchema,
+} from "../domain/ApiLimits.js";
+import {
+  FailedSyncFile,
+  formatSyncSummary,
+  isFailedOutcome,
+  type SyncResult,
+} from "../domain/SyncResult.js";
+import { ConflictStrategy, type ConflictField } from "../domain/Conflict.js";
 
 /**
  * Schema for validating concurrency level input.
+ * Re-exported from the domain, where the config subsystem shares it.
  *
- * Accepts either:
- * - The literal string "unbounded" for maximum concurrency
- * - A positive integer string that gets converted to a number
+ * @since 1.0.0
+ */
+export { ConcurrencySchema } from "../domain/Concurrency.js";
+
+/**
+ * Schema for validating the `--range` input.
  *
- * This ensures type safety and proper validation of user input.
+ * Accepts an inclusive range of todo IDs written as `start..end` (e.g. "1..200")
+ * and converts it to its bounds. Both bounds must be positive integers and the
+ * end must not come before the start.
  *
  * @since 1.0.0
  */
-export const ConcurrencySchema = Schema.Union(
-  Schema.Literal("unbounded"),
-  Schema.compose(Schema.NumberFromString, Schema.Int.pipe(Schema.positive()))
+export const TodoRangeSchema = Schema.transform(
+  Schema.String.pipe(Schema.pattern(/^[1-9]\d*\.\.[1-9]\d*$/)),
+  Schema.Struct({ start: Schema.Int, end: Schema.Int }).pipe(
+    Schema.filter(
+      ({ start, end }) =>
+        start <= end || "The end of the range must not be before its start"
+    )
+  ),
+  {
+    strict: true,
+    decode: (input) => {
+      const [start, end] = input.split("..").map(Number);
+      return { start, end };
+    },
+    encode: ({ start, end }) => `${start}..${end}`,
+  }
 );
 
+/**
+ * Todo ID of a list entry, whether or not it could be decoded.
+ * @since 1.0.0
+ */
+const entryId = (entry: Either.Either<Todo, GetTodoByIdError>): number =>
+  Either.match(entry, {
+    onLeft: (error) => error.id,
+    onRight: (todo) => todo.id,
+  });
+
+/**
+ * How a single conflict was resolved.
+ * @since 1.0.0
+ */
+type ConflictResolution = "local" | "remote" | "skipped";
+
+/**
+ * Formats one clashing field of a conflict as `field: local vs remote`.
+ * @since 1.0.0
+ */
+const formatConflictField = (
+  { local, remote }: TodoConflict,
+  field: ConflictField
+): string => {
+  const show = (todo: Todo) =>
+    field === "title" ? JSON.stringify(todo.title) : String(todo[field]);
+  return `${field}: ${show(local)} (local) vs ${show(remote)} (remote)`;
+};
+
+/**
+ * Asks the user how to resolve a conflict.
+ * @since 1.0.0
+ */
+const askResolution = (prompts: PromptService, conflict: TodoConflict) =>
+  prompts.ask(
+    Prompt.select<ConflictResolution>({
+      message: `Todo ${
+        conflict.id
+      } changed locally and on the API (${conflict.fields
+        .map((field) => formatConflictField(conflict, field))
+        .join("; ")})`,
+      choices: [
+        { title: "Keep local changes", value: "local" },
+        { title: "Take remote version", value: "remote" },
+        { title: "Skip", value: "skipped" },
+      ],
+    }),
+    "how to resolve a conflict"
+  );
+
+/**
+ * Refreshes the local users from the backend's user list, so that todos of
+ * new users can be saved.
+ *
+ * Nothing is fetched when unknown users are allowed anyway. When the list
+ * cannot be fetched, e.g. because the backend has no users or is briefly
+ * unreachable, a warning is printed and the sync goes on with the users
+ * already in the local database.
+ *
+ * @param allowUnknownUser - Whether todos of unknown users are saved anyway
+ * @returns Effect that resolves to the number of new or changed users
+ *
+ * @since 1.0.0
+ */
+export const refreshUsers = Effect.fn("refreshUsers")(function* (
+  allowUnknownUser: boolean
+) {
+  if (allowUnknownUser) {
+    return 0;
+  }
+  const users = yield* TodoService.listUsers().pipe(
+    Effect.map(Option.some),
+    Effect.catchTag("ListUsersError", ({ message }) =>
+      Console.log(
+        `⚠️ ${message}; checking owners against the local users instead`
+      ).pipe(Effect.as(Option.none()))
+    )
+  );
+  if (Option.isNone(users)) {
+    return 0;
+  }
+  const changed = yield* DatabaseService.saveUsers(users.value);
+  if (changed > 0) {
+    yield* Console.log(`👥 Synced ${changed} new or changed user(s)`);
+  }
+  return changed;
+});
+
 /**
  * CLI command for synchronizing todos from the external API to the local database.
  *
  * This command:
- * - Fetches todos from jsonplaceholder.typicode.com API
- * - Saves them to the local database (insert or update)
- * - Supports configurable concurrency for performance tuning
+ * - Fetches todos from the remote backend (the jsonplaceholder.typicode.com
+ *   API by default; `--source` or the `source` setting picks another), either
+ *   one request per given ID or, with `--all`, `--range` or `--user`, a
+ *   single request for the whole batch
+ * - Refreshes the local users from the backend's user list first, unless
+ *   `--allow-unknown-user` is set; when the list cannot be fetched, it
+ *   warns and checks owners against the local users
+ * - Saves them to the local database (insert or update) in a single
+ *   transaction once every todo is fetched, so that an interrupted sync
+ *   leaves the database untouched. When `--fail-fast` stops at a todo, the
+ *   todos fetched before it are saved; their conflicts are left for the
+ *   next sync
+ * - Saves nothing when a todo belongs to a user that is not in the local
+ *   database, unless `--allow-unknown-user` is set
+ * - Leaves todos that were deleted locally in the trash
+ * - Detects conflicts (todos changed both locally and on the API since the
+ *   last sync), resolves them with the `--on-conflict` strategy once all
+ *   other todos are saved, and reports each clashing field
+ * - Keeps going when a todo cannot be fetched (not found, invalid, a
+ *   network error, a timeout or persistent throttling), unless `--fail-fast`
+ *   is set, and prints a summary table of every todo's result
+ * - Sends at most `--rate` requests (e.g. `20/s`), gives up on a request
+ *   after `--timeout`, waits as long as a 429 or 503 answer asks with its
+ *   Retry-After header, and stops requesting after `--max-failures`
+ *   consecutive failed requests (the remaining todos are reported as
+ *   "circuit open" and can be retried with `--retry-failed`)
+ * - Writes the IDs of failed todos to `--failed-file` (default
+ *   `sync-failed.json`) for a later `--retry-failed`
+ * - Sends conditional requests for todos fetched before (ETag /
+ *   Last-Modified, see HttpCacheService); a `304 Not Modified` reuses the
+ *   cached todo, which then leaves the local database untouched.
+ *   `--no-cache` downloads everything in full
+ * - With `--bidirectional`, first pushes local changes to the API (see `push`),
+ *   aborting before the pull if the push fails
+ * - Supports configurable concurrency for performance tuning (the
+ *   `--concurrency` flag overrides the `concurrency` setting)
  * - Provides real-time progress feedback with visual progress bar
  * - Validates all inputs and handles errors gracefully
  *
@@ -65,6 +243,27 @@ export const ConcurrencySchema = Schema.Union(
  *
  * # Sync with maximum concurrency
  * pnpm dev sync --concurrency unbounded 1 2 3 4 5 6 7 8 9 10
+ *
+ * # Sync every todo, todos 1 to 50, or all todos of user 3
+ * pnpm dev sync --all
+ * pnpm dev sync --range 1..50
+ * pnpm dev sync --user 3
+ *
+ * # Push local changes, then pull everything
+ * pnpm dev sync --bidirectional --all
+ *
+ * # Let remote changes win over unpushed local edits
+ * pnpm dev sync --on-conflict remote-wins --all
+ *
+ * # Stay below 20 requests per second, and give up on requests after 5s
+ * pnpm dev sync --rate 20/s --timeout 5s --all
+ *
+ * # Retry the todos that failed last time
+ * pnpm dev sync --retry-failed sync-failed.json
+ *
+ * # Sync from a local file, or from the built-in fake backend
+ * TODO_SOURCE_FILE=todos.ndjson pnpm dev sync --source file --all
+ * pnpm dev sync --source fake 1 2 3
  * ```
  *
  * Expected output:
@@ -72,6 +271,20 @@ export const ConcurrencySchema = Schema.Union(
  * 📡 Syncing 5 todo(s) from API (parallel (2))...
  * ⏳ Progress: [██████████████████████████████] 5/5 (100%)
  * 🎉 Successfully synced 5 todo(s) to local database!
+ * 📊 Sync results:
+ * OUTCOME        COUNT  IDS
+ * synced             4
+ * unchanged          1
+ * not found          0
+ * invalid            0
+ * network error      0
+ * ```
+ *
+ * Conflict report (with `--on-conflict skip`, the default):
+ * ```
+ * ⚠️ 1 conflict(s) between local and remote changes:
+ * Todo 3 → skipped (reported again on the next sync)
+ *   title: "Master Effect" (local) vs "Master TypeScript" (remote)
  * ```
  *
  * @since 1.0.0
@@ -94,75 +307,457 @@ export const syncTodoCommand = Command.make(
        */
       concurrency: Options.text("concurrency").pipe(
         Options.withDescription(
-          "Concurrency level: number of todos to sync concurrently or 'unbounded' (default: 1 for sequential)"
+          "Concurrency level: number of todos to sync concurrently or 'unbounded' (default: the 'concurrency' setting, 1 for sequential)"
         ),
         Options.withSchema(ConcurrencySchema),
-        Options.withDefault(1)
+        Options.optional
+      ),
+      /** Sync every todo the API has */
+      all: Options.boolean("all").pipe(
+        Options.withDescription("Sync all todos from the API")
+      ),
+      /** Only sync todos whose ID is in this inclusive range */
+      range: Options.text("range").pipe(
+        Options.withDescription(
+          "Sync todos with IDs in this inclusive range (e.g. 1..200)"
+        ),
+        Options.withSchema(TodoRangeSchema),
+        Options.optional
+      ),
+      /** Only sync todos owned by this user */
+      userId: Options.integer("user").pipe(
+        Options.withDescription("Sync all todos of this user ID"),
+        Options.optional
+      ),
+      /** Push local changes before pulling */
+      bidirectional: Options.boolean("bidirectional").pipe(
+        Options.withDescription(
+          "Push local changes to the API (like 'push') before pulling"
+        )
+      ),
+      /** How to resolve todos that changed both locally and on the API */
+      onConflict: Options.choice("on-conflict", ConflictStrategy.literals).pipe(
+        Options.withDescription(
+          "How to resolve todos changed both locally and on the API: remote-wins, local-wins, skip or ask (default: skip)"
+        ),
+        Options.withDefault("skip" as const)
+      ),
+      /** Stop at the first todo that cannot be fetched */
+      failFast: Options.boolean("fail-fast").pipe(
+        Options.withDescription(
+          "Stop at the first todo that cannot be fetched instead of syncing the rest; the todos fetched before it are still saved"
+        )
+      ),
+      /** Where to record the todos that could not be fetched */
+      failedFile: Options.file("failed-file").pipe(
+        Options.withDescription(
+          "File to write the IDs of failed todos to (default: sync-failed.json)"
+        ),
+        Options.withDefault("sync-failed.json")
+      ),
+      /** Retry the todos recorded by a previous sync */
+      retryFailed: Options.file("retry-failed", { exists: "yes" }).pipe(
+        Options.withDescription(
+          "Sync the todos listed in a failed-todos file written by a previous sync"
+        ),
+        Options.optional
+      ),
+      /** Download every todo in full instead of revalidating cached responses */
+      noCache: Options.boolean("no-cache").pipe(
+        Options.withDescription(
+          "Ignore cached API responses and download every todo in full"
+        )
+      ),
+      /** Maximum request rate, overriding the `rate` setting */
+      rate: Options.text("rate").pipe(
+        Options.withDescription(
+          "Maximum rate of API requests, e.g. 20/s or 300/m (default: the 'rate' setting, unlimited)"
+        ),
+        Options.withSchema(RateSchema),
+        Options.optional
+      ),
+      /** Per-request timeout, overriding the `timeout` setting */
+      timeout: Options.text("timeout").pipe(
+        Options.withDescription(
+          "Give up on an API request after this long, e.g. 500ms, 30s or 2m (default: the 'timeout' setting, 30s)"
+        ),
+        Options.withSchema(TimeoutSchema),
+        Options.optional
+      ),
+      /** Circuit breaker threshold, overriding the `maxFailures` setting */
+      maxFailures: Options.text("max-failures").pipe(
+        Options.withDescription(
+          "Stop requesting after this many consecutive failed API requests, 0 to never stop (default: the 'maxFailures' setting, 5)"
+        ),
+        Options.withSchema(MaxFailuresSchema),
+        Options.optional
+      ),
+      /** Save todos of users that are not in the local database */
+      allowUnknownUser: Options.boolean("allow-unknown-user").pipe(
+        Options.withDescription(
+          "Save todos even if their user is not in the local database or on the API's user list"
+        )
+      ),
+      /** Remote backend to sync with, overriding the `source` setting */
+      source: Options.choice("source", TodoSourceName.literals).pipe(
+        Options.withDescription(
+          "Remote backend to sync with: rest, file or fake (default: the 'source' setting)"
+        ),
+        Options.optional
       ),
     },
   },
-  Effect.fn("syncTodoCommand")(function* ({
-    args: { ids },
-    options: { concurrency },
-  }) {
-    if (ids.length === 0) {
-      yield* Console.log("❌ Please provide at least one todo ID to sync");
-      return;
-    }
-
-    const progressBar = yield* ProgressBarService;
-
-    /**
-     * Determines the concurrency mode description for user feedback.
-     * Converts the concurrency value to a human-readable string.
-     */
-    const mode =
-      concurrency === 1
-        ? "sequential"
-        : concurrency === "unbounded"
-        ? "unbounded"
-        : `parallel (${concurrency})`;
-
-    yield* Console.log(
-      `📡 Syncing ${ids.length} todo(s) from API (${mode})...`
-    );
-
-    /**
-     * Progress tracking state.
-     * Uses a mutable variable to track completion across concurrent operations.
-     */
-    let completed = 0;
-    const total = ids.length;
-
-    // Initialize progress display
-    yield* progressBar.initializeProgress(completed, total);
-
-    /**
-     * Synchronizes a single todo from API to database.
-     *
-     * This function:
-     * - Fetches the todo from the external API
-     * - Saves it to the local database (insert or update)
-     * - Updates the progress counter and display
-     * - Uses the ProgressBarService for seamless terminal updates
-     *
-     * @param id - The ID of the todo to sync
-     * @returns Effect that completes when the todo is synced
-     */
-    const syncTodo = Effect.fn("syncTodo")(function* (id: number) {
-      const apiTodo = yield* TodoService.getTodoById(id);
-      yield* DatabaseService.saveTodo(apiTodo);
-
-      // Update progress counter and display
-      completed++;
-      yield* progressBar.updateProgress(completed, total);
-    });
-
-    // Execute sync operations with specified concurrency
-    yield* Effect.forEach(ids, syncTodo, { concurrency });
-
-    yield* Console.log(
-      `🎉 Successfully synced ${ids.length} todo(s) to local database!`
-    );
-  })
+  Effect.fn("syncTodoCommand")(
+    function* ({ args: { ids }, options }) {
+      const {
+        all,
+        range,
+        userId,
+        bidirectional,
+        onConflict,
+        failFast,
+        failedFile,
+        retryFailed,
+        allowUnknownUser,
+      } = options;
+      const bulk = all || Option.isSome(range) || Option.isSome(userId);
+      if (ids.length > 0 && bulk) {
+        yield* Console.log(
+          "❌ Todo IDs cannot be combined with --all, --range or --user"
+        );
+        return;
+      }
+      if (Option.isSome(retryFailed) && (bulk || ids.length > 0)) {
+        yield* Console.log(
+          "❌ --retry-failed cannot be combined with todo IDs, --all, --range or --user"
+        );
+        return;
+      }
+      if (all && (Option.isSome(range) || Option.isSome(userId))) {
+        yield* Console.log(
+          "❌ --all cannot be combined with --range or --user"
+        );
+        return;
+      }
+      if (!bulk && ids.length === 0 && Option.isNone(retryFailed)) {
+        yield* Console.log(
+          "❌ Please provide at least one todo ID to sync, or use --all, --range or --user"
+        );
+        return;
+      }
+
+      const config = yield* ConfigService;
+      const { value: concurrency } = yield* config.resolve(
+        "concurrency",
+        Option.map(options.concurrency, String)
+      );
+
+      const progressBar = yield* ProgressBarService;
+
+      // Fail before syncing anything rather than when the first conflict
+      // needs an answer
+      const prompts = yield* PromptService;
+      if (onConflict === "ask") {
+        yield* prompts.ensureInteractive("how to resolve conflicts");
+      }
+
+      /** Concurrency mode description for user feedback */
+      const mode = describeConcurrency(concurrency);
+
+      // Push first, so that pulling cannot overwrite changes not yet pushed
+      if (bidirectional) {
+        yield* pushDirtyTodos(concurrency);
+      }
+
+      yield* refreshUsers(allowUnknownUser);
+
+      const fs = yield* FileSystem.FileSystem;
+      const path = yield* Path.Path;
+
+      /**
+       * Work items for the write phase: IDs that still have to be fetched one
+       * by one, or entries already fetched with a single list request.
+       */
+      let items: ReadonlyArray<number | Either.Either<Todo, GetTodoByIdError>> =
+        ids;
+      if (Option.isSome(retryFailed)) {
+        const { failed } = yield* fs
+          .readFileString(retryFailed.value)
+          .pipe(Effect.flatMap(Schema.decodeUnknown(FailedSyncFile)));
+        items = failed.map(({ id }) => id);
+        if (items.length === 0) {
+          yield* Console.log(`📭 No failed todos in ${retryFailed.value}`);
+          return;
+        }
+      }
+      if (bulk) {
+        const fetched = Option.isSome(userId)
+          ? yield* TodoService.listTodosByUser(userId.value)
+          : yield* TodoService.listTodos();
+        items = Option.match(range, {
+          onNone: () => fetched,
+          onSome: ({ start, end }) =>
+            fetched.filter((entry) => {
+              const id = entryId(entry);
+              return id >= start && id <= end;
+            }),
+        });
+        if (items.length === 0) {
+          yield* Console.log("📭 No matching todos found on the API");
+          return;
+        }
+      }
+
+      yield* Console.log(
+        `📡 Syncing ${items.length} todo(s) from API (${mode})...`
+      );
+
+      /**
+       * Progress tracking state.
+       * Uses a mutable variable to track completion across concurrent operations.
+       */
+      let completed = 0;
+      const total = items.length;
+
+      /** Result of every todo, in completion order */
+      const results: Array<SyncResult> = [];
+
+      /** Todos fetched from the API, saved together after the fetch phase */
+      const fetched: Array<Todo> = [];
+
+      /** Local IDs that were skipped because the todo is in the trash */
+      const trashed: Array<number> = [];
+
+      /** Todos that changed on both sides, resolved after the write phase */
+      const conflicts: Array<TodoConflict> = [];
+
+      // Initialize progress display
+      yield* progressBar.initializeProgress(completed, total);
+
+      /**
+       * Records a todo that hit a limit on outbound requests, or fails with
+       * the error when `--fail-fast` is set.
+       *
+       * @param id - The ID of the todo
+       * @param outcome - The outcome to record
+       * @param error - The error that stopped the request
+       */
+      const limitReached = (
+        id: number,
+        outcome: "timeout" | "rate-limited" | "circuit-open",
+        error: RequestTimeout | RateLimited | CircuitOpen
+      ) =>
+        failFast
+          ? Effect.fail(error)
+          : Effect.sync(() => {
+              results.push({ id, outcome, message: error.message });
+            });
+
+      /**
+       * Fetches a single todo from the API for the write phase.
+       *
+       * This function:
+       * - Fetches the todo from the external API, unless it was already
+       *   fetched in bulk
+       * - Sets it aside to be saved with the rest of the batch
+       * - Records a failure to fetch the todo as its result, unless
+       *   `--fail-fast` is set
+       * - Updates the progress counter and display
+       * - Uses the ProgressBarService for seamless terminal updates
+       *
+       * @param item - The ID of the todo to fetch, or its list entry
+       * @returns Effect that completes when the todo is fetched
+       */
+      const fetchTodo = Effect.fn("fetchTodo")(function* (
+        item: number | Either.Either<Todo, GetTodoByIdError>
+      ) {
+        const id = typeof item === "number" ? item : entryId(item);
+        yield* (
+          typeof item === "number" ? TodoService.getTodoById(item) : item
+        ).pipe(
+          Effect.map((apiTodo) => {
+            fetched.push(apiTodo);
+          }),
+          Effect.catchTags({
+            GetTodoByIdError: (error) =>
+              failFast
+                ? Effect.fail(error)
+                : Effect.sync(() => {
+                    results.push({
+                      id,
+                      outcome:
+                        error.reason === "network"
+                          ? "network-error"
+                          : error.reason,
+                      message: error.message,
+                    });
+                  }),
+            RequestTimeout: (error) => limitReached(id, "timeout", error),
+            RateLimited: (error) => limitReached(id, "rate-limited", error),
+            CircuitOpen: (error) => limitReached(id, "circuit-open", error),
+          })
+        );
+
+        // Update progress counter and display
+        completed++;
+        yield* progressBar.updateProgress(completed, total);
+      });
+
+      // Fetch with the specified concurrency, then save every fetched todo
+      // in one transaction, so that an interrupted sync writes nothing. When
+      // --fail-fast stops the fetch, the todos fetched so far are still saved
+      const fetching = yield* Effect.either(
+        Effect.forEach(items, fetchTodo, { concurrency })
+      );
+      const saved = yield* DatabaseService.saveTodos(fetched, {
+        allowUnknownUser,
+      });
+      if (Either.isLeft(fetching)) {
+        const changed = saved.filter(
+          (entry) => Either.isRight(entry) && entry.right.changed
+        ).length;
+        yield* Console.log(
+          `⏹️ Stopped at the first failure; saved ${changed} new or changed todo(s) fetched before it`
+        );
+        return yield* fetching.left;
+      }
+      for (const [index, entry] of saved.entries()) {
+        const id = fetched[index].id;
+        results.push(
+          Either.match(entry, {
+            onRight: ({ changed }): SyncResult => ({
+              id,
+              outcome: changed ? "synced" : "unchanged",
+            }),
+            onLeft: (error): SyncResult => {
+              if (error._tag === "TodoTrashed") {
+                trashed.push(error.id);
+                return { id, outcome: "trashed" };
+              }
+              conflicts.push(error);
+              return { id, outcome: "conflict" };
+            },
+          })
+        );
+      }
+
+      // Resolve conflicts one at a time, so that prompts do not interleave
+      const resolutions: Array<ConflictResolution> = [];
+      for (const conflict of conflicts) {
+        const resolution: ConflictResolution =
+          onConflict === "ask"
+            ? yield* askResolution(prompts, conflict)
+            : onConflict === "local-wins"
+            ? "local"
+            : onConflict === "remote-wins"
+            ? "remote"
+            : "skipped";
+        if (resolution === "remote") {
+          yield* DatabaseService.saveTodo(conflict.remote, {
+            overwriteLocalChanges: true,
+            allowUnknownUser,
+          });
+        } else if (resolution === "local") {
+          yield* DatabaseService.keepLocalChanges(conflict.id, conflict.remote);
+        }
+        resolutions.push(resolution);
+      }
+
+      const failed = results.filter((result) =>
+        isFailedOutcome(result.outcome)
+      );
+      yield* Console.log(
+        `🎉 Successfully synced ${
+          items.length -
+          trashed.length -
+          failed.length -
+          resolutions.filter((resolution) => resolution === "skipped").length
+        } todo(s) to local database!`
+      );
+      yield* Console.log("📊 Sync results:");
+      yield* Console.log(formatSyncSummary(results));
+      const stopped = results.find(
+        (result) => result.outcome === "circuit-open"
+      );
+      if (stopped !== undefined) {
+        yield* Console.log(`⛔ ${stopped.message}`);
+      }
+      if (trashed.length > 0) {
+        yield* Console.log(
+          `🗑️ Skipped ${trashed.length} todo(s) in trash: ${trashed.join(
+            ", "
+          )} (use 'trash restore <id>' to bring them back)`
+        );
+      }
+      if (conflicts.length > 0) {
+        yield* Console.log(
+          `⚠️ ${conflicts.length} conflict(s) between local and remote changes:`
+        );
+        for (const [index, conflict] of conflicts.entries()) {
+          const outcome = {
+            local: "kept local changes (use 'push' to send them)",
+            remote: "took remote version",
+            skipped: "skipped (reported again on the next sync)",
+          }[resolutions[index]];
+          yield* Console.log(`Todo ${conflict.id} → ${outcome}`);
+          for (const field of conflict.fields) {
+            yield* Console.log(`  ${formatConflictField(conflict, field)}`);
+          }
+        }
+      }
+
+      // Record failures for --retry-failed; a fully successful retry of the
+      // same file removes it
+      const failedPath = path.resolve(failedFile);
+      if (failed.length > 0) {
+        yield* fs.writeFileString(
+          failedPath,
+          yield* Schema.encode(FailedSyncFile)({
+            failed: failed.map(({ id, outcome, message }) => ({
+              id,
+              outcome,
+              message: message ?? "",
+            })),
+          })
+        );
+        yield* Console.log(
+          `❌ ${failed.length} todo(s) could not be synced; IDs written to ${failedFile} (retry with 'sync --retry-failed ${failedFile}')`
+        );
+      } else if (
+        Option.isSome(retryFailed) &&
+        path.resolve(retryFailed.value) === failedPath
+      ) {
+        yield* fs.remove(failedPath);
+        yield* Console.log(`🧹 All failed todos synced; removed ${failedFile}`);
+      }
+    },
+    Effect.catchTags({
+      CreateTodoError: ({ message }) => Console.log(`❌ ${message}`),
+      UpdateTodoError: ({ message }) => Console.log(`❌ ${message}`),
+      GetTodoByIdError: ({ message }) => Console.log(`❌ ${message}`),
+      ListTodosError: ({ message }) => Console.log(`❌ ${message}`),
+      UserNotFound: ({ id }) =>
+        Console.log(
+          `❌ Nothing synced: user ${id} not found in local database or on the API (pass --allow-unknown-user to sync their todos anyway)`
+        ),
+      RequestTimeout: ({ message }) => Console.log(`❌ ${message}`),
+      RateLimited: ({ message }) => Console.log(`❌ ${message}`),
+      CircuitOpen: ({ message }) => Console.log(`❌ ${message}`),
+      NotInteractive: ({ message }) =>
+        Console.log(`❌ ${message}; pick another strategy with --on-conflict`),
+    })
+  )
+).pipe(
+  // Every request of this run, including the push of --bidirectional, goes
+  // to the backend picked with --source, within the given limits
+  Command.provideEffect(ConfigFlags, ({ options }) =>
+    Effect.map(ConfigFlags, (flags) => ({
+      ...flags,
+      source: options.source,
+      rate: Option.map(options.rate, Schema.encodeSync(RateSchema)),
+      timeout: Option.map(options.timeout, Schema.encodeSync(TimeoutSchema)),
+      maxFailures: Option.map(options.maxFailures, String),
+    }))
+  ),
+  Command.provideSync(HttpCacheEnabled, ({ options }) => !options.noCache)
 );
@@ -0,0 +1,196 @@
+/**
+ * Tag management command implementation.
+ *
+ * This module provides the `tag` command group for grouping todos with tags:
+ * - tag add: Add tags to a todo
+ * - tag remove: Remove tags from a todo
+ * - tag list: Show every tag with the number of todos carrying it
+ * - tag rename: Rename a tag on every todo, merging it into an existing tag
+ *
+ * Use `list --tag` to list the todos carrying a tag.
+ *
+ * @since 1.0.0
+ */
+
+import { Command, Args } from "@effect/cli";
+import { Effect, Console } from "effect";
+import { DatabaseService } from "../service/DatabaseService.js";
+import { TagName, Todo } from "../domain/Todo.js";
+
+/**
+ * Argument for one or more tag names.
+ */
+const tagsArg = Args.text({ name: "tag" }).pipe(
+  Args.withDescription("Tag name (no whitespace or commas)"),
+  Args.withSchema(TagName),
+  Args.atLeast(1)
+);
+
+/**
+ * CLI command for adding tags to a todo.
+ *
+ * @example
+ * ```bash
+ * pnpm dev tag add 1 work urgent
+ * ```
+ *
+ * Expected output:
+ * ```
+ * 🏷️ Tagged todo 1 with: work, urgent
+ * Todo({ "userId": 1, "id": 1, "title": "Learn Effect", "completed": "pending", "tags": ["urgent", "work"] })
+ * ```
+ *
+ * @since 1.0.0
+ */
+const tagAddCommand = Command.make(
+  "add",
+  {
+    /** The ID of the todo to tag */
+    id: Args.integer({ name: "id" }).pipe(
+      Args.withDescription("Todo ID to add the tags to")
+    ),
+    tags: tagsArg,
+  },
+  Effect.fn("tagAddCommand")(
+    function* ({ id, tags }) {
+      const todo = yield* DatabaseService.addTags(id, tags);
+      yield* Console.log(`🏷️ Tagged todo ${id} with: ${tags.join(", ")}`);
+      yield* Console.log(Todo.pretty(todo));
+    },
+    Effect.catchTag("TodoNotFound", ({ id }) =>
+      Console.log(`❌ Todo ${id} not found in local database`)
+    )
+  )
+);
+
+/**
+ * CLI command for removing tags from a todo.
+ *
+ * @example
+ * ```bash
+ * pnpm dev tag remove 1 urgent
+ * ```
+ *
+ * Expected output:
+ * ```
+ * 🏷️ Removed from todo 1: urgent
+ * Todo({ "userId": 1, "id": 1, "title": "Learn Effect", "completed": "pending", "tags": ["work"] })
+ * ```
+ *
+ * @since 1.0.0
+ */
+const tagRemoveCommand = Command.make(
+  "remove",
+  {
+    /** The ID of the todo to untag */
+    id: Args.integer({ name: "id" }).pipe(
+      Args.withDescription("Todo ID to remove the tags from")
+    ),
+    tags: tagsArg,
+  },
+  Effect.fn("tagRemoveCommand")(
+    function* ({ id, tags }) {
+      const todo = yield* DatabaseService.removeTags(id, tags);
+      yield* Console.log(`🏷️ Removed from todo ${id}: ${tags.join(", ")}`);
+      yield* Console.log(Todo.pretty(todo));
+    },
+    Effect.catchTag("TodoNotFound", ({ id }) =>
+      Console.log(`❌ Todo ${id} not found in local database`)
+    )
+  )
+);
+
+/**
+ * CLI command for listing every tag with the number of todos carrying it.
+ *
+ * Todos in the trash are not counted.
+ *
+ * @example
+ * ```bash
+ * pnpm dev tag list
+ * ```
+ *
+ * Expected output:
+ * ```
+ * 🏷️ Tags:
+ * home    1 todo(s)
+ * work    3 todo(s)
+ * ```
+ *
+ * @since 1.0.0
+ */
+const tagListCommand = Command.make(
+  "list",
+  {},
+  Effect.fn("tagListCommand")(function* () {
+    const tags = yield* DatabaseService.getTags();
+    if (tags.length === 0) {
+      yield* Console.log("🏷️ No tags yet; add some with `tag add`");
+      return;
+    }
+    const width = Math.max(...tags.map(({ name }) => name.length));
+    yield* Console.log("🏷️ Tags:");
+    for (const { name, count } of tags) {
+      yield* Console.log(`${name.padEnd(width)}  ${count} todo(s)`);
+    }
+  })
+);
+
+/**
+ * CLI command for renaming a tag on every todo carrying it.
+ *
+ * When a tag with the new name already exists, the two tags are merged.
+ *
+ * @example
+ * ```bash
+ * pnpm dev tag rename wrk work
+ * ```
+ *
+ * Expected output:
+ * ```
+ * ✅ Merged tag wrk into work
+ * ```
+ *
+ * @since 1.0.0
+ */
+const tagRenameCommand = Command.make(
+  "rename",
+  {
+    /** Current name of the tag */
+    from: Args.text({ name: "from" }).pipe(
+      Args.withDescription("Current tag name")
+    ),
+    /** New name of the tag */
+    to: Args.text({ name: "to" }).pipe(
+      Args.withDescription("New tag name (no whitespace or commas)"),
+      Args.withSchema(TagName)
+    ),
+  },
+  Effect.fn("tagRenameCommand")(
+    function* ({ from, to }) {
+      const { merged } = yield* DatabaseService.renameTag(from, to);
+      yield* Console.log(
+        merged
+          ? `✅ Merged tag ${from} into ${to}`
+          : `✅ Renamed tag ${from} to ${to}`
+      );
+    },
+    Effect.catchTag("TagNotFound", ({ name }) =>
+      Console.log(`❌ Tag ${name} not found`)
+    )
+  )
+);
+
+/**
+ * CLI command group for managing tags.
+ *
+ * @since 1.0.0
+ */
+export const tagCommand = Command.make("tag").pipe(
+  Command.withSubcommands([
+    tagAddCommand,
+    tagRemoveCommand,
+    tagListCommand,
+    tagRenameCommand,
+  ])
+);
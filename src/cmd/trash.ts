@@ -0,0 +1,186 @@
+/**
+ * Trash management command implementation.
+ *
+ * This module provides the `trash` command group for inspecting and managing
+ * todos that were removed with `delete`:
+ * - trash list: Show all todos in the trash
+ * - trash restore: Bring a todo back from the trash
+ * - trash empty: Permanently delete todos from the trash
+ *
+ * @since 1.0.0
+ */
+
+import { Command, Args, Options } from "@effect/cli";
+import { Effect, Console, Duration, Option, Schema } from "effect";
+import { DatabaseService } from "../service/DatabaseService.js";
+import { Todo } from "../domain/Todo.js";
+
+/**
+ * Schema for validating the `--older-than` age input.
+ *
+ * Accepts a positive integer followed by a unit and converts it to a Duration:
+ * - `m` for minutes (e.g. "30m")
+ * - `h` for hours (e.g. "12h")
+ * - `d` for days (e.g. "7d")
+ * - `w` for weeks (e.g. "2w")
+ *
+ * @since 1.0.0
+ */
+export const OlderThanSchema = Schema.transform(
+  Schema.String.pipe(Schema.pattern(/^[1-9]\d*[mhdw]$/)),
+  Schema.DurationFromSelf,
+  {
+    strict: true,
+    decode: (input) => {
+      const amount = Number(input.slice(0, -1));
+      switch (input.slice(-1)) {
+        case "m":
+          return Duration.minutes(amount);
+        case "h":
+          return Duration.hours(amount);
+        case "d":
+          return Duration.days(amount);
+        default:
+          return Duration.weeks(amount);
+      }
+    },
+    encode: (duration) => `${Math.floor(Duration.toMinutes(duration))}m`,
+  }
+);
+
+/**
+ * CLI command for listing the todos in the trash.
+ *
+ * @example
+ * ```bash
+ * pnpm dev trash list
+ * ```
+ *
+ * Expected output:
+ * ```
+ * 🗑️ Todos in Trash:
+ * Todo({ "userId": 2, "id": 3, "title": "Master TypeScript", "completed": "pending" })
+ * Deleted at: 2024-05-01 10:15:00
+ * ---
+ * ```
+ *
+ * @since 1.0.0
+ */
+const trashListCommand = Command.make(
+  "list",
+  {},
+  Effect.fn("trashListCommand")(function* () {
+    const trashed = yield* DatabaseService.getTrashedTodos();
+    if (trashed.length === 0) {
+      yield* Console.log("🗑️ Trash is empty");
+      return;
+    }
+    yield* Console.log("🗑️ Todos in Trash:");
+    for (const { todo, deletedAt } of trashed) {
+      yield* Console.log(Todo.pretty(todo));
+      yield* Console.log(`Deleted at: ${deletedAt}`);
+      yield* Console.log("---");
+    }
+  })
+);
+
+/**
+ * CLI command for restoring a todo from the trash.
+ *
+ * The subtasks that were trashed with the todo are restored too. A subtask
+ * whose parent is still in the trash comes back as a top-level todo.
+ *
+ * @example
+ * ```bash
+ * pnpm dev trash restore 3
+ * ```
+ *
+ * Expected output:
+ * ```
+ * ♻️ Restored todo:
+ * Todo({ "userId": 2, "id": 3, "title": "Master TypeScript", "completed": "pending" })
+ * ```
+ *
+ * @since 1.0.0
+ */
+const trashRestoreCommand = Command.make(
+  "restore",
+  {
+    /** The ID of the trashed todo to restore */
+    id: Args.integer({ name: "id" }).pipe(
+      Args.withDescription("Todo ID to restore from the trash")
+    ),
+  },
+  Effect.fn("trashRestoreCommand")(
+    function* ({ id }) {
+      const { todo, subtasks } = yield* DatabaseService.restoreTodo(id);
+      yield* Console.log(
+        subtasks === 0
+          ? "♻️ Restored todo:"
+          : `♻️ Restored todo with ${subtasks} subtask(s):`
+      );
+      yield* Console.log(Todo.pretty(todo));
+    },
+    Effect.catchTag("TodoNotFound", ({ id }) =>
+      Console.log(`❌ Todo ${id} not found in trash`)
+    )
+  )
+);
+
+/**
+ * CLI command for permanently deleting todos from the trash.
+ *
+ * Without options, every todo in the trash is purged. With `--older-than`,
+ * only todos that were trashed at least that long ago are purged.
+ *
+ * @example
+ * ```bash
+ * # Purge the whole trash
+ * pnpm dev trash empty
+ *
+ * # Purge todos trashed more than a week ago
+ * pnpm dev trash empty --older-than 7d
+ * ```
+ *
+ * Expected output:
+ * ```
+ * ✅ Permanently deleted 2 todo(s) from trash
+ * ```
+ *
+ * @warning Purged todos cannot be restored from the trash; only `undo` can
+ * bring them back.
+ *
+ * @since 1.0.0
+ */
+const trashEmptyCommand = Command.make(
+  "empty",
+  {
+    /** Minimum age of trashed todos to purge */
+    olderThan: Options.text("older-than").pipe(
+      Options.withDescription(
+        "Only purge todos trashed at least this long ago (e.g. 30m, 12h, 7d, 2w)"
+      ),
+      Options.withSchema(OlderThanSchema),
+      Options.optional
+    ),
+  },
+  Effect.fn("trashEmptyCommand")(function* ({ olderThan }) {
+    const purged = yield* DatabaseService.emptyTrash(
+      Option.getOrUndefined(olderThan)
+    );
+    yield* Console.log(`✅ Permanently deleted ${purged} todo(s) from trash`);
+  })
+);
+
+/**
+ * CLI command group for managing the trash.
+ *
+ * @since 1.0.0
+ */
+export const trashCommand = Command.make("trash").pipe(
+  Command.withSubcommands([
+    trashListCommand,
+    trashRestoreCommand,
+    trashEmptyCommand,
+  ])
+);
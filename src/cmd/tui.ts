@@ -0,0 +1,279 @@
+/**
+ * Full-screen todo list command implementation.
+ *
+ * This module provides the CLI command for browsing and editing the local
+ * todos with the keyboard. What the screen shows and how keys change it is
+ * defined in the Tui domain module; this command reads the keys, draws the
+ * screen and performs the writes.
+ *
+ * @since 1.0.0
+ */
+
+import { Command } from "@effect/cli";
+import { Terminal } from "@effect/platform";
+import { Effect, Console, Duration, Either, Option } from "effect";
+import { DatabaseService } from "../service/DatabaseService.js";
+import { TodoService } from "../service/TodoService.js";
+import { ProgressBarService } from "../service/ProgressBarService.js";
+import {
+  handleKey,
+  initialTuiState,
+  renderScreen,
+  replaceTodos,
+  scrollToCursor,
+  type TuiAction,
+  type TuiState,
+} from "../domain/Tui.js";
+
+/**
+ * Switches to the alternate screen and hides the cursor, so that the shell
+ * output comes back untouched on exit.
+ */
+const enterScreen = "\x1b[?1049h\x1b[?25l";
+
+/**
+ * Shows the cursor and switches back from the alternate screen.
+ */
+const leaveScreen = "\x1b[?25h\x1b[?1049l";
+
+/**
+ * How long to wait for a key before checking whether the terminal was
+ * resized.
+ */
+const resizeCheckInterval = Duration.millis(250);
+
+/**
+ * Size assumed when the terminal does not report its own.
+ */
+const fallbackSize = { columns: 80, rows: 24 };
+
+/**
+ * Number of phases of a sync, for its progress bar: users, todos, saving.
+ */
+const syncPhases = 3;
+
+/**
+ * CLI command for browsing and editing todos in a full-screen view.
+ *
+ * This command:
+ * - Lists every todo outside the trash, scrolling to keep the selected one
+ *   in view
+ * - Moves the selection with `j` / `k` (or the arrow keys)
+ * - Toggles the selected todo with space, edits its title with `e` and
+ *   moves it to the trash with `d`
+ * - Filters the list by title with `/`
+ * - Syncs every todo from the API with `s`, like `sync --all`, showing a
+ *   progress bar; conflicts are skipped and reported by the next `sync`
+ * - Redraws when the terminal is resized
+ * - Restores the terminal on `q`, escape or Ctrl-C
+ *
+ * Every change is recorded in the history, so `undo` reverts it.
+ *
+ * @example
+ * ```bash
+ * pnpm dev tui
+ * ```
+ *
+ * Expected output:
+ * ```
+ * 📋 Todos: 5 of 5
+ * > [ ] 1 Learn Effect (high) #work
+ *   [x] 2 Build a CLI app
+ *   ...
+ * ✅ Completed todo 2
+ * j/k move · space toggle · e edit · d delete · / filter · s sync · q quit
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const tuiCommand = Command.make(
+  "tui",
+  {},
+  Effect.fn("tuiCommand")(function* () {
+    const terminal = yield* Terminal.Terminal;
+    if (!(yield* terminal.isTTY)) {
+      yield* Console.log(
+        "❌ The tui command needs an interactive terminal; use 'list' instead"
+      );
+      return;
+    }
+    const progressBar = yield* ProgressBarService;
+
+    yield* Effect.scoped(
+      Effect.gen(function* () {
+        yield* Effect.acquireRelease(terminal.display(enterScreen), () =>
+          Effect.ignore(terminal.display(leaveScreen))
+        );
+        // Reading keys puts the terminal in raw mode until the scope closes
+        const keys = yield* terminal.readInput;
+
+        let state: TuiState = initialTuiState(
+          yield* DatabaseService.getAllTodos()
+        );
+        let size = { columns: 0, rows: 0 };
+
+        const terminalSize = Effect.gen(function* () {
+          const columns = yield* terminal.columns;
+          const rows = yield* terminal.rows;
+          return {
+            columns: columns > 0 ? columns : fallbackSize.columns,
+            rows: rows > 0 ? rows : fallbackSize.rows,
+          };
+        });
+
+        const draw = Effect.gen(function* () {
+          size = yield* terminalSize;
+          state = scrollToCursor(state, size.rows);
+          yield* terminal.display(
+            `\x1b[H${renderScreen(state, size).join("\x1b[K\r\n")}\x1b[K\x1b[J`
+          );
+        });
+
+        /**
+         * Pulls every todo from the API, showing the progress of each phase.
+         *
+         * @returns Effect that resolves to the status line describing the sync
+         */
+        const sync = Effect.fn("sync")(function* () {
+          const phase = Effect.fn("phase")(function* (
+            step: number,
+            label: string
+          ) {
+            const bar = yield* progressBar.formatProgress(step, syncPhases);
+            state = {
+              ...state,
+              mode: { _tag: "Busy", progress: `${bar} ${label}` },
+            };
+            yield* draw;
+          });
+
+          yield* phase(0, "Fetching users...");
+          const users = yield* TodoService.listUsers();
+          yield* DatabaseService.saveUsers(users);
+          yield* phase(1, "Fetching todos...");
+          const entries = yield* TodoService.listTodos();
+          yield* phase(2, "Saving todos...");
+          const saved = yield* DatabaseService.saveTodos(
+            entries.filter(Either.isRight).map((entry) => entry.right)
+          );
+          yield* phase(3, "Done");
+
+          const changed = saved.filter(
+            (entry) => Either.isRight(entry) && entry.right.changed
+          ).length;
+          const skipped = saved.filter(Either.isLeft).length;
+          const invalid = entries.filter(Either.isLeft).length;
+          const notes = [
+            ...(skipped > 0
+              ? [`${skipped} in trash or in conflict skipped`]
+              : []),
+            ...(invalid > 0 ? [`${invalid} invalid`] : []),
+          ];
+          return [
+            `🎉 Synced ${entries.length} todo(s), ${changed} new or changed`,
+            ...notes,
+          ].join(", ");
+        });
+
+        /**
+         * Performs an action on the database.
+         *
+         * @param action - What to do, as returned by handleKey
+         * @returns Effect that resolves to the status line describing the
+         *          outcome; domain errors are described there too
+         */
+        const perform = Effect.fn("perform")(function* (
+          action: Exclude<TuiAction, { _tag: "Quit" }>
+        ) {
+          switch (action._tag) {
+            case "Toggle": {
+              const todo = yield* DatabaseService.updateTodo(action.todo.id, {
+                completed: action.todo.completed === "pending",
+              });
+              return todo.completed === "completed"
+                ? `✅ Completed todo ${todo.id}`
+                : `🔄 Marked todo ${todo.id} as pending`;
+            }
+            case "Rename": {
+              const todo = yield* DatabaseService.updateTodo(action.todo.id, {
+                title: action.title,
+              });
+              return `✏️ Renamed todo ${todo.id} to "${todo.title}"`;
+            }
+            case "Delete": {
+              const { todo, subtasks } = yield* DatabaseService.deleteTodo(
+                action.todo.id
+              );
+              return subtasks === 0
+                ? `🗑️ Moved todo ${todo.id} to trash: "${todo.title}"`
+                : `🗑️ Moved todo ${todo.id} and ${subtasks} subtask(s) to trash: "${todo.title}"`;
+            }
+            case "Sync":
+              return yield* sync();
+          }
+        });
+
+        yield* draw;
+        while (true) {
+          // None when the input ended (Ctrl-C), Some(None) when no key came
+          // in time
+          const input = yield* keys.take.pipe(
+            Effect.timeoutOption(resizeCheckInterval),
+            Effect.option
+          );
+          if (Option.isNone(input)) {
+            return;
+          }
+          if (Option.isNone(input.value)) {
+            const { columns, rows } = yield* terminalSize;
+            if (columns !== size.columns || rows !== size.rows) {
+              yield* draw;
+            }
+            continue;
+          }
+
+          const { state: next, action } = handleKey(state, input.value.value);
+          state = next;
+          if (action?._tag === "Quit") {
+            return;
+          }
+          if (action !== undefined) {
+            const status = yield* perform(action).pipe(
+              Effect.catchTags({
+                TodoNotFound: ({ id }) =>
+                  Effect.succeed(`❌ Todo ${id} not found in local database`),
+                OpenSubtasks: ({ id, pending }) =>
+                  Effect.succeed(
+                    `❌ Todo ${id} has ${pending} pending subtask(s); complete them first`
+                  ),
+                TodoValidationError: ({ message }) =>
+                  Effect.succeed(`❌ ${message}`),
+                UserNotFound: ({ id }) =>
+                  Effect.succeed(
+                    `❌ Nothing synced: user ${id} not found in local database or on the API`
+                  ),
+                ListTodosError: ({ message }) =>
+                  Effect.succeed(`❌ ${message}`),
+                ListUsersError: ({ message }) =>
+                  Effect.succeed(`❌ ${message}`),
+                RequestTimeout: ({ message }) =>
+                  Effect.succeed(`❌ ${message}`),
+                RateLimited: ({ message }) => Effect.succeed(`❌ ${message}`),
+                CircuitOpen: ({ message }) => Effect.succeed(`❌ ${message}`),
+              })
+            );
+            // Keys pressed during a sync were not meant for the new list
+            if (action._tag === "Sync") {
+              yield* Effect.ignore(keys.clear);
+            }
+            state = replaceTodos(
+              { ...state, mode: { _tag: "Browse" }, status },
+              yield* DatabaseService.getAllTodos()
+            );
+          }
+          yield* draw;
+        }
+      })
+    );
+  })
+);
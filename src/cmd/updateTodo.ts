@@ -0,0 +1,211 @@
+/**
+ * Todo update command implementation.
+ *
+ * This module provides the CLI command for changing an existing todo item in the
+ * local database. Only the fields passed on the command line are modified; all
+ * other fields keep their current values.
+ *
+ * @since 1.0.0
+ */
+
+import { Command, Args, Options } from "@effect/cli";
+import { Effect, Console, DateTime, Either, Option, type Types } from "effect";
+import { DatabaseService } from "../service/DatabaseService.js";
+import { Todo, TodoPatch } from "../domain/Todo.js";
+import { parseDueDate } from "../domain/DueDate.js";
+
+/**
+ * CLI command for updating an existing todo by ID.
+ *
+ * This command:
+ * - Takes a required integer ID argument
+ * - Accepts optional `--title`, `--user-id`, `--completed`, `--pending`,
+ *   `--due` and `--parent` options
+ * - Refuses to complete a todo with pending subtasks unless `--cascade` is
+ *   given, which completes the subtasks too
+ * - Refuses to make a todo a subtask of itself or of one of its subtasks
+ * - Refuses to move a todo to a user that is not in the local database,
+ *   unless `--allow-unknown-user` is given
+ * - Changes only the supplied fields and bumps the update timestamp
+ * - Validates the new values with the same rules as the Todo schema
+ * - Handles "not found" and validation failures with user-friendly messages
+ *
+ * `--completed` and `--pending` are mutually exclusive. `--due none` removes
+ * the due date, and `--parent none` turns a subtask into a top-level todo.
+ *
+ * @example
+ * ```bash
+ * # Rename a todo
+ * pnpm dev update 3 --title "Master TypeScript generics"
+ *
+ * # Mark a todo as completed and move it to user 2
+ * pnpm dev update 3 --completed --user-id 2
+ *
+ * # Reopen a todo
+ * pnpm dev update 3 --pending
+ *
+ * # Complete a todo and all of its subtasks
+ * pnpm dev update 5 --completed --cascade
+ *
+ * # Make todo 7 a subtask of todo 5
+ * pnpm dev update 7 --parent 5
+ *
+ * # Postpone a todo by a week, or remove its due date
+ * pnpm dev update 3 --due +1w
+ * pnpm dev update 3 --due none
+ * ```
+ *
+ * Expected output:
+ * ```
+ * ✅ Updated todo:
+ * Todo({ "userId": 2, "id": 3, "title": "Master TypeScript", "completed": "completed" })
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const updateTodoCommand = Command.make(
+  "update",
+  {
+    /** The ID of the todo to update */
+    id: Args.integer({ name: "id" }).pipe(
+      Args.withDescription("Todo ID to update in the local database")
+    ),
+    /** New title for the todo (must be non-empty and less than 255 characters) */
+    title: Options.text("title").pipe(
+      Options.withDescription("New todo title"),
+      Options.optional
+    ),
+    /** New owner of the todo */
+    userId: Options.integer("user-id").pipe(
+      Options.withDescription("New user ID for the todo"),
+      Options.optional
+    ),
+    /** Mark the todo as completed */
+    completed: Options.boolean("completed").pipe(
+      Options.withDescription("Mark the todo as completed")
+    ),
+    /** Mark the todo as pending */
+    pending: Options.boolean("pending").pipe(
+      Options.withDescription("Mark the todo as pending")
+    ),
+    /** New due date, or `none` to remove it */
+    due: Options.text("due").pipe(
+      Options.withDescription(
+        "New due date (today, tomorrow, +3d, +2w, next friday or an ISO date), or none to remove it"
+      ),
+      Options.optional
+    ),
+    /** New parent todo, or `none` to make the todo a top-level todo */
+    parent: Options.text("parent").pipe(
+      Options.withDescription(
+        "Todo ID to make this todo a subtask of, or none to make it a top-level todo"
+      ),
+      Options.optional
+    ),
+    /** Complete the pending subtasks too when completing the todo */
+    cascade: Options.boolean("cascade").pipe(
+      Options.withDescription(
+        "With --completed, also complete all pending subtasks instead of failing"
+      )
+    ),
+    /** Accept a new user that is not in the local database */
+    allowUnknownUser: Options.boolean("allow-unknown-user").pipe(
+      Options.withDescription(
+        "With --user-id, accept a user that is not in the local database"
+      )
+    ),
+  },
+  Effect.fn("updateTodoCommand")(
+    function* ({
+      id,
+      title,
+      userId,
+      completed,
+      pending,
+      due,
+      parent,
+      cascade,
+      allowUnknownUser,
+    }: {
+      id: number;
+      title: Option.Option<string>;
+      userId: Option.Option<number>;
+      completed: boolean;
+      pending: boolean;
+      due: Option.Option<string>;
+      parent: Option.Option<string>;
+      cascade: boolean;
+      allowUnknownUser: boolean;
+    }) {
+      if (completed && pending) {
+        yield* Console.log(
+          "❌ --completed and --pending cannot be used together"
+        );
+        return;
+      }
+
+      const patch: Types.Mutable<typeof TodoPatch.Encoded> = {};
+      if (Option.isSome(title)) patch.title = title.value;
+      if (Option.isSome(userId)) patch.userId = userId.value;
+      if (completed || pending) patch.completed = completed;
+      if (Option.isSome(due)) {
+        if (due.value.trim().toLowerCase() === "none") {
+          patch.dueAt = null;
+        } else {
+          const now = DateTime.setZone(
+            yield* DateTime.now,
+            DateTime.zoneMakeLocal()
+          );
+          const dueAt = parseDueDate(due.value, now);
+          if (Either.isLeft(dueAt)) {
+            yield* Console.log(`❌ ${dueAt.left}`);
+            return;
+          }
+          patch.dueAt = DateTime.formatIso(dueAt.right);
+        }
+      }
+
+      if (Option.isSome(parent)) {
+        const value = parent.value.trim().toLowerCase();
+        if (value !== "none" && !/^\d+$/.test(value)) {
+          yield* Console.log(
+            `❌ --parent must be a todo ID or none, got "${parent.value}"`
+          );
+          return;
+        }
+        patch.parentId = value === "none" ? null : Number(value);
+      }
+
+      if (Object.keys(patch).length === 0) {
+        yield* Console.log(
+          "❌ Please provide at least one of --title, --user-id, --completed, --pending, --due or --parent"
+        );
+        return;
+      }
+
+      const todo = yield* DatabaseService.updateTodo(id, patch, {
+        cascade,
+        allowUnknownUser,
+      });
+      yield* Console.log("✅ Updated todo:");
+      yield* Console.log(Todo.pretty(todo));
+    },
+    Effect.catchTags({
+      TodoNotFound: ({ id }) =>
+        Console.log(`❌ Todo ${id} not found in local database`),
+      TodoValidationError: ({ message }) => Console.log(`❌ ${message}`),
+      TodoCycle: ({ id, parentId }) =>
+        Console.log(
+          `❌ Todo ${id} cannot be a subtask of todo ${parentId}, as that would make it a subtask of itself`
+        ),
+      OpenSubtasks: ({ id, pending }) =>
+        Console.log(
+          `❌ Todo ${id} has ${pending} pending subtask(s); complete them first or use --cascade`
+        ),
+      UserNotFound: ({ id }) =>
+        Console.log(
+          `❌ User ${id} not found in local database; add it with 'user add', sync it, or pass --allow-unknown-user`
+        ),
+    })
+  )
+);
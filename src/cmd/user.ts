@@ -0,0 +1,195 @@
+/**
+ * User management command implementation.
+ *
+ * This module provides the `user` command group for the people who own todos:
+ * - user list: Show every known user with how many of their todos are done
+ * - user add: Add a user to the local database
+ * - user show: Show one user with their todos and completion stats
+ *
+ * Users are also synced from the remote backend by `sync`. `create`,
+ * `update` and `sync` refuse todos of users that are not known locally,
+ * unless `--allow-unknown-user` is passed.
+ *
+ * @since 1.0.0
+ */
+
+import { Command, Args, Options } from "@effect/cli";
+import { Effect, Console, Option } from "effect";
+import { DatabaseService } from "../service/DatabaseService.js";
+import { RenderService } from "../service/RenderService.js";
+import { User, UserName } from "../domain/User.js";
+
+/**
+ * Formats how many of a user's todos are completed, e.g. `2/3 completed (67%)`.
+ */
+const formatProgress = (completed: number, todos: number): string =>
+  todos === 0
+    ? "no todos"
+    : `${completed}/${todos} completed (${Math.round(
+        (completed / todos) * 100
+      )}%)`;
+
+/**
+ * CLI command for listing every known user.
+ *
+ * Todos in the trash are not counted.
+ *
+ * @example
+ * ```bash
+ * pnpm dev user list
+ * ```
+ *
+ * Expected output:
+ * ```
+ * 👥 Users:
+ * 1  Leanne Graham  @Bret       Sincere@april.biz  2/3 completed (67%)
+ * 2  Ervin Howell   @Antonette  Shanna@melissa.tv  1/2 completed (50%)
+ * ```
+ *
+ * @since 1.0.0
+ */
+const userListCommand = Command.make(
+  "list",
+  {},
+  Effect.fn("userListCommand")(function* () {
+    const users = yield* DatabaseService.getUsers();
+    if (users.length === 0) {
+      yield* Console.log(
+        "👥 No users yet; add some with `user add` or fetch them with `sync`"
+      );
+      return;
+    }
+    const rows = users.map(({ user, todos, completed }) => [
+      String(user.id),
+      user.name,
+      user.username === undefined ? "-" : `@${user.username}`,
+      user.email ?? "-",
+      formatProgress(completed, todos),
+    ]);
+    const widths = rows[0].map((_, column) =>
+      Math.max(...rows.map((row) => row[column].length))
+    );
+    yield* Console.log("👥 Users:");
+    for (const row of rows) {
+      yield* Console.log(
+        row
+          .map((cell, column) =>
+            column === row.length - 1 ? cell : cell.padEnd(widths[column])
+          )
+          .join("  ")
+      );
+    }
+  })
+);
+
+/**
+ * CLI command for adding a user to the local database.
+ *
+ * The user gets the next free ID. Users added locally are not sent to the
+ * API.
+ *
+ * @example
+ * ```bash
+ * pnpm dev user add "Ada Lovelace" --username ada --email ada@example.com
+ * ```
+ *
+ * Expected output:
+ * ```
+ * ✅ Added user 3:
+ * User({ "id": 3, "name": "Ada Lovelace", "username": "ada", "email": "ada@example.com" })
+ * ```
+ *
+ * @since 1.0.0
+ */
+const userAddCommand = Command.make(
+  "add",
+  {
+    /** The user's full name */
+    name: Args.text({ name: "name" }).pipe(
+      Args.withDescription("Full name of the user"),
+      Args.withSchema(UserName)
+    ),
+    /** Optional short handle */
+    username: Options.text("username").pipe(
+      Options.withDescription("Short handle of the user"),
+      Options.optional
+    ),
+    /** Optional email address */
+    email: Options.text("email").pipe(
+      Options.withDescription("Email address of the user"),
+      Options.optional
+    ),
+  },
+  Effect.fn("userAddCommand")(
+    function* ({ name, username, email }) {
+      const user = yield* DatabaseService.addUser({
+        name,
+        ...(Option.isSome(username) ? { username: username.value } : {}),
+        ...(Option.isSome(email) ? { email: email.value } : {}),
+      });
+      yield* Console.log(`✅ Added user ${user.id}:`);
+      yield* Console.log(User.pretty(user));
+    },
+    Effect.catchTag("TodoValidationError", ({ message }) =>
+      Console.log(`❌ ${message}`)
+    )
+  )
+);
+
+/**
+ * CLI command for showing a user with their todos.
+ *
+ * The todos are printed in the format selected with the global `--format`
+ * option, most important first; the pretty format adds the user above them
+ * and the completion stats below. Todos in the trash are left out.
+ *
+ * @example
+ * ```bash
+ * pnpm dev user show 1
+ * ```
+ *
+ * Expected output:
+ * ```
+ * 👤 User({ "id": 1, "name": "Leanne Graham", "username": "Bret", "email": "Sincere@april.biz" })
+ * Todo({ "userId": 1, "id": 1, "title": "Learn Effect", "completed": "pending" })
+ * ---
+ * Todo({ "userId": 1, "id": 2, "title": "Build a CLI app", "completed": "completed" })
+ * ---
+ * 📊 1/2 completed (50%)
+ * ```
+ *
+ * @since 1.0.0
+ */
+const userShowCommand = Command.make(
+  "show",
+  {
+    /** The ID of the user to show */
+    id: Args.integer({ name: "id" }).pipe(
+      Args.withDescription("User ID to show")
+    ),
+  },
+  Effect.fn("userShowCommand")(
+    function* ({ id }) {
+      const { user, todos, completed } = yield* DatabaseService.getUserById(id);
+      const { todos: owned } = yield* DatabaseService.queryTodos({
+        userId: id,
+      });
+      yield* RenderService.renderTodos(owned, {
+        header: `👤 ${User.pretty(user)}`,
+        footer: `📊 ${formatProgress(completed, todos)}`,
+      });
+    },
+    Effect.catchTag("UserNotFound", ({ id }) =>
+      Console.log(`❌ User ${id} not found in local database`)
+    )
+  )
+);
+
+/**
+ * CLI command group for managing users.
+ *
+ * @since 1.0.0
+ */
+export const userCommand = Command.make("user").pipe(
+  Command.withSubcommands([userListCommand, userAddCommand, userShowCommand])
+);
@@ -0,0 +1,84 @@
+import { Duration, Schema } from "effect";
+
+/**
+ * Schema for the outbound request rate limit.
+ *
+ * Accepts either:
+ * - The literal string "unlimited" to send requests as fast as the
+ *   concurrency allows
+ * - A number of requests per second or per minute, e.g. "20/s" or "300/m"
+ *
+ * @since 1.0.0
+ */
+export const RateSchema = Schema.Union(
+  Schema.Literal("unlimited"),
+  Schema.transform(
+    Schema.String.pipe(Schema.pattern(/^[1-9]\d*\/[sm]$/)),
+    Schema.Struct({
+      /** Requests allowed per interval (also the burst size) */
+      limit: Schema.Int.pipe(Schema.positive()),
+      /** Length of the interval */
+      interval: Schema.DurationFromSelf,
+    }),
+    {
+      strict: true,
+      decode: (input) => {
+        const [limit, unit] = input.split("/");
+        return {
+          limit: Number(limit),
+          interval: unit === "s" ? Duration.seconds(1) : Duration.minutes(1),
+        };
+      },
+      encode: ({ limit, interval }) =>
+        `${limit}/${Duration.toMillis(interval) === 1000 ? "s" : "m"}`,
+    }
+  )
+);
+
+/**
+ * Type of a decoded {@link RateSchema}.
+ * @since 1.0.0
+ */
+export type Rate = typeof RateSchema.Type;
+
+/**
+ * Schema for the per-request timeout: a positive integer followed by `ms`,
+ * `s` or `m` (e.g. "500ms", "30s", "2m"), decoded to a Duration.
+ *
+ * @since 1.0.0
+ */
+export const TimeoutSchema = Schema.transform(
+  Schema.String.pipe(Schema.pattern(/^[1-9]\d*(ms|s|m)$/)),
+  Schema.DurationFromSelf,
+  {
+    strict: true,
+    decode: (input) => {
+      const amount = Number(input.replace(/\D+$/, ""));
+      if (input.endsWith("ms")) {
+        return Duration.millis(amount);
+      }
+      return input.endsWith("s")
+        ? Duration.seconds(amount)
+        : Duration.minutes(amount);
+    },
+    encode: (duration) => {
+      const millis = Duration.toMillis(duration);
+      return millis % 60_000 === 0
+        ? `${millis / 60_000}m`
+        : millis % 1000 === 0
+        ? `${millis / 1000}s`
+        : `${millis}ms`;
+    },
+  }
+);
+
+/**
+ * Schema for the circuit breaker threshold: how many consecutive failed
+ * requests open the circuit. 0 disables the circuit breaker.
+ *
+ * @since 1.0.0
+ */
+export const MaxFailuresSchema = Schema.compose(
+  Schema.NumberFromString,
+  Schema.Int.pipe(Schema.nonNegative())
+);
@@ -0,0 +1,34 @@
+import { Schema } from "effect";
+
+/**
+ * Schema for validating concurrency level input.
+ *
+ * Accepts either:
+ * - The literal string "unbounded" for maximum concurrency
+ * - A positive integer string that gets converted to a number
+ *
+ * This ensures type safety and proper validation of user input.
+ *
+ * @since 1.0.0
+ */
+export const ConcurrencySchema = Schema.Union(
+  Schema.Literal("unbounded"),
+  Schema.compose(Schema.NumberFromString, Schema.Int.pipe(Schema.positive()))
+);
+
+/**
+ * Describes a concurrency level for progress messages.
+ *
+ * @param concurrency - A decoded concurrency level
+ * @returns "sequential", "unbounded" or "parallel (N)"
+ *
+ * @since 1.0.0
+ */
+export const describeConcurrency = (
+  concurrency: typeof ConcurrencySchema.Type
+): string =>
+  concurrency === 1
+    ? "sequential"
+    : concurrency === "unbounded"
+    ? "unbounded"
+    : `parallel (${concurrency})`;
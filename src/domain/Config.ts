@@ -0,0 +1,140 @@
+import { Schema } from "effect";
+import { ConcurrencySchema } from "./Concurrency.js";
+import { OutputFormat } from "./OutputFormat.js";
+import { TodoSourceName } from "./TodoSource.js";
+import { MaxFailuresSchema, RateSchema, TimeoutSchema } from "./ApiLimits.js";
+
+/**
+ * Names of the configurable settings.
+ *
+ * - dbPath: Location of the SQLite database file
+ * - concurrency: Default concurrency for `sync`
+ * - format: Default output format for printed todos
+ * - apiUrl: Base URL of the remote todo API
+ * - apiAuth: Value of the Authorization header sent to the remote todo API
+ * - source: Remote backend to sync with (rest, file or fake)
+ * - sourceFile: Location of the JSON or NDJSON file used by the file backend
+ * - rate: Maximum rate of requests to the remote todo API
+ * - timeout: How long a single request to the remote todo API may take
+ * - maxFailures: Consecutive failed requests that open the circuit breaker
+ *
+ * @since 1.0.0
+ */
+export const ConfigKey = Schema.Literal(
+  "dbPath",
+  "concurrency",
+  "format",
+  "apiUrl",
+  "apiAuth",
+  "source",
+  "sourceFile",
+  "rate",
+  "timeout",
+  "maxFailures"
+);
+
+/**
+ * Type of a {@link ConfigKey}.
+ * @since 1.0.0
+ */
+export type ConfigKey = typeof ConfigKey.Type;
+
+/**
+ * Schema decoding the raw string form of every setting into its typed value.
+ *
+ * Settings always start out as strings (flags, environment variables and
+ * config file entries alike), so each field decodes from a string.
+ *
+ * @since 1.0.0
+ */
+export const TodoConfig = Schema.Struct({
+  /** Path to the SQLite database file */
+  dbPath: Schema.NonEmptyString,
+  /** Default sync concurrency: a positive integer or "unbounded" */
+  concurrency: ConcurrencySchema,
+  /** Default output format */
+  format: OutputFormat,
+  /** Base URL of the remote todo API, without a trailing slash */
+  apiUrl: Schema.String.pipe(Schema.pattern(/^https?:\/\/[^/]+(\/.*[^/])?$/)),
+  /** Authorization header for the remote todo API, empty for none */
+  apiAuth: Schema.String,
+  /** Remote backend to sync with */
+  source: TodoSourceName,
+  /** Path to the todo file of the file backend (.json or .ndjson) */
+  sourceFile: Schema.NonEmptyString,
+  /** Request rate limit: "unlimited" or requests per second/minute ("20/s") */
+  rate: RateSchema,
+  /** Per-request timeout ("30s", "500ms", "2m") */
+  timeout: TimeoutSchema,
+  /** Circuit breaker threshold (0 disables it) */
+  maxFailures: MaxFailuresSchema,
+});
+
+/**
+ * Typed values of all settings.
+ * @since 1.0.0
+ */
+export type TodoConfig = typeof TodoConfig.Type;
+
+/**
+ * Widens a schema of a fixed set of strings to decode from any string,
+ * failing with a single line that lists the allowed values.
+ * @since 1.0.0
+ */
+const oneOf = <A extends string>(schema: Schema.Schema<A>) =>
+  Schema.String.pipe(
+    Schema.filter(Schema.is(schema), {
+      message: (issue) =>
+        `Expected ${Schema.format(schema)}, actual ${JSON.stringify(
+          issue.actual
+        )}`,
+    })
+  );
+
+/**
+ * The schema of every setting by key, each decoding from any string.
+ *
+ * The fields of {@link TodoConfig} with a fixed set of values only encode
+ * to those values, so they are widened here; this lets a setting be
+ * decoded and encoded by its key without casting its schema.
+ *
+ * @since 1.0.0
+ */
+export const configCodecs: {
+  readonly [K in ConfigKey]: Schema.Schema<TodoConfig[K], string>;
+} = {
+  ...TodoConfig.fields,
+  format: oneOf(OutputFormat),
+  source: oneOf(TodoSourceName),
+};
+
+/**
+ * Where the effective value of a setting came from, in order of precedence.
+ *
+ * - flag: A command line option
+ * - env: A `TODO_*` environment variable
+ * - project: The nearest `.todorc.json` in the current directory or its parents
+ * - user: The user config file under the XDG config directory
+ * - default: The built-in default
+ *
+ * @since 1.0.0
+ */
+export type ConfigSource =
+  | { readonly _tag: "flag"; readonly name: string }
+  | { readonly _tag: "env"; readonly name: string }
+  | { readonly _tag: "project"; readonly path: string }
+  | { readonly _tag: "user"; readonly path: string }
+  | { readonly _tag: "default" };
+
+/**
+ * The effective value of a setting together with where it came from.
+ * @since 1.0.0
+ */
+export interface ResolvedSetting<K extends ConfigKey> {
+  /** Name of the setting */
+  readonly key: K;
+  /** Decoded value */
+  readonly value: TodoConfig[K];
+  /** Source that supplied the value */
+  readonly source: ConfigSource;
+}
@@ -0,0 +1,32 @@
+import { Schema } from "effect";
+
+/**
+ * Tagged error class representing invalid or unreadable configuration.
+ *
+ * This error is thrown when a config file cannot be read or parsed, when a
+ * setting has a value that does not match its schema (no matter whether it
+ * came from a flag, an environment variable or a file), or when a config file
+ * cannot be written.
+ *
+ * @example
+ * ```typescript
+ * // Throwing a ConfigError
+ * yield* new ConfigError({
+ *   message: "Invalid value \"xml\" for format (from env TODO_FORMAT)"
+ * });
+ *
+ * // Catching a ConfigError
+ * Effect.catchTag("ConfigError", ({ message }) =>
+ *   Console.error(`Configuration problem: ${message}`)
+ * )
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class ConfigError extends Schema.TaggedError<ConfigError>()(
+  "ConfigError",
+  {
+    /** Human-readable error message describing what went wrong */
+    message: Schema.String,
+  }
+) {}
@@ -0,0 +1,58 @@
+import { Schema } from "effect";
+import type { Todo } from "./Todo.js";
+
+/**
+ * How sync resolves a conflict, i.e. a todo that changed both locally and on
+ * the remote API since the last sync.
+ *
+ * - remote-wins: Overwrite the local todo with the remote one
+ * - local-wins: Keep the local todo; its changes are sent on the next push
+ * - skip: Leave the local todo alone and report the conflict again next sync
+ * - ask: Ask the user for each conflict
+ *
+ * @since 1.0.0
+ */
+export const ConflictStrategy = Schema.Literal(
+  "remote-wins",
+  "local-wins",
+  "skip",
+  "ask"
+);
+
+/**
+ * Type of a {@link ConflictStrategy}.
+ * @since 1.0.0
+ */
+export type ConflictStrategy = typeof ConflictStrategy.Type;
+
+/**
+ * Fields of a todo that can clash between the local and remote versions.
+ * @since 1.0.0
+ */
+export const ConflictField = Schema.Literal("userId", "title", "completed");
+
+/**
+ * Type of a {@link ConflictField}.
+ * @since 1.0.0
+ */
+export type ConflictField = typeof ConflictField.Type;
+
+/**
+ * Lists the fields whose values differ between two versions of a todo.
+ *
+ * @param local - The local version
+ * @param remote - The remote version
+ * @returns The differing fields, in declaration order (empty if they agree)
+ *
+ * @example
+ * ```typescript
+ * conflictingFields(local, remote); // ["title", "completed"]
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const conflictingFields = (
+  local: Todo,
+  remote: Todo
+): Array<ConflictField> =>
+  ConflictField.literals.filter((field) => local[field] !== remote[field]);
@@ -1,4 +1,6 @@
 import { Schema } from "effect";
+import { Todo } from "./Todo.js";
+import { ConflictField } from "./Conflict.js";
 
 /**
  * Tagged error class representing general database operation failures.
@@ -55,3 +57,234 @@ export class TodoNotFound extends Schema.TaggedError<TodoNotFound>()(
     id: Schema.Number,
   }
 ) {}
+
+/**
+ * Tagged error class representing input that does not satisfy the Todo schema rules.
+ *
+ * This error is thrown before any write happens, when the data supplied for a todo
+ * (for example an empty title or a non-integer user ID) fails schema validation.
+ *
+ * @example
+ * ```typescript
+ * // Throwing a TodoValidationError
+ * yield* new TodoValidationError({
+ *   message: "title: Expected a non empty string, actual \"\""
+ * });
+ *
+ * // Catching a TodoValidationError
+ * Effect.catchTag("TodoValidationError", ({ message }) =>
+ *   Console.log(`Invalid todo: ${message}`)
+ * )
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class TodoValidationError extends Schema.TaggedError<TodoValidationError>()(
+  "TodoValidationError",
+  {
+    /** Human-readable description of the validation failure */
+    message: Schema.String,
+  }
+) {}
+
+/**
+ * Tagged error class representing a write to a todo that is in the trash.
+ *
+ * This error is thrown when saving a todo (for example during sync) whose ID
+ * belongs to a todo that was deleted locally. The trashed todo is left untouched
+ * so that it is not silently brought back; it has to be restored explicitly.
+ *
+ * @example
+ * ```typescript
+ * // Throwing a TodoTrashed error
+ * yield* new TodoTrashed({ id: 42 });
+ *
+ * // Catching a TodoTrashed error
+ * Effect.catchTag("TodoTrashed", ({ id }) =>
+ *   Console.log(`Todo ${id} is in the trash, skipping`)
+ * )
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class TodoTrashed extends Schema.TaggedError<TodoTrashed>()(
+  "TodoTrashed",
+  {
+    /** The ID of the trashed todo */
+    id: Schema.Number,
+  }
+) {}
+
+/**
+ * Tagged error class representing a todo that changed both locally and remotely.
+ *
+ * This error is thrown when saving a todo from the API (for example during sync)
+ * whose local version has changes that were not pushed yet, while the remote
+ * version also changed since the last sync. The local todo is left untouched;
+ * the caller decides which version to keep.
+ *
+ * @example
+ * ```typescript
+ * // Throwing a TodoConflict error
+ * yield* new TodoConflict({ id: 42, local, remote, fields: ["title"] });
+ *
+ * // Catching a TodoConflict error
+ * Effect.catchTag("TodoConflict", ({ id, fields }) =>
+ *   Console.log(`Todo ${id} changed on both sides: ${fields.join(", ")}`)
+ * )
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class TodoConflict extends Schema.TaggedError<TodoConflict>()(
+  "TodoConflict",
+  {
+    /** The local ID of the conflicting todo */
+    id: Schema.Number,
+    /** The local version of the todo */
+    local: Todo,
+    /** The version of the todo on the API */
+    remote: Todo,
+    /** Fields whose values differ between the two versions */
+    fields: Schema.Array(ConflictField),
+  }
+) {}
+
+/**
+ * Tagged error class representing a tag that no todo carries.
+ *
+ * This error is thrown when renaming a tag that does not exist. Tags exist
+ * only while at least one todo carries them.
+ *
+ * @example
+ * ```typescript
+ * // Throwing a TagNotFound error
+ * yield* new TagNotFound({ name: "work" });
+ *
+ * // Catching a TagNotFound error
+ * Effect.catchTag("TagNotFound", ({ name }) =>
+ *   Console.log(`No todo is tagged ${name}`)
+ * )
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class TagNotFound extends Schema.TaggedError<TagNotFound>()(
+  "TagNotFound",
+  {
+    /** The name of the tag that was not found */
+    name: Schema.String,
+  }
+) {}
+
+/**
+ * Tagged error class representing a subtask that would contain itself.
+ *
+ * This error is thrown when making a todo a subtask of itself or of one of
+ * its own subtasks, which would turn the todo tree into a loop.
+ *
+ * @example
+ * ```typescript
+ * // Throwing a TodoCycle error
+ * yield* new TodoCycle({ id: 1, parentId: 3 });
+ *
+ * // Catching a TodoCycle error
+ * Effect.catchTag("TodoCycle", ({ id, parentId }) =>
+ *   Console.log(`Todo ${parentId} is already a subtask of todo ${id}`)
+ * )
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class TodoCycle extends Schema.TaggedError<TodoCycle>()("TodoCycle", {
+  /** The ID of the todo that was to become a subtask */
+  id: Schema.Number,
+  /** The ID of the todo it was to become a subtask of */
+  parentId: Schema.Number,
+}) {}
+
+/**
+ * Tagged error class representing a todo that cannot be completed because
+ * some of its subtasks are still pending.
+ *
+ * This error is thrown when completing a todo with pending subtasks without
+ * asking to complete the subtasks as well.
+ *
+ * @example
+ * ```typescript
+ * // Throwing an OpenSubtasks error
+ * yield* new OpenSubtasks({ id: 1, pending: 2 });
+ *
+ * // Catching an OpenSubtasks error
+ * Effect.catchTag("OpenSubtasks", ({ id, pending }) =>
+ *   Console.log(`Todo ${id} still has ${pending} pending subtask(s)`)
+ * )
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class OpenSubtasks extends Schema.TaggedError<OpenSubtasks>()(
+  "OpenSubtasks",
+  {
+    /** The ID of the todo that was to be completed */
+    id: Schema.Number,
+    /** Number of its subtasks, at any depth, that are still pending */
+    pending: Schema.Number,
+  }
+) {}
+
+/**
+ * Tagged error class representing a user that is not in the local database.
+ *
+ * This error is thrown when creating, updating or syncing a todo that
+ * belongs to a user the local database does not know, unless unknown users
+ * are explicitly allowed. Users are added with `user add` or synced from
+ * the remote backend.
+ *
+ * @example
+ * ```typescript
+ * // Throwing a UserNotFound error
+ * yield* new UserNotFound({ id: 3 });
+ *
+ * // Catching a UserNotFound error
+ * Effect.catchTag("UserNotFound", ({ id }) =>
+ *   Console.log(`User ${id} not found in local database`)
+ * )
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class UserNotFound extends Schema.TaggedError<UserNotFound>()(
+  "UserNotFound",
+  {
+    /** The ID of the user that was not found */
+    id: Schema.Number,
+  }
+) {}
+
+/**
+ * Tagged error class representing a backup that does not exist.
+ *
+ * This error is thrown when restoring a backup by a number that no backup
+ * has, or the latest backup when no clear has taken one yet.
+ *
+ * @example
+ * ```typescript
+ * // Throwing a BackupNotFound error
+ * yield* new BackupNotFound({ id: 4 });
+ *
+ * // Catching a BackupNotFound error
+ * Effect.catchTag("BackupNotFound", ({ id }) =>
+ *   Console.log(id === undefined ? "No backups yet" : `Backup ${id} not found`)
+ * )
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class BackupNotFound extends Schema.TaggedError<BackupNotFound>()(
+  "BackupNotFound",
+  {
+    /** The number of the backup that was not found; absent for the latest */
+    id: Schema.optionalWith(Schema.Number, { exact: true }),
+  }
+) {}
@@ -0,0 +1,201 @@
+import { DateTime, Either, Option } from "effect";
+import type { Todo } from "./Todo.js";
+
+/**
+ * Day names as accepted in due dates, indexed like `DateTime` week days
+ * (0 is Sunday).
+ */
+const weekDays = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+] as const;
+
+/**
+ * ISO date with an optional time and UTC offset, e.g. `2026-11-01`,
+ * `2026-11-01T15:30` or `2026-11-01T15:30:00+02:00`.
+ */
+const isoPattern =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?(Z|[+-]\d{2}:?\d{2})?$/i;
+
+/**
+ * Reads a due date as typed on the command line.
+ *
+ * Accepted inputs (case-insensitive):
+ * - `today`, `tomorrow`
+ * - `+<n>d` or `+<n>w`: that many days or weeks from today
+ * - A day name such as `friday` or `fri`, optionally preceded by `next`: the
+ *   first such day after today (one to seven days ahead)
+ * - An ISO date (`2026-11-01`), or date and time (`2026-11-01T15:30`), in
+ *   the time zone of `now` unless a UTC offset or `Z` is given
+ *
+ * Inputs without a time of day stand for the start of that day in the time
+ * zone of `now`.
+ *
+ * @param input - The due date as typed by the user
+ * @param now - The current time, in the user's time zone
+ * @returns The due date, or a message explaining what is accepted
+ *
+ * @example
+ * ```typescript
+ * const now = DateTime.setZone(DateTime.unsafeNow(), DateTime.zoneMakeLocal());
+ * parseDueDate("next friday", now); // right(DateTime.Utc(...))
+ * parseDueDate("someday", now);     // left("Cannot read due date ...")
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const parseDueDate = (
+  input: string,
+  now: DateTime.Zoned
+): Either.Either<DateTime.Utc, string> => {
+  const text = input.trim().toLowerCase().replace(/\s+/g, " ");
+  const today = DateTime.startOf(now, "day");
+  const invalid = Either.left(
+    `Cannot read due date "${input}": use today, tomorrow, +3d, +2w, a day name like friday or next friday, or an ISO date like 2026-11-01`
+  );
+
+  if (text === "today" || text === "tomorrow") {
+    return Either.right(
+      DateTime.toUtc(DateTime.add(today, { days: text === "today" ? 0 : 1 }))
+    );
+  }
+
+  const relative = /^\+(\d+)([dw])$/.exec(text);
+  if (relative !== null) {
+    const amount = Number(relative[1]);
+    return Either.right(
+      DateTime.toUtc(
+        DateTime.add(
+          today,
+          relative[2] === "d" ? { days: amount } : { weeks: amount }
+        )
+      )
+    );
+  }
+
+  const dayName = /^(?:next )?([a-z]+)$/.exec(text);
+  if (dayName !== null) {
+    const weekDay = weekDays.findIndex(
+      (name) => dayName[1].length >= 3 && name.startsWith(dayName[1])
+    );
+    if (weekDay === -1) {
+      return invalid;
+    }
+    const ahead = ((weekDay - DateTime.getPart(today, "weekDay") + 6) % 7) + 1;
+    return Either.right(DateTime.toUtc(DateTime.add(today, { days: ahead })));
+  }
+
+  const iso = isoPattern.exec(text);
+  if (iso === null) {
+    return invalid;
+  }
+  const [
+    ,
+    year,
+    month,
+    day,
+    hours = "0",
+    minutes = "0",
+    seconds = "0",
+    offset,
+  ] = iso;
+  const parts = {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hours: Number(hours),
+    minutes: Number(minutes),
+    seconds: Number(seconds),
+  };
+  const parsed =
+    offset === undefined
+      ? DateTime.makeZoned(parts, {
+          timeZone: now.zone,
+          adjustForTimeZone: true,
+        })
+      : Option.map(DateTime.make(input.trim()), (date) =>
+          DateTime.setZone(date, now.zone)
+        );
+
+  // Dates such as February 30 are rolled over by the constructors; reject them
+  const valid = Option.filter(parsed, (date) => {
+    if (offset !== undefined) {
+      return true;
+    }
+    const actual = DateTime.toParts(date);
+    return (
+      actual.year === parts.year &&
+      actual.month === parts.month &&
+      actual.day === parts.day
+    );
+  });
+  return Option.match(valid, {
+    onNone: () => invalid,
+    onSome: (date) => Either.right(DateTime.toUtc(date)),
+  });
+};
+
+/**
+ * Todos due on the same day.
+ * @since 1.0.0
+ */
+export interface DueDay {
+  /** The day, as an ISO date (`YYYY-MM-DD`) in the user's time zone */
+  readonly day: string;
+  /** Name of the day, e.g. `Friday` */
+  readonly weekDay: string;
+  /** The todos due that day, in the order they were given */
+  readonly todos: ReadonlyArray<Todo>;
+}
+
+/**
+ * Groups todos by the day they are due.
+ *
+ * Todos without a due date are left out.
+ *
+ * @param todos - The todos to group, typically sorted by due date
+ * @param zone - The time zone whose calendar days are used
+ * @returns The days in order of their first todo, each with its todos
+ *
+ * @example
+ * ```typescript
+ * for (const { day, todos } of groupByDueDay(todos, DateTime.zoneMakeLocal())) {
+ *   console.log(`${day}: ${todos.length} todo(s)`);
+ * }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const groupByDueDay = (
+  todos: ReadonlyArray<Todo>,
+  zone: DateTime.TimeZone
+): Array<DueDay> => {
+  const days = new Map<string, { weekDay: string; todos: Array<Todo> }>();
+  for (const todo of todos) {
+    if (todo.dueAt === undefined) {
+      continue;
+    }
+    const due = DateTime.setZone(todo.dueAt, zone);
+    const day = DateTime.formatIsoDate(due);
+    const group = days.get(day);
+    if (group === undefined) {
+      const name = weekDays[DateTime.getPart(due, "weekDay")];
+      days.set(day, {
+        weekDay: `${name[0].toUpperCase()}${name.slice(1)}`,
+        todos: [todo],
+      });
+    } else {
+      group.todos.push(todo);
+    }
+  }
+  return [...days].map(([day, { weekDay, todos }]) => ({
+    day,
+    weekDay,
+    todos,
+  }));
+};
@@ -0,0 +1,49 @@
+/**
+ * A single, ordered step in the evolution of the database schema.
+ *
+ * Each migration is a list of SQL statements to apply (`up`) and a list of
+ * statements that undo them (`down`). Statements are executed one at a time,
+ * in order, inside a single transaction, so a statement may itself contain
+ * semicolons (e.g. a trigger body).
+ *
+ * Once a migration has been released its statements must not change: the
+ * checksum recorded when it was applied is compared against the code, and a
+ * mismatch stops every further migration.
+ *
+ * @example
+ * ```typescript
+ * export const migration: Migration = {
+ *   version: 3,
+ *   name: "index_todos_updated_at",
+ *   up: ["CREATE INDEX idx_todos_updated_at ON todos (updated_at)"],
+ *   down: ["DROP INDEX idx_todos_updated_at"]
+ * };
+ * ```
+ *
+ * @since 1.0.0
+ */
+export interface Migration {
+  /** Position of the migration in the sequence (1, 2, 3, ...) */
+  readonly version: number;
+  /** Short snake_case description of the change */
+  readonly name: string;
+  /** Statements that apply the change */
+  readonly up: ReadonlyArray<string>;
+  /** Statements that revert the change */
+  readonly down: ReadonlyArray<string>;
+}
+
+/**
+ * Status of a known migration against a particular database.
+ * @since 1.0.0
+ */
+export interface MigrationStatus {
+  /** Position of the migration in the sequence */
+  readonly version: number;
+  /** Short description of the change */
+  readonly name: string;
+  /** Timestamp at which the migration was applied, if it was */
+  readonly appliedAt: string | undefined;
+  /** Whether the recorded checksum differs from the migration in the code */
+  readonly checksumMismatch: boolean;
+}
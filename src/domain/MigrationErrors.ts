@@ -0,0 +1,63 @@
+import { Schema } from "effect";
+
+/**
+ * Tagged error class representing a database whose schema is older than the code.
+ *
+ * This error is thrown by every database operation when migrations are pending,
+ * so that commands never run queries against tables that lack the columns or
+ * indexes they rely on.
+ *
+ * @example
+ * ```typescript
+ * // Throwing a SchemaOutdated error
+ * yield* new SchemaOutdated({ currentVersion: 1, requiredVersion: 2 });
+ *
+ * // Catching a SchemaOutdated error
+ * Effect.catchTag("SchemaOutdated", (error) => Console.error(error.message))
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class SchemaOutdated extends Schema.TaggedError<SchemaOutdated>()(
+  "SchemaOutdated",
+  {
+    /** Schema version the database is currently at */
+    currentVersion: Schema.Number,
+    /** Schema version this version of the CLI requires */
+    requiredVersion: Schema.Number,
+  }
+) {
+  get message() {
+    return `Database schema is at version ${this.currentVersion}, but this CLI requires version ${this.requiredVersion}. Run 'migrate up' (or 'init') to upgrade it.`;
+  }
+}
+
+/**
+ * Tagged error class representing failures of the migration subsystem.
+ *
+ * This error is thrown when a migration cannot be applied or reverted, when
+ * an applied migration no longer matches its checksum, or when the database
+ * has migrations applied that this version of the CLI does not know about.
+ *
+ * @example
+ * ```typescript
+ * // Throwing a MigrationError
+ * yield* new MigrationError({
+ *   message: "Checksum mismatch for migration 2 (index_todos_user_id)"
+ * });
+ *
+ * // Catching a MigrationError
+ * Effect.catchTag("MigrationError", ({ message }) =>
+ *   Console.error(`Migration failed: ${message}`)
+ * )
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class MigrationError extends Schema.TaggedError<MigrationError>()(
+  "MigrationError",
+  {
+    /** Human-readable error message describing what went wrong */
+    message: Schema.String,
+  }
+) {}
@@ -0,0 +1,26 @@
+import { Schema } from "effect";
+
+/**
+ * Output formats supported by commands that print todos.
+ *
+ * - pretty: Human-friendly output using the Todo pretty printer (default)
+ * - json: A single JSON document
+ * - ndjson: One JSON object per line
+ * - csv: Comma-separated values with a header row
+ * - table: Aligned columns sized to the terminal width
+ *
+ * @since 1.0.0
+ */
+export const OutputFormat = Schema.Literal(
+  "pretty",
+  "json",
+  "ndjson",
+  "csv",
+  "table"
+);
+
+/**
+ * Type of an {@link OutputFormat}.
+ * @since 1.0.0
+ */
+export type OutputFormat = typeof OutputFormat.Type;
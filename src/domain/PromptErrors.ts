@@ -0,0 +1,33 @@
+import { Schema } from "effect";
+
+/**
+ * Tagged error class representing a question that cannot be asked because
+ * standard input is not a terminal.
+ *
+ * This error is thrown instead of prompting when the CLI runs in a script or
+ * a pipe, so that it fails right away rather than waiting for input that
+ * never comes. Commands catch it and tell which arguments or flags answer
+ * the question up front.
+ *
+ * @example
+ * ```typescript
+ * // Throwing a NotInteractive
+ * yield* new NotInteractive({
+ *   message: "Cannot ask for the todo title: standard input is not a terminal"
+ * });
+ *
+ * // Catching a NotInteractive
+ * Effect.catchTag("NotInteractive", ({ message }) =>
+ *   Console.log(`❌ ${message}; pass the title as an argument`)
+ * )
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class NotInteractive extends Schema.TaggedError<NotInteractive>()(
+  "NotInteractive",
+  {
+    /** Human-readable error message describing what went wrong */
+    message: Schema.String,
+  }
+) {}
@@ -0,0 +1,179 @@
+import { Schema } from "effect";
+
+/**
+ * What happened to a single todo during sync.
+ *
+ * - synced: Saved to the local database (inserted or updated)
+ * - unchanged: Already up to date locally, or kept for its unpushed local changes
+ * - not-found: The API has no todo with this ID
+ * - invalid: The API returned data that does not match the Todo schema
+ * - network-error: The request failed (transport error or server error)
+ * - timeout: The request took longer than the `timeout` setting
+ * - rate-limited: The API kept answering 429 or 503 after every retry
+ * - circuit-open: Not requested, since the circuit breaker stopped the batch
+ * - trashed: Skipped because the local todo is in the trash
+ * - conflict: Changed both locally and on the API (see the conflict report)
+ *
+ * @since 1.0.0
+ */
+export const SyncOutcome = Schema.Literal(
+  "synced",
+  "unchanged",
+  "not-found",
+  "invalid",
+  "network-error",
+  "timeout",
+  "rate-limited",
+  "circuit-open",
+  "trashed",
+  "conflict"
+);
+
+/**
+ * Type of a {@link SyncOutcome}.
+ * @since 1.0.0
+ */
+export type SyncOutcome = typeof SyncOutcome.Type;
+
+/**
+ * The result of syncing a single todo.
+ * @since 1.0.0
+ */
+export interface SyncResult {
+  /** The ID of the todo on the API */
+  readonly id: number;
+  /** What happened to it */
+  readonly outcome: SyncOutcome;
+  /** Details for failed outcomes */
+  readonly message?: string;
+}
+
+/**
+ * Checks whether an outcome is a failure worth retrying, i.e. the todo could
+ * not be fetched. Trashed and conflicting todos are deliberate skips.
+ *
+ * @param outcome - The outcome to check
+ * @returns true for not-found, invalid, network-error, timeout, rate-limited
+ *          and circuit-open
+ *
+ * @since 1.0.0
+ */
+export const isFailedOutcome = (outcome: SyncOutcome): boolean =>
+  outcome !== "synced" &&
+  outcome !== "unchanged" &&
+  outcome !== "trashed" &&
+  outcome !== "conflict";
+
+/**
+ * Schema of the file that sync writes the failed todos to, and that
+ * `sync --retry-failed` reads them back from. Stored as indented JSON:
+ *
+ * ```json
+ * {
+ *   "failed": [
+ *     { "id": 999, "outcome": "not-found", "message": "Failed to fetch todo 999: ..." }
+ *   ]
+ * }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const FailedSyncFile = Schema.parseJson(
+  Schema.Struct({
+    failed: Schema.Array(
+      Schema.Struct({
+        id: Schema.Int.pipe(Schema.positive()),
+        outcome: SyncOutcome,
+        message: Schema.String,
+      })
+    ),
+  }),
+  { space: 2 }
+);
+
+/** Labels of the outcomes in the summary table, in display order */
+const outcomeLabels: ReadonlyArray<readonly [SyncOutcome, string]> = [
+  ["synced", "synced"],
+  ["unchanged", "unchanged"],
+  ["not-found", "not found"],
+  ["invalid", "invalid"],
+  ["network-error", "network error"],
+  ["timeout", "timeout"],
+  ["rate-limited", "rate limited"],
+  ["circuit-open", "circuit open"],
+  ["trashed", "trashed"],
+  ["conflict", "conflict"],
+];
+
+/** Outcomes that are listed even when no todo had them */
+const alwaysShown: ReadonlyArray<SyncOutcome> = [
+  "synced",
+  "unchanged",
+  "not-found",
+  "invalid",
+  "network-error",
+];
+
+/** Maximum number of IDs listed per outcome */
+const maxListedIds = 10;
+
+/**
+ * Formats sync results as a summary table with one row per outcome.
+ *
+ * Every outcome other than "synced" and "unchanged" lists the affected IDs
+ * (at most ten, followed by a count of the rest).
+ *
+ * @param results - The result of every synced todo
+ * @returns The table, one line per row, without a trailing newline
+ *
+ * @example
+ * ```typescript
+ * formatSyncSummary([
+ *   { id: 1, outcome: "synced" },
+ *   { id: 999, outcome: "not-found", message: "..." }
+ * ]);
+ * // OUTCOME        COUNT  IDS
+ * // synced             1
+ * // unchanged          0
+ * // not found          1  999
+ * // invalid            0
+ * // network error      0
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const formatSyncSummary = (
+  results: ReadonlyArray<SyncResult>
+): string => {
+  const rows = outcomeLabels.flatMap(([outcome, label]) => {
+    const ids = results
+      .filter((result) => result.outcome === outcome)
+      .map((result) => result.id);
+    if (ids.length === 0 && !alwaysShown.includes(outcome)) {
+      return [];
+    }
+    const listed =
+      outcome === "synced" || outcome === "unchanged"
+        ? ""
+        : ids.slice(0, maxListedIds).join(", ") +
+          (ids.length > maxListedIds
+            ? ` (+${ids.length - maxListedIds} more)`
+            : "");
+    return [[label, String(ids.length), listed] as const];
+  });
+  const labelWidth = Math.max(
+    "OUTCOME".length,
+    ...rows.map(([label]) => label.length)
+  );
+  const countWidth = Math.max(
+    "COUNT".length,
+    ...rows.map(([, count]) => count.length)
+  );
+  return [["OUTCOME", "COUNT", "IDS"] as const, ...rows]
+    .map(([label, count, ids]) =>
+      `${label.padEnd(labelWidth)}  ${count.padStart(
+        countWidth
+      )}  ${ids}`.trimEnd()
+    )
+    .join("\n");
+};
@@ -1,10 +1,5 @@
 import { Schema, Pretty } from "effect";
-
-/**
- * Branded type for User ID to ensure type safety and prevent mixing with other integer types.
- * @since 1.0.0
- */
-const UserId = Schema.Int.pipe(Schema.brand("UserId"));
+import { UserId } from "./User.js";
 
 /**
  * Branded type for Todo ID to ensure type safety and prevent mixing with other integer types.
@@ -34,7 +29,70 @@ const CompletedField = Schema.transform(Schema.Boolean, CompletionStatus, {
  * Ensures titles are non-empty and do not exceed 255 characters.
  * @since 1.0.0
  */
-const TodoTitle = Schema.NonEmptyString.pipe(Schema.maxLength(255));
+export const TodoTitle = Schema.NonEmptyString.pipe(Schema.maxLength(255));
+
+/**
+ * Schema for tag names.
+ * Tags are single words of up to 50 characters: they cannot contain
+ * whitespace or commas. Names are compared regardless of case.
+ * @since 1.0.0
+ */
+export const TagName = Schema.NonEmptyString.pipe(
+  Schema.maxLength(50),
+  Schema.pattern(/^[^\s,]+$/, {
+    message: () => "Tags cannot contain whitespace or commas",
+  })
+);
+
+/**
+ * Priority of a todo, from least to most important. Todos are of normal
+ * priority unless told otherwise.
+ * @since 1.0.0
+ */
+export const TodoPriority = Schema.Literal("low", "normal", "high", "urgent");
+
+/**
+ * Type of a {@link TodoPriority}.
+ * @since 1.0.0
+ */
+export type TodoPriority = typeof TodoPriority.Type;
+
+/**
+ * Schema for a partial update to an existing todo.
+ *
+ * Every field is optional, and any field that is supplied is validated with the
+ * same rules as the corresponding {@link Todo} field. Unlike {@link Todo}, the
+ * completion status is kept as a plain boolean, matching the CLI and API input.
+ *
+ * @example
+ * ```typescript
+ * const patch = yield* Schema.decodeUnknown(TodoPatch)({ title: "Renamed" });
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const TodoPatch = Schema.Struct({
+  /** New owner of the todo */
+  userId: Schema.optionalWith(UserId, { exact: true }),
+  /** New title (1-255 characters) */
+  title: Schema.optionalWith(TodoTitle, { exact: true }),
+  /** New completion status */
+  completed: Schema.optionalWith(Schema.Boolean, { exact: true }),
+  /** New due date as an ISO 8601 string, or null to remove the due date */
+  dueAt: Schema.optionalWith(Schema.NullOr(Schema.DateTimeUtc), {
+    exact: true,
+  }),
+  /** New priority */
+  priority: Schema.optionalWith(TodoPriority, { exact: true }),
+  /** ID of the todo to become a subtask of, or null to become a top-level todo */
+  parentId: Schema.optionalWith(Schema.NullOr(Schema.Int), { exact: true }),
+});
+
+/**
+ * Type of a decoded {@link TodoPatch}.
+ * @since 1.0.0
+ */
+export type TodoPatch = typeof TodoPatch.Type;
 
 /**
  * Todo domain model representing a task item with user association and completion status.
@@ -43,6 +101,13 @@ const TodoTitle = Schema.NonEmptyString.pipe(Schema.maxLength(255));
  * - User IDs and Todo IDs are properly branded to prevent type confusion
  * - Titles are non-empty and within the 255 character limit
  * - Completion status is properly validated and transformed between boolean and string representations
+ * - Tags are valid tag names, and are left out when the todo has none
+ * - Due dates are read from and written as ISO 8601 strings, and are left out
+ *   when the todo has none
+ * - Priorities are one of the {@link TodoPriority} levels, and are left out
+ *   when the todo is of normal priority
+ * - Subtasks carry the ID of their parent todo, which is left out for
+ *   top-level todos
  *
  * @example
  * ```typescript
@@ -74,6 +139,14 @@ export class Todo extends Schema.Class<Todo>("Todo")({
   title: TodoTitle,
   /** Whether the todo has been completed */
   completed: CompletedField,
+  /** Tags of this todo, sorted by name (absent when it has none) */
+  tags: Schema.optionalWith(Schema.Array(TagName), { exact: true }),
+  /** When the todo is due (absent when it has no due date) */
+  dueAt: Schema.optionalWith(Schema.DateTimeUtc, { exact: true }),
+  /** How important the todo is (absent when it is of normal priority) */
+  priority: Schema.optionalWith(TodoPriority, { exact: true }),
+  /** The todo this todo is a subtask of (absent for top-level todos) */
+  parentId: Schema.optionalWith(TodoId, { exact: true }),
 }) {
   /**
    * Pretty printer for Todo instances, providing formatted string representation.
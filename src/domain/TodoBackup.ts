@@ -0,0 +1,79 @@
+import { Schema } from "effect";
+
+/**
+ * Schema describing which todos `clear` removes.
+ *
+ * All fields are optional and combined, so a todo has to match all of them;
+ * an empty filter matches every todo, including those in the trash.
+ *
+ * @example
+ * ```typescript
+ * // Completed todos of user 1 that are on the API as they are locally
+ * const filter: TodoClearFilter = {
+ *   userId: 1,
+ *   completedOnly: true,
+ *   syncedOnly: true
+ * };
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const TodoClearFilter = Schema.Struct({
+  /** Only match todos owned by this user */
+  userId: Schema.optionalWith(Schema.Int, { exact: true }),
+  /** Only match completed todos */
+  completedOnly: Schema.optionalWith(Schema.Boolean, { exact: true }),
+  /**
+   * Only match todos that exist on the API and have no local changes left
+   * to push, so that a sync brings them back
+   */
+  syncedOnly: Schema.optionalWith(Schema.Boolean, { exact: true }),
+});
+
+/**
+ * Type of a {@link TodoClearFilter}.
+ * @since 1.0.0
+ */
+export type TodoClearFilter = typeof TodoClearFilter.Type;
+
+/**
+ * Snapshot of the todos removed by one `clear`, taken right before they
+ * were removed.
+ * @since 1.0.0
+ */
+export interface TodoBackup {
+  /** Number of the backup, increasing with every clear */
+  readonly id: number;
+  /** When the backup was taken, as `YYYY-MM-DD HH:MM:SS` in UTC */
+  readonly createdAt: string;
+  /** Which todos were cleared, as described by {@link describeClearFilter} */
+  readonly scope: string;
+  /** Number of todos in the backup */
+  readonly count: number;
+}
+
+/**
+ * Describes the todos a clear filter matches, e.g. for confirmations and
+ * the list of backups.
+ *
+ * @param filter - The filter to describe
+ * @returns `all todos`, or e.g. `completed and synced todos of user 1`
+ *
+ * @example
+ * ```typescript
+ * describeClearFilter({}); // "all todos"
+ * describeClearFilter({ userId: 2, completedOnly: true }); // "completed todos of user 2"
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const describeClearFilter = (filter: TodoClearFilter): string => {
+  const kinds = [
+    ...(filter.completedOnly ? ["completed"] : []),
+    ...(filter.syncedOnly ? ["synced"] : []),
+  ];
+  const owner = filter.userId !== undefined ? ` of user ${filter.userId}` : "";
+  return kinds.length === 0 && owner === ""
+    ? "all todos"
+    : `${kinds.length > 0 ? `${kinds.join(" and ")} ` : ""}todos${owner}`;
+};
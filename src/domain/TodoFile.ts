@@ -0,0 +1,331 @@
+import { Either, Option, ParseResult, Schema } from "effect";
+import { Todo } from "./Todo.js";
+import { TodoFileError } from "./TodoFileErrors.js";
+
+/**
+ * File formats that todos can be exported to and imported from.
+ *
+ * - json: A JSON array of todos
+ * - ndjson: One JSON todo per line
+ * - csv: A header row (see {@link csvColumns}) and one todo per row
+ *
+ * @since 1.0.0
+ */
+export const TodoFileFormat = Schema.Literal("json", "ndjson", "csv");
+
+/**
+ * Type of a {@link TodoFileFormat}.
+ * @since 1.0.0
+ */
+export type TodoFileFormat = typeof TodoFileFormat.Type;
+
+/**
+ * How `import` combines the todos of a file with the local database.
+ *
+ * - merge: Add new todos and overwrite local todos with the same ID
+ * - replace: Remove every local todo (including the trash) first
+ *
+ * @since 1.0.0
+ */
+export const ImportMode = Schema.Literal("merge", "replace");
+
+/**
+ * Type of an {@link ImportMode}.
+ * @since 1.0.0
+ */
+export type ImportMode = typeof ImportMode.Type;
+
+/**
+ * Infers the format of a todo file from its extension.
+ *
+ * @param path - Path of the file
+ * @returns json for `.json`, ndjson for `.ndjson` and `.jsonl`, csv for
+ *          `.csv`, and none for any other extension
+ *
+ * @since 1.0.0
+ */
+export const formatFromPath = (path: string): Option.Option<TodoFileFormat> => {
+  const extension = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+  return extension === "json"
+    ? Option.some("json")
+    : extension === "ndjson" || extension === "jsonl"
+    ? Option.some("ndjson")
+    : extension === "csv"
+    ? Option.some("csv")
+    : Option.none();
+};
+
+/**
+ * A todo read from a todo file, or the reason it could not be read.
+ * @since 1.0.0
+ */
+export interface TodoFileEntry {
+  /** Line of the file the todo starts on (1-based) */
+  readonly line: number;
+  /** The decoded todo, or why it does not match the Todo schema */
+  readonly todo: Either.Either<Todo, ParseResult.ParseError>;
+}
+
+/**
+ * Separator between the tags of a todo in the `tags` CSV column. Tags
+ * cannot contain whitespace, so a space never splits a tag.
+ *
+ * @since 1.0.0
+ */
+export const csvTagSeparator = " ";
+
+/**
+ * Columns of a CSV todo file, in the order `export` writes them. The
+ * first four are required; the others may be missing or empty for todos
+ * without tags, due date, priority or parent.
+ *
+ * @since 1.0.0
+ */
+export const csvColumns = [
+  "userId",
+  "id",
+  "title",
+  "completed",
+  "tags",
+  "dueAt",
+  "priority",
+  "parentId",
+] as const;
+
+/** Columns a CSV todo file must have */
+const requiredCsvColumns = csvColumns.slice(0, 4);
+
+/**
+ * Schema of a CSV row: every field is a string, converted to the encoded
+ * form of a Todo before the Todo schema validates it. Empty optional
+ * fields are dropped before decoding.
+ */
+const CsvTodo = Schema.compose(
+  Schema.Struct({
+    userId: Schema.NumberFromString,
+    id: Schema.NumberFromString,
+    title: Schema.String,
+    completed: Schema.BooleanFromString,
+    tags: Schema.optionalWith(Schema.split(csvTagSeparator), { exact: true }),
+    dueAt: Schema.optionalWith(Schema.String, { exact: true }),
+    priority: Schema.optionalWith(Schema.String, { exact: true }),
+    parentId: Schema.optionalWith(Schema.NumberFromString, { exact: true }),
+  }),
+  Todo,
+  { strict: false }
+);
+
+/**
+ * Splits CSV text into records as described in RFC 4180: fields may be
+ * quoted, and quoted fields may contain delimiters, doubled quotes and line
+ * breaks. Blank lines are skipped.
+ *
+ * @returns Each record with the line it starts on, or an error message for
+ *          an unterminated quoted field
+ */
+const parseCsv = (
+  text: string
+): Either.Either<
+  Array<{ readonly line: number; readonly fields: Array<string> }>,
+  string
+> => {
+  const records: Array<{ line: number; fields: Array<string> }> = [];
+  let fields: Array<string> = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0] !== "") {
+      records.push({ line: start, fields });
+    }
+    fields = [];
+    field = "";
+  };
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") {
+          line++;
+        }
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      endRecord();
+      line++;
+      start = line;
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    return Either.left(`Unterminated quoted field starting on line ${start}`);
+  }
+  endRecord();
+  return Either.right(records);
+};
+
+/**
+ * Finds the offset at which each element of a JSON array starts, so that
+ * entries can be reported by line. Assumes the text is a valid JSON array.
+ */
+const arrayElementOffsets = (text: string): Array<number> => {
+  const offsets: Array<number> = [];
+  let depth = 0;
+  let inString = false;
+  let expectElement = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === "\\") {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (/\s/.test(char)) {
+      continue;
+    }
+    if (expectElement && char !== "]") {
+      offsets.push(i);
+    }
+    expectElement = false;
+    if (char === '"') {
+      inString = true;
+    } else if (char === "[" || char === "{") {
+      depth++;
+      expectElement = depth === 1 && char === "[";
+    } else if (char === "]" || char === "}") {
+      depth--;
+    } else if (char === "," && depth === 1) {
+      expectElement = true;
+    }
+  }
+  return offsets;
+};
+
+/**
+ * Returns the 1-based line number of an offset in a text.
+ */
+const lineAt = (text: string, offset: number): number =>
+  text.slice(0, offset).split("\n").length;
+
+/**
+ * Reads the todos of a todo file.
+ *
+ * Every todo is decoded with the Todo schema on its own, so that one invalid
+ * todo does not hide the others: each entry holds either the todo or the
+ * ParseError explaining what is wrong with it, together with its line.
+ *
+ * @param text - Content of the file
+ * @param format - Format of the file
+ * @returns Either the entries in file order, or a TodoFileError when the file
+ *          as a whole cannot be read (invalid JSON, not an array, a missing
+ *          CSV column or an unterminated quoted CSV field)
+ *
+ * @example
+ * ```typescript
+ * const entries = yield* parseTodoFile(text, "csv");
+ * for (const { line, todo } of entries) {
+ *   if (Either.isLeft(todo)) console.log(`Line ${line}: ${todo.left.message}`);
+ * }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const parseTodoFile = (
+  text: string,
+  format: TodoFileFormat
+): Either.Either<ReadonlyArray<TodoFileEntry>, TodoFileError> => {
+  switch (format) {
+    case "json": {
+      let data: unknown;
+      try {
+        data = JSON.parse(text);
+      } catch (error) {
+        return Either.left(
+          new TodoFileError({ message: `Invalid JSON: ${String(error)}` })
+        );
+      }
+      if (!Array.isArray(data)) {
+        return Either.left(
+          new TodoFileError({ message: "Expected a JSON array of todos" })
+        );
+      }
+      const offsets = arrayElementOffsets(text);
+      return Either.right(
+        data.map((element, index) => ({
+          line: lineAt(text, offsets[index] ?? 0),
+          todo: Schema.decodeUnknownEither(Todo)(element),
+        }))
+      );
+    }
+    case "ndjson":
+      return Either.right(
+        text.split("\n").flatMap((content, index) =>
+          content.trim() === ""
+            ? []
+            : [
+                {
+                  line: index + 1,
+                  todo: Schema.decodeUnknownEither(Schema.parseJson(Todo))(
+                    content
+                  ),
+                },
+              ]
+        )
+      );
+    case "csv":
+      return Either.flatMap(
+        Either.mapLeft(
+          parseCsv(text),
+          (message) => new TodoFileError({ message })
+        ),
+        ([header, ...rows]) => {
+          const names = header?.fields.map((name) => name.trim()) ?? [];
+          const missing = requiredCsvColumns.filter(
+            (name) => !names.includes(name)
+          );
+          if (missing.length > 0) {
+            return Either.left(
+              new TodoFileError({
+                message: `Missing CSV column(s): ${missing.join(", ")}`,
+              })
+            );
+          }
+          return Either.right(
+            rows.map(({ line, fields }) => ({
+              line,
+              todo: Schema.decodeUnknownEither(CsvTodo)(
+                Object.fromEntries(
+                  names.flatMap((name, index) =>
+                    index < fields.length &&
+                    (fields[index] !== "" ||
+                      requiredCsvColumns.some((column) => column === name))
+                      ? [[name, fields[index]]]
+                      : []
+                  )
+                )
+              ),
+            }))
+          );
+        }
+      );
+  }
+};
@@ -0,0 +1,32 @@
+import { Schema } from "effect";
+
+/**
+ * Tagged error class representing a todo file that cannot be read as a whole.
+ *
+ * This error is thrown by `import` when the file is not valid JSON, is not a
+ * JSON array, lacks one of the CSV columns, or has an unterminated quoted CSV
+ * field. Individual todos that do not match the Todo schema are not errors of
+ * the file; they are reported per line instead.
+ *
+ * @example
+ * ```typescript
+ * // Throwing a TodoFileError
+ * yield* new TodoFileError({
+ *   message: "Missing CSV column(s): completed"
+ * });
+ *
+ * // Catching a TodoFileError
+ * Effect.catchTag("TodoFileError", ({ message }) =>
+ *   Console.log(`Cannot import: ${message}`)
+ * )
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class TodoFileError extends Schema.TaggedError<TodoFileError>()(
+  "TodoFileError",
+  {
+    /** Human-readable error message describing what went wrong */
+    message: Schema.String,
+  }
+) {}
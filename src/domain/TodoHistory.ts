@@ -0,0 +1,182 @@
+import { Schema } from "effect";
+
+/**
+ * Names of the writes recorded in the history, after the database operation
+ * that made them. Sync saves todos with `sync`; `init` is the sample data of
+ * a new database.
+ * @since 1.0.0
+ */
+export type TodoOperationName =
+  | "init"
+  | "create"
+  | "clear"
+  | "sync"
+  | "import"
+  | "update"
+  | "move"
+  | "delete"
+  | "restore"
+  | "empty-trash"
+  | "tag"
+  | "untag"
+  | "rename-tag"
+  | "restore-backup"
+  | "undo";
+
+/**
+ * Schema for the recorded state of a todo at one point of its history.
+ *
+ * Snapshots also carry the todo's sync bookkeeping, which undo restores but
+ * the history does not show, so only the fields shown are decoded. Tags are
+ * only recorded for todos that were deleted for good and for changes of
+ * their tags.
+ *
+ * @since 1.0.0
+ */
+export const TodoSnapshot = Schema.Struct({
+  id: Schema.Int,
+  userId: Schema.Int,
+  title: Schema.String,
+  completed: Schema.Literal("completed", "pending"),
+  dueAt: Schema.NullOr(Schema.String),
+  priority: Schema.String,
+  position: Schema.NullOr(Schema.Number),
+  parentId: Schema.NullOr(Schema.Int),
+  deletedAt: Schema.NullOr(Schema.String),
+  tags: Schema.optional(Schema.Array(Schema.String)),
+});
+
+/**
+ * @since 1.0.0
+ */
+export type TodoSnapshot = typeof TodoSnapshot.Type;
+
+/**
+ * One todo created, changed or deleted for good by a write.
+ * @since 1.0.0
+ */
+export interface TodoEvent {
+  /** ID of the todo, after the write (before it, for deleted todos) */
+  readonly todoId: number;
+  /** What happened to the todo */
+  readonly kind: "created" | "updated" | "deleted";
+  /** The todo before the write; missing for created todos */
+  readonly before?: TodoSnapshot;
+  /** The todo after the write; missing for deleted todos */
+  readonly after?: TodoSnapshot;
+}
+
+/**
+ * One recorded write, with the changes it made to todos.
+ * @since 1.0.0
+ */
+export interface TodoOperation {
+  /** Number of the operation, increasing with every write */
+  readonly id: number;
+  /** The kind of write */
+  readonly name: TodoOperationName;
+  /** When the write was made, as `YYYY-MM-DD HH:MM:SS` in UTC */
+  readonly at: string;
+  /** Number of the undo operation that reverted this one, if any */
+  readonly undoneBy?: number;
+  /** The changes made, in the order they were made */
+  readonly events: ReadonlyArray<TodoEvent>;
+}
+
+/**
+ * Fields shown in the history, with their labels and how to show a value.
+ * The trash and the order are described separately.
+ */
+const shownFields: ReadonlyArray<
+  readonly [
+    keyof TodoSnapshot,
+    string,
+    (value: TodoSnapshot[keyof TodoSnapshot]) => string
+  ]
+> = [
+  ["id", "id", String],
+  ["userId", "user", String],
+  ["title", "title", (value) => JSON.stringify(value)],
+  ["completed", "status", String],
+  ["dueAt", "due", (value) => (value === null ? "none" : String(value))],
+  ["priority", "priority", String],
+  ["parentId", "parent", (value) => (value === null ? "none" : String(value))],
+];
+
+/**
+ * Shows the tags of a snapshot, e.g. `urgent, work` or `none`.
+ */
+const showTags = (tags: ReadonlyArray<string>) =>
+  tags.length === 0 ? "none" : tags.join(", ");
+
+/**
+ * Describes the fields a write changed, e.g.
+ * `title: "Draft" → "Final"` or `status: pending → completed`.
+ *
+ * @param before - The todo before the write
+ * @param after - The todo after the write
+ * @returns One description per changed field, in a fixed field order
+ *          followed by the tags; moving the todo in the trash or in the
+ *          order is described as `moved to trash`, `restored from trash`
+ *          or `reordered`
+ *
+ * @example
+ * ```typescript
+ * diffSnapshots(before, after); // ['title: "Draft" → "Final"', "reordered"]
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const diffSnapshots = (
+  before: TodoSnapshot,
+  after: TodoSnapshot
+): Array<string> => {
+  const changes = shownFields.flatMap(([field, label, show]) =>
+    before[field] === after[field]
+      ? []
+      : [`${label}: ${show(before[field])} → ${show(after[field])}`]
+  );
+  if (
+    before.tags !== undefined &&
+    after.tags !== undefined &&
+    before.tags.join("\n") !== after.tags.join("\n")
+  ) {
+    changes.push(`tags: ${showTags(before.tags)} → ${showTags(after.tags)}`);
+  }
+  if (before.deletedAt === null && after.deletedAt !== null) {
+    changes.push("moved to trash");
+  } else if (before.deletedAt !== null && after.deletedAt === null) {
+    changes.push("restored from trash");
+  }
+  if (before.position !== after.position) {
+    changes.push("reordered");
+  }
+  return changes;
+};
+
+/**
+ * Describes what a write did to a todo in one line.
+ *
+ * @param event - The change to describe
+ * @returns The description, e.g. `created "Learn Effect"`,
+ *          `title: "Draft" → "Final", moved to trash` or
+ *          `deleted "Learn Effect" for good`
+ *
+ * @example
+ * ```typescript
+ * for (const event of operation.events) {
+ *   console.log(`todo ${event.todoId}: ${describeEvent(event)}`);
+ * }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const describeEvent = (event: TodoEvent): string => {
+  if (event.before === undefined) {
+    return `created ${JSON.stringify(event.after?.title)}`;
+  }
+  if (event.after === undefined) {
+    return `deleted ${JSON.stringify(event.before.title)} for good`;
+  }
+  return diffSnapshots(event.before, event.after).join(", ");
+};
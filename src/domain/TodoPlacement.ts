@@ -0,0 +1,19 @@
+/**
+ * Where to move a todo in the manual order of the todo list.
+ *
+ * - Top: Ahead of every other todo
+ * - Before: Right before another todo
+ * - After: Right after another todo
+ *
+ * @example
+ * ```typescript
+ * const placement: TodoPlacement = { _tag: "Before", id: 3 };
+ * yield* DatabaseService.moveTodo(5, placement);
+ * ```
+ *
+ * @since 1.0.0
+ */
+export type TodoPlacement =
+  | { readonly _tag: "Top" }
+  | { readonly _tag: "Before"; readonly id: number }
+  | { readonly _tag: "After"; readonly id: number };
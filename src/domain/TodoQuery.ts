@@ -0,0 +1,85 @@
+import { Schema } from "effect";
+import { TagName } from "./Todo.js";
+
+/**
+ * Fields that todo listings can be sorted by.
+ *
+ * - priority: Priority, most important first, then the manual order set with
+ *   `move`
+ * - id: Todo ID
+ * - title: Todo title (alphabetical)
+ * - user: Owning user ID
+ * - updated: Last update timestamp
+ * - due: Due date (todos without one come last)
+ *
+ * @since 1.0.0
+ */
+export const TodoSortField = Schema.Literal(
+  "priority",
+  "id",
+  "title",
+  "user",
+  "updated",
+  "due"
+);
+
+/**
+ * Type of a {@link TodoSortField}.
+ * @since 1.0.0
+ */
+export type TodoSortField = typeof TodoSortField.Type;
+
+/**
+ * Schema describing a filtered, sorted and paginated todo lookup.
+ *
+ * All fields are optional; an empty query matches every todo that is not in
+ * the trash, sorted by priority and then in the manual order.
+ *
+ * @example
+ * ```typescript
+ * const query: TodoQuery = {
+ *   userId: 1,
+ *   status: "pending",
+ *   titleContains: "effect",
+ *   tags: ["work", "urgent"],
+ *   sort: "updated",
+ *   descending: true,
+ *   limit: 20,
+ *   offset: 40
+ * };
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const TodoQuery = Schema.Struct({
+  /** Only match todos owned by this user */
+  userId: Schema.optionalWith(Schema.Int, { exact: true }),
+  /** Only match todos with this completion status */
+  status: Schema.optionalWith(Schema.Literal("completed", "pending"), {
+    exact: true,
+  }),
+  /** Only match todos whose title contains this text (case-insensitive) */
+  titleContains: Schema.optionalWith(Schema.String, { exact: true }),
+  /** Only match todos carrying every one of these tags */
+  tags: Schema.optionalWith(Schema.Array(TagName), { exact: true }),
+  /** Only match todos that have (true) or do not have (false) a due date */
+  hasDueDate: Schema.optionalWith(Schema.Boolean, { exact: true }),
+  /** Only match todos due before this time */
+  dueBefore: Schema.optionalWith(Schema.DateTimeUtcFromSelf, { exact: true }),
+  /** Field to sort by (defaults to "priority") */
+  sort: Schema.optionalWith(TodoSortField, { exact: true }),
+  /** Sort in descending instead of ascending order */
+  descending: Schema.optionalWith(Schema.Boolean, { exact: true }),
+  /** Maximum number of todos to return */
+  limit: Schema.optionalWith(Schema.Int.pipe(Schema.positive()), {
+    exact: true,
+  }),
+  /** Number of matching todos to skip */
+  offset: Schema.optionalWith(Schema.NonNegativeInt, { exact: true }),
+});
+
+/**
+ * Type of a {@link TodoQuery}.
+ * @since 1.0.0
+ */
+export type TodoQuery = typeof TodoQuery.Type;
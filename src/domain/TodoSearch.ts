@@ -0,0 +1,108 @@
+import { Option } from "effect";
+import type { Todo } from "./Todo.js";
+
+/**
+ * Part of a todo title as returned by a search: either plain text or text
+ * that matched the search query.
+ * @since 1.0.0
+ */
+export interface TitleSegment {
+  /** The text of this part of the title */
+  readonly text: string;
+  /** Whether this text matched the search query */
+  readonly match: boolean;
+}
+
+/**
+ * A todo found by a full-text search.
+ * @since 1.0.0
+ */
+export interface SearchHit {
+  /** The matching todo */
+  readonly todo: Todo;
+  /** Its title, split into matched and unmatched parts */
+  readonly title: ReadonlyArray<TitleSegment>;
+  /** bm25 relevance of the match; lower is more relevant */
+  readonly rank: number;
+}
+
+/**
+ * Characters placed around matched terms by the FTS5 highlight() function.
+ * Control characters cannot be typed into a title on the command line, so
+ * they never clash with the title itself.
+ *
+ * @since 1.0.0
+ */
+export const highlightMarkers = { open: "\u0002", close: "\u0003" } as const;
+
+/**
+ * Quotes a term or phrase as an FTS5 string, so that no character of the
+ * user's input is read as FTS5 query syntax.
+ */
+const ftsString = (text: string): string => `"${text.replace(/"/g, '""')}"`;
+
+/**
+ * Turns what the user typed into an FTS5 match expression.
+ *
+ * - Words are matched as whole tokens, case- and accent-insensitively
+ * - A word ending in `*` matches every token starting with it (`eff*`)
+ * - Text in double quotes is matched as a phrase (`"build a cli"`), and a
+ *   phrase followed by `*` treats its last word as a prefix
+ * - A todo has to match every word and phrase
+ *
+ * Everything else, including FTS5 operators such as `OR` and `NEAR`, is
+ * searched for literally, so no input makes the query invalid.
+ *
+ * @param query - The search query as typed by the user
+ * @returns The match expression, or none if the query has nothing to search for
+ *
+ * @example
+ * ```typescript
+ * toMatchExpression('"learn effect" cli*'); // some('"learn effect" "cli"*')
+ * toMatchExpression("  ");                  // none()
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const toMatchExpression = (query: string): Option.Option<string> => {
+  const terms: Array<string> = [];
+  const pattern = /"([^"]*)"?(\*?)|([^\s"]+)/g;
+  for (const [, phrase, phrasePrefix, word] of query.matchAll(pattern)) {
+    const text = (phrase ?? word).replace(/\*+$/, "").trim();
+    const prefix =
+      phrase !== undefined ? phrasePrefix === "*" : word.endsWith("*");
+    if (text !== "") {
+      terms.push(`${ftsString(text)}${prefix ? "*" : ""}`);
+    }
+  }
+  return terms.length === 0 ? Option.none() : Option.some(terms.join(" "));
+};
+
+/**
+ * Splits a title highlighted with {@link highlightMarkers} into segments.
+ *
+ * @param highlighted - Title as returned by the FTS5 highlight() function
+ * @returns The segments in order, without empty ones
+ *
+ * @example
+ * ```typescript
+ * splitHighlighted("Learn \u0002Effect\u0003");
+ * // [{ text: "Learn ", match: false }, { text: "Effect", match: true }]
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const splitHighlighted = (highlighted: string): Array<TitleSegment> =>
+  highlighted
+    .split(highlightMarkers.open)
+    .flatMap((part, index) => {
+      if (index === 0) {
+        return [{ text: part, match: false }];
+      }
+      const [matched, rest = ""] = part.split(highlightMarkers.close);
+      return [
+        { text: matched, match: true },
+        { text: rest, match: false },
+      ];
+    })
+    .filter((segment) => segment.text !== "");
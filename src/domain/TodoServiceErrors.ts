@@ -1,17 +1,67 @@
 import { Schema } from "effect";
 
+/**
+ * Why a todo could not be fetched from the remote backend.
+ *
+ * - not-found: The backend has no todo with this ID (HTTP 404 for the REST API)
+ * - invalid: The backend returned data that does not match the Todo schema
+ * - network: The backend could not be reached (transport error, other non-2xx
+ *   status or an unreadable source file)
+ *
+ * @since 1.0.0
+ */
+export const FetchFailureReason = Schema.Literal(
+  "not-found",
+  "invalid",
+  "network"
+);
+
+/**
+ * Tagged error class representing failures of a remote backend (see TodoSource).
+ *
+ * Backends fail with this error for every request they cannot serve; TodoService
+ * turns it into the error of the operation that was attempted, such as
+ * GetTodoByIdError, keeping the reason.
+ *
+ * @example
+ * ```typescript
+ * // Throwing a TodoSourceError
+ * yield* new TodoSourceError({
+ *   reason: "not-found",
+ *   message: "No todo with ID 42 in todos.json"
+ * });
+ *
+ * // Catching a TodoSourceError
+ * Effect.catchTag("TodoSourceError", ({ reason, message }) =>
+ *   Console.log(`Backend failed (${reason}): ${message}`)
+ * )
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class TodoSourceError extends Schema.TaggedError<TodoSourceError>()(
+  "TodoSourceError",
+  {
+    /** Why the request could not be served */
+    reason: FetchFailureReason,
+    /** Human-readable error message describing what went wrong */
+    message: Schema.String,
+  }
+) {}
+
 /**
  * Tagged error class representing failures when fetching todos from the external API.
  *
  * This error is thrown when the TodoService fails to retrieve a todo from the
  * jsonplaceholder.typicode.com API due to network issues, HTTP errors, invalid responses,
- * or other API-related problems.
+ * or other API-related problems. The `reason` field classifies the failure.
  *
  * @example
  * ```typescript
  * // Throwing a GetTodoByIdError
  * yield* new GetTodoByIdError({
  *   id: 42,
+ *   reason: "not-found",
  *   message: "HTTP 404: Todo not found on remote server"
  * });
  *
@@ -28,6 +78,248 @@ export class GetTodoByIdError extends Schema.TaggedError<GetTodoByIdError>()(
   {
     /** The ID of the todo that failed to be retrieved */
     id: Schema.Number,
+    /** Why the todo could not be retrieved */
+    reason: FetchFailureReason,
+    /** Human-readable error message describing what went wrong */
+    message: Schema.String,
+  }
+) {}
+
+/**
+ * Tagged error class representing failures when listing todos from the external API.
+ *
+ * This error is thrown when the TodoService fails to fetch the list of all todos,
+ * or of one user's todos, from the jsonplaceholder.typicode.com API. Since a list
+ * is fetched in a single request, the whole list is unavailable when it occurs.
+ *
+ * @example
+ * ```typescript
+ * // Throwing a ListTodosError
+ * yield* new ListTodosError({
+ *   userId: 3,
+ *   message: "Failed to fetch todos of user 3: Transport error"
+ * });
+ *
+ * // Catching a ListTodosError
+ * Effect.catchTag("ListTodosError", ({ message }) =>
+ *   Console.log(`Failed to list todos from API: ${message}`)
+ * )
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class ListTodosError extends Schema.TaggedError<ListTodosError>()(
+  "ListTodosError",
+  {
+    /** The user whose todos were requested, when listing by user */
+    userId: Schema.optionalWith(Schema.Number, { exact: true }),
+    /** Human-readable error message describing what went wrong */
+    message: Schema.String,
+  }
+) {}
+
+/**
+ * Tagged error class representing failures when listing users from the external API.
+ *
+ * This error is thrown when the TodoService fails to fetch the list of users,
+ * or when the backend answers with something that is not a list of valid
+ * users. Since the list is fetched in a single request, no user is available
+ * when it occurs.
+ *
+ * @example
+ * ```typescript
+ * // Throwing a ListUsersError
+ * yield* new ListUsersError({
+ *   message: "Failed to fetch users: Transport error"
+ * });
+ *
+ * // Catching a ListUsersError
+ * Effect.catchTag("ListUsersError", ({ message }) =>
+ *   Console.log(`Failed to list users from API: ${message}`)
+ * )
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class ListUsersError extends Schema.TaggedError<ListUsersError>()(
+  "ListUsersError",
+  {
+    /** Human-readable error message describing what went wrong */
+    message: Schema.String,
+  }
+) {}
+
+/**
+ * Tagged error class representing failures when creating a todo on the external API.
+ *
+ * This error is thrown when the TodoService fails to POST a locally created todo
+ * to the API, due to network issues, HTTP errors or an invalid response. The
+ * local todo keeps its pending change, so the push can be retried.
+ *
+ * @example
+ * ```typescript
+ * // Throwing a CreateTodoError
+ * yield* new CreateTodoError({
+ *   id: 7,
+ *   message: "Failed to create todo 7 on the API: HTTP 500"
+ * });
+ *
+ * // Catching a CreateTodoError
+ * Effect.catchTag("CreateTodoError", ({ id, message }) =>
+ *   Console.log(`Could not push new todo ${id}: ${message}`)
+ * )
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class CreateTodoError extends Schema.TaggedError<CreateTodoError>()(
+  "CreateTodoError",
+  {
+    /** The local ID of the todo that failed to be created */
+    id: Schema.Number,
+    /** Human-readable error message describing what went wrong */
+    message: Schema.String,
+  }
+) {}
+
+/**
+ * Tagged error class representing failures when updating a todo on the external API.
+ *
+ * This error is thrown when the TodoService fails to PUT a locally modified todo
+ * to the API, due to network issues, HTTP errors (including 404 when the todo no
+ * longer exists remotely) or an invalid response. The local todo keeps its pending
+ * change, so the push can be retried.
+ *
+ * @example
+ * ```typescript
+ * // Throwing an UpdateTodoError
+ * yield* new UpdateTodoError({
+ *   id: 42,
+ *   remoteId: 42,
+ *   message: "Failed to update todo 42 on the API: HTTP 404"
+ * });
+ *
+ * // Catching an UpdateTodoError
+ * Effect.catchTag("UpdateTodoError", ({ id, message }) =>
+ *   Console.log(`Could not push changes to todo ${id}: ${message}`)
+ * )
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class UpdateTodoError extends Schema.TaggedError<UpdateTodoError>()(
+  "UpdateTodoError",
+  {
+    /** The local ID of the todo that failed to be updated */
+    id: Schema.Number,
+    /** The ID of the todo on the API */
+    remoteId: Schema.Number,
+    /** Human-readable error message describing what went wrong */
+    message: Schema.String,
+  }
+) {}
+
+/**
+ * Tagged error class representing an API request that did not complete in time.
+ *
+ * This error is thrown when a request to the remote API takes longer than the
+ * `timeout` setting, for example because the connection hung. The request is
+ * abandoned rather than retried, so that a single stuck todo does not stall a
+ * whole sync.
+ *
+ * @example
+ * ```typescript
+ * // Throwing a RequestTimeout
+ * yield* new RequestTimeout({
+ *   url: "https://jsonplaceholder.typicode.com/todos/42",
+ *   message: "Request to https://jsonplaceholder.typicode.com/todos/42 timed out after 30s"
+ * });
+ *
+ * // Catching a RequestTimeout
+ * Effect.catchTag("RequestTimeout", ({ url }) =>
+ *   Console.log(`Gave up waiting for ${url}`)
+ * )
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class RequestTimeout extends Schema.TaggedError<RequestTimeout>()(
+  "RequestTimeout",
+  {
+    /** The URL of the request that timed out */
+    url: Schema.String,
+    /** Human-readable error message describing what went wrong */
+    message: Schema.String,
+  }
+) {}
+
+/**
+ * Tagged error class representing an API that keeps throttling requests.
+ *
+ * This error is thrown when the remote API still answers 429 Too Many Requests
+ * or 503 Service Unavailable after every retry. Between retries the CLI waits
+ * as long as the API asks for in its Retry-After header.
+ *
+ * @example
+ * ```typescript
+ * // Throwing a RateLimited error
+ * yield* new RateLimited({
+ *   url: "https://jsonplaceholder.typicode.com/todos/42",
+ *   status: 429,
+ *   message: "API is rate limiting requests (HTTP 429, retry after 10s)"
+ * });
+ *
+ * // Catching a RateLimited error
+ * Effect.catchTag("RateLimited", ({ message }) =>
+ *   Console.log(`Slow down: ${message}. Try a lower --rate.`)
+ * )
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class RateLimited extends Schema.TaggedError<RateLimited>()(
+  "RateLimited",
+  {
+    /** The URL of the throttled request */
+    url: Schema.String,
+    /** The HTTP status of the last response (429 or 503) */
+    status: Schema.Number,
+    /** Seconds the API asked to wait with its Retry-After header, if any */
+    retryAfter: Schema.optional(Schema.Number),
+    /** Human-readable error message describing what went wrong */
+    message: Schema.String,
+  }
+) {}
+
+/**
+ * Tagged error class representing an open circuit breaker.
+ *
+ * After `maxFailures` consecutive failed requests (transport errors, timeouts,
+ * throttling or server errors), the CLI stops sending requests to the remote
+ * API for a while and fails every request immediately with this error, so
+ * that a batch stops instead of waiting on an API that is down.
+ *
+ * @example
+ * ```typescript
+ * // Throwing a CircuitOpen error
+ * yield* new CircuitOpen({
+ *   failures: 5,
+ *   message: "Stopped calling the API after 5 consecutive failures"
+ * });
+ *
+ * // Catching a CircuitOpen error
+ * Effect.catchTag("CircuitOpen", ({ failures }) =>
+ *   Console.log(`API looks down (${failures} failures in a row)`)
+ * )
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class CircuitOpen extends Schema.TaggedError<CircuitOpen>()(
+  "CircuitOpen",
+  {
+    /** The number of consecutive failures that opened the circuit */
+    failures: Schema.Number,
     /** Human-readable error message describing what went wrong */
     message: Schema.String,
   }
@@ -0,0 +1,107 @@
+import { Schema, type Effect } from "effect";
+import type { Todo } from "./Todo.js";
+import type { User } from "./User.js";
+import type {
+  CircuitOpen,
+  RateLimited,
+  RequestTimeout,
+  TodoSourceError,
+} from "./TodoServiceErrors.js";
+import type { ConfigError } from "./ConfigErrors.js";
+
+/**
+ * Names of the available remote backends.
+ *
+ * - rest: A JSONPlaceholder-style REST API (the `apiUrl` setting)
+ * - file: A local JSON or NDJSON file of todos (the `sourceFile` setting)
+ * - fake: An in-process list of sample todos, kept for the lifetime of the process
+ *
+ * @since 1.0.0
+ */
+export const TodoSourceName = Schema.Literal("rest", "file", "fake");
+
+/**
+ * Type of a {@link TodoSourceName}.
+ * @since 1.0.0
+ */
+export type TodoSourceName = typeof TodoSourceName.Type;
+
+/**
+ * A todo as stored by a remote backend, in its encoded (JSON) form.
+ * @since 1.0.0
+ */
+export type RemoteTodo = typeof Todo.Encoded;
+
+/**
+ * A user as stored by a remote backend, in its encoded (JSON) form.
+ * @since 1.0.0
+ */
+export type RemoteUser = typeof User.Encoded;
+
+/**
+ * Errors a remote backend can fail with.
+ *
+ * Besides TodoSourceError and ConfigError, the REST backend fails with
+ * RequestTimeout, RateLimited and CircuitOpen when the limits on outbound
+ * requests kick in (see RestTodoSource).
+ *
+ * @since 1.0.0
+ */
+export type TodoSourceFailure =
+  | TodoSourceError
+  | ConfigError
+  | RequestTimeout
+  | RateLimited
+  | CircuitOpen;
+
+/**
+ * A remote backend that TodoService syncs with.
+ *
+ * Backends only move raw JSON: every response is returned undecoded, so that
+ * TodoService decodes todos (and users) from every backend with the same schema and
+ * reports malformed data the same way. Backends read their settings per
+ * request, so they fail with ConfigError when a setting is invalid.
+ *
+ * @example
+ * ```typescript
+ * const source: TodoSource = yield* FakeTodoSource;
+ * const raw = yield* source.fetchTodo(1);
+ * const todo = yield* Schema.decodeUnknown(Todo)(raw);
+ * ```
+ *
+ * @since 1.0.0
+ */
+export interface TodoSource {
+  /**
+   * Fetches a single todo.
+   * Fails with reason "not-found" when the backend has no todo with this ID.
+   */
+  readonly fetchTodo: (id: number) => Effect.Effect<unknown, TodoSourceFailure>;
+  /**
+   * Fetches every todo, or only those of one user.
+   * Resolves to the raw list, expected to be an array of todos.
+   */
+  readonly listTodos: (
+    userId?: number
+  ) => Effect.Effect<unknown, TodoSourceFailure>;
+  /**
+   * Stores a new todo. The backend assigns the ID.
+   * Resolves to the todo as stored.
+   */
+  readonly createTodo: (
+    todo: Omit<RemoteTodo, "id">
+  ) => Effect.Effect<unknown, TodoSourceFailure>;
+  /**
+   * Replaces the todo with the given ID.
+   * Resolves to the todo as stored.
+   */
+  readonly replaceTodo: (
+    id: number,
+    todo: RemoteTodo
+  ) => Effect.Effect<unknown, TodoSourceFailure>;
+  /**
+   * Fetches every user.
+   * Resolves to the raw list, expected to be an array of users.
+   */
+  readonly listUsers: () => Effect.Effect<unknown, TodoSourceFailure>;
+}
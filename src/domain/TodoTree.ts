@@ -0,0 +1,100 @@
+import type { Todo } from "./Todo.js";
+
+/**
+ * How many of a todo's direct subtasks are completed.
+ * @since 1.0.0
+ */
+export interface SubtaskCount {
+  /** Number of completed subtasks */
+  readonly completed: number;
+  /** Number of subtasks, outside the trash */
+  readonly total: number;
+}
+
+/**
+ * A todo together with its subtasks, as shown by `list --tree`.
+ * @since 1.0.0
+ */
+export interface TodoTreeNode {
+  /** The todo itself */
+  readonly todo: Todo;
+  /** Its subtasks, in the order they were given */
+  readonly children: ReadonlyArray<TodoTreeNode>;
+}
+
+/**
+ * Arranges todos into trees of subtasks.
+ *
+ * Todos whose parent is not among the given todos (including top-level
+ * todos) become roots, so filtering a listing never hides a todo.
+ *
+ * @param todos - The todos to arrange, in the order they should be shown
+ * @returns The root todos with their subtasks, keeping the given order
+ *          among siblings
+ *
+ * @example
+ * ```typescript
+ * const roots = buildTodoTree(todos);
+ * console.log(`${roots.length} top-level todo(s)`);
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const buildTodoTree = (
+  todos: ReadonlyArray<Todo>
+): Array<TodoTreeNode> => {
+  const ids = new Set(todos.map((todo) => todo.id as number));
+  const children = new Map<number, Array<Todo>>();
+  const roots: Array<Todo> = [];
+  for (const todo of todos) {
+    if (todo.parentId === undefined || !ids.has(todo.parentId)) {
+      roots.push(todo);
+    } else {
+      const siblings = children.get(todo.parentId) ?? [];
+      siblings.push(todo);
+      children.set(todo.parentId, siblings);
+    }
+  }
+  const node = (todo: Todo): TodoTreeNode => ({
+    todo,
+    children: (children.get(todo.id) ?? []).map(node),
+  });
+  return roots.map(node);
+};
+
+/**
+ * Draws trees of todos as indented lines joined by box-drawing characters.
+ *
+ * @param roots - The trees to draw, e.g. from {@link buildTodoTree}
+ * @param label - Text shown for each todo
+ * @returns One line per todo, each subtask below and indented under its parent
+ *
+ * @example
+ * ```typescript
+ * drawTodoTree(buildTodoTree(todos), (todo) => todo.title);
+ * // ["Plan the release", "├── Write notes", "│   └── Proofread", "└── Tag"]
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const drawTodoTree = (
+  roots: ReadonlyArray<TodoTreeNode>,
+  label: (todo: Todo) => string
+): Array<string> => {
+  const lines: Array<string> = [];
+  const draw = (node: TodoTreeNode, lead: string, indent: string) => {
+    lines.push(`${lead}${label(node.todo)}`);
+    node.children.forEach((child, index) => {
+      const last = index === node.children.length - 1;
+      draw(
+        child,
+        `${indent}${last ? "└── " : "├── "}`,
+        `${indent}${last ? "    " : "│   "}`
+      );
+    });
+  };
+  for (const root of roots) {
+    draw(root, "", "");
+  }
+  return lines;
+};
@@ -0,0 +1,369 @@
+import { Option } from "effect";
+import type { Terminal } from "@effect/platform";
+import type { Todo } from "./Todo.js";
+
+/**
+ * What the keyboard currently does in the `tui` command.
+ *
+ * - Browse: Keys move through the list and act on the selected todo
+ * - Edit: Keys edit the title of the selected todo
+ * - Filter: Keys edit the filter, which applies while typing
+ * - Busy: A sync is running; keys are ignored and its progress is shown
+ *
+ * @since 1.0.0
+ */
+export type TuiMode =
+  | { readonly _tag: "Browse" }
+  | { readonly _tag: "Edit"; readonly text: string }
+  | { readonly _tag: "Filter"; readonly previous: string }
+  | { readonly _tag: "Busy"; readonly progress: string };
+
+/**
+ * Everything shown by the `tui` command.
+ * @since 1.0.0
+ */
+export interface TuiState {
+  /** Every todo outside the trash, in list order */
+  readonly todos: ReadonlyArray<Todo>;
+  /** Only todos whose title contains this text (any case) are shown */
+  readonly filter: string;
+  /** Position of the selected todo among the shown ones */
+  readonly cursor: number;
+  /** Position of the first shown todo that fits on the screen */
+  readonly scroll: number;
+  /** What the keyboard does */
+  readonly mode: TuiMode;
+  /** Outcome of the last action, shown above the key help */
+  readonly status: string;
+}
+
+/**
+ * Something the `tui` command has to do in response to a key, besides
+ * updating the screen.
+ * @since 1.0.0
+ */
+export type TuiAction =
+  | { readonly _tag: "Quit" }
+  | { readonly _tag: "Toggle"; readonly todo: Todo }
+  | { readonly _tag: "Rename"; readonly todo: Todo; readonly title: string }
+  | { readonly _tag: "Delete"; readonly todo: Todo }
+  | { readonly _tag: "Sync" };
+
+/**
+ * Lines of the screen that are not list rows: the header, the status line
+ * and the key help.
+ */
+const chromeRows = 3;
+
+/**
+ * The state of a freshly opened `tui` command.
+ *
+ * @param todos - The todos to show, in list order
+ * @returns The state browsing the first todo, without a filter
+ *
+ * @since 1.0.0
+ */
+export const initialTuiState = (todos: ReadonlyArray<Todo>): TuiState => ({
+  todos,
+  filter: "",
+  cursor: 0,
+  scroll: 0,
+  mode: { _tag: "Browse" },
+  status: "",
+});
+
+/**
+ * The todos shown with the current filter, in list order.
+ *
+ * @param state - The state of the `tui` command
+ * @returns The todos whose title contains the filter, regardless of case
+ *
+ * @since 1.0.0
+ */
+export const visibleTodos = (state: TuiState): ReadonlyArray<Todo> => {
+  const filter = state.filter.toLowerCase();
+  return filter === ""
+    ? state.todos
+    : state.todos.filter((todo) => todo.title.toLowerCase().includes(filter));
+};
+
+/**
+ * The selected todo, if any todo is shown.
+ * @since 1.0.0
+ */
+export const selectedTodo = (state: TuiState): Option.Option<Todo> =>
+  Option.fromNullable(visibleTodos(state)[state.cursor]);
+
+/**
+ * Keeps the cursor on a shown todo, or on the first one when the cursor
+ * is out of range.
+ */
+const clampCursor = (state: TuiState): TuiState => {
+  const count = visibleTodos(state).length;
+  return {
+    ...state,
+    cursor: Math.max(0, Math.min(state.cursor, count - 1)),
+  };
+};
+
+/**
+ * Replaces the todos, e.g. after reloading them from the database, keeping
+ * the selected todo selected if it is still shown.
+ *
+ * @param state - The state of the `tui` command
+ * @param todos - The new todos, in list order
+ * @returns The state showing the new todos
+ *
+ * @since 1.0.0
+ */
+export const replaceTodos = (
+  state: TuiState,
+  todos: ReadonlyArray<Todo>
+): TuiState => {
+  const selected = selectedTodo(state);
+  const next = { ...state, todos };
+  const index = Option.match(selected, {
+    onNone: () => -1,
+    onSome: ({ id }) => visibleTodos(next).findIndex((todo) => todo.id === id),
+  });
+  return clampCursor(index === -1 ? next : { ...next, cursor: index });
+};
+
+/**
+ * Whether a key types a character into a text field.
+ */
+const typedCharacter = (input: Terminal.UserInput): Option.Option<string> =>
+  input.key.ctrl ||
+  input.key.meta ||
+  ["return", "enter", "escape", "backspace", "tab"].includes(input.key.name)
+    ? Option.none()
+    : Option.filter(input.input, (text) => text.length > 0 && text >= " ");
+
+/**
+ * Applies a key press to the state of the `tui` command.
+ *
+ * Keys while browsing:
+ * - `j` / `k` or the arrow keys: Select the next / previous todo
+ * - space: Toggle the selected todo between pending and completed
+ * - `e`: Edit the title of the selected todo; enter saves, escape cancels
+ * - `d`: Move the selected todo to the trash
+ * - `/`: Edit the filter; enter keeps it, escape restores the old one
+ * - `s`: Sync with the remote backend
+ * - `q` or escape: Quit
+ *
+ * @param state - The state of the `tui` command
+ * @param input - The key that was pressed
+ * @returns The new state, and what else to do, if anything
+ *
+ * @example
+ * ```typescript
+ * const { state: next, action } = handleKey(state, input);
+ * if (action?._tag === "Quit") return;
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const handleKey = (
+  state: TuiState,
+  input: Terminal.UserInput
+): { readonly state: TuiState; readonly action?: TuiAction } => {
+  const { name } = input.key;
+  const mode = state.mode;
+  switch (mode._tag) {
+    case "Busy":
+      return { state };
+    case "Edit": {
+      if (name === "escape") {
+        return { state: { ...state, mode: { _tag: "Browse" } } };
+      }
+      if (name === "return" || name === "enter") {
+        const browsing: TuiState = { ...state, mode: { _tag: "Browse" } };
+        const title = mode.text.trim();
+        return Option.match(selectedTodo(state), {
+          onNone: () => ({ state: browsing }),
+          onSome: (todo) =>
+            title === todo.title
+              ? { state: browsing }
+              : { state: browsing, action: { _tag: "Rename", todo, title } },
+        });
+      }
+      if (name === "backspace") {
+        return {
+          state: {
+            ...state,
+            mode: { _tag: "Edit", text: [...mode.text].slice(0, -1).join("") },
+          },
+        };
+      }
+      return {
+        state: Option.match(typedCharacter(input), {
+          onNone: () => state,
+          onSome: (text) => ({
+            ...state,
+            mode: { _tag: "Edit", text: mode.text + text },
+          }),
+        }),
+      };
+    }
+    case "Filter": {
+      if (name === "escape") {
+        return {
+          state: clampCursor({
+            ...state,
+            filter: mode.previous,
+            mode: { _tag: "Browse" },
+          }),
+        };
+      }
+      if (name === "return" || name === "enter") {
+        return { state: { ...state, mode: { _tag: "Browse" } } };
+      }
+      const filter =
+        name === "backspace"
+          ? [...state.filter].slice(0, -1).join("")
+          : Option.match(typedCharacter(input), {
+              onNone: () => state.filter,
+              onSome: (text) => state.filter + text,
+            });
+      return { state: clampCursor({ ...state, filter, cursor: 0 }) };
+    }
+    case "Browse": {
+      const selected = selectedTodo(state);
+      switch (name) {
+        case "j":
+        case "down":
+          return { state: clampCursor({ ...state, cursor: state.cursor + 1 }) };
+        case "k":
+        case "up":
+          return { state: clampCursor({ ...state, cursor: state.cursor - 1 }) };
+        case "space":
+          return Option.match(selected, {
+            onNone: () => ({ state }),
+            onSome: (todo) => ({ state, action: { _tag: "Toggle", todo } }),
+          });
+        case "e":
+          return Option.match(selected, {
+            onNone: () => ({ state }),
+            onSome: (todo) => ({
+              state: { ...state, mode: { _tag: "Edit", text: todo.title } },
+            }),
+          });
+        case "d":
+          return Option.match(selected, {
+            onNone: () => ({ state }),
+            onSome: (todo) => ({ state, action: { _tag: "Delete", todo } }),
+          });
+        case "s":
+          return { state, action: { _tag: "Sync" } };
+        case "q":
+        case "escape":
+          return { state, action: { _tag: "Quit" } };
+      }
+      if (Option.getOrUndefined(input.input) === "/") {
+        return {
+          state: {
+            ...state,
+            mode: { _tag: "Filter", previous: state.filter },
+          },
+        };
+      }
+      return { state };
+    }
+  }
+};
+
+/**
+ * Scrolls the list just far enough to show the selected todo on a screen
+ * with the given number of rows.
+ *
+ * @param state - The state of the `tui` command
+ * @param rows - Height of the terminal
+ * @returns The state with the first shown todo adjusted
+ *
+ * @since 1.0.0
+ */
+export const scrollToCursor = (state: TuiState, rows: number): TuiState => {
+  const height = Math.max(1, rows - chromeRows);
+  const count = visibleTodos(state).length;
+  // Fill the screen after it grew, then bring the cursor into view
+  let scroll = Math.min(state.scroll, Math.max(0, count - height));
+  if (state.cursor < scroll) {
+    scroll = state.cursor;
+  } else if (state.cursor >= scroll + height) {
+    scroll = state.cursor - height + 1;
+  }
+  return { ...state, scroll: Math.max(0, scroll) };
+};
+
+/**
+ * Draws the screen of the `tui` command: a header, as many todos as fit,
+ * a status line and the keys that can be pressed. Lines are cut to one
+ * character less than the width of the terminal, so that the emoji of the
+ * header and status lines (two columns wide) never wrap onto the next line.
+ *
+ * @param state - The state to draw, scrolled with {@link scrollToCursor}
+ * @param size - Size of the terminal
+ * @returns Exactly `size.rows` lines (at least four)
+ *
+ * @example
+ * ```typescript
+ * renderScreen(state, { columns: 80, rows: 24 });
+ * // ["📋 Todos: 5 of 5", "> [ ]  1 Learn Effect", "  [x]  2 Build a CLI app", ...]
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const renderScreen = (
+  state: TuiState,
+  size: { readonly columns: number; readonly rows: number }
+): Array<string> => {
+  const rows = Math.max(chromeRows + 1, size.rows);
+  const height = rows - chromeRows;
+  const shown = visibleTodos(state);
+  const idWidth = Math.max(1, ...shown.map(({ id }) => String(id).length));
+
+  const header = `📋 Todos: ${shown.length} of ${state.todos.length}${
+    state.filter !== "" ? ` matching "${state.filter}"` : ""
+  }`;
+  const list = shown
+    .slice(state.scroll, state.scroll + height)
+    .map((todo, index) => {
+      const cursor = state.scroll + index === state.cursor ? ">" : " ";
+      const done = todo.completed === "completed" ? "x" : " ";
+      const priority =
+        todo.priority !== undefined && todo.priority !== "normal"
+          ? ` (${todo.priority})`
+          : "";
+      const tags = (todo.tags ?? []).map((tag) => ` #${tag}`).join("");
+      return `${cursor} [${done}] ${String(todo.id).padStart(idWidth)} ${
+        todo.title
+      }${priority}${tags}`;
+    });
+  if (shown.length === 0) {
+    list.push(
+      state.todos.length === 0
+        ? "  No todos yet; press s to sync"
+        : "  No todos match the filter"
+    );
+  }
+  while (list.length < height) {
+    list.push("");
+  }
+
+  const mode = state.mode;
+  const [status, help] =
+    mode._tag === "Edit"
+      ? [`✏️ Title: ${mode.text}█`, "enter save · esc cancel"]
+      : mode._tag === "Filter"
+      ? [`🔍 Filter: ${state.filter}█`, "enter keep · esc cancel"]
+      : mode._tag === "Busy"
+      ? [mode.progress, "please wait…"]
+      : [
+          state.status,
+          "j/k move · space toggle · e edit · d delete · / filter · s sync · q quit",
+        ];
+
+  return [header, ...list, status, help].map((line) =>
+    [...line].slice(0, Math.max(0, size.columns - 1)).join("")
+  );
+};
@@ -0,0 +1,70 @@
+import { Schema, Pretty } from "effect";
+
+/**
+ * Branded type for User ID to ensure type safety and prevent mixing with other integer types.
+ * @since 1.0.0
+ */
+export const UserId = Schema.Int.pipe(Schema.brand("UserId"));
+
+/**
+ * Schema for user names.
+ * Ensures names are non-empty and do not exceed 255 characters.
+ * @since 1.0.0
+ */
+export const UserName = Schema.NonEmptyString.pipe(Schema.maxLength(255));
+
+/**
+ * User domain model representing a person who owns todos.
+ *
+ * Users are synced from the `/users` endpoint of the remote backend or added
+ * locally. Only the fields the CLI shows are kept; any other fields of the
+ * API's users (addresses, companies and the like) are ignored when decoding.
+ *
+ * @example
+ * ```typescript
+ * import { Effect, Schema, Console } from "effect";
+ * import { User } from "./domain/User.js";
+ *
+ * const program = Effect.gen(function* () {
+ *   const user = yield* Schema.decodeUnknown(User)({
+ *     id: 1,
+ *     name: "Leanne Graham",
+ *     username: "Bret",
+ *     email: "Sincere@april.biz"
+ *   });
+ *   yield* Console.log(User.pretty(user));
+ * });
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class User extends Schema.Class<User>("User")({
+  /** Unique identifier for this user */
+  id: UserId,
+  /** The user's full name (1-255 characters) */
+  name: UserName,
+  /** Short handle of the user (absent when unknown) */
+  username: Schema.optionalWith(Schema.NonEmptyString, { exact: true }),
+  /** The user's email address (absent when unknown) */
+  email: Schema.optionalWith(Schema.NonEmptyString, { exact: true }),
+}) {
+  /**
+   * Pretty printer for User instances, providing formatted string representation.
+   * Used for console output and debugging.
+   * @since 1.0.0
+   */
+  static readonly pretty = Pretty.make(User);
+}
+
+/**
+ * A user together with how many of their todos are completed.
+ * @since 1.0.0
+ */
+export interface UserSummary {
+  /** The user */
+  readonly user: User;
+  /** Number of the user's todos, outside the trash */
+  readonly todos: number;
+  /** Number of those todos that are completed */
+  readonly completed: number;
+}
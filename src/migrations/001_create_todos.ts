@@ -0,0 +1,26 @@
+import type { Migration } from "../domain/Migration.js";
+
+/**
+ * Creates the todos table, including the deleted_at column used by the trash.
+ *
+ * Databases created before migrations existed already have this table; they
+ * are adopted at this version by the MigrationService.
+ *
+ * @since 1.0.0
+ */
+export const migration: Migration = {
+  version: 1,
+  name: "create_todos",
+  up: [
+    `CREATE TABLE todos (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      title TEXT NOT NULL,
+      completed TEXT NOT NULL CHECK (completed IN ('completed', 'pending')) DEFAULT 'pending',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      deleted_at DATETIME
+    )`,
+  ],
+  down: ["DROP TABLE todos"],
+};
@@ -0,0 +1,13 @@
+import type { Migration } from "../domain/Migration.js";
+
+/**
+ * Indexes todos by owner, for `list --user` and other per-user lookups.
+ *
+ * @since 1.0.0
+ */
+export const migration: Migration = {
+  version: 2,
+  name: "index_todos_user_id",
+  up: ["CREATE INDEX idx_todos_user_id ON todos (user_id)"],
+  down: ["DROP INDEX idx_todos_user_id"],
+};
@@ -0,0 +1,27 @@
+import type { Migration } from "../domain/Migration.js";
+
+/**
+ * Tracks which todos exist on the remote API and which have local changes
+ * that still need to be pushed.
+ *
+ * - remote_id: ID of the todo on the remote API (NULL if it was never pushed
+ *   or pulled), indexed for matching pulled todos to local ones
+ * - dirty: 1 when the todo was created or modified locally since it was last
+ *   pushed or pulled
+ *
+ * @since 1.0.0
+ */
+export const migration: Migration = {
+  version: 3,
+  name: "track_remote_changes",
+  up: [
+    "ALTER TABLE todos ADD COLUMN remote_id INTEGER",
+    "ALTER TABLE todos ADD COLUMN dirty INTEGER NOT NULL DEFAULT 0",
+    "CREATE INDEX idx_todos_remote_id ON todos (remote_id)",
+  ],
+  down: [
+    "DROP INDEX idx_todos_remote_id",
+    "ALTER TABLE todos DROP COLUMN dirty",
+    "ALTER TABLE todos DROP COLUMN remote_id",
+  ],
+};
@@ -0,0 +1,17 @@
+import type { Migration } from "../domain/Migration.js";
+
+/**
+ * Stores a fingerprint of each todo as it was last seen on the remote API,
+ * so that sync can tell whether the remote todo changed since then.
+ *
+ * - remote_hash: Fingerprint of the remote todo at the last push or pull
+ *   (NULL if unknown)
+ *
+ * @since 1.0.0
+ */
+export const migration: Migration = {
+  version: 4,
+  name: "remote_fingerprint",
+  up: ["ALTER TABLE todos ADD COLUMN remote_hash TEXT"],
+  down: ["ALTER TABLE todos DROP COLUMN remote_hash"],
+};
@@ -0,0 +1,30 @@
+import type { Migration } from "../domain/Migration.js";
+
+/**
+ * Caches responses of the remote REST API, so that later requests can be
+ * made conditional and a `304 Not Modified` answered from the cache.
+ *
+ * - url: Full URL of the cached GET request
+ * - etag / last_modified: Validators sent back with If-None-Match and
+ *   If-Modified-Since (NULL when the API did not send them)
+ * - body: The response body
+ * - hits: How often the API answered 304 and the body was reused
+ * - stored_at: When the body was last downloaded
+ *
+ * @since 1.0.0
+ */
+export const migration: Migration = {
+  version: 5,
+  name: "http_cache",
+  up: [
+    `CREATE TABLE http_cache (
+      url TEXT PRIMARY KEY,
+      etag TEXT,
+      last_modified TEXT,
+      body TEXT NOT NULL,
+      hits INTEGER NOT NULL DEFAULT 0,
+      stored_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+  ],
+  down: ["DROP TABLE http_cache"],
+};
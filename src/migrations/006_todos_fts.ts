@@ -0,0 +1,45 @@
+import type { Migration } from "../domain/Migration.js";
+
+/**
+ * Adds a full-text index over todo titles for `search`.
+ *
+ * - todos_fts: FTS5 table indexing the title of every todo. It is an
+ *   external content table, so it stores only the index and reads titles
+ *   from the todos table; its rowid is the todo ID
+ * - todos_fts_insert / todos_fts_delete / todos_fts_update: Triggers that
+ *   keep the index in step with every write to the todos table, whichever
+ *   code path makes it
+ *
+ * Existing todos are indexed when the migration is applied.
+ *
+ * @since 1.0.0
+ */
+export const migration: Migration = {
+  version: 6,
+  name: "todos_fts",
+  up: [
+    `CREATE VIRTUAL TABLE todos_fts USING fts5(
+      title,
+      content = 'todos',
+      content_rowid = 'id',
+      tokenize = 'unicode61 remove_diacritics 2'
+    )`,
+    `CREATE TRIGGER todos_fts_insert AFTER INSERT ON todos BEGIN
+      INSERT INTO todos_fts (rowid, title) VALUES (NEW.id, NEW.title);
+    END`,
+    `CREATE TRIGGER todos_fts_delete AFTER DELETE ON todos BEGIN
+      INSERT INTO todos_fts (todos_fts, rowid, title) VALUES ('delete', OLD.id, OLD.title);
+    END`,
+    `CREATE TRIGGER todos_fts_update AFTER UPDATE OF id, title ON todos BEGIN
+      INSERT INTO todos_fts (todos_fts, rowid, title) VALUES ('delete', OLD.id, OLD.title);
+      INSERT INTO todos_fts (rowid, title) VALUES (NEW.id, NEW.title);
+    END`,
+    "INSERT INTO todos_fts (todos_fts) VALUES ('rebuild')",
+  ],
+  down: [
+    "DROP TRIGGER todos_fts_update",
+    "DROP TRIGGER todos_fts_delete",
+    "DROP TRIGGER todos_fts_insert",
+    "DROP TABLE todos_fts",
+  ],
+};
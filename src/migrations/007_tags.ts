@@ -0,0 +1,48 @@
+import type { Migration } from "../domain/Migration.js";
+
+/**
+ * Adds tags, which group todos and can be shared by many todos.
+ *
+ * - tags: One row per tag; names are unique regardless of case
+ * - todo_tags: Which todo carries which tag, indexed by tag for counting
+ *   and filtering
+ * - todo_tags_delete_todo / todo_tags_update_todo_id: Triggers that drop or
+ *   follow the tags of a todo when it is deleted or gets a new ID
+ * - tags_prune: Trigger that deletes a tag when its last todo loses it, so
+ *   no unused tags are left behind
+ *
+ * @since 1.0.0
+ */
+export const migration: Migration = {
+  version: 7,
+  name: "tags",
+  up: [
+    `CREATE TABLE tags (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE COLLATE NOCASE
+    )`,
+    `CREATE TABLE todo_tags (
+      todo_id INTEGER NOT NULL,
+      tag_id INTEGER NOT NULL,
+      PRIMARY KEY (todo_id, tag_id)
+    )`,
+    "CREATE INDEX idx_todo_tags_tag_id ON todo_tags (tag_id)",
+    `CREATE TRIGGER todo_tags_delete_todo AFTER DELETE ON todos BEGIN
+      DELETE FROM todo_tags WHERE todo_id = OLD.id;
+    END`,
+    `CREATE TRIGGER todo_tags_update_todo_id AFTER UPDATE OF id ON todos BEGIN
+      UPDATE todo_tags SET todo_id = NEW.id WHERE todo_id = OLD.id;
+    END`,
+    `CREATE TRIGGER tags_prune AFTER DELETE ON todo_tags BEGIN
+      DELETE FROM tags WHERE id = OLD.tag_id
+        AND NOT EXISTS (SELECT 1 FROM todo_tags WHERE tag_id = OLD.tag_id);
+    END`,
+  ],
+  down: [
+    "DROP TRIGGER tags_prune",
+    "DROP TRIGGER todo_tags_update_todo_id",
+    "DROP TRIGGER todo_tags_delete_todo",
+    "DROP TABLE todo_tags",
+    "DROP TABLE tags",
+  ],
+};
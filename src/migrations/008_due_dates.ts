@@ -0,0 +1,20 @@
+import type { Migration } from "../domain/Migration.js";
+
+/**
+ * Adds an optional due date to todos.
+ *
+ * - due_at: When the todo is due, as an ISO 8601 UTC timestamp (NULL when it
+ *   has no due date), indexed for the due and overdue views. Due dates exist
+ *   only locally: sync leaves them alone and push does not send them
+ *
+ * @since 1.0.0
+ */
+export const migration: Migration = {
+  version: 8,
+  name: "due_dates",
+  up: [
+    "ALTER TABLE todos ADD COLUMN due_at TEXT",
+    "CREATE INDEX idx_todos_due_at ON todos (due_at)",
+  ],
+  down: ["DROP INDEX idx_todos_due_at", "ALTER TABLE todos DROP COLUMN due_at"],
+};
@@ -0,0 +1,37 @@
+import type { Migration } from "../domain/Migration.js";
+
+/**
+ * Adds priorities and a manual order to todos.
+ *
+ * - priority: One of low, normal (the default), high or urgent
+ * - position: Where the todo stands in the manual order, lowest first,
+ *   indexed for finding neighbours. Positions are spaced 1024 apart, so a
+ *   todo can be moved between two others without renumbering the rest
+ * - todos_position: Trigger that puts every new todo at the end of the order
+ *
+ * Like due dates, priorities and positions exist only locally.
+ *
+ * @since 1.0.0
+ */
+export const migration: Migration = {
+  version: 9,
+  name: "priorities",
+  up: [
+    `ALTER TABLE todos ADD COLUMN priority TEXT NOT NULL DEFAULT 'normal'
+      CHECK (priority IN ('low', 'normal', 'high', 'urgent'))`,
+    "ALTER TABLE todos ADD COLUMN position INTEGER",
+    "UPDATE todos SET position = id * 1024",
+    "CREATE INDEX idx_todos_position ON todos (position)",
+    `CREATE TRIGGER todos_position AFTER INSERT ON todos
+      WHEN NEW.position IS NULL BEGIN
+      UPDATE todos SET position = (SELECT COALESCE(MAX(position), 0) + 1024 FROM todos)
+      WHERE id = NEW.id;
+    END`,
+  ],
+  down: [
+    "DROP TRIGGER todos_position",
+    "DROP INDEX idx_todos_position",
+    "ALTER TABLE todos DROP COLUMN position",
+    "ALTER TABLE todos DROP COLUMN priority",
+  ],
+};
@@ -0,0 +1,36 @@
+import type { Migration } from "../domain/Migration.js";
+
+/**
+ * Lets todos be subtasks of other todos.
+ *
+ * - parent_id: The todo this todo is a subtask of (NULL for top-level
+ *   todos), indexed for finding subtasks
+ * - todos_parent_update_id: Trigger that keeps subtasks attached when their
+ *   parent gets a new ID
+ * - todos_parent_delete: Trigger that turns the subtasks of a permanently
+ *   deleted todo into top-level todos, so none point at a missing parent
+ *
+ * Like due dates, subtasks exist only locally.
+ *
+ * @since 1.0.0
+ */
+export const migration: Migration = {
+  version: 10,
+  name: "subtasks",
+  up: [
+    "ALTER TABLE todos ADD COLUMN parent_id INTEGER",
+    "CREATE INDEX idx_todos_parent_id ON todos (parent_id)",
+    `CREATE TRIGGER todos_parent_update_id AFTER UPDATE OF id ON todos BEGIN
+      UPDATE todos SET parent_id = NEW.id WHERE parent_id = OLD.id;
+    END`,
+    `CREATE TRIGGER todos_parent_delete AFTER DELETE ON todos BEGIN
+      UPDATE todos SET parent_id = NULL WHERE parent_id = OLD.id;
+    END`,
+  ],
+  down: [
+    "DROP TRIGGER todos_parent_delete",
+    "DROP TRIGGER todos_parent_update_id",
+    "DROP INDEX idx_todos_parent_id",
+    "ALTER TABLE todos DROP COLUMN parent_id",
+  ],
+};
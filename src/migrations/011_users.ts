@@ -0,0 +1,31 @@
+import type { Migration } from "../domain/Migration.js";
+
+/**
+ * Adds users, the owners of todos.
+ *
+ * - users: One row per user, synced from the remote backend or added
+ *   locally. `username` and `email` are NULL when unknown
+ *
+ * Every user that already owns a todo is added as `User <id>`, so that
+ * existing todos keep belonging to a known user; the next sync fills in
+ * their real names.
+ *
+ * @since 1.0.0
+ */
+export const migration: Migration = {
+  version: 11,
+  name: "users",
+  up: [
+    `CREATE TABLE users (
+      id INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      username TEXT,
+      email TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+    `INSERT INTO users (id, name)
+      SELECT DISTINCT user_id, 'User ' || user_id FROM todos`,
+  ],
+  down: ["DROP TABLE users"],
+};
@@ -0,0 +1,165 @@
+import type { Migration } from "../domain/Migration.js";
+
+/**
+ * JSON snapshot of a todos row as seen by a trigger (`NEW` or `OLD`, or the
+ * `todos` table of the trigger's query), with the keys used by the history.
+ */
+const snapshot = (row: "NEW" | "OLD" | "todos") => `json_object(
+  'id', ${row}.id,
+  'userId', ${row}.user_id,
+  'title', ${row}.title,
+  'completed', ${row}.completed,
+  'dueAt', ${row}.due_at,
+  'priority', ${row}.priority,
+  'position', ${row}.position,
+  'parentId', ${row}.parent_id,
+  'deletedAt', ${row}.deleted_at,
+  'dirty', ${row}.dirty,
+  'remoteId', ${row}.remote_id,
+  'remoteHash', ${row}.remote_hash,
+  'createdAt', ${row}.created_at,
+  'updatedAt', ${row}.updated_at
+)`;
+
+/**
+ * JSON array of the names of the tags of a todo, sorted by name. `where`
+ * narrows down the tags, and `name` shows a tag under another name.
+ */
+const tagNames = (
+  todoId: string,
+  { where = "", name = "tags.name" }: { where?: string; name?: string } = {}
+) => `json((
+  SELECT json_group_array(name) FROM (
+    SELECT ${name} AS name FROM todo_tags JOIN tags ON tags.id = todo_tags.tag_id
+    WHERE todo_tags.todo_id = ${todoId}${where} ORDER BY 1
+  )
+))`;
+
+/**
+ * JSON snapshot of the row of the `todos` table of a trigger's query, with
+ * the given tags.
+ */
+const taggedSnapshot = (tags: string) =>
+  `json_set(${snapshot("todos")}, '$.tags', ${tags})`;
+
+/**
+ * The operation in progress, whose events the triggers record.
+ */
+const currentOperation =
+  "(SELECT MAX(id) FROM todo_operations WHERE in_progress = 1)";
+
+/**
+ * Records the history of every todo, so changes can be reviewed and undone.
+ *
+ * - todo_operations: One row per write made through the database service
+ *   (a sync, a clear, an update...), which groups the events it caused.
+ *   `in_progress` is set while the write runs; `undone_by` points at the
+ *   undo operation that reverted it
+ * - todo_events: One row per created, updated or deleted todos row, with
+ *   JSON snapshots of the row before and after (NULL for a row that did
+ *   not exist). Snapshots of deleted rows include their tags
+ * - todo_events_insert / todo_events_update / todo_events_delete: Triggers
+ *   that record the events while an operation is in progress. Updates that
+ *   only touch sync bookkeeping or the update timestamp, or give a new todo
+ *   its first position, are not recorded
+ * - todo_events_tag / todo_events_untag / todo_events_rename_tag: Triggers
+ *   that record a tag added to or removed from a todo, or a renamed tag, as
+ *   an update of each todo concerned, with its tags in both snapshots. Tags
+ *   dropped with a todo deleted for good are part of its delete event
+ *
+ * Rows written outside of an operation, such as by the earlier migrations,
+ * have no history.
+ *
+ * @since 1.0.0
+ */
+export const migration: Migration = {
+  version: 12,
+  name: "history",
+  up: [
+    `CREATE TABLE todo_operations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      in_progress INTEGER NOT NULL DEFAULT 1,
+      undone_by INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+    `CREATE TABLE todo_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      operation_id INTEGER NOT NULL,
+      todo_id INTEGER NOT NULL,
+      kind TEXT NOT NULL CHECK (kind IN ('created', 'updated', 'deleted')),
+      before TEXT,
+      after TEXT
+    )`,
+    "CREATE INDEX idx_todo_events_operation_id ON todo_events (operation_id)",
+    "CREATE INDEX idx_todo_events_todo_id ON todo_events (todo_id)",
+    `CREATE TRIGGER todo_events_insert AFTER INSERT ON todos
+      WHEN ${currentOperation} IS NOT NULL BEGIN
+      INSERT INTO todo_events (operation_id, todo_id, kind, after)
+      VALUES (${currentOperation}, NEW.id, 'created', ${snapshot("NEW")});
+    END`,
+    `CREATE TRIGGER todo_events_update AFTER UPDATE ON todos
+      WHEN ${currentOperation} IS NOT NULL AND (
+        OLD.id IS NOT NEW.id
+        OR OLD.user_id IS NOT NEW.user_id
+        OR OLD.title IS NOT NEW.title
+        OR OLD.completed IS NOT NEW.completed
+        OR OLD.due_at IS NOT NEW.due_at
+        OR OLD.priority IS NOT NEW.priority
+        OR (OLD.position IS NOT NEW.position AND OLD.position IS NOT NULL)
+        OR OLD.parent_id IS NOT NEW.parent_id
+        OR OLD.deleted_at IS NOT NEW.deleted_at
+      ) BEGIN
+      INSERT INTO todo_events (operation_id, todo_id, kind, before, after)
+      VALUES (${currentOperation}, NEW.id, 'updated', ${snapshot(
+      "OLD"
+    )}, ${snapshot("NEW")});
+    END`,
+    `CREATE TRIGGER todo_events_delete BEFORE DELETE ON todos
+      WHEN ${currentOperation} IS NOT NULL BEGIN
+      INSERT INTO todo_events (operation_id, todo_id, kind, before)
+      VALUES (${currentOperation}, OLD.id, 'deleted', json_set(${snapshot(
+      "OLD"
+    )}, '$.tags', ${tagNames("OLD.id")}));
+    END`,
+    `CREATE TRIGGER todo_events_tag AFTER INSERT ON todo_tags
+      WHEN ${currentOperation} IS NOT NULL BEGIN
+      INSERT INTO todo_events (operation_id, todo_id, kind, before, after)
+      SELECT ${currentOperation}, todos.id, 'updated', ${taggedSnapshot(
+      tagNames("todos.id", { where: " AND todo_tags.tag_id IS NOT NEW.tag_id" })
+    )}, ${taggedSnapshot(tagNames("todos.id"))}
+      FROM todos WHERE todos.id = NEW.todo_id;
+    END`,
+    `CREATE TRIGGER todo_events_untag BEFORE DELETE ON todo_tags
+      WHEN ${currentOperation} IS NOT NULL BEGIN
+      INSERT INTO todo_events (operation_id, todo_id, kind, before, after)
+      SELECT ${currentOperation}, todos.id, 'updated', ${taggedSnapshot(
+      tagNames("todos.id")
+    )}, ${taggedSnapshot(
+      tagNames("todos.id", { where: " AND todo_tags.tag_id IS NOT OLD.tag_id" })
+    )}
+      FROM todos WHERE todos.id = OLD.todo_id;
+    END`,
+    `CREATE TRIGGER todo_events_rename_tag AFTER UPDATE OF name ON tags
+      WHEN ${currentOperation} IS NOT NULL AND OLD.name IS NOT NEW.name BEGIN
+      INSERT INTO todo_events (operation_id, todo_id, kind, before, after)
+      SELECT ${currentOperation}, todos.id, 'updated', ${taggedSnapshot(
+      tagNames("todos.id", {
+        name: "CASE WHEN tags.id = NEW.id THEN OLD.name ELSE tags.name END",
+      })
+    )}, ${taggedSnapshot(tagNames("todos.id"))}
+      FROM todos JOIN todo_tags AS renamed ON renamed.todo_id = todos.id
+      WHERE renamed.tag_id = NEW.id;
+    END`,
+  ],
+  down: [
+    "DROP TRIGGER todo_events_rename_tag",
+    "DROP TRIGGER todo_events_untag",
+    "DROP TRIGGER todo_events_tag",
+    "DROP TRIGGER todo_events_delete",
+    "DROP TRIGGER todo_events_update",
+    "DROP TRIGGER todo_events_insert",
+    "DROP TABLE todo_events",
+    "DROP TABLE todo_operations",
+  ],
+};
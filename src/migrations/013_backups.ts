@@ -0,0 +1,31 @@
+import type { Migration } from "../domain/Migration.js";
+
+/**
+ * Keeps a backup of the todos removed by every `clear`, so that they can be
+ * restored later, even after other changes.
+ *
+ * - todo_backups: One row per clear that removed todos, with a description
+ *   of what was cleared and when
+ * - todo_backup_rows: One row per removed todo, with a JSON snapshot of its
+ *   row (the same keys as the snapshots of the history) and its tags
+ *
+ * @since 1.0.0
+ */
+export const migration: Migration = {
+  version: 13,
+  name: "backups",
+  up: [
+    `CREATE TABLE todo_backups (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      scope TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+    `CREATE TABLE todo_backup_rows (
+      backup_id INTEGER NOT NULL,
+      todo_id INTEGER NOT NULL,
+      snapshot TEXT NOT NULL,
+      PRIMARY KEY (backup_id, todo_id)
+    )`,
+  ],
+  down: ["DROP TABLE todo_backup_rows", "DROP TABLE todo_backups"],
+};
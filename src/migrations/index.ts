@@ -0,0 +1,44 @@
+/**
+ * Registry of all schema migrations, in version order.
+ *
+ * To change the schema, add a new `NNN_<name>.ts` file next to this one that
+ * exports a `migration` with the next version number, and append it here.
+ * Never edit a migration that has already been released.
+ *
+ * @since 1.0.0
+ */
+
+import type { Migration } from "../domain/Migration.js";
+import { migration as createTodos } from "./001_create_todos.js";
+import { migration as indexTodosUserId } from "./002_index_todos_user_id.js";
+import { migration as trackRemoteChanges } from "./003_track_remote_changes.js";
+import { migration as remoteFingerprint } from "./004_remote_fingerprint.js";
+import { migration as httpCache } from "./005_http_cache.js";
+import { migration as todosFts } from "./006_todos_fts.js";
+import { migration as tags } from "./007_tags.js";
+import { migration as dueDates } from "./008_due_dates.js";
+import { migration as priorities } from "./009_priorities.js";
+import { migration as subtasks } from "./010_subtasks.js";
+import { migration as users } from "./011_users.js";
+import { migration as history } from "./012_history.js";
+import { migration as backups } from "./013_backups.js";
+
+/**
+ * All migrations known to this version of the CLI.
+ * @since 1.0.0
+ */
+export const migrations: ReadonlyArray<Migration> = [
+  createTodos,
+  indexTodosUserId,
+  trackRemoteChanges,
+  remoteFingerprint,
+  httpCache,
+  todosFts,
+  tags,
+  dueDates,
+  priorities,
+  subtasks,
+  users,
+  history,
+  backups,
+];
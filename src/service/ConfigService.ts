@@ -0,0 +1,487 @@
+/**
+ * Configuration service for resolving CLI settings.
+ *
+ * This service determines the effective value of every setting by checking,
+ * in order of precedence:
+ * 1. A command line flag (e.g. `--db`, `--format`, `--concurrency`)
+ * 2. A `TODO_*` environment variable (e.g. `TODO_DB_PATH`)
+ * 3. The nearest `.todorc.json` in the current directory or one of its parents
+ * 4. The user config file `$XDG_CONFIG_HOME/todo/config.json`
+ *    (`~/.config/todo/config.json` when XDG_CONFIG_HOME is unset)
+ * 5. The built-in default
+ *
+ * Every resolved value records the source it came from, so that commands can
+ * explain where a setting was picked up.
+ *
+ * @example
+ * ```typescript
+ * import { Effect } from "effect";
+ * import { ConfigService } from "./service/ConfigService.js";
+ *
+ * const program = Effect.gen(function* () {
+ *   const config = yield* ConfigService;
+ *   const { value, source } = yield* config.resolve("dbPath");
+ *   console.log(`Using ${value} (${formatConfigSource(source)})`);
+ * });
+ * ```
+ *
+ * @since 1.0.0
+ */
+
+import { Config, Context, Effect, Option, Schema } from "effect";
+import { FileSystem, Path } from "@effect/platform";
+import { NodeFileSystem, NodePath } from "@effect/platform-node";
+import * as os from "os";
+import {
+  configCodecs,
+  type TodoConfig,
+  type ConfigKey,
+  type ConfigSource,
+  type ResolvedSetting,
+} from "../domain/Config.js";
+import { ConfigError } from "../domain/ConfigErrors.js";
+
+/**
+ * Name of the project config file, looked up from the current directory upwards.
+ * @since 1.0.0
+ */
+export const PROJECT_CONFIG_FILE = ".todorc.json";
+
+/**
+ * Static description of every setting: its flag (if it has one), environment
+ * variable and built-in default (in raw string form).
+ *
+ * @since 1.0.0
+ */
+export const configSettings: {
+  readonly [K in ConfigKey]: {
+    readonly flag?: string;
+    readonly env: string;
+    readonly default: string;
+    readonly description: string;
+    /** Whether the value must not be printed */
+    readonly secret?: boolean;
+  };
+} = {
+  dbPath: {
+    flag: "--db",
+    env: "TODO_DB_PATH",
+    default: "todos.db",
+    description: "Path to the SQLite database file",
+  },
+  concurrency: {
+    flag: "--concurrency",
+    env: "TODO_CONCURRENCY",
+    default: "1",
+    description: "Default sync concurrency (positive integer or 'unbounded')",
+  },
+  format: {
+    flag: "--format",
+    env: "TODO_FORMAT",
+    default: "pretty",
+    description: "Default output format (pretty, json, ndjson, csv or table)",
+  },
+  apiUrl: {
+    env: "TODO_API_URL",
+    default: "https://jsonplaceholder.typicode.com",
+    description: "Base URL of the remote todo API",
+  },
+  apiAuth: {
+    env: "TODO_API_AUTH",
+    default: "",
+    description:
+      "Authorization header sent to the remote todo API (e.g. 'Bearer <token>')",
+    secret: true,
+  },
+  source: {
+    flag: "--source",
+    env: "TODO_SOURCE",
+    default: "rest",
+    description: "Remote backend to sync with (rest, file or fake)",
+  },
+  sourceFile: {
+    env: "TODO_SOURCE_FILE",
+    default: "remote-todos.json",
+    description: "Todo file of the file backend (.json, or .ndjson/.jsonl)",
+  },
+  rate: {
+    flag: "--rate",
+    env: "TODO_RATE",
+    default: "unlimited",
+    description:
+      "Maximum rate of API requests ('unlimited', or per second/minute like '20/s')",
+  },
+  timeout: {
+    flag: "--timeout",
+    env: "TODO_TIMEOUT",
+    default: "30s",
+    description: "Timeout of a single API request (e.g. '500ms', '30s', '2m')",
+  },
+  maxFailures: {
+    flag: "--max-failures",
+    env: "TODO_MAX_FAILURES",
+    default: "5",
+    description:
+      "Consecutive failed API requests that stop the batch (0 to never stop)",
+  },
+};
+
+/**
+ * Formats a config source for console output.
+ *
+ * @param source - The source to describe
+ * @returns A short description such as "env TODO_FORMAT" or "project /work/.todorc.json"
+ *
+ * @since 1.0.0
+ */
+export const formatConfigSource = (source: ConfigSource): string => {
+  switch (source._tag) {
+    case "flag":
+    case "env":
+      return `${source._tag} ${source.name}`;
+    case "project":
+    case "user":
+      return `${source._tag} ${source.path}`;
+    case "default":
+      return "default";
+  }
+};
+
+/**
+ * A possible value for a setting, as found in one of the config sources.
+ * @since 1.0.0
+ */
+export interface ConfigCandidate {
+  /** Where the value was found */
+  readonly source: ConfigSource;
+  /** The raw value, or undefined when this source does not set it */
+  readonly raw: unknown;
+}
+
+/**
+ * Picks the effective value of a setting from candidates ordered by precedence.
+ *
+ * The first candidate that sets a value wins and is decoded with the
+ * setting's schema; an invalid value is an error rather than being skipped,
+ * so a typo never silently falls back to a lower-precedence source. When no
+ * candidate sets a value, the built-in default is used.
+ *
+ * @param key - The setting to resolve
+ * @param candidates - Candidate values, highest precedence first
+ * @returns Effect that resolves to the decoded value and its source
+ * @throws {ConfigError} When the winning value does not match the setting's schema
+ *
+ * @since 1.0.0
+ */
+export const resolveSetting = <K extends ConfigKey>(
+  key: K,
+  candidates: ReadonlyArray<ConfigCandidate>
+): Effect.Effect<ResolvedSetting<K>, ConfigError> => {
+  const candidate = candidates.find(
+    (candidate) => candidate.raw !== undefined
+  ) ?? {
+    source: { _tag: "default" as const },
+    raw: configSettings[key].default,
+  };
+  return Schema.decodeUnknown(configCodecs[key])(
+    typeof candidate.raw === "number" ? String(candidate.raw) : candidate.raw
+  ).pipe(
+    Effect.map((value) => ({ key, value, source: candidate.source })),
+    Effect.mapError(
+      (error) =>
+        new ConfigError({
+          message: `Invalid value ${JSON.stringify(
+            candidate.raw
+          )} for ${key} (from ${formatConfigSource(candidate.source)}): ${
+            error.message
+          }`,
+        })
+    )
+  );
+};
+
+/**
+ * Values of the global command line flags that map to settings.
+ *
+ * Provided by the root command after parsing, so that every resolution of
+ * these settings sees the flags without each command passing them along.
+ *
+ * @since 1.0.0
+ */
+export class ConfigFlags extends Context.Reference<ConfigFlags>()(
+  "ConfigFlags",
+  {
+    defaultValue: (): Partial<Record<ConfigKey, Option.Option<string>>> => ({}),
+  }
+) {}
+
+export class ConfigService extends Effect.Service<ConfigService>()(
+  "ConfigService",
+  {
+    effect: Effect.gen(function* () {
+      const fs = yield* FileSystem.FileSystem;
+      const path = yield* Path.Path;
+
+      /**
+       * Internal helper: Finds the nearest project config file, searching
+       * from the current directory up to the filesystem root.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const findProjectFile = Effect.fn("findProjectFile")(function* () {
+        let dir = process.cwd();
+        while (true) {
+          const candidate = path.join(dir, PROJECT_CONFIG_FILE);
+          if (yield* fs.exists(candidate)) {
+            return Option.some(candidate);
+          }
+          const parent = path.dirname(dir);
+          if (parent === dir) {
+            return Option.none<string>();
+          }
+          dir = parent;
+        }
+      });
+
+      /**
+       * Internal helper: Returns the path of the user config file.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const userFilePath = Effect.fn("userFilePath")(function* () {
+        const xdgConfigHome = yield* Config.option(
+          Config.nonEmptyString("XDG_CONFIG_HOME")
+        );
+        const base = Option.getOrElse(xdgConfigHome, () =>
+          path.join(os.homedir(), ".config")
+        );
+        return path.join(base, "todo", "config.json");
+      });
+
+      /**
+       * Internal helper: Reads a config file as a JSON object.
+       * A missing file is treated as an empty one.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const readFile = Effect.fn("readFile")(
+        function* (file: string) {
+          if (!(yield* fs.exists(file))) {
+            return {};
+          }
+          const text = yield* fs.readFileString(file);
+          const json = yield* Effect.try(() => JSON.parse(text) as unknown);
+          if (
+            typeof json !== "object" ||
+            json === null ||
+            Array.isArray(json)
+          ) {
+            return yield* new ConfigError({
+              message: `Config file ${file} must contain a JSON object`,
+            });
+          }
+          return json as Record<string, unknown>;
+        },
+        (effect, file) =>
+          Effect.catchIf(
+            effect,
+            (error) => error._tag !== "ConfigError",
+            (error) =>
+              new ConfigError({
+                message: `Failed to read config file ${file}: ${error.message}`,
+              })
+          )
+      );
+
+      /**
+       * Both config files, located and parsed once per run.
+       */
+      const files = yield* Effect.cached(
+        Effect.gen(function* () {
+          const projectPath = yield* findProjectFile();
+          const userPath = yield* userFilePath();
+          const project = Option.isSome(projectPath)
+            ? yield* readFile(projectPath.value)
+            : {};
+          const user = yield* readFile(userPath);
+          return { projectPath, userPath, project, user };
+        }).pipe(
+          Effect.mapError((error) =>
+            error instanceof ConfigError
+              ? error
+              : new ConfigError({
+                  message: `Failed to locate config files: ${error.message}`,
+                })
+          )
+        )
+      );
+
+      /**
+       * Resolves the effective value of a setting.
+       *
+       * Relative database and source file paths are resolved against the
+       * directory of the config file that sets them, or against the current
+       * directory for flags, environment variables and the default.
+       *
+       * @param key - The setting to resolve
+       * @param flag - Value of the corresponding command line flag (defaults
+       *               to the global flag recorded in ConfigFlags, if any)
+       * @returns Effect that resolves to the decoded value and its source
+       * @throws {ConfigError} When a config file is unreadable or the winning
+       *                       value does not match the setting's schema
+       *
+       * @example
+       * ```typescript
+       * const config = yield* ConfigService;
+       * const { value: format } = yield* config.resolve("format");
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const resolve = Effect.fn("resolve")(function* <K extends ConfigKey>(
+        key: K,
+        flag?: Option.Option<string>
+      ) {
+        const flags = yield* ConfigFlags;
+        flag ??= flags[key] ?? Option.none();
+        const { projectPath, userPath, project, user } = yield* files;
+        const setting = configSettings[key];
+        const env = yield* Config.option(Config.string(setting.env)).pipe(
+          Effect.mapError(
+            (error) =>
+              new ConfigError({
+                message: `Failed to read ${setting.env}: ${String(error)}`,
+              })
+          )
+        );
+        const candidates: Array<ConfigCandidate> = [
+          ...(setting.flag === undefined
+            ? []
+            : [
+                {
+                  source: { _tag: "flag", name: setting.flag } as const,
+                  raw: Option.getOrUndefined(flag),
+                },
+              ]),
+          {
+            source: { _tag: "env", name: setting.env },
+            raw: Option.getOrUndefined(env),
+          },
+          ...(Option.isSome(projectPath)
+            ? [
+                {
+                  source: {
+                    _tag: "project",
+                    path: projectPath.value,
+                  } as const,
+                  raw: project[key],
+                },
+              ]
+            : []),
+          { source: { _tag: "user", path: userPath }, raw: user[key] },
+        ];
+
+        const resolved = yield* resolveSetting(key, candidates);
+        if (key !== "dbPath" && key !== "sourceFile") {
+          return resolved;
+        }
+        const base =
+          resolved.source._tag === "project" || resolved.source._tag === "user"
+            ? path.dirname(resolved.source.path)
+            : process.cwd();
+        return {
+          ...resolved,
+          value: path.resolve(base, resolved.value as string) as TodoConfig[K],
+        };
+      });
+
+      /**
+       * Resolves every setting, taking global flags from ConfigFlags.
+       *
+       * @returns Effect that resolves to the effective value and source of each setting
+       * @throws {ConfigError} When a config file is unreadable or a value is invalid
+       *
+       * @since 1.0.0
+       */
+      const list = Effect.fn("list")(function* () {
+        return [
+          yield* resolve("dbPath"),
+          yield* resolve("concurrency"),
+          yield* resolve("format"),
+          yield* resolve("apiUrl"),
+          yield* resolve("apiAuth"),
+          yield* resolve("source"),
+          yield* resolve("sourceFile"),
+          yield* resolve("rate"),
+          yield* resolve("timeout"),
+          yield* resolve("maxFailures"),
+        ] as const;
+      });
+
+      /**
+       * Stores a setting in the project or user config file.
+       *
+       * The value is validated before anything is written. The project file
+       * is the nearest existing `.todorc.json`, or a new one in the current
+       * directory. Other settings in the file are preserved.
+       *
+       * @param key - The setting to store
+       * @param raw - The value to store, in its string form
+       * @param scope - Which config file to write
+       * @returns Effect that resolves to the path of the written file
+       * @throws {ConfigError} When the value is invalid or the file cannot be written
+       *
+       * @example
+       * ```typescript
+       * yield* ConfigService.set("format", "table", "user");
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const set = Effect.fn("set")(
+        function* (key: ConfigKey, raw: string, scope: "project" | "user") {
+          const { projectPath, userPath, project, user } = yield* files;
+          const file =
+            scope === "user"
+              ? userPath
+              : Option.getOrElse(projectPath, () =>
+                  path.join(process.cwd(), PROJECT_CONFIG_FILE)
+                );
+          yield* resolveSetting(key, [
+            { source: { _tag: scope, path: file }, raw },
+          ]);
+          const contents = {
+            ...(scope === "user" ? user : project),
+            [key]: raw,
+          };
+
+          yield* fs.makeDirectory(path.dirname(file), { recursive: true });
+          yield* fs.writeFileString(
+            file,
+            `${JSON.stringify(contents, null, 2)}\n`
+          );
+          return file;
+        },
+        Effect.catchTag(
+          "SystemError",
+          "BadArgument",
+          (error) =>
+            new ConfigError({
+              message: `Failed to write config file: ${error.message}`,
+            })
+        )
+      );
+
+      return {
+        resolve,
+        list,
+        set,
+      };
+    }),
+    dependencies: [NodeFileSystem.layer, NodePath.layer],
+    accessors: true,
+  }
+) {}
@@ -0,0 +1,36 @@
+/**
+ * Layer wiring for the services that talk to the local database.
+ *
+ * The database location is only known once the command line has been parsed
+ * (it can come from the global `--db` flag), so these layers are built per
+ * command run rather than up front in bin.ts.
+ *
+ * @since 1.0.0
+ */
+
+import { Effect, Layer } from "effect";
+import { SqliteClient } from "@effect/sql-sqlite-node";
+import { ConfigService } from "./ConfigService.js";
+import { DatabaseService } from "./DatabaseService.js";
+import { MigrationService } from "./MigrationService.js";
+import { HttpCacheService } from "./HttpCacheService.js";
+
+/**
+ * SQLite client connected to the database file from the `dbPath` setting.
+ * @since 1.0.0
+ */
+export const SqliteLive = Layer.unwrapEffect(
+  Effect.flatMap(ConfigService, (config) => config.resolve("dbPath")).pipe(
+    Effect.map(({ value }) => SqliteClient.layer({ filename: value }))
+  )
+);
+
+/**
+ * DatabaseService, HttpCacheService and MigrationService sharing one
+ * connection to the configured database file.
+ * @since 1.0.0
+ */
+export const DatabaseLive = Layer.merge(
+  DatabaseService.Default,
+  HttpCacheService.Default
+).pipe(Layer.provideMerge(MigrationService.Default), Layer.provide(SqliteLive));
@@ -6,10 +6,24 @@
  * and proper error handling with tagged errors.
  *
  * Features:
- * - Automatic schema initialization with sample data
+ * - Automatic schema migration and sample data on initialization
+ * - Refuses to operate on a database whose schema is older than the code
  * - Full CRUD operations (Create, Read, Update, Delete)
+ * - Partial updates that only touch the supplied fields
+ * - Soft deletes into a trash, with restore and permanent purge
+ * - Tags shared by many todos, with filtering by tag
+ * - Local due dates that sync leaves alone, with filtering and sorting by due date
+ * - Local priorities and a manual order, renumbered when it gets too dense
+ * - Subtasks, kept free of loops and trashed and restored with their parent
+ * - Users synced from the API or added locally, which todos must belong to
+ * - A history of every write to todos, recorded by triggers, with undo
+ * - Change tracking for pushing locally created or modified todos to the API
+ * - Transactional batch writes for sync and for importing todo files
+ * - Conflict detection when a todo changed both locally and on the API
+ * - Filtered, sorted and paginated listing in a single query
+ * - Ranked full-text search over titles, kept in sync by triggers
  * - Schema validation using Effect Schema
- * - Proper error handling with DatabaseError and TodoNotFound
+ * - Proper error handling with DatabaseError, TodoNotFound and UserNotFound
  * - Support for both individual and batch operations
  * - Automatic timestamp management (created_at, updated_at)
  *
@@ -37,12 +51,142 @@
  * @since 1.0.0
  */
 
-import { Effect, Schema } from "effect";
+import { DateTime, Duration, Effect, Either, Option, Schema } from "effect";
 import { SqlClient } from "@effect/sql";
-import { SqliteClient } from "@effect/sql-sqlite-node";
-import { Todo } from "../domain/Todo.js";
-import { DatabaseError, TodoNotFound } from "../domain/DatabaseErrors.js";
-import * as path from "path";
+import { Todo, TodoPatch, type TodoPriority } from "../domain/Todo.js";
+import type { TodoQuery, TodoSortField } from "../domain/TodoQuery.js";
+import type { ImportMode } from "../domain/TodoFile.js";
+import type { TodoPlacement } from "../domain/TodoPlacement.js";
+import type { SubtaskCount } from "../domain/TodoTree.js";
+import {
+  describeClearFilter,
+  type TodoBackup,
+  type TodoClearFilter,
+} from "../domain/TodoBackup.js";
+import { User, type UserSummary } from "../domain/User.js";
+import {
+  TodoSnapshot,
+  type TodoEvent,
+  type TodoOperation,
+  type TodoOperationName,
+} from "../domain/TodoHistory.js";
+import {
+  highlightMarkers,
+  splitHighlighted,
+  toMatchExpression,
+  type SearchHit,
+} from "../domain/TodoSearch.js";
+import {
+  BackupNotFound,
+  DatabaseError,
+  OpenSubtasks,
+  TagNotFound,
+  TodoConflict,
+  TodoCycle,
+  TodoNotFound,
+  TodoTrashed,
+  TodoValidationError,
+  UserNotFound,
+} from "../domain/DatabaseErrors.js";
+import { MigrationService } from "./MigrationService.js";
+import { conflictingFields } from "../domain/Conflict.js";
+import { createHash } from "crypto";
+
+/**
+ * Computes the fingerprint of a todo as seen on the remote API.
+ *
+ * The fingerprint covers the fields that sync compares (user, title and
+ * completion status), so it changes exactly when the remote todo changes.
+ *
+ * @param todo - The remote todo
+ * @returns A SHA-256 hex digest
+ *
+ * @since 1.0.0
+ */
+export const remoteFingerprint = (todo: Todo): string =>
+  createHash("sha256")
+    .update(JSON.stringify([todo.userId, todo.title, todo.completed]))
+    .digest("hex");
+
+/**
+ * Number of todos that saveTodos reads and writes per statement, which keeps
+ * every statement well below SQLite's limit on bound parameters.
+ *
+ * @since 1.0.0
+ */
+const saveChunkSize = 100;
+
+/**
+ * Distance between the positions of neighbouring todos after renumbering,
+ * the same as the todos_position trigger leaves at the end of the order. It
+ * leaves room for ten moves between two todos before renumbering is needed.
+ *
+ * @since 1.0.0
+ */
+const positionGap = 1024;
+
+/**
+ * Columns of the todos table restored by undo and from backups, with the
+ * keys of the snapshots holding their values (see migration 012).
+ *
+ * @since 1.0.0
+ */
+const snapshotColumns = {
+  id: "id",
+  user_id: "userId",
+  title: "title",
+  completed: "completed",
+  due_at: "dueAt",
+  priority: "priority",
+  position: "position",
+  parent_id: "parentId",
+  deleted_at: "deletedAt",
+  dirty: "dirty",
+  remote_id: "remoteId",
+  remote_hash: "remoteHash",
+  created_at: "createdAt",
+  updated_at: "updatedAt",
+} as const;
+
+/**
+ * Converts a snapshot, as recorded in the history and in backups, back into
+ * a todos row; keys missing from the snapshot become NULL.
+ */
+const snapshotRow = (snapshot: Record<string, unknown>) =>
+  Object.fromEntries(
+    Object.entries(snapshotColumns).map(([column, key]) => [
+      column,
+      snapshot[key] ?? null,
+    ])
+  ) as Record<string, string | number | null>;
+
+/**
+ * A recorded event joined to its operation, as read by
+ * {@link DatabaseService.getTodoHistory} and friends; the event columns are
+ * NULL for an operation without events.
+ */
+type EventRow = {
+  readonly operation_id: number;
+  readonly name: TodoOperationName;
+  readonly created_at: string;
+  readonly undone_by: number | null;
+  readonly todo_id: number | null;
+  readonly kind: TodoEvent["kind"] | null;
+  readonly before: string | null;
+  readonly after: string | null;
+};
+
+/**
+ * Tells whether two lists hold the same tags, regardless of order and case.
+ */
+const sameTags = (
+  a: ReadonlyArray<string>,
+  b: ReadonlyArray<string>
+): boolean => {
+  const names = (tags: ReadonlyArray<string>) =>
+    [...new Set(tags.map((name) => name.toLowerCase()))].sort().join(",");
+  return names(a) === names(b);
+};
 
 export class DatabaseService extends Effect.Service<DatabaseService>()(
   "DatabaseService",
@@ -50,17 +194,200 @@ export class DatabaseService extends Effect.Service<DatabaseService>()(
     effect: Effect.gen(function* () {
       /**
        * SQL client instance for executing database queries.
-       * Provided by the SqliteClient layer with connection to todos.db file.
+       * Provided by the SqliteLive layer with connection to the configured database file.
        */
       const sql = yield* SqlClient.SqlClient;
 
+      /**
+       * Migration service that owns the schema of the database.
+       */
+      const migrations = yield* MigrationService;
+
+      /**
+       * Guard run before every public database operation. The schema check
+       * is performed once per process and its outcome is reused.
+       */
+      const ensureSchemaCurrent = yield* Effect.cached(
+        migrations.ensureCurrent()
+      );
+
+      /**
+       * Internal helper: Wraps a database operation so that it first verifies
+       * the schema version, failing with SchemaOutdated instead of running
+       * queries against an outdated database.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const guarded =
+        <Args extends ReadonlyArray<unknown>, A, E, R>(
+          operation: (...args: Args) => Effect.Effect<A, E, R>
+        ) =>
+        (...args: Args) =>
+          Effect.zipRight(ensureSchemaCurrent, operation(...args));
+
+      /**
+       * Column selecting the tags of the todo in the current row of the todos
+       * table, as a JSON array sorted by name.
+       */
+      const tagsColumn = sql`(
+        SELECT json_group_array(name) FROM (
+          SELECT tags.name FROM todo_tags JOIN tags ON tags.id = todo_tags.tag_id
+          WHERE todo_tags.todo_id = todos.id ORDER BY tags.name
+        )
+      ) AS tags`;
+
+      /**
+       * Common table expression named `subtasks` holding the IDs of every
+       * subtask of a todo at any depth, trashed ones included.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const subtasksOf = (id: number) => sql`WITH RECURSIVE subtasks(id) AS (
+        SELECT id FROM todos WHERE parent_id = ${id}
+        UNION
+        SELECT todos.id FROM todos JOIN subtasks ON todos.parent_id = subtasks.id
+      )`;
+
+      /**
+       * Internal helper: Converts a todos row selected with
+       * {@link tagsColumn} into the input of the Todo schema, leaving the
+       * tags, due date and parent out when the todo has none, and the
+       * priority out when it is normal.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const todoData = (row: {
+        readonly id: number;
+        readonly user_id: number;
+        readonly title: string;
+        readonly completed: string;
+        readonly tags: string;
+        readonly due_at: string | null;
+        readonly priority: string;
+        readonly parent_id: number | null;
+      }) => {
+        const tags: Array<string> = JSON.parse(row.tags);
+        return {
+          userId: row.user_id,
+          id: row.id,
+          title: row.title,
+          completed: row.completed === "completed",
+          ...(tags.length > 0 ? { tags } : {}),
+          ...(row.due_at !== null ? { dueAt: row.due_at } : {}),
+          ...(row.priority !== "normal" ? { priority: row.priority } : {}),
+          ...(row.parent_id !== null ? { parentId: row.parent_id } : {}),
+        };
+      };
+
+      /**
+       * Internal helper: Converts a users row into the input of the User
+       * schema, leaving the username and email out when they are unknown.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const userData = (row: {
+        readonly id: number;
+        readonly name: string;
+        readonly username: string | null;
+        readonly email: string | null;
+      }) => ({
+        id: row.id,
+        name: row.name,
+        ...(row.username !== null ? { username: row.username } : {}),
+        ...(row.email !== null ? { email: row.email } : {}),
+      });
+
+      /**
+       * Columns selecting a recorded event together with its operation, as
+       * read by {@link operationsFrom}.
+       */
+      const eventColumns = sql`todo_operations.id AS operation_id,
+        todo_operations.name, todo_operations.created_at, todo_operations.undone_by,
+        todo_events.todo_id, todo_events.kind, todo_events.before, todo_events.after`;
+
+      /**
+       * Internal helper: Runs a write in a transaction as one operation of
+       * the history, so the history triggers record every todo it changes
+       * under that operation. An operation that changed no todo is not kept.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const recorded = <A, E, R>(
+        name: TodoOperationName,
+        write: Effect.Effect<A, E, R>
+      ) =>
+        sql.withTransaction(
+          Effect.gen(function* () {
+            const [{ id }] = yield* sql<{ id: number }>`
+            INSERT INTO todo_operations (name) VALUES (${name}) RETURNING id
+          `;
+            const result = yield* write;
+            yield* sql`UPDATE todo_operations SET in_progress = 0 WHERE id = ${id}`;
+            yield* sql`
+            DELETE FROM todo_operations WHERE id = ${id}
+            AND NOT EXISTS (SELECT 1 FROM todo_events WHERE operation_id = ${id})
+          `;
+            return result;
+          })
+        );
+
+      /**
+       * Internal helper: Groups rows of recorded events, joined to their
+       * operations and sorted by operation, into operations with their
+       * events. Operations without events have a single row with NULL event
+       * columns.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const operationsFrom = Effect.fn("operationsFrom")(function* (
+        rows: ReadonlyArray<EventRow>
+      ) {
+        const snapshot = (json: string | null) =>
+          json === null
+            ? Effect.succeed(undefined)
+            : Schema.decodeUnknown(Schema.parseJson(TodoSnapshot))(json);
+        const operations: Array<TodoOperation & { events: Array<TodoEvent> }> =
+          [];
+        for (const row of rows) {
+          let operation = operations[operations.length - 1];
+          if (operation?.id !== row.operation_id) {
+            operation = {
+              id: row.operation_id,
+              name: row.name,
+              at: row.created_at,
+              ...(row.undone_by !== null ? { undoneBy: row.undone_by } : {}),
+              events: [],
+            };
+            operations.push(operation);
+          }
+          if (row.todo_id === null || row.kind === null) {
+            continue;
+          }
+          const before = yield* snapshot(row.before);
+          const after = yield* snapshot(row.after);
+          operation.events.push({
+            todoId: row.todo_id,
+            kind: row.kind,
+            ...(before !== undefined ? { before } : {}),
+            ...(after !== undefined ? { after } : {}),
+          });
+        }
+        return operations;
+      });
+
       /**
        * Initializes the database schema and populates with sample data if empty.
        *
        * This method:
-       * - Creates the todos table if it doesn't exist
-       * - Sets up proper constraints and indexes
-       * - Inserts sample data if the table is empty
+       * - Applies all pending schema migrations (see MigrationService)
+       * - Inserts sample todos, and the users who own them, if the todos
+       *   table is empty
        * - Uses proper error handling with DatabaseError
        *
        * The todos table schema includes:
@@ -69,43 +396,47 @@ export class DatabaseService extends Effect.Service<DatabaseService>()(
        * - title: Non-null text field
        * - completed: Enum constraint ('completed' | 'pending')
        * - created_at/updated_at: Automatic timestamp management
+       * - deleted_at: Set when the todo is moved to the trash (NULL otherwise)
        *
-       * @returns Effect that completes when database is initialized
-       * @throws {DatabaseError} When schema creation or data insertion fails
+       * @returns Effect that resolves to the migrations that were applied
+       * @throws {MigrationError} When a migration fails
+       * @throws {DatabaseError} When sample data insertion fails
        *
        * @since 1.0.0
        */
       const initializeDatabase = Effect.fn("initializeDatabase")(
         function* () {
-          yield* sql`
-        CREATE TABLE IF NOT EXISTS todos (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          user_id INTEGER NOT NULL,
-          title TEXT NOT NULL,
-          completed TEXT NOT NULL CHECK (completed IN ('completed', 'pending')) DEFAULT 'pending',
-          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-        )
-      `;
+          const applied = yield* migrations.migrateUp();
 
           // Check if we have any data, if not, insert sample data
           const count = yield* sql<{
             count: number;
           }>`SELECT COUNT(*) as count FROM todos`;
           if (count[0].count === 0) {
-            yield* sql`
+            yield* recorded(
+              "init",
+              sql`
           INSERT INTO todos (user_id, title, completed) VALUES
             (1, 'Learn Effect', 'pending'),
             (1, 'Build a CLI app', 'completed'),
             (2, 'Master TypeScript', 'pending'),
             (1, 'Use SQLite with Effect', 'pending'),
             (2, 'Write documentation', 'completed')
+        `
+            );
+            yield* sql`
+          INSERT OR IGNORE INTO users (id, name, username, email) VALUES
+            (1, 'Leanne Graham', 'Bret', 'Sincere@april.biz'),
+            (2, 'Ervin Howell', 'Antonette', 'Shanna@melissa.tv')
         `;
           }
+
+          return applied;
         },
         (effect) =>
-          Effect.catchAll(
+          Effect.catchTag(
             effect,
+            "SqlError",
             (error) =>
               new DatabaseError({
                 message: `Failed to initialize database: ${error.message}`,
@@ -118,13 +449,16 @@ export class DatabaseService extends Effect.Service<DatabaseService>()(
        *
        * This method:
        * - Executes a SELECT query for the specific ID
+       * - Ignores todos in the trash unless `includeTrashed` is set
        * - Transforms database row to Todo domain object
        * - Validates the result using Todo schema
        * - Handles both "not found" and database error cases
        *
        * @param id - The ID of the todo to retrieve
+       * @param options - Lookup options
+       * @param options.includeTrashed - Also return the todo if it is in the trash
        * @returns Effect that resolves to a Todo object
-       * @throws {TodoNotFound} When no todo exists with the given ID
+       * @throws {TodoNotFound} When no (untrashed) todo exists with the given ID
        * @throws {DatabaseError} When database query fails or schema validation fails
        *
        * @example
@@ -135,14 +469,23 @@ export class DatabaseService extends Effect.Service<DatabaseService>()(
        *
        * @since 1.0.0
        */
-      const getTodoById = Effect.fn("getTodoById")(function* (id: number) {
+      const getTodoById = Effect.fn("getTodoById")(function* (
+        id: number,
+        options?: { readonly includeTrashed?: boolean }
+      ) {
         const rows = yield* Effect.catchAll(
           sql<{
             readonly id: number;
             readonly user_id: number;
             readonly title: string;
             readonly completed: string;
-          }>`SELECT id, user_id, title, completed FROM todos WHERE id = ${id}`,
+            readonly tags: string;
+            readonly due_at: string | null;
+            readonly priority: string;
+            readonly parent_id: number | null;
+          }>`SELECT id, user_id, title, completed, ${tagsColumn}, due_at, priority, parent_id FROM todos WHERE id = ${id} ${
+            options?.includeTrashed ? sql`` : sql`AND deleted_at IS NULL`
+          }`,
           (error) =>
             new DatabaseError({
               message: `Database query error: ${error.message}`,
@@ -153,16 +496,8 @@ export class DatabaseService extends Effect.Service<DatabaseService>()(
           return yield* new TodoNotFound({ id });
         }
 
-        const row = rows[0];
-        const todoData = {
-          userId: row.user_id,
-          id: row.id,
-          title: row.title,
-          completed: row.completed === "completed",
-        };
-
         return yield* Effect.catchAll(
-          Schema.decodeUnknown(Todo)(todoData),
+          Schema.decodeUnknown(Todo)(todoData(rows[0])),
           (error) =>
             new DatabaseError({
               message: `Schema decode error for todo ${id}: ${error.message}`,
@@ -174,7 +509,7 @@ export class DatabaseService extends Effect.Service<DatabaseService>()(
        * Retrieves all todos from the database, ordered by ID.
        *
        * This method:
-       * - Fetches all todos with a single query
+       * - Fetches all todos that are not in the trash with a single query
        * - Transforms each row to a Todo domain object
        * - Validates each todo using the Todo schema
        * - Returns an array of validated Todo objects
@@ -197,17 +532,15 @@ export class DatabaseService extends Effect.Service<DatabaseService>()(
             readonly user_id: number;
             readonly title: string;
             readonly completed: string;
-          }>`SELECT id, user_id, title, completed FROM todos ORDER BY id`;
+            readonly tags: string;
+            readonly due_at: string | null;
+            readonly priority: string;
+            readonly parent_id: number | null;
+          }>`SELECT id, user_id, title, completed, ${tagsColumn}, due_at, priority, parent_id FROM todos WHERE deleted_at IS NULL ORDER BY id`;
 
           const todos = [];
           for (const row of rows) {
-            const todoData = {
-              userId: row.user_id,
-              id: row.id,
-              title: row.title,
-              completed: row.completed === "completed",
-            };
-            const todo = yield* Schema.decodeUnknown(Todo)(todoData);
+            const todo = yield* Schema.decodeUnknown(Todo)(todoData(row));
             todos.push(todo);
           }
 
@@ -223,12 +556,254 @@ export class DatabaseService extends Effect.Service<DatabaseService>()(
           )
       );
 
+      /**
+       * ORDER BY terms for each sortable field, in the given direction. Sort
+       * columns cannot be bound as parameters, so only these whitelisted
+       * identifiers reach the query.
+       */
+      const sortColumns: Record<
+        TodoSortField,
+        (direction: "ASC" | "DESC") => string
+      > = {
+        // Most important first, then in the order set with moveTodo
+        priority: (direction) =>
+          `CASE priority WHEN 'urgent' THEN 0 WHEN 'high' THEN 1 WHEN 'normal' THEN 2 ELSE 3 END ${direction}, position ${direction}`,
+        id: (direction) => `id ${direction}`,
+        title: (direction) => `title COLLATE NOCASE ${direction}`,
+        user: (direction) => `user_id ${direction}`,
+        updated: (direction) => `updated_at ${direction}`,
+        // Todos without a due date come last in either direction
+        due: (direction) => `due_at IS NULL, due_at ${direction}`,
+      };
+
+      /**
+       * Retrieves a filtered, sorted and paginated page of todos.
+       *
+       * This method:
+       * - Compiles the query into a single parameterized SELECT
+       * - Combines all supplied filters with AND; trashed todos never match
+       * - Sorts by the requested field (priority, then the manual order, by
+       *   default), using the ID as a tie-breaker
+       * - Counts all matches (ignoring limit/offset) with a window function,
+       *   so the total comes back with the page itself
+       *
+       * @param query - Filters, sort order and pagination to apply
+       * @returns Effect that resolves to the page of todos and the total number of matches
+       * @throws {DatabaseError} When database query fails or schema validation fails
+       *
+       * @example
+       * ```typescript
+       * const { todos, total } = yield* DatabaseService.queryTodos({
+       *   status: "pending",
+       *   sort: "updated",
+       *   descending: true,
+       *   limit: 10
+       * });
+       * console.log(`Showing ${todos.length} of ${total} pending todos`);
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const queryTodos = Effect.fn("queryTodos")(
+        function* (query: TodoQuery) {
+          const conditions = [sql`deleted_at IS NULL`];
+          if (query.userId !== undefined) {
+            conditions.push(sql`user_id = ${query.userId}`);
+          }
+          if (query.status !== undefined) {
+            conditions.push(sql`completed = ${query.status}`);
+          }
+          if (query.titleContains !== undefined) {
+            const escaped = query.titleContains.replace(/[\\%_]/g, "\\$&");
+            conditions.push(sql`title LIKE ${`%${escaped}%`} ESCAPE ${"\\"}`);
+          }
+          if (query.hasDueDate !== undefined) {
+            conditions.push(
+              query.hasDueDate ? sql`due_at IS NOT NULL` : sql`due_at IS NULL`
+            );
+          }
+          if (query.dueBefore !== undefined) {
+            conditions.push(
+              sql`due_at < ${DateTime.formatIso(query.dueBefore)}`
+            );
+          }
+          if (query.tags !== undefined && query.tags.length > 0) {
+            // Names are compared regardless of case, like the tags column
+            const names = [
+              ...new Map(
+                query.tags.map((name) => [name.toLowerCase(), name])
+              ).values(),
+            ];
+            conditions.push(sql`id IN (
+              SELECT todo_tags.todo_id FROM todo_tags
+              JOIN tags ON tags.id = todo_tags.tag_id
+              WHERE tags.name IN ${sql.in(names)}
+              GROUP BY todo_tags.todo_id
+              HAVING COUNT(*) = ${names.length}
+            )`);
+          }
+
+          const direction = query.descending ? "DESC" : "ASC";
+          const orderBy = sql.literal(
+            `${sortColumns[query.sort ?? "priority"](
+              direction
+            )}, id ${direction}`
+          );
+          const pagination =
+            query.limit !== undefined || query.offset !== undefined
+              ? sql`LIMIT ${query.limit ?? -1} OFFSET ${query.offset ?? 0}`
+              : sql``;
+
+          const rows = yield* sql<{
+            readonly id: number;
+            readonly user_id: number;
+            readonly title: string;
+            readonly completed: string;
+            readonly tags: string;
+            readonly due_at: string | null;
+            readonly priority: string;
+            readonly parent_id: number | null;
+            readonly total: number;
+          }>`SELECT id, user_id, title, completed, ${tagsColumn}, due_at, priority, parent_id, COUNT(*) OVER () AS total
+          FROM todos
+          WHERE ${sql.and(conditions)}
+          ORDER BY ${orderBy}
+          ${pagination}`;
+
+          const todos = [];
+          for (const row of rows) {
+            const todo = yield* Schema.decodeUnknown(Todo)(todoData(row));
+            todos.push(todo);
+          }
+
+          // A page past the last match carries no window count, so fall back
+          // to counting the matches directly
+          if (rows.length === 0 && (query.offset ?? 0) > 0) {
+            const count = yield* sql<{
+              count: number;
+            }>`SELECT COUNT(*) as count FROM todos WHERE ${sql.and(
+              conditions
+            )}`;
+            return { todos, total: count[0].count };
+          }
+
+          return { todos, total: rows.length === 0 ? 0 : rows[0].total };
+        },
+        (effect) =>
+          Effect.catchAll(
+            effect,
+            (error) =>
+              new DatabaseError({
+                message: `Failed to query todos: ${error.message}`,
+              })
+          )
+      );
+
+      /**
+       * Searches todo titles with the full-text index.
+       *
+       * This method:
+       * - Turns the query into an FTS5 match expression (see
+       *   {@link toMatchExpression}), so words, `prefix*` words and quoted
+       *   phrases are supported and no input is an FTS5 syntax error
+       * - Narrows the matches by user and status; trashed todos never match
+       * - Ranks the matches by bm25 relevance, most relevant first, using the
+       *   ID as a tie-breaker
+       * - Marks the matched terms in each title
+       *
+       * The index is kept up to date by triggers on the todos table, so every
+       * write is searchable immediately.
+       *
+       * @param query - The search query as typed by the user
+       * @param filters - Optional user, status and limit narrowing
+       * @returns Effect that resolves to the matches in ranked order (empty
+       *          when the query has nothing to search for)
+       * @throws {DatabaseError} When the search fails or schema validation fails
+       *
+       * @example
+       * ```typescript
+       * const hits = yield* DatabaseService.searchTodos('"learn effect" cli*', {
+       *   status: "pending"
+       * });
+       * for (const { todo, rank } of hits) {
+       *   console.log(`${todo.id} (${rank}): ${todo.title}`);
+       * }
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const searchTodos = Effect.fn("searchTodos")(
+        function* (
+          query: string,
+          filters: Pick<TodoQuery, "userId" | "status" | "limit"> = {}
+        ) {
+          const expression = toMatchExpression(query);
+          if (Option.isNone(expression)) {
+            return [];
+          }
+
+          const conditions = [
+            sql`todos_fts MATCH ${expression.value}`,
+            sql`todos.deleted_at IS NULL`,
+          ];
+          if (filters.userId !== undefined) {
+            conditions.push(sql`todos.user_id = ${filters.userId}`);
+          }
+          if (filters.status !== undefined) {
+            conditions.push(sql`todos.completed = ${filters.status}`);
+          }
+
+          const rows = yield* sql<{
+            readonly id: number;
+            readonly user_id: number;
+            readonly title: string;
+            readonly completed: string;
+            readonly tags: string;
+            readonly due_at: string | null;
+            readonly priority: string;
+            readonly parent_id: number | null;
+            readonly highlighted: string;
+            readonly rank: number;
+          }>`SELECT todos.id, todos.user_id, todos.title, todos.completed, ${tagsColumn}, todos.due_at, todos.priority, todos.parent_id,
+            highlight(todos_fts, 0, ${highlightMarkers.open}, ${
+            highlightMarkers.close
+          }) AS highlighted,
+            bm25(todos_fts) AS rank
+          FROM todos_fts JOIN todos ON todos.id = todos_fts.rowid
+          WHERE ${sql.and(conditions)}
+          ORDER BY rank, todos.id
+          ${filters.limit !== undefined ? sql`LIMIT ${filters.limit}` : sql``}`;
+
+          const hits: Array<SearchHit> = [];
+          for (const row of rows) {
+            const todo = yield* Schema.decodeUnknown(Todo)(todoData(row));
+            hits.push({
+              todo,
+              title: splitHighlighted(row.highlighted),
+              rank: row.rank,
+            });
+          }
+
+          return hits;
+        },
+        (effect) =>
+          Effect.catchAll(
+            effect,
+            (error) =>
+              new DatabaseError({
+                message: `Failed to search todos: ${error.message}`,
+              })
+          )
+      );
+
       /**
        * Creates a new todo in the database.
        *
        * This method:
        * - Validates input data against Todo schema constraints
+       * - Checks that the parent todo, if any, exists outside the trash
        * - Inserts the new todo with auto-generated ID
+       * - Marks it as a local change to be pushed to the API
        * - Returns the complete Todo object with generated ID
        * - Handles completion status conversion (boolean to string)
        *
@@ -236,7 +811,13 @@ export class DatabaseService extends Effect.Service<DatabaseService>()(
        * @param data.userId - ID of the user creating the todo
        * @param data.title - Title of the todo (1-255 characters)
        * @param data.completed - Optional completion status (defaults to false)
+       * @param data.dueAt - Optional due date
+       * @param data.parentId - Optional ID of the todo to make this a subtask of
+       * @param options.allowUnknownUser - Create the todo even if its user is
+       *                                   not in the users table
        * @returns Effect that resolves to the created Todo object
+       * @throws {TodoNotFound} When the parent todo is missing or in the trash
+       * @throws {UserNotFound} When the user is not in the users table
        * @throws {DatabaseError} When insertion fails or validation fails
        *
        * @example
@@ -252,133 +833,2183 @@ export class DatabaseService extends Effect.Service<DatabaseService>()(
        * @since 1.0.0
        */
       const createTodo = Effect.fn("createTodo")(
-        function* (data: {
-          userId: number;
-          title: string;
-          completed?: boolean;
-        }) {
+        function* (
+          data: {
+            userId: number;
+            title: string;
+            completed?: boolean;
+            dueAt?: DateTime.Utc;
+            parentId?: number;
+          },
+          options?: { readonly allowUnknownUser?: boolean }
+        ) {
+          if (!options?.allowUnknownUser) {
+            yield* ensureUsersExist([data.userId]);
+          }
           const completedStatus = data.completed ? "completed" : "pending";
+          const dueAt =
+            data.dueAt === undefined ? null : DateTime.formatIso(data.dueAt);
+          if (data.parentId !== undefined) {
+            yield* ensureTodoExists(data.parentId);
+          }
 
           const result = yield* sql<{ id: number }>`
-          INSERT INTO todos (user_id, title, completed) 
-          VALUES (${data.userId}, ${data.title}, ${completedStatus})
+          INSERT INTO todos (user_id, title, completed, due_at, parent_id, dirty) 
+          VALUES (${data.userId}, ${
+            data.title
+          }, ${completedStatus}, ${dueAt}, ${data.parentId ?? null}, 1)
           RETURNING id
         `;
 
           const newId = result[0].id;
           return yield* getTodoById(newId);
         },
-        Effect.catchAll(
-          (error) =>
-            new DatabaseError({
-              message: `Failed to create todo: ${error.message}`,
-            })
-        )
+        (effect) =>
+          recorded("create", effect).pipe(
+            Effect.catchTag(
+              "SqlError",
+              (error) =>
+                new DatabaseError({
+                  message: `Failed to create todo: ${error.message}`,
+                })
+            )
+          )
       );
 
       /**
-       * Removes all todos from the database.
+       * Removes the todos matching a filter from the database, all of them by
+       * default.
        *
-       * This method performs a complete truncation of the todos table,
-       * removing all records. This operation cannot be undone.
+       * This method:
+       * - Selects the matching todos, including those in the trash
+       * - Takes a backup of them first, which {@link restoreBackup} restores,
+       *   and removes them for good, all in one transaction
+       * - Records the removed todos in the history, so
+       *   {@link undoOperations} can bring them back too
+       * - Only reports the matching todos in a dry run, changing nothing
        *
-       * @returns Effect that completes when all todos are deleted
-       * @throws {DatabaseError} When the delete operation fails
+       * Subtasks that are not removed with their parent become top-level
+       * todos. No backup is taken when no todo matches.
+       *
+       * @param filter - Which todos to remove; an empty filter removes all
+       * @param options.dryRun - Report what would be removed without removing
+       *                         anything
+       * @returns Effect that resolves to the removed (or matching) todos, by
+       *          ID, how many of them were in the trash, and the backup
+       *          taken, if any
+       * @throws {DatabaseError} When a query fails; nothing is removed then
        *
        * @example
        * ```typescript
-       * yield* DatabaseService.clearAllTodos();
-       * console.log("All todos have been deleted");
+       * const { todos, backup } = yield* DatabaseService.clearTodos({
+       *   userId: 1,
+       *   completedOnly: true
+       * });
+       * console.log(`Removed ${todos.length} todo(s), backup #${backup?.id}`);
        * ```
        *
        * @since 1.0.0
        */
-      const clearAllTodos = Effect.fn("clearAllTodos")(
-        function* () {
-          yield* sql`DELETE FROM todos`;
+      const clearTodos = Effect.fn("clearTodos")(
+        function* (
+          filter: TodoClearFilter = {},
+          options?: { readonly dryRun?: boolean }
+        ) {
+          const conditions = [];
+          if (filter.userId !== undefined) {
+            conditions.push(sql`user_id = ${filter.userId}`);
+          }
+          if (filter.completedOnly) {
+            conditions.push(sql`completed = 'completed'`);
+          }
+          if (filter.syncedOnly) {
+            conditions.push(sql`remote_id IS NOT NULL AND dirty = 0`);
+          }
+          const where = sql.and(conditions);
+
+          const rows = yield* sql<
+            Parameters<typeof todoData>[0] &
+              Record<keyof typeof snapshotColumns, string | number | null>
+          >`SELECT todos.*, ${tagsColumn} FROM todos WHERE ${where} ORDER BY id`;
+          const todos: Array<Todo> = [];
+          for (const row of rows) {
+            todos.push(yield* Schema.decodeUnknown(Todo)(todoData(row)));
+          }
+          const trashed = rows.filter((row) => row.deleted_at !== null).length;
+          if (options?.dryRun || rows.length === 0) {
+            return { todos, trashed, backup: undefined };
+          }
+
+          const scope = describeClearFilter(filter);
+          const [{ id, created_at }] = yield* sql<{
+            readonly id: number;
+            readonly created_at: string;
+          }>`INSERT INTO todo_backups (scope) VALUES (${scope}) RETURNING id, created_at`;
+          yield* sql`INSERT INTO todo_backup_rows ${sql.insert(
+            rows.map((row) => ({
+              backup_id: id,
+              todo_id: row.id,
+              snapshot: JSON.stringify({
+                ...Object.fromEntries(
+                  Object.entries(snapshotColumns).map(([column, key]) => [
+                    key,
+                    row[column as keyof typeof snapshotColumns],
+                  ])
+                ),
+                tags: JSON.parse(row.tags),
+              }),
+            }))
+          )}`;
+          yield* sql`DELETE FROM todos WHERE ${where}`;
+
+          const backup: TodoBackup = {
+            id,
+            createdAt: created_at,
+            scope,
+            count: rows.length,
+          };
+          return { todos, trashed, backup };
         },
-        Effect.catchAll(
-          (error) =>
+        (effect, _filter, options) => {
+          const failed = (error: { readonly message: string }) =>
             new DatabaseError({
               message: `Failed to clear todos: ${error.message}`,
-            })
-        )
+            });
+          return (options?.dryRun ? effect : recorded("clear", effect)).pipe(
+            Effect.catchTags({ SqlError: failed, ParseError: failed })
+          );
+        }
       );
 
       /**
-       * Saves a todo to the database (insert or update).
-       *
-       * This method handles both insertion of new todos and updates of existing ones:
-       * - If a todo with the given ID exists, it updates the record
-       * - If no todo exists with the ID, it inserts a new record with that ID
-       * - Updates the updated_at timestamp for existing records
-       * - Preserves the original created_at timestamp
-       *
-       * This is primarily used by the sync operation to save todos from the API.
+       * Lists the backups taken by {@link clearTodos}, newest first.
        *
-       * @param todo - Complete Todo object to save
-       * @returns Effect that resolves to the saved Todo object
-       * @throws {DatabaseError} When the save operation fails
+       * @returns Effect that resolves to the backups
+       * @throws {DatabaseError} When the query fails
        *
        * @example
        * ```typescript
-       * // Save a todo from API
-       * const apiTodo = yield* TodoService.getTodoById(42);
-       * const savedTodo = yield* DatabaseService.saveTodo(apiTodo);
-       * console.log(`Saved todo: ${savedTodo.title}`);
+       * const backups = yield* DatabaseService.getBackups();
+       * backups.forEach((backup) =>
+       *   console.log(`#${backup.id} ${backup.createdAt}: ${backup.count} todo(s)`)
+       * );
        * ```
        *
        * @since 1.0.0
        */
-      const saveTodo = Effect.fn("saveTodo")(
-        function* (todo: Todo) {
-          const completedStatus = todo.completed ? "completed" : "pending";
-
-          // First check if todo already exists
-          const existingRows = yield* sql<{ count: number }>`
-          SELECT COUNT(*) as count FROM todos WHERE id = ${todo.id}
+      const getBackups = Effect.fn("getBackups")(
+        function* () {
+          const rows = yield* sql<{
+            readonly id: number;
+            readonly scope: string;
+            readonly created_at: string;
+            readonly count: number;
+          }>`
+          SELECT todo_backups.id, todo_backups.scope, todo_backups.created_at,
+            COUNT(todo_backup_rows.todo_id) AS count
+          FROM todo_backups
+          LEFT JOIN todo_backup_rows ON todo_backup_rows.backup_id = todo_backups.id
+          GROUP BY todo_backups.id
+          ORDER BY todo_backups.id DESC
         `;
-
-          if (existingRows[0].count > 0) {
-            // Update existing todo
-            yield* sql`
-            UPDATE todos 
-            SET user_id = ${todo.userId}, title = ${todo.title}, completed = ${completedStatus}, updated_at = CURRENT_TIMESTAMP
-            WHERE id = ${todo.id}
-          `;
-          } else {
-            // Insert new todo with specific ID
-            yield* sql`
-            INSERT INTO todos (id, user_id, title, completed) 
-            VALUES (${todo.id}, ${todo.userId}, ${todo.title}, ${completedStatus})
-          `;
-          }
-
-          return yield* getTodoById(todo.id);
+          return rows.map(
+            (row): TodoBackup => ({
+              id: row.id,
+              createdAt: row.created_at,
+              scope: row.scope,
+              count: row.count,
+            })
+          );
         },
-        (effect, todo) =>
+        (effect) =>
           effect.pipe(
-            Effect.catchAll(
+            Effect.catchTag(
+              "SqlError",
               (error) =>
                 new DatabaseError({
-                  message: `Failed to save todo ${todo.id}: ${error.message}`,
+                  message: `Failed to fetch backups: ${error.message}`,
                 })
             )
           )
       );
 
+      /**
+       * Puts the todos of a backup back into the database.
+       *
+       * This method:
+       * - Picks the given backup, or the latest one
+       * - Inserts every todo of the backup exactly as it was when it was
+       *   cleared, with its tags and sync bookkeeping
+       * - Skips todos whose ID is taken again, e.g. by a later sync, so that
+       *   nothing is overwritten
+       * - Makes restored subtasks top-level todos when their parent is
+       *   neither in the database nor in the backup
+       * - Records the restored todos in the history, so
+       *   {@link undoOperations} can remove them again
+       *
+       * The backup is kept, so it can be restored again after another clear.
+       *
+       * @param id - Number of the backup; the latest one when omitted
+       * @returns Effect that resolves to the backup, the restored todos and
+       *          the IDs of the skipped ones
+       * @throws {BackupNotFound} When there is no such backup, or no backup
+       *         at all
+       * @throws {DatabaseError} When a query fails; nothing is restored then
+       *
+       * @example
+       * ```typescript
+       * const { restored, skipped } = yield* DatabaseService.restoreBackup();
+       * console.log(`Restored ${restored.length}, skipped ${skipped.length}`);
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const restoreBackup = Effect.fn("restoreBackup")(
+        function* (id?: number) {
+          const [backup] = (yield* getBackups()).filter(
+            (candidate) => id === undefined || candidate.id === id
+          );
+          if (backup === undefined) {
+            return yield* new BackupNotFound(id === undefined ? {} : { id });
+          }
+
+          const rows = yield* sql<{
+            readonly todo_id: number;
+            readonly snapshot: string;
+            readonly taken: number;
+          }>`
+          SELECT todo_id, snapshot,
+            EXISTS (SELECT 1 FROM todos WHERE todos.id = todo_id) AS taken
+          FROM todo_backup_rows
+          WHERE backup_id = ${backup.id}
+          ORDER BY todo_id
+        `;
+          const skipped = rows
+            .filter((row) => row.taken === 1)
+            .map((row) => row.todo_id);
+          const restoring = rows.filter((row) => row.taken === 0);
+          for (const row of restoring) {
+            yield* insertSnapshot(JSON.parse(row.snapshot));
+          }
+          if (restoring.length === 0) {
+            return { backup, restored: [], skipped };
+          }
+
+          const ids = restoring.map((row) => row.todo_id);
+          yield* sql`
+          UPDATE todos SET parent_id = NULL
+          WHERE ${sql.in("id", ids)}
+          AND parent_id NOT IN (SELECT id FROM todos)
+        `;
+          const restored: Array<Todo> = [];
+          for (const row of yield* sql<Parameters<typeof todoData>[0]>`
+            SELECT todos.*, ${tagsColumn} FROM todos
+            WHERE ${sql.in("id", ids)}
+            ORDER BY id
+          `) {
+            restored.push(yield* Schema.decodeUnknown(Todo)(todoData(row)));
+          }
+          return { backup, restored, skipped };
+        },
+        (effect) => {
+          const failed = (error: { readonly message: string }) =>
+            new DatabaseError({
+              message: `Failed to restore backup: ${error.message}`,
+            });
+          return recorded("restore-backup", effect).pipe(
+            Effect.catchTags({ SqlError: failed, ParseError: failed })
+          );
+        }
+      );
+
+      /**
+       * Saves a todo to the database (insert or update).
+       *
+       * This method handles both insertion of new todos and updates of existing ones:
+       * - If a local todo is linked to the remote todo (or, for todos never
+       *   pushed or pulled, has the same ID), it updates that record
+       * - Otherwise it inserts a new record, with the remote ID unless that ID
+       *   is taken by another local todo
+       * - Updates the updated_at timestamp for existing records, but leaves
+       *   records alone when the remote todo is unchanged since the last sync
+       * - Preserves the original created_at timestamp
+       * - Records the todo as present on the API with no local changes
+       * - Refuses to overwrite a todo that is in the trash, so a sync cannot
+       *   silently bring it back
+       * - Protects local changes that were not pushed yet: if only the local
+       *   todo changed since the last sync (the remote fingerprint is
+       *   unchanged), the local todo is kept as is; if both changed, the save
+       *   fails with TodoConflict unless `overwriteLocalChanges` is set
+       *
+       * This is primarily used to resolve sync conflicts; sync itself saves
+       * its whole batch at once with {@link saveTodos}.
+       *
+       * @param todo - Complete Todo object to save, as returned by the API
+       * @param options - Save options
+       * @param options.overwriteLocalChanges - Replace the local todo even if it
+       *                                        has changes that were not pushed
+       * @param options.allowUnknownUser - Save the todo even if its user is not
+       *                                   in the users table
+       * @returns Effect that resolves to the saved (or kept) local Todo object,
+       *          and whether the local database was changed
+       * @throws {UserNotFound} When the todo's user is not in the users table
+       * @throws {TodoTrashed} When the matching local todo is in the trash
+       * @throws {TodoConflict} When the todo changed both locally and on the API
+       * @throws {DatabaseError} When the save operation fails
+       *
+       * @example
+       * ```typescript
+       * // Save a todo from API
+       * const apiTodo = yield* TodoService.getTodoById(42);
+       * const { todo, changed } = yield* DatabaseService.saveTodo(apiTodo);
+       * console.log(`${changed ? "Saved" : "Unchanged"} todo: ${todo.title}`);
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const saveTodo = Effect.fn("saveTodo")(function* (
+        todo: Todo,
+        options?: {
+          readonly overwriteLocalChanges?: boolean;
+          readonly allowUnknownUser?: boolean;
+        }
+      ) {
+        const [saved] = yield* saveTodos([todo], options);
+        return yield* saved;
+      });
+
+      /**
+       * Saves many todos from the API in a single transaction.
+       *
+       * Applies the rules of {@link saveTodo} to every todo, but instead of
+       * three statements per todo it reads the matching local todos of a
+       * chunk of {@link saveChunkSize} todos with one query, and writes all
+       * new and changed todos of the chunk with one
+       * `INSERT ... ON CONFLICT(id) DO UPDATE`. All chunks share one
+       * transaction, so the database ends up either fully updated or (when
+       * the save fails or is interrupted) untouched.
+       *
+       * Trashed and conflicting todos do not fail the batch; they are
+       * reported in the result of their todo instead. When the same remote
+       * todo appears more than once, the last one wins. A todo of a user
+       * that is not in the users table fails the whole batch, unless
+       * `allowUnknownUser` is set.
+       *
+       * @param todos - Complete Todo objects to save, as returned by the API
+       * @param options - Save options, as for {@link saveTodo}
+       * @returns Effect that resolves to one entry per todo, in input order:
+       *          the saved (or kept) local todo and whether it was changed, or
+       *          the TodoTrashed / TodoConflict error that kept it from being
+       *          saved
+       * @throws {UserNotFound} When a todo's user is not in the users table;
+       *                        nothing is saved then
+       * @throws {DatabaseError} When a query fails; nothing is saved then
+       *
+       * @example
+       * ```typescript
+       * const todos = yield* TodoService.listTodos();
+       * const saved = yield* DatabaseService.saveTodos(
+       *   todos.filter(Either.isRight).map((entry) => entry.right)
+       * );
+       * const changed = saved.filter(
+       *   (entry) => Either.isRight(entry) && entry.right.changed
+       * ).length;
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const saveTodos = Effect.fn("saveTodos")(
+        function* (
+          todos: ReadonlyArray<Todo>,
+          options?: {
+            readonly overwriteLocalChanges?: boolean;
+            readonly allowUnknownUser?: boolean;
+          }
+        ) {
+          if (!options?.allowUnknownUser) {
+            yield* ensureUsersExist(todos.map((todo) => todo.userId));
+          }
+          const results: Array<
+            Either.Either<
+              { readonly todo: Todo; readonly changed: boolean },
+              TodoTrashed | TodoConflict
+            >
+          > = [];
+
+          for (let start = 0; start < todos.length; start += saveChunkSize) {
+            const chunk = todos.slice(start, start + saveChunkSize);
+            const ids = chunk.map((todo) => todo.id);
+
+            // Local todos linked to a remote todo of the chunk, or with the
+            // same ID as one (which also tells which IDs are taken)
+            const rows = yield* sql<{
+              readonly id: number;
+              readonly user_id: number;
+              readonly title: string;
+              readonly completed: string;
+              readonly deleted_at: string | null;
+              readonly dirty: number;
+              readonly remote_id: number | null;
+              readonly remote_hash: string | null;
+            }>`
+            SELECT id, user_id, title, completed, deleted_at, dirty, remote_id, remote_hash FROM todos
+            WHERE ${sql.in("remote_id", ids)} OR ${sql.in("id", ids)}
+          `;
+            const linked = new Map(
+              rows.flatMap((row) =>
+                row.remote_id === null ? [] : [[row.remote_id, row] as const]
+              )
+            );
+            const taken = new Map(rows.map((row) => [row.id, row]));
+
+            /** Rows to write, by remote ID */
+            const writes = new Map<
+              number,
+              {
+                id: number | null;
+                user_id: number;
+                title: string;
+                completed: string;
+                remote_id: number;
+                remote_hash: string;
+                dirty: number;
+              }
+            >();
+            /** Each todo's result, or the remote ID whose write decides it */
+            const planned: Array<(typeof results)[number] | number> = [];
+
+            for (const todo of chunk) {
+              const fingerprint = remoteFingerprint(todo);
+              const write = {
+                user_id: todo.userId,
+                title: todo.title,
+                completed: todo.completed,
+                remote_id: todo.id,
+                remote_hash: fingerprint,
+                dirty: 0,
+              };
+
+              // A repeated remote todo replaces the earlier write
+              const repeated = writes.get(todo.id);
+              if (repeated !== undefined) {
+                writes.set(todo.id, { ...write, id: repeated.id });
+                planned.push(todo.id);
+                continue;
+              }
+
+              // Either linked to this remote todo, or with the same ID and
+              // neither linked to a remote todo nor created locally since
+              const sameId = taken.get(todo.id);
+              const existing =
+                linked.get(todo.id) ??
+                (sameId !== undefined &&
+                sameId.remote_id === null &&
+                sameId.dirty === 0
+                  ? sameId
+                  : undefined);
+
+              if (existing === undefined) {
+                // Insert, keeping the remote ID unless a local todo has it
+                const id = taken.has(todo.id) ? null : todo.id;
+                writes.set(todo.id, { ...write, id });
+                planned.push(todo.id);
+                continue;
+              }
+
+              if (existing.deleted_at !== null) {
+                planned.push(Either.left(new TodoTrashed({ id: existing.id })));
+                continue;
+              }
+
+              const local = yield* Schema.decodeUnknown(Todo)({
+                userId: existing.user_id,
+                id: existing.id,
+                title: existing.title,
+                completed: existing.completed === "completed",
+              });
+
+              // Nothing to write if the remote todo is unchanged since last sync
+              if (
+                existing.dirty === 0 &&
+                existing.remote_hash === fingerprint &&
+                conflictingFields(local, todo).length === 0
+              ) {
+                planned.push(Either.right({ todo: local, changed: false }));
+                continue;
+              }
+
+              // Local changes that were not pushed yet must not be lost
+              if (existing.dirty === 1 && !options?.overwriteLocalChanges) {
+                if (existing.remote_hash === fingerprint) {
+                  // Only the local side changed; keep it for the next push
+                  planned.push(Either.right({ todo: local, changed: false }));
+                  continue;
+                }
+                const fields = conflictingFields(local, todo);
+                if (fields.length > 0) {
+                  planned.push(
+                    Either.left(
+                      new TodoConflict({
+                        id: existing.id,
+                        local,
+                        remote: todo,
+                        fields,
+                      })
+                    )
+                  );
+                  continue;
+                }
+              }
+
+              writes.set(todo.id, { ...write, id: existing.id });
+              planned.push(todo.id);
+            }
+
+            // Write the whole chunk at once; rows with an ID update the
+            // existing todo, rows without one get a new ID
+            const written =
+              writes.size === 0
+                ? []
+                : yield* sql<{ id: number; remote_id: number }>`
+            INSERT INTO todos ${sql.insert([...writes.values()])}
+            ON CONFLICT(id) DO UPDATE SET
+              user_id = excluded.user_id,
+              title = excluded.title,
+              completed = excluded.completed,
+              remote_id = excluded.remote_id,
+              remote_hash = excluded.remote_hash,
+              dirty = 0,
+              updated_at = CURRENT_TIMESTAMP
+            RETURNING id, remote_id
+          `;
+            const localIds = new Map(
+              written.map((row) => [row.remote_id, row.id])
+            );
+
+            for (const entry of planned) {
+              if (typeof entry !== "number") {
+                results.push(entry);
+                continue;
+              }
+              const write = writes.get(entry)!;
+              const todo = yield* Schema.decodeUnknown(Todo)({
+                userId: write.user_id,
+                id: localIds.get(entry),
+                title: write.title,
+                completed: write.completed === "completed",
+              });
+              results.push(Either.right({ todo, changed: true }));
+            }
+          }
+
+          return results;
+        },
+        (effect, todos) => {
+          const failed = (error: { readonly message: string }) =>
+            new DatabaseError({
+              message: `Failed to save ${
+                todos.length === 1
+                  ? `todo ${todos[0].id}`
+                  : `${todos.length} todos`
+              }: ${error.message}`,
+            });
+          return recorded("sync", effect).pipe(
+            Effect.catchTags({ SqlError: failed, ParseError: failed })
+          );
+        }
+      );
+
+      /**
+       * Imports todos from a todo file in a single transaction.
+       *
+       * This method:
+       * - In "replace" mode, first removes every local todo, including the trash
+       * - Inserts todos whose ID is not taken, and overwrites local todos with
+       *   the same ID (bringing trashed ones back), leaving identical todos alone
+       * - Marks inserted and overwritten todos as local changes to be pushed
+       * - Gives todos that list their tags exactly those tags, and todos with
+       *   a due date or priority that due date or priority; todos without
+       *   them keep their local ones
+       * - Makes todos with a parent ID subtasks of that todo once all todos
+       *   are written, or top-level todos when no such todo exists
+       * - Writes {@link saveChunkSize} todos per statement with
+       *   `INSERT ... ON CONFLICT(id) DO UPDATE`
+       * - With `dryRun`, only counts what would change without writing
+       *
+       * When the same ID appears more than once, the last todo wins.
+       *
+       * @param todos - The decoded todos of the file
+       * @param options.mode - How to combine them with the local todos
+       * @param options.dryRun - Count the changes without writing them
+       * @returns Effect that resolves to the number of inserted, updated,
+       *          unchanged and removed todos
+       * @throws {TodoCycle} When subtasks would form a loop; nothing is
+       *                     imported then
+       * @throws {DatabaseError} When a query fails; nothing is imported then
+       *
+       * @example
+       * ```typescript
+       * const { inserted, updated } = yield* DatabaseService.importTodos(todos, {
+       *   mode: "merge"
+       * });
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const importTodos = Effect.fn("importTodos")(
+        function* (
+          todos: ReadonlyArray<Todo>,
+          options: { readonly mode: ImportMode; readonly dryRun?: boolean }
+        ) {
+          const unique = [
+            ...new Map(todos.map((todo) => [todo.id, todo])).values(),
+          ];
+          const summary = { inserted: 0, updated: 0, unchanged: 0, removed: 0 };
+
+          if (options.mode === "replace") {
+            const [{ count }] = yield* sql<{
+              count: number;
+            }>`SELECT COUNT(*) AS count FROM todos`;
+            summary.removed = count;
+            if (!options.dryRun) {
+              yield* sql`DELETE FROM todos`;
+            }
+          }
+
+          for (let start = 0; start < unique.length; start += saveChunkSize) {
+            const chunk = unique.slice(start, start + saveChunkSize);
+            const existing = new Map(
+              options.mode === "replace"
+                ? []
+                : (yield* sql<{
+                    readonly id: number;
+                    readonly user_id: number;
+                    readonly title: string;
+                    readonly completed: string;
+                    readonly tags: string;
+                    readonly due_at: string | null;
+                    readonly priority: string;
+                    readonly parent_id: number | null;
+                    readonly deleted_at: string | null;
+                  }>`
+            SELECT id, user_id, title, completed, ${tagsColumn}, due_at, priority, parent_id, deleted_at FROM todos
+            WHERE ${sql.in(
+              "id",
+              chunk.map((todo) => todo.id)
+            )}
+          `).map((row) => [row.id, row] as const)
+            );
+
+            const writes = chunk.filter((todo) => {
+              const row = existing.get(todo.id);
+              if (row === undefined) {
+                summary.inserted++;
+                return true;
+              }
+              if (
+                row.deleted_at === null &&
+                row.user_id === todo.userId &&
+                row.title === todo.title &&
+                row.completed === todo.completed &&
+                (todo.tags === undefined ||
+                  sameTags(JSON.parse(row.tags), todo.tags)) &&
+                (todo.dueAt === undefined ||
+                  row.due_at === DateTime.formatIso(todo.dueAt)) &&
+                (todo.priority === undefined ||
+                  row.priority === todo.priority) &&
+                (todo.parentId === undefined || row.parent_id === todo.parentId)
+              ) {
+                summary.unchanged++;
+                return false;
+              }
+              summary.updated++;
+              return true;
+            });
+
+            if (writes.length > 0 && !options.dryRun) {
+              yield* sql`
+              INSERT INTO todos ${sql.insert(
+                writes.map((todo) => ({
+                  id: todo.id,
+                  user_id: todo.userId,
+                  title: todo.title,
+                  completed: todo.completed,
+                  due_at:
+                    todo.dueAt === undefined
+                      ? null
+                      : DateTime.formatIso(todo.dueAt),
+                  dirty: 1,
+                }))
+              )}
+              ON CONFLICT(id) DO UPDATE SET
+                user_id = excluded.user_id,
+                title = excluded.title,
+                completed = excluded.completed,
+                due_at = COALESCE(excluded.due_at, todos.due_at),
+                dirty = 1,
+                deleted_at = NULL,
+                updated_at = CURRENT_TIMESTAMP
+            `;
+
+              // Todos that state their priority get it; others keep theirs
+              const prioritized = writes.flatMap((todo) =>
+                todo.priority === undefined ? [] : [[todo.id, todo.priority]]
+              );
+              if (prioritized.length > 0) {
+                yield* sql`
+                UPDATE todos SET priority = json_extract(entry.value, '$[1]')
+                FROM json_each(${JSON.stringify(prioritized)}) AS entry
+                WHERE todos.id = json_extract(entry.value, '$[0]')
+              `;
+              }
+
+              // Todos that list their tags get exactly those tags
+              const tagged = writes.filter((todo) => todo.tags !== undefined);
+              if (tagged.length > 0) {
+                yield* sql`DELETE FROM todo_tags WHERE ${sql.in(
+                  "todo_id",
+                  tagged.map((todo) => todo.id)
+                )}`;
+              }
+              const links = tagged.flatMap((todo) =>
+                (todo.tags ?? []).map((name) => [todo.id, name] as const)
+              );
+              if (links.length > 0) {
+                yield* sql`INSERT OR IGNORE INTO tags ${sql.insert(
+                  links.map(([, name]) => ({ name }))
+                )}`;
+                yield* sql`
+                INSERT OR IGNORE INTO todo_tags (todo_id, tag_id)
+                SELECT json_extract(link.value, '$[0]'), tags.id
+                FROM json_each(${JSON.stringify(links)}) AS link
+                JOIN tags ON tags.name = json_extract(link.value, '$[1]')
+              `;
+              }
+            }
+          }
+
+          // Parents are set once every todo is written, since a parent may
+          // come after its subtasks in the file; missing parents are dropped
+          const parented = unique.flatMap((todo) =>
+            todo.parentId === undefined ? [] : [[todo.id, todo.parentId]]
+          );
+          if (parented.length > 0 && !options.dryRun) {
+            yield* sql`
+            UPDATE todos SET parent_id = CASE
+              WHEN parent.id IN (SELECT id FROM todos) THEN parent.id
+            END
+            FROM (
+              SELECT json_extract(entry.value, '$[0]') AS child,
+                json_extract(entry.value, '$[1]') AS id
+              FROM json_each(${JSON.stringify(parented)}) AS entry
+            ) AS parent
+            WHERE todos.id = parent.child
+          `;
+            // A subtask whose chain of parents leads back to it is in a loop
+            const [cycle] = yield* sql<{ id: number; parent_id: number }>`
+            WITH RECURSIVE ancestors(start, id) AS (
+              SELECT id, parent_id FROM todos
+              WHERE parent_id IS NOT NULL AND id IN (
+                SELECT json_extract(entry.value, '$[0]')
+                FROM json_each(${JSON.stringify(parented)}) AS entry
+              )
+              UNION
+              SELECT ancestors.start, todos.parent_id FROM ancestors
+              JOIN todos ON todos.id = ancestors.id
+              WHERE todos.parent_id IS NOT NULL
+            )
+            SELECT todos.id, todos.parent_id FROM ancestors
+            JOIN todos ON todos.id = ancestors.start
+            WHERE ancestors.id = ancestors.start
+            LIMIT 1
+          `;
+            if (cycle !== undefined) {
+              return yield* new TodoCycle({
+                id: cycle.id,
+                parentId: cycle.parent_id,
+              });
+            }
+          }
+
+          return summary;
+        },
+        (effect) =>
+          recorded("import", effect).pipe(
+            Effect.catchTags({
+              SqlError: (error) =>
+                new DatabaseError({
+                  message: `Failed to import todos: ${error.message}`,
+                }),
+            })
+          )
+      );
+
+      /**
+       * Applies a partial update to an existing todo.
+       *
+       * This method:
+       * - Validates the patch against the TodoPatch schema (same rules as Todo)
+       * - Checks that a new owner is in the users table, unless
+       *   `allowUnknownUser` is set
+       * - Checks that a new parent exists outside the trash and is not the
+       *   todo itself or one of its subtasks
+       * - Refuses to complete a todo with pending subtasks, or completes the
+       *   subtasks as well with `cascade`
+       * - Updates only the columns for fields present in the patch
+       * - Bumps the updated_at timestamp, even for an empty patch
+       * - Marks the todo as a local change to be pushed, unless the patch is empty
+       *   or only changes the due date, priority or parent (which exist only
+       *   locally)
+       * - Returns the updated Todo object read back from the database
+       *
+       * @param id - The ID of the todo to update
+       * @param patch - Fields to change; omitted fields keep their current value
+       * @param options.cascade - When completing the todo, complete its
+       *                          pending subtasks too instead of failing
+       * @param options.allowUnknownUser - Accept a new owner that is not in
+       *                                   the users table
+       * @returns Effect that resolves to the updated Todo object
+       * @throws {TodoValidationError} When the patch violates the Todo schema rules
+       * @throws {TodoNotFound} When no todo outside the trash exists with the
+       *                        given ID or the new parent ID
+       * @throws {UserNotFound} When the new owner is not in the users table
+       * @throws {TodoCycle} When the new parent is the todo itself or one of
+       *                     its subtasks
+       * @throws {OpenSubtasks} When completing a todo with pending subtasks
+       *                        without `cascade`
+       * @throws {DatabaseError} When the update query fails
+       *
+       * @example
+       * ```typescript
+       * const renamed = yield* DatabaseService.updateTodo(42, {
+       *   title: "Learn Effect properly",
+       *   completed: true
+       * });
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const updateTodo = Effect.fn("updateTodo")(
+        function* (
+          id: number,
+          patch: typeof TodoPatch.Encoded,
+          options?: {
+            readonly cascade?: boolean;
+            readonly allowUnknownUser?: boolean;
+          }
+        ) {
+          const decoded = yield* Effect.catchAll(
+            Schema.decodeUnknown(TodoPatch)(patch),
+            (error) =>
+              new TodoValidationError({
+                message: `Invalid update for todo ${id}: ${error.message}`,
+              })
+          );
+
+          if (decoded.userId !== undefined && !options?.allowUnknownUser) {
+            yield* ensureUsersExist([decoded.userId]);
+          }
+
+          const columns: Record<string, unknown> = {};
+          if (decoded.userId !== undefined) columns.user_id = decoded.userId;
+          if (decoded.title !== undefined) columns.title = decoded.title;
+          if (decoded.completed !== undefined) {
+            columns.completed = decoded.completed ? "completed" : "pending";
+          }
+          // Due dates, priorities and subtasks exist only locally, so they are
+          // not a change to push
+          const localColumns: Record<string, unknown> = {};
+          if (decoded.dueAt !== undefined) {
+            localColumns.due_at =
+              decoded.dueAt === null ? null : DateTime.formatIso(decoded.dueAt);
+          }
+          if (decoded.priority !== undefined) {
+            localColumns.priority = decoded.priority;
+          }
+          if (decoded.parentId !== undefined) {
+            if (decoded.parentId !== null) {
+              yield* ensureTodoExists(id);
+              yield* ensureTodoExists(decoded.parentId);
+              const [{ cycle }] = yield* sql<{ cycle: number }>`
+              ${subtasksOf(id)}
+              SELECT ${decoded.parentId} = ${id}
+                OR ${decoded.parentId} IN subtasks AS cycle
+            `;
+              if (cycle === 1) {
+                return yield* new TodoCycle({
+                  id,
+                  parentId: decoded.parentId,
+                });
+              }
+            }
+            localColumns.parent_id = decoded.parentId;
+          }
+
+          if (decoded.completed === true) {
+            const [{ pending }] = yield* sql<{ pending: number }>`
+            ${subtasksOf(id)}
+            SELECT COUNT(*) AS pending FROM todos
+            WHERE id IN subtasks AND completed = 'pending' AND deleted_at IS NULL
+          `;
+            if (pending > 0 && !options?.cascade) {
+              return yield* new OpenSubtasks({ id, pending });
+            }
+            yield* sql`
+            ${subtasksOf(id)}
+            UPDATE todos SET completed = 'completed', dirty = 1, updated_at = CURRENT_TIMESTAMP
+            WHERE id IN subtasks AND completed = 'pending' AND deleted_at IS NULL
+          `;
+          }
+
+          const rows =
+            Object.keys(columns).length === 0 &&
+            Object.keys(localColumns).length === 0
+              ? yield* sql<{ id: number }>`
+            UPDATE todos SET updated_at = CURRENT_TIMESTAMP
+            WHERE id = ${id} AND deleted_at IS NULL
+            RETURNING id
+          `
+              : yield* sql<{ id: number }>`
+            UPDATE todos SET ${sql.update({ ...columns, ...localColumns })}${
+                  Object.keys(columns).length > 0 ? sql`, dirty = 1` : sql``
+                }, updated_at = CURRENT_TIMESTAMP
+            WHERE id = ${id} AND deleted_at IS NULL
+            RETURNING id
+          `;
+
+          if (rows.length === 0) {
+            return yield* new TodoNotFound({ id });
+          }
+
+          return yield* getTodoById(id);
+        },
+        (effect, id) =>
+          recorded("update", effect).pipe(
+            Effect.catchTags({
+              SqlError: (error) =>
+                new DatabaseError({
+                  message: `Failed to update todo ${id}: ${error.message}`,
+                }),
+            })
+          )
+      );
+
+      /**
+       * Internal helper: Finds a free position for a todo placed as given,
+       * or none when the neighbouring positions leave no room in between.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const freePosition = Effect.fn("freePosition")(function* (
+        id: number,
+        placement: TodoPlacement
+      ) {
+        if (placement._tag === "Top") {
+          const [{ first }] = yield* sql<{
+            first: number | null;
+          }>`SELECT MIN(position) AS first FROM todos WHERE id != ${id}`;
+          return Option.some(first === null ? 0 : first - positionGap);
+        }
+
+        const [{ anchor }] = yield* sql<{
+          anchor: number;
+        }>`SELECT position AS anchor FROM todos WHERE id = ${placement.id}`;
+        const [{ neighbour }] =
+          placement._tag === "Before"
+            ? yield* sql<{ neighbour: number | null }>`
+              SELECT MAX(position) AS neighbour FROM todos
+              WHERE position < ${anchor} AND id != ${id}
+            `
+            : yield* sql<{ neighbour: number | null }>`
+              SELECT MIN(position) AS neighbour FROM todos
+              WHERE position > ${anchor} AND id != ${id}
+            `;
+        const bound =
+          neighbour ??
+          (placement._tag === "Before"
+            ? anchor - 2 * positionGap
+            : anchor + 2 * positionGap);
+        const position = Math.floor((anchor + bound) / 2);
+        return position === anchor || position === bound
+          ? Option.none()
+          : Option.some(position);
+      });
+
+      /**
+       * Moves a todo in the manual order of the todo list.
+       *
+       * This method:
+       * - Puts the todo ahead of every other todo, or right before or after
+       *   another todo
+       * - Gives the todo the priority of the todo it is placed next to, or
+       *   of the todo listed first for the top, since todos are listed by
+       *   priority first
+       * - Renumbers all positions when there is no room left between the two
+       *   neighbours, keeping their order
+       *
+       * The order exists only locally, so moving does not mark the todo as a
+       * change to push or bump its update timestamp.
+       *
+       * @param id - The ID of the todo to move
+       * @param placement - Where to put the todo
+       * @returns Effect that resolves to the moved todo and the priority it
+       *          had before, to tell whether moving changed it
+       * @throws {TodoNotFound} When the todo to move or the one to place it
+       *         next to is missing or in the trash
+       * @throws {DatabaseError} When a query fails
+       *
+       * @example
+       * ```typescript
+       * const { todo, previousPriority } = yield* DatabaseService.moveTodo(5, {
+       *   _tag: "Before",
+       *   id: 3
+       * });
+       * yield* DatabaseService.moveTodo(7, { _tag: "Top" });
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const moveTodo = Effect.fn("moveTodo")(
+        function* (id: number, placement: TodoPlacement) {
+          yield* ensureTodoExists(id);
+          const [{ priority: previousPriority }] = yield* sql<{
+            readonly priority: TodoPriority;
+          }>`SELECT priority FROM todos WHERE id = ${id}`;
+          if (placement._tag !== "Top") {
+            yield* ensureTodoExists(placement.id);
+            if (placement.id === id) {
+              return { todo: yield* getTodoById(id), previousPriority };
+            }
+          }
+
+          let position = yield* freePosition(id, placement);
+          if (Option.isNone(position)) {
+            // Positions got too dense; spread them out again and retry
+            yield* sql`
+            UPDATE todos SET position = ranked.rank * ${positionGap}
+            FROM (
+              SELECT id, ROW_NUMBER() OVER (ORDER BY position, id) AS rank FROM todos
+            ) AS ranked
+            WHERE todos.id = ranked.id
+          `;
+            position = yield* freePosition(id, placement);
+          }
+
+          yield* sql`UPDATE todos SET position = ${Option.getOrThrow(
+            position
+          )} WHERE id = ${id}`;
+          // The todo listed first, or the one placed next to, sets the priority
+          const [neighbour] =
+            placement._tag === "Top"
+              ? yield* sql<{ readonly priority: TodoPriority }>`
+                SELECT priority FROM todos
+                WHERE id != ${id} AND deleted_at IS NULL
+                ORDER BY ${sql.literal(sortColumns.priority("ASC"))}
+                LIMIT 1
+              `
+              : yield* sql<{ readonly priority: TodoPriority }>`
+                SELECT priority FROM todos WHERE id = ${placement.id}
+              `;
+          if (neighbour !== undefined) {
+            yield* sql`UPDATE todos SET priority = ${neighbour.priority} WHERE id = ${id}`;
+          }
+          return { todo: yield* getTodoById(id), previousPriority };
+        },
+        (effect, id) =>
+          recorded("move", effect).pipe(
+            Effect.catchTags({
+              SqlError: (error) =>
+                new DatabaseError({
+                  message: `Failed to move todo ${id}: ${error.message}`,
+                }),
+            })
+          )
+      );
+
+      /**
+       * Retrieves all todos with local changes that have not been pushed to
+       * the API yet, ordered by ID. Todos in the trash are not included.
+       *
+       * @returns Effect that resolves to the changed todos, each with its ID on
+       *          the API (none if it was created locally and never pushed)
+       * @throws {DatabaseError} When database query fails or schema validation fails
+       *
+       * @example
+       * ```typescript
+       * const dirty = yield* DatabaseService.getDirtyTodos();
+       * for (const { todo, remoteId } of dirty) {
+       *   console.log(`${todo.id}: ${Option.isSome(remoteId) ? "modified" : "new"}`);
+       * }
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const getDirtyTodos = Effect.fn("getDirtyTodos")(
+        function* () {
+          const rows = yield* sql<{
+            readonly id: number;
+            readonly user_id: number;
+            readonly title: string;
+            readonly completed: string;
+            readonly remote_id: number | null;
+          }>`SELECT id, user_id, title, completed, remote_id FROM todos WHERE dirty = 1 AND deleted_at IS NULL ORDER BY id`;
+
+          const dirty = [];
+          for (const row of rows) {
+            const todoData = {
+              userId: row.user_id,
+              id: row.id,
+              title: row.title,
+              completed: row.completed === "completed",
+            };
+            const todo = yield* Schema.decodeUnknown(Todo)(todoData);
+            dirty.push({ todo, remoteId: Option.fromNullable(row.remote_id) });
+          }
+
+          return dirty;
+        },
+        (effect) =>
+          Effect.catchAll(
+            effect,
+            (error) =>
+              new DatabaseError({
+                message: `Failed to fetch changed todos: ${error.message}`,
+              })
+          )
+      );
+
+      /**
+       * Records that a todo's local changes were pushed to the API.
+       *
+       * @param id - The local ID of the pushed todo
+       * @param remote - The todo as stored by the API after the push
+       * @returns Effect that completes when the todo is marked as pushed
+       * @throws {TodoNotFound} When no todo exists with the given ID
+       * @throws {DatabaseError} When the update query fails
+       *
+       * @example
+       * ```typescript
+       * const created = yield* TodoService.createTodo(todo);
+       * yield* DatabaseService.markTodoPushed(todo.id, created);
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const markTodoPushed = Effect.fn("markTodoPushed")(function* (
+        id: number,
+        remote: Todo
+      ) {
+        const rows = yield* Effect.catchAll(
+          sql<{ id: number }>`
+          UPDATE todos SET remote_id = ${
+            remote.id
+          }, remote_hash = ${remoteFingerprint(remote)}, dirty = 0
+          WHERE id = ${id}
+          RETURNING id
+        `,
+          (error) =>
+            new DatabaseError({
+              message: `Failed to mark todo ${id} as pushed: ${error.message}`,
+            })
+        );
+
+        if (rows.length === 0) {
+          return yield* new TodoNotFound({ id });
+        }
+      });
+
+      /**
+       * Internal helper: Fails with UserNotFound for the lowest of the given
+       * user IDs that is not in the users table.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const ensureUsersExist = Effect.fn("ensureUsersExist")(function* (
+        ids: ReadonlyArray<number>
+      ) {
+        const rows = yield* sql<{ id: number }>`
+        SELECT DISTINCT value AS id FROM json_each(${JSON.stringify(ids)})
+        WHERE value NOT IN (SELECT id FROM users)
+        ORDER BY value
+        LIMIT 1
+      `;
+        if (rows.length > 0) {
+          return yield* new UserNotFound({ id: rows[0].id });
+        }
+      });
+
+      /**
+       * Resolves a sync conflict in favor of the local todo.
+       *
+       * The local todo is left unchanged and keeps its pending changes, but
+       * the remote version is recorded as seen, so the next push overwrites it
+       * and later syncs no longer report the conflict.
+       *
+       * @param id - The local ID of the conflicting todo
+       * @param remote - The conflicting version of the todo on the API
+       * @returns Effect that completes when the remote version is recorded
+       * @throws {TodoNotFound} When no todo exists with the given ID
+       * @throws {DatabaseError} When the update query fails
+       *
+       * @example
+       * ```typescript
+       * Effect.catchTag("TodoConflict", ({ id, remote }) =>
+       *   DatabaseService.keepLocalChanges(id, remote)
+       * )
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const keepLocalChanges = Effect.fn("keepLocalChanges")(function* (
+        id: number,
+        remote: Todo
+      ) {
+        const rows = yield* Effect.catchAll(
+          sql<{ id: number }>`
+          UPDATE todos SET remote_id = ${
+            remote.id
+          }, remote_hash = ${remoteFingerprint(remote)}, dirty = 1
+          WHERE id = ${id}
+          RETURNING id
+        `,
+          (error) =>
+            new DatabaseError({
+              message: `Failed to keep local changes of todo ${id}: ${error.message}`,
+            })
+        );
+
+        if (rows.length === 0) {
+          return yield* new TodoNotFound({ id });
+        }
+      });
+
+      /**
+       * Moves a todo to the trash (soft delete), together with its subtasks.
+       *
+       * The rows stay in the database with their deleted_at timestamp set, so
+       * they are hidden from getTodoById/getAllTodos but can still be restored
+       * with restoreTodo until the trash is emptied. Subtasks at any depth are
+       * trashed with the todo, so no subtask is left without its parent.
+       *
+       * @param id - The ID of the todo to move to the trash
+       * @returns Effect that resolves to the trashed Todo object and the
+       *          number of its subtasks trashed with it
+       * @throws {TodoNotFound} When no todo outside the trash exists with the given ID
+       * @throws {DatabaseError} When the update query fails
+       *
+       * @example
+       * ```typescript
+       * const { todo, subtasks } = yield* DatabaseService.deleteTodo(42);
+       * console.log(`Moved "${todo.title}" and ${subtasks} subtask(s) to the trash`);
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const deleteTodo = Effect.fn("deleteTodo")(
+        function* (id: number) {
+          yield* ensureTodoExists(id);
+          const rows = yield* sql<{ id: number }>`
+          ${subtasksOf(id)}
+          UPDATE todos SET deleted_at = CURRENT_TIMESTAMP
+          WHERE (id = ${id} OR id IN subtasks) AND deleted_at IS NULL
+          RETURNING id
+        `;
+
+          const todo = yield* getTodoById(id, { includeTrashed: true });
+          return { todo, subtasks: rows.length - 1 };
+        },
+        (effect, id) =>
+          recorded("delete", effect).pipe(
+            Effect.catchTags({
+              SqlError: (error) =>
+                new DatabaseError({
+                  message: `Failed to delete todo ${id}: ${error.message}`,
+                }),
+            })
+          )
+      );
+
+      /**
+       * Retrieves all todos in the trash, most recently deleted first.
+       *
+       * @returns Effect that resolves to the trashed todos with their deletion timestamps
+       * @throws {DatabaseError} When database query fails or schema validation fails
+       *
+       * @example
+       * ```typescript
+       * const trash = yield* DatabaseService.getTrashedTodos();
+       * for (const { todo, deletedAt } of trash) {
+       *   console.log(`${todo.id} deleted at ${deletedAt}`);
+       * }
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const getTrashedTodos = Effect.fn("getTrashedTodos")(
+        function* () {
+          const rows = yield* sql<{
+            readonly id: number;
+            readonly user_id: number;
+            readonly title: string;
+            readonly completed: string;
+            readonly tags: string;
+            readonly due_at: string | null;
+            readonly priority: string;
+            readonly parent_id: number | null;
+            readonly deleted_at: string;
+          }>`SELECT id, user_id, title, completed, ${tagsColumn}, due_at, priority, parent_id, deleted_at FROM todos WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC, id`;
+
+          const trashed = [];
+          for (const row of rows) {
+            const todo = yield* Schema.decodeUnknown(Todo)(todoData(row));
+            trashed.push({ todo, deletedAt: row.deleted_at });
+          }
+
+          return trashed;
+        },
+        (effect) =>
+          Effect.catchAll(
+            effect,
+            (error) =>
+              new DatabaseError({
+                message: `Failed to fetch trashed todos: ${error.message}`,
+              })
+          )
+      );
+
+      /**
+       * Restores a todo from the trash, together with the subtasks that were
+       * trashed with it.
+       *
+       * If the todo's parent is still in the trash, or was deleted for good,
+       * the todo is restored as a top-level todo.
+       *
+       * @param id - The ID of the trashed todo to restore
+       * @returns Effect that resolves to the restored Todo object and the
+       *          number of its subtasks restored with it
+       * @throws {TodoNotFound} When no todo with the given ID is in the trash
+       * @throws {DatabaseError} When the update query fails
+       *
+       * @example
+       * ```typescript
+       * const { todo, subtasks } = yield* DatabaseService.restoreTodo(42);
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const restoreTodo = Effect.fn("restoreTodo")(
+        function* (id: number) {
+          const [trashed] = yield* sql<{
+            deleted_at: string;
+            parent_id: number | null;
+          }>`SELECT deleted_at, parent_id FROM todos WHERE id = ${id} AND deleted_at IS NOT NULL`;
+          if (trashed === undefined) {
+            return yield* new TodoNotFound({ id });
+          }
+
+          const rows = yield* sql<{ id: number }>`
+          ${subtasksOf(id)}
+          UPDATE todos SET deleted_at = NULL, updated_at = CURRENT_TIMESTAMP
+          WHERE id = ${id} OR (id IN subtasks AND deleted_at = ${
+            trashed.deleted_at
+          })
+          RETURNING id
+        `;
+          if (trashed.parent_id !== null) {
+            yield* sql`
+            UPDATE todos SET parent_id = NULL
+            WHERE id = ${id} AND NOT EXISTS (
+              SELECT 1 FROM todos WHERE id = ${trashed.parent_id} AND deleted_at IS NULL
+            )
+          `;
+          }
+
+          const todo = yield* getTodoById(id);
+          return { todo, subtasks: rows.length - 1 };
+        },
+        (effect, id) =>
+          recorded("restore", effect).pipe(
+            Effect.catchTags({
+              SqlError: (error) =>
+                new DatabaseError({
+                  message: `Failed to restore todo ${id}: ${error.message}`,
+                }),
+            })
+          )
+      );
+
+      /**
+       * Permanently deletes todos from the trash.
+       *
+       * @param olderThan - Only purge todos trashed at least this long ago
+       *                    (all trashed todos when omitted)
+       * @returns Effect that resolves to the number of purged todos
+       * @throws {DatabaseError} When the delete operation fails
+       *
+       * @example
+       * ```typescript
+       * // Purge everything trashed more than a week ago
+       * const purged = yield* DatabaseService.emptyTrash(Duration.days(7));
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const emptyTrash = Effect.fn("emptyTrash")(
+        function* (olderThan?: Duration.Duration) {
+          const cutoff =
+            olderThan === undefined
+              ? sql``
+              : sql`AND deleted_at <= datetime('now', ${`-${Math.floor(
+                  Duration.toSeconds(olderThan)
+                )} seconds`})`;
+          const rows = yield* sql<{ id: number }>`
+          DELETE FROM todos WHERE deleted_at IS NOT NULL ${cutoff}
+          RETURNING id
+        `;
+          return rows.length;
+        },
+        (effect) =>
+          recorded("empty-trash", effect).pipe(
+            Effect.catchAll(
+              (error) =>
+                new DatabaseError({
+                  message: `Failed to empty trash: ${error.message}`,
+                })
+            )
+          )
+      );
+
+      /**
+       * Internal helper: Fails with TodoNotFound unless a todo outside the
+       * trash has the given ID.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const ensureTodoExists = Effect.fn("ensureTodoExists")(function* (
+        id: number
+      ) {
+        const rows = yield* sql<{
+          id: number;
+        }>`SELECT id FROM todos WHERE id = ${id} AND deleted_at IS NULL`;
+        if (rows.length === 0) {
+          return yield* new TodoNotFound({ id });
+        }
+      });
+
+      /**
+       * Internal helper: Gives a todo the named tags, creating the tags that
+       * do not exist yet.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const attachTags = Effect.fn("attachTags")(function* (
+        id: number,
+        tags: ReadonlyArray<string>
+      ) {
+        if (tags.length === 0) {
+          return;
+        }
+        yield* sql`INSERT OR IGNORE INTO tags ${sql.insert(
+          tags.map((name) => ({ name }))
+        )}`;
+        yield* sql`
+        INSERT OR IGNORE INTO todo_tags (todo_id, tag_id)
+        SELECT ${id}, id FROM tags WHERE name IN ${sql.in(tags)}
+      `;
+      });
+
+      /**
+       * Internal helper: Inserts a todo as recorded in a snapshot of the
+       * history or of a backup, with its tags.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const insertSnapshot = Effect.fn("insertSnapshot")(function* (
+        snapshot: Record<string, unknown>
+      ) {
+        const row = snapshotRow(snapshot);
+        yield* sql`INSERT INTO todos ${sql.insert(row)}`;
+        yield* attachTags(
+          row.id as number,
+          (snapshot.tags as ReadonlyArray<string> | undefined) ?? []
+        );
+      });
+
+      /**
+       * Adds tags to a todo.
+       *
+       * Tags that do not exist yet are created. Names are compared regardless
+       * of case, so adding `Work` to a todo when a `work` tag exists uses the
+       * existing tag. Tags the todo already carries are left alone. Tags are
+       * local to the database, so tagging does not mark the todo as a change
+       * to push.
+       *
+       * @param id - The ID of the todo to tag
+       * @param tags - Names of the tags to add
+       * @returns Effect that resolves to the todo with its tags
+       * @throws {TodoNotFound} When no todo outside the trash has the given ID
+       * @throws {DatabaseError} When a query fails
+       *
+       * @example
+       * ```typescript
+       * const todo = yield* DatabaseService.addTags(1, ["work", "urgent"]);
+       * console.log(todo.tags); // ["urgent", "work"]
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const addTags = Effect.fn("addTags")(
+        function* (id: number, tags: ReadonlyArray<string>) {
+          yield* ensureTodoExists(id);
+          yield* attachTags(id, tags);
+          return yield* getTodoById(id);
+        },
+        (effect, id) =>
+          recorded("tag", effect).pipe(
+            Effect.catchTags({
+              SqlError: (error) =>
+                new DatabaseError({
+                  message: `Failed to tag todo ${id}: ${error.message}`,
+                }),
+            })
+          )
+      );
+
+      /**
+       * Removes tags from a todo.
+       *
+       * Names are compared regardless of case, and tags the todo does not
+       * carry are ignored. A tag that no todo carries any more is deleted.
+       *
+       * @param id - The ID of the todo to untag
+       * @param tags - Names of the tags to remove
+       * @returns Effect that resolves to the todo with its remaining tags
+       * @throws {TodoNotFound} When no todo outside the trash has the given ID
+       * @throws {DatabaseError} When a query fails
+       *
+       * @example
+       * ```typescript
+       * yield* DatabaseService.removeTags(1, ["urgent"]);
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const removeTags = Effect.fn("removeTags")(
+        function* (id: number, tags: ReadonlyArray<string>) {
+          yield* ensureTodoExists(id);
+          yield* sql`
+          DELETE FROM todo_tags WHERE todo_id = ${id}
+          AND tag_id IN (SELECT id FROM tags WHERE name IN ${sql.in(tags)})
+        `;
+          return yield* getTodoById(id);
+        },
+        (effect, id) =>
+          recorded("untag", effect).pipe(
+            Effect.catchTags({
+              SqlError: (error) =>
+                new DatabaseError({
+                  message: `Failed to untag todo ${id}: ${error.message}`,
+                }),
+            })
+          )
+      );
+
+      /**
+       * Lists every tag with the number of todos carrying it.
+       *
+       * Todos in the trash keep their tags but are not counted, so a tag
+       * carried only by trashed todos is listed with a count of 0.
+       *
+       * @returns Effect that resolves to the tags sorted by name
+       * @throws {DatabaseError} When the query fails
+       *
+       * @example
+       * ```typescript
+       * const tags = yield* DatabaseService.getTags();
+       * for (const { name, count } of tags) {
+       *   console.log(`${name}: ${count}`);
+       * }
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const getTags = Effect.fn("getTags")(
+        function* () {
+          return yield* sql<{
+            readonly name: string;
+            readonly count: number;
+          }>`SELECT tags.name, COUNT(todos.id) AS count
+          FROM tags
+          JOIN todo_tags ON todo_tags.tag_id = tags.id
+          LEFT JOIN todos ON todos.id = todo_tags.todo_id AND todos.deleted_at IS NULL
+          GROUP BY tags.id
+          ORDER BY tags.name`;
+        },
+        Effect.catchAll(
+          (error) =>
+            new DatabaseError({
+              message: `Failed to fetch tags: ${error.message}`,
+            })
+        )
+      );
+
+      /**
+       * Renames a tag on every todo carrying it.
+       *
+       * If another tag already has the new name, the two tags are merged:
+       * every todo carrying the old tag carries the existing one instead, and
+       * the old tag is deleted. Changing only the case of a name renames the
+       * tag in place.
+       *
+       * @param from - Current name of the tag (any case)
+       * @param to - New name of the tag
+       * @returns Effect that resolves to whether the tag was merged into an
+       *          existing one
+       * @throws {TagNotFound} When no tag has the current name
+       * @throws {DatabaseError} When a query fails
+       *
+       * @example
+       * ```typescript
+       * const { merged } = yield* DatabaseService.renameTag("wrk", "work");
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const renameTag = Effect.fn("renameTag")(
+        function* (from: string, to: string) {
+          const [source] = yield* sql<{
+            id: number;
+          }>`SELECT id FROM tags WHERE name = ${from}`;
+          if (source === undefined) {
+            return yield* new TagNotFound({ name: from });
+          }
+          const [target] = yield* sql<{
+            id: number;
+          }>`SELECT id FROM tags WHERE name = ${to}`;
+
+          if (target === undefined || target.id === source.id) {
+            yield* sql`UPDATE tags SET name = ${to} WHERE id = ${source.id}`;
+            return { merged: false };
+          }
+          yield* sql`
+          INSERT OR IGNORE INTO todo_tags (todo_id, tag_id)
+          SELECT todo_id, ${target.id} FROM todo_tags WHERE tag_id = ${source.id}
+        `;
+          yield* sql`DELETE FROM todo_tags WHERE tag_id = ${source.id}`;
+          return { merged: true };
+        },
+        (effect, from) =>
+          recorded("rename-tag", effect).pipe(
+            Effect.catchTags({
+              SqlError: (error) =>
+                new DatabaseError({
+                  message: `Failed to rename tag ${from}: ${error.message}`,
+                }),
+            })
+          )
+      );
+
+      /**
+       * Counts the direct subtasks of todos, and how many of them are
+       * completed. Subtasks in the trash are not counted.
+       *
+       * @param ids - IDs of the todos whose subtasks to count
+       * @returns Effect that resolves to the counts by todo ID; todos without
+       *          subtasks are left out
+       * @throws {DatabaseError} When the query fails
+       *
+       * @example
+       * ```typescript
+       * const counts = yield* DatabaseService.getSubtaskCounts([1, 2]);
+       * const count = counts.get(1);
+       * if (count) console.log(`${count.completed}/${count.total} done`);
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const getSubtaskCounts = Effect.fn("getSubtaskCounts")(
+        function* (ids: ReadonlyArray<number>) {
+          const rows = yield* sql<{
+            readonly parent_id: number;
+            readonly completed: number;
+            readonly total: number;
+          }>`SELECT parent_id, SUM(completed = 'completed') AS completed, COUNT(*) AS total
+          FROM todos
+          WHERE deleted_at IS NULL AND parent_id IN (
+            SELECT value FROM json_each(${JSON.stringify(ids)})
+          )
+          GROUP BY parent_id`;
+          return new Map<number, SubtaskCount>(
+            rows.map(({ parent_id, completed, total }) => [
+              parent_id,
+              { completed, total },
+            ])
+          );
+        },
+        Effect.catchAll(
+          (error) =>
+            new DatabaseError({
+              message: `Failed to count subtasks: ${error.message}`,
+            })
+        )
+      );
+
+      /**
+       * Retrieves every user, with how many of their todos are completed.
+       * Todos in the trash are not counted.
+       *
+       * @returns Effect that resolves to the users, ordered by ID
+       * @throws {DatabaseError} When the query fails
+       *
+       * @example
+       * ```typescript
+       * const users = yield* DatabaseService.getUsers();
+       * for (const { user, todos, completed } of users) {
+       *   console.log(`${user.name}: ${completed}/${todos}`);
+       * }
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const getUsers = Effect.fn("getUsers")(
+        function* () {
+          const rows = yield* sql<{
+            readonly id: number;
+            readonly name: string;
+            readonly username: string | null;
+            readonly email: string | null;
+            readonly todos: number;
+            readonly completed: number;
+          }>`SELECT users.id, users.name, users.username, users.email,
+            COUNT(todos.id) AS todos,
+            COUNT(CASE WHEN todos.completed = 'completed' THEN 1 END) AS completed
+          FROM users
+          LEFT JOIN todos ON todos.user_id = users.id AND todos.deleted_at IS NULL
+          GROUP BY users.id
+          ORDER BY users.id`;
+          const users: Array<UserSummary> = [];
+          for (const row of rows) {
+            users.push({
+              user: yield* Schema.decodeUnknown(User)(userData(row)),
+              todos: row.todos,
+              completed: row.completed,
+            });
+          }
+          return users;
+        },
+        Effect.catchAll(
+          (error) =>
+            new DatabaseError({
+              message: `Failed to fetch users: ${error.message}`,
+            })
+        )
+      );
+
+      /**
+       * Retrieves a single user by ID, with how many of their todos are
+       * completed.
+       *
+       * @param id - The ID of the user to retrieve
+       * @returns Effect that resolves to the user and their todo counts
+       * @throws {UserNotFound} When no user has the given ID
+       * @throws {DatabaseError} When the query fails
+       *
+       * @example
+       * ```typescript
+       * const { user, todos } = yield* DatabaseService.getUserById(1);
+       * console.log(`${user.name} has ${todos} todo(s)`);
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const getUserById = Effect.fn("getUserById")(
+        function* (id: number) {
+          const [row] = yield* sql<{
+            readonly id: number;
+            readonly name: string;
+            readonly username: string | null;
+            readonly email: string | null;
+            readonly todos: number;
+            readonly completed: number;
+          }>`SELECT users.id, users.name, users.username, users.email,
+            COUNT(todos.id) AS todos,
+            COUNT(CASE WHEN todos.completed = 'completed' THEN 1 END) AS completed
+          FROM users
+          LEFT JOIN todos ON todos.user_id = users.id AND todos.deleted_at IS NULL
+          WHERE users.id = ${id}
+          GROUP BY users.id`;
+          if (row === undefined) {
+            return yield* new UserNotFound({ id });
+          }
+          const summary: UserSummary = {
+            user: yield* Schema.decodeUnknown(User)(userData(row)),
+            todos: row.todos,
+            completed: row.completed,
+          };
+          return summary;
+        },
+        (effect, id) => {
+          const failed = (error: { readonly message: string }) =>
+            new DatabaseError({
+              message: `Failed to fetch user ${id}: ${error.message}`,
+            });
+          return Effect.catchTags(effect, {
+            SqlError: failed,
+            ParseError: failed,
+          });
+        }
+      );
+
+      /**
+       * Adds a user to the local database, with the next free ID.
+       *
+       * Users added locally are not sent to the API; a sync replaces the
+       * details of a local user whose ID the API also has.
+       *
+       * @param data - User data for creation
+       * @param data.name - The user's full name (1-255 characters)
+       * @param data.username - Optional short handle
+       * @param data.email - Optional email address
+       * @returns Effect that resolves to the created User object
+       * @throws {TodoValidationError} When the data violates the User schema rules
+       * @throws {DatabaseError} When the insertion fails
+       *
+       * @example
+       * ```typescript
+       * const user = yield* DatabaseService.addUser({ name: "Ada Lovelace" });
+       * console.log(`Added user ${user.id}`);
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const addUser = Effect.fn("addUser")(
+        function* (data: {
+          readonly name: string;
+          readonly username?: string;
+          readonly email?: string;
+        }) {
+          const [{ id }] = yield* sql<{
+            id: number;
+          }>`SELECT COALESCE(MAX(id), 0) + 1 AS id FROM users`;
+          const user = yield* Effect.catchAll(
+            Schema.decodeUnknown(User)({ ...data, id }),
+            (error) =>
+              new TodoValidationError({
+                message: `Invalid user: ${error.message}`,
+              })
+          );
+          yield* sql`INSERT INTO users ${sql.insert({
+            id: user.id,
+            name: user.name,
+            username: user.username ?? null,
+            email: user.email ?? null,
+          })}`;
+          return user;
+        },
+        (effect) =>
+          sql.withTransaction(effect).pipe(
+            Effect.catchTags({
+              SqlError: (error) =>
+                new DatabaseError({
+                  message: `Failed to add user: ${error.message}`,
+                }),
+            })
+          )
+      );
+
+      /**
+       * Saves users from the API in a single statement.
+       *
+       * New users are inserted and known users get the API's details; local
+       * users the API does not have are left alone.
+       *
+       * @param users - The users as returned by the API
+       * @returns Effect that resolves to the number of users that were added
+       *          or changed
+       * @throws {DatabaseError} When the statement fails
+       *
+       * @example
+       * ```typescript
+       * const users = yield* TodoService.listUsers();
+       * const changed = yield* DatabaseService.saveUsers(users);
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const saveUsers = Effect.fn("saveUsers")(
+        function* (users: ReadonlyArray<User>) {
+          if (users.length === 0) {
+            return 0;
+          }
+          const rows = yield* sql<{ id: number }>`
+          INSERT INTO users ${sql.insert(
+            users.map((user) => ({
+              id: user.id,
+              name: user.name,
+              username: user.username ?? null,
+              email: user.email ?? null,
+            }))
+          )}
+          ON CONFLICT(id) DO UPDATE SET
+            name = excluded.name,
+            username = excluded.username,
+            email = excluded.email,
+            updated_at = CURRENT_TIMESTAMP
+          WHERE name IS NOT excluded.name
+            OR username IS NOT excluded.username
+            OR email IS NOT excluded.email
+          RETURNING id
+        `;
+          return rows.length;
+        },
+        Effect.catchAll(
+          (error) =>
+            new DatabaseError({
+              message: `Failed to save users: ${error.message}`,
+            })
+        )
+      );
+
+      /**
+       * Retrieves the history of a todo: every recorded write that created,
+       * changed or deleted it, oldest first.
+       *
+       * Todos in the trash and todos deleted for good keep their history.
+       * Writes made before the history was added (schema version 12) are not
+       * recorded.
+       *
+       * @param id - The ID of the todo
+       * @returns Effect that resolves to the operations that changed the todo,
+       *          each with only the events of this todo
+       * @throws {TodoNotFound} When the todo neither exists nor has a history
+       * @throws {DatabaseError} When the query fails or a snapshot is invalid
+       *
+       * @example
+       * ```typescript
+       * for (const { id, name, events } of yield* DatabaseService.getTodoHistory(3)) {
+       *   console.log(`#${id} ${name}: ${events.map(describeEvent).join("; ")}`);
+       * }
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const getTodoHistory = Effect.fn("getTodoHistory")(
+        function* (id: number) {
+          const rows = yield* sql<EventRow>`
+          SELECT ${eventColumns} FROM todo_events
+          JOIN todo_operations ON todo_operations.id = todo_events.operation_id
+          WHERE todo_events.todo_id = ${id}
+          ORDER BY todo_events.id
+        `;
+          if (rows.length === 0) {
+            const found = yield* sql<{
+              id: number;
+            }>`SELECT id FROM todos WHERE id = ${id}`;
+            if (found.length === 0) {
+              return yield* new TodoNotFound({ id });
+            }
+          }
+          return yield* operationsFrom(rows);
+        },
+        (effect, id) => {
+          const failed = (error: { readonly message: string }) =>
+            new DatabaseError({
+              message: `Failed to fetch history of todo ${id}: ${error.message}`,
+            });
+          return effect.pipe(
+            Effect.catchTags({ SqlError: failed, ParseError: failed })
+          );
+        }
+      );
+
+      /**
+       * Retrieves the recorded writes with the changes they made, oldest
+       * first. Undone writes are included, with the undo that reverted them.
+       *
+       * @param since - Only return writes made at most this long ago (all
+       *                writes when omitted)
+       * @returns Effect that resolves to the operations with their events
+       * @throws {DatabaseError} When the query fails or a snapshot is invalid
+       *
+       * @example
+       * ```typescript
+       * const today = yield* DatabaseService.getOperations(Duration.days(1));
+       * console.log(`${today.length} write(s) in the last day`);
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const getOperations = Effect.fn("getOperations")(
+        function* (since?: Duration.Duration) {
+          const cutoff =
+            since === undefined
+              ? sql``
+              : sql`AND todo_operations.created_at >= datetime('now', ${`-${Math.floor(
+                  Duration.toSeconds(since)
+                )} seconds`})`;
+          const rows = yield* sql<EventRow>`
+          SELECT ${eventColumns} FROM todo_operations
+          LEFT JOIN todo_events ON todo_events.operation_id = todo_operations.id
+          WHERE todo_operations.in_progress = 0 ${cutoff}
+          ORDER BY todo_operations.id, todo_events.id
+        `;
+          return yield* operationsFrom(rows);
+        },
+        (effect) => {
+          const failed = (error: { readonly message: string }) =>
+            new DatabaseError({
+              message: `Failed to fetch history: ${error.message}`,
+            });
+          return effect.pipe(
+            Effect.catchTags({ SqlError: failed, ParseError: failed })
+          );
+        }
+      );
+
+      /**
+       * Reverts the most recent writes that were not undone yet.
+       *
+       * This method:
+       * - Picks the given number of writes, newest first, skipping writes
+       *   already undone and undos themselves, so repeated undos keep going
+       *   back in time
+       * - Puts every todo they touched back the way it was before, sync
+       *   bookkeeping included: created todos are deleted, changed ones get
+       *   their old fields and tags back, and todos deleted for good come
+       *   back with their tags
+       * - Records the revert as an `undo` operation, which the undone
+       *   writes point at
+       *
+       * Undo only changes the local database; changes that were already
+       * pushed stay on the API until the next push or sync. Users and other
+       * writes that do not change todos or their tags are not undone.
+       *
+       * @param steps - How many writes to revert
+       * @returns Effect that resolves to the reverted operations, newest
+       *          first; empty when there was nothing to undo
+       * @throws {DatabaseError} When a query fails; nothing is reverted then
+       *
+       * @example
+       * ```typescript
+       * const [undone] = yield* DatabaseService.undoOperations(1);
+       * if (undone) console.log(`Undid ${undone.name} of ${undone.events.length} todo(s)`);
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const undoOperations = Effect.fn("undoOperations")(
+        function* (steps: number) {
+          const ids = (yield* sql<{ id: number }>`
+          SELECT id FROM todo_operations
+          WHERE undone_by IS NULL AND name != 'undo' AND in_progress = 0
+          ORDER BY id DESC
+          LIMIT ${steps}
+        `).map((row) => row.id);
+          if (ids.length === 0) {
+            return [];
+          }
+          const undone = yield* operationsFrom(
+            yield* sql<EventRow>`
+            SELECT ${eventColumns} FROM todo_operations
+            LEFT JOIN todo_events ON todo_events.operation_id = todo_operations.id
+            WHERE ${sql.in("todo_operations.id", ids)}
+            ORDER BY todo_operations.id DESC, todo_events.id
+          `
+          );
+
+          // Revert the events one by one, the last one first
+          const events = yield* sql<{
+            readonly kind: TodoEvent["kind"];
+            readonly before: string | null;
+            readonly after: string | null;
+          }>`
+          SELECT kind, before, after FROM todo_events
+          WHERE ${sql.in("operation_id", ids)}
+          ORDER BY id DESC
+        `;
+          for (const event of events) {
+            if (event.kind === "created") {
+              yield* sql`DELETE FROM todos WHERE id = json_extract(${event.after}, '$.id')`;
+              continue;
+            }
+            const before: Record<string, unknown> = JSON.parse(event.before!);
+            if (event.kind === "deleted") {
+              yield* insertSnapshot(before);
+            } else {
+              yield* sql`
+              UPDATE todos SET ${sql.update(snapshotRow(before))}
+              WHERE id = json_extract(${event.after}, '$.id')
+            `;
+              // Tag changes record the tags the todo had before
+              if (Array.isArray(before.tags)) {
+                yield* sql`DELETE FROM todo_tags WHERE todo_id = ${
+                  before.id as number
+                }`;
+                yield* attachTags(before.id as number, before.tags);
+              }
+            }
+          }
+
+          yield* sql`
+          UPDATE todo_operations SET undone_by = (
+            SELECT MAX(id) FROM todo_operations WHERE in_progress = 1
+          )
+          WHERE ${sql.in("id", ids)}
+        `;
+          return undone;
+        },
+        (effect) => {
+          const failed = (error: { readonly message: string }) =>
+            new DatabaseError({
+              message: `Failed to undo: ${error.message}`,
+            });
+          return recorded("undo", effect).pipe(
+            Effect.catchTags({ SqlError: failed, ParseError: failed })
+          );
+        }
+      );
+
       return {
         initializeDatabase,
-        getTodoById,
-        getAllTodos,
-        createTodo,
-        clearAllTodos,
-        saveTodo,
+        getTodoById: guarded(getTodoById),
+        getAllTodos: guarded(getAllTodos),
+        queryTodos: guarded(queryTodos),
+        searchTodos: guarded(searchTodos),
+        createTodo: guarded(createTodo),
+        clearTodos: guarded(clearTodos),
+        getBackups: guarded(getBackups),
+        restoreBackup: guarded(restoreBackup),
+        saveTodo: guarded(saveTodo),
+        saveTodos: guarded(saveTodos),
+        importTodos: guarded(importTodos),
+        updateTodo: guarded(updateTodo),
+        moveTodo: guarded(moveTodo),
+        getDirtyTodos: guarded(getDirtyTodos),
+        markTodoPushed: guarded(markTodoPushed),
+        keepLocalChanges: guarded(keepLocalChanges),
+        deleteTodo: guarded(deleteTodo),
+        getTrashedTodos: guarded(getTrashedTodos),
+        restoreTodo: guarded(restoreTodo),
+        emptyTrash: guarded(emptyTrash),
+        addTags: guarded(addTags),
+        removeTags: guarded(removeTags),
+        getTags: guarded(getTags),
+        renameTag: guarded(renameTag),
+        getSubtaskCounts: guarded(getSubtaskCounts),
+        getUsers: guarded(getUsers),
+        getUserById: guarded(getUserById),
+        addUser: guarded(addUser),
+        saveUsers: guarded(saveUsers),
+        getTodoHistory: guarded(getTodoHistory),
+        getOperations: guarded(getOperations),
+        undoOperations: guarded(undoOperations),
       };
     }),
-    dependencies: [
-      SqliteClient.layer({ filename: path.join(process.cwd(), "todos.db") }),
-    ],
     accessors: true,
   }
 ) {}
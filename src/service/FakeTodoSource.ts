@@ -0,0 +1,129 @@
+import { Effect, Option, Ref } from "effect";
+import type {
+  RemoteTodo,
+  RemoteUser,
+  TodoSource,
+} from "../domain/TodoSource.js";
+import { TodoSourceError } from "../domain/TodoServiceErrors.js";
+
+/**
+ * Todos the fake backend starts out with.
+ * @since 1.0.0
+ */
+export const fakeTodos: ReadonlyArray<RemoteTodo> = [
+  { userId: 1, id: 1, title: "delectus aut autem", completed: false },
+  {
+    userId: 1,
+    id: 2,
+    title: "quis ut nam facilis et officia qui",
+    completed: false,
+  },
+  { userId: 1, id: 3, title: "fugiat veniam minus", completed: false },
+  { userId: 2, id: 4, title: "et porro tempora", completed: true },
+  {
+    userId: 2,
+    id: 5,
+    title: "laboriosam mollitia et enim quasi adipisci quia provident illum",
+    completed: false,
+  },
+];
+
+/**
+ * Users the fake backend knows, the owners of {@link fakeTodos}.
+ * @since 1.0.0
+ */
+export const fakeUsers: ReadonlyArray<RemoteUser> = [
+  {
+    id: 1,
+    name: "Leanne Graham",
+    username: "Bret",
+    email: "Sincere@april.biz",
+  },
+  {
+    id: 2,
+    name: "Ervin Howell",
+    username: "Antonette",
+    email: "Shanna@melissa.tv",
+  },
+];
+
+/**
+ * In-process remote backend, for trying out sync and push without a network.
+ *
+ * Starts out with {@link fakeTodos} and keeps every pushed todo in memory, so
+ * changes last until the process exits. New todos get the next free ID. Its
+ * users are always {@link fakeUsers}.
+ *
+ * @example
+ * ```typescript
+ * const fake = yield* FakeTodoSource;
+ * const raw = yield* fake.fetchTodo(1);
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class FakeTodoSource extends Effect.Service<FakeTodoSource>()(
+  "FakeTodoSource",
+  {
+    effect: Effect.gen(function* () {
+      const todos = yield* Ref.make(fakeTodos);
+
+      /**
+       * Internal helper: Fails with "not-found" for a missing todo.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const notFound = (id: number) =>
+        new TodoSourceError({
+          reason: "not-found",
+          message: `No todo with ID ${id} in the fake backend`,
+        });
+
+      const source: TodoSource = {
+        fetchTodo: (id) =>
+          Effect.flatMap(Ref.get(todos), (all) => {
+            const todo = all.find((todo) => todo.id === id);
+            return todo === undefined
+              ? Effect.fail(notFound(id))
+              : Effect.succeed(todo);
+          }),
+        listTodos: (userId) =>
+          Effect.map(Ref.get(todos), (all) =>
+            userId === undefined
+              ? all
+              : all.filter((todo) => todo.userId === userId)
+          ),
+        createTodo: (todo) =>
+          Ref.modify(todos, (all) => {
+            const created: RemoteTodo = {
+              ...todo,
+              id: Math.max(0, ...all.map(({ id }) => id)) + 1,
+            };
+            return [created, [...all, created]];
+          }),
+        replaceTodo: (id, todo) =>
+          Ref.modify(todos, (all) => {
+            const replaced: RemoteTodo = { ...todo, id };
+            return all.some((existing) => existing.id === id)
+              ? ([
+                  Option.some(replaced),
+                  all.map((existing) =>
+                    existing.id === id ? replaced : existing
+                  ),
+                ] as const)
+              : ([Option.none<RemoteTodo>(), all] as const);
+          }).pipe(
+            Effect.flatMap(
+              Option.match({
+                onNone: () => Effect.fail(notFound(id)),
+                onSome: Effect.succeed,
+              })
+            )
+          ),
+        listUsers: () => Effect.succeed(fakeUsers),
+      };
+      return source;
+    }),
+  }
+) {}
@@ -0,0 +1,217 @@
+import { Effect } from "effect";
+import { FileSystem, Path } from "@effect/platform";
+import { NodeFileSystem, NodePath } from "@effect/platform-node";
+import type {
+  RemoteTodo,
+  RemoteUser,
+  TodoSource,
+} from "../domain/TodoSource.js";
+import { TodoSourceError } from "../domain/TodoServiceErrors.js";
+import { ConfigService } from "./ConfigService.js";
+
+/**
+ * Remote backend reading and writing a local todo file.
+ *
+ * The file is the one configured with the `sourceFile` setting. Files ending
+ * in `.ndjson` or `.jsonl` hold one todo per line; any other file holds a
+ * JSON array of todos. Todos use the same JSON shape as the REST API:
+ *
+ * ```json
+ * [{ "userId": 1, "id": 1, "title": "delectus aut autem", "completed": false }]
+ * ```
+ *
+ * The file is read on every request, so edits made between commands are
+ * picked up. Pushed todos are written back in the same format; new todos get
+ * the next free ID.
+ *
+ * A todo file holds no users: every user ID its todos carry counts as a user
+ * named `User <id>`.
+ *
+ * @example
+ * ```typescript
+ * const file = yield* FileTodoSource;
+ * const raw = yield* file.listTodos();
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class FileTodoSource extends Effect.Service<FileTodoSource>()(
+  "FileTodoSource",
+  {
+    effect: Effect.gen(function* () {
+      const config = yield* ConfigService;
+      const fs = yield* FileSystem.FileSystem;
+      const path = yield* Path.Path;
+
+      /** Serializes writes, so concurrent pushes do not lose each other's todos */
+      const writeLock = yield* Effect.makeSemaphore(1);
+
+      /**
+       * Internal helper: Reads every entry of the todo file, undecoded.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const readEntries = Effect.fn("readEntries")(function* () {
+        const { value: file } = yield* config.resolve("sourceFile");
+        const ndjson = [".ndjson", ".jsonl"].includes(path.extname(file));
+        const text = yield* fs.readFileString(file).pipe(
+          Effect.mapError(
+            (error) =>
+              new TodoSourceError({
+                reason: "network",
+                message: `Cannot read todo file ${file}: ${error.message}`,
+              })
+          )
+        );
+        const entries = yield* Effect.try({
+          try: (): unknown =>
+            ndjson
+              ? text
+                  .split("\n")
+                  .filter((line) => line.trim() !== "")
+                  .map((line) => JSON.parse(line))
+              : JSON.parse(text),
+          catch: (error) =>
+            new TodoSourceError({
+              reason: "invalid",
+              message: `Todo file ${file} is not valid ${
+                ndjson ? "NDJSON" : "JSON"
+              }: ${String(error)}`,
+            }),
+        });
+        if (!Array.isArray(entries)) {
+          return yield* new TodoSourceError({
+            reason: "invalid",
+            message: `Todo file ${file} must contain a JSON array of todos`,
+          });
+        }
+        return { file, ndjson, entries: entries as Array<unknown> };
+      });
+
+      /**
+       * Internal helper: Replaces the contents of the todo file, keeping its format.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const writeEntries = (
+        file: string,
+        ndjson: boolean,
+        entries: ReadonlyArray<unknown>
+      ) =>
+        fs
+          .writeFileString(
+            file,
+            ndjson
+              ? entries.map((entry) => `${JSON.stringify(entry)}\n`).join("")
+              : `${JSON.stringify(entries, null, 2)}\n`
+          )
+          .pipe(
+            Effect.mapError(
+              (error) =>
+                new TodoSourceError({
+                  reason: "network",
+                  message: `Cannot write todo file ${file}: ${error.message}`,
+                })
+            )
+          );
+
+      /**
+       * Internal helper: Reads the ID of an entry, if it has a numeric one.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const entryId = (entry: unknown): number | undefined =>
+        typeof entry === "object" &&
+        entry !== null &&
+        "id" in entry &&
+        typeof entry.id === "number"
+          ? entry.id
+          : undefined;
+
+      /**
+       * Internal helper: Fails with "not-found" for a missing todo.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const notFound = (file: string, id: number) =>
+        new TodoSourceError({
+          reason: "not-found",
+          message: `No todo with ID ${id} in ${file}`,
+        });
+
+      const source: TodoSource = {
+        fetchTodo: (id) =>
+          Effect.flatMap(readEntries(), ({ file, entries }) => {
+            const entry = entries.find((entry) => entryId(entry) === id);
+            return entry === undefined
+              ? Effect.fail(notFound(file, id))
+              : Effect.succeed(entry);
+          }),
+        listTodos: (userId) =>
+          Effect.map(readEntries(), ({ entries }) =>
+            userId === undefined
+              ? entries
+              : entries.filter(
+                  (entry) =>
+                    typeof entry === "object" &&
+                    entry !== null &&
+                    "userId" in entry &&
+                    entry.userId === userId
+                )
+          ),
+        createTodo: (todo) =>
+          writeLock.withPermits(1)(
+            Effect.gen(function* () {
+              const { file, ndjson, entries } = yield* readEntries();
+              const created: RemoteTodo = {
+                ...todo,
+                id: Math.max(0, ...entries.map((e) => entryId(e) ?? 0)) + 1,
+              };
+              yield* writeEntries(file, ndjson, [...entries, created]);
+              return created;
+            })
+          ),
+        replaceTodo: (id, todo) =>
+          writeLock.withPermits(1)(
+            Effect.gen(function* () {
+              const { file, ndjson, entries } = yield* readEntries();
+              const index = entries.findIndex((entry) => entryId(entry) === id);
+              if (index === -1) {
+                return yield* notFound(file, id);
+              }
+              const replaced: RemoteTodo = { ...todo, id };
+              yield* writeEntries(
+                file,
+                ndjson,
+                entries.map((entry, i) => (i === index ? replaced : entry))
+              );
+              return replaced;
+            })
+          ),
+        listUsers: () =>
+          Effect.map(readEntries(), ({ entries }) =>
+            [
+              ...new Set(
+                entries.flatMap((entry) =>
+                  typeof entry === "object" &&
+                  entry !== null &&
+                  "userId" in entry &&
+                  typeof entry.userId === "number"
+                    ? [entry.userId]
+                    : []
+                )
+              ),
+            ]
+              .sort((a, b) => a - b)
+              .map((id): RemoteUser => ({ id, name: `User ${id}` }))
+          ),
+      };
+      return source;
+    }),
+    dependencies: [NodeFileSystem.layer, NodePath.layer, ConfigService.Default],
+  }
+) {}
@@ -0,0 +1,273 @@
+/**
+ * On-disk cache of remote API responses.
+ *
+ * Responses of GET requests to the REST backend are stored in the
+ * `http_cache` table of the local database, together with their ETag and
+ * Last-Modified validators. Later requests for the same URL send the
+ * validators back (If-None-Match / If-Modified-Since); when the API answers
+ * `304 Not Modified`, the cached body is reused instead of downloading it
+ * again (see RestTodoSource).
+ *
+ * Features:
+ * - One entry per URL, replaced on every full download
+ * - Hit counter for every reused body
+ * - Statistics and clearing for the `cache` command
+ *
+ * @example
+ * ```typescript
+ * import { Effect, Option } from "effect";
+ * import { HttpCacheService } from "./service/HttpCacheService.js";
+ *
+ * const program = Effect.gen(function* () {
+ *   const entry = yield* HttpCacheService.lookup("https://example.com/todos/1");
+ *   if (Option.isSome(entry)) {
+ *     console.log(`Cached with ETag ${entry.value.etag}`);
+ *   }
+ * });
+ * ```
+ *
+ * @since 1.0.0
+ */
+
+import { Context, Effect, Option } from "effect";
+import { SqlClient } from "@effect/sql";
+import { DatabaseError } from "../domain/DatabaseErrors.js";
+import { MigrationService } from "./MigrationService.js";
+
+/**
+ * A cached response.
+ * @since 1.0.0
+ */
+export interface HttpCacheEntry {
+  /** Full URL of the request */
+  readonly url: string;
+  /** Value of the ETag response header, if the API sent one */
+  readonly etag: Option.Option<string>;
+  /** Value of the Last-Modified response header, if the API sent one */
+  readonly lastModified: Option.Option<string>;
+  /** The response body */
+  readonly body: string;
+}
+
+/**
+ * Summary of the cache contents.
+ * @since 1.0.0
+ */
+export interface HttpCacheStats {
+  /** Number of cached URLs */
+  readonly entries: number;
+  /** Total size of the cached bodies, in bytes */
+  readonly bytes: number;
+  /** How often a cached body was reused after a 304 */
+  readonly hits: number;
+  /** When the oldest body was downloaded, if any */
+  readonly oldest: Option.Option<string>;
+  /** When the newest body was downloaded, if any */
+  readonly newest: Option.Option<string>;
+}
+
+/**
+ * Whether requests may be answered from the cache.
+ *
+ * Defaults to true; `sync --no-cache` turns it off for one run, so that every
+ * todo is downloaded in full. Fresh responses are still stored either way.
+ *
+ * @since 1.0.0
+ */
+export class HttpCacheEnabled extends Context.Reference<HttpCacheEnabled>()(
+  "HttpCacheEnabled",
+  { defaultValue: () => true }
+) {}
+
+export class HttpCacheService extends Effect.Service<HttpCacheService>()(
+  "HttpCacheService",
+  {
+    effect: Effect.gen(function* () {
+      const sql = yield* SqlClient.SqlClient;
+      const migrations = yield* MigrationService;
+
+      /**
+       * Guard run before every cache operation, so that an outdated database
+       * fails with SchemaOutdated rather than a missing table.
+       */
+      const ensureSchemaCurrent = yield* Effect.cached(
+        migrations.ensureCurrent()
+      );
+
+      /**
+       * Looks up the cached response for a URL.
+       *
+       * @param url - Full URL of the request
+       * @returns Effect that resolves to the entry, or None when the URL is not cached
+       * @throws {DatabaseError} When the query fails
+       *
+       * @since 1.0.0
+       */
+      const lookup = Effect.fn("lookup")(
+        function* (url: string) {
+          const rows = yield* sql<{
+            readonly etag: string | null;
+            readonly last_modified: string | null;
+            readonly body: string;
+          }>`SELECT etag, last_modified, body FROM http_cache WHERE url = ${url}`;
+          return Option.map(
+            Option.fromNullable(rows[0]),
+            (row): HttpCacheEntry => ({
+              url,
+              etag: Option.fromNullable(row.etag),
+              lastModified: Option.fromNullable(row.last_modified),
+              body: row.body,
+            })
+          );
+        },
+        Effect.catchAll(
+          (error) =>
+            new DatabaseError({
+              message: `Failed to read the HTTP cache: ${error.message}`,
+            })
+        )
+      );
+
+      /**
+       * Stores a freshly downloaded response, replacing any previous entry
+       * for the same URL.
+       *
+       * @param entry - The response to store
+       * @returns Effect that completes when the entry is stored
+       * @throws {DatabaseError} When the query fails
+       *
+       * @since 1.0.0
+       */
+      const store = Effect.fn("store")(
+        function* (entry: HttpCacheEntry) {
+          yield* sql`
+            INSERT INTO http_cache (url, etag, last_modified, body, hits, stored_at)
+            VALUES (${entry.url}, ${Option.getOrNull(
+            entry.etag
+          )}, ${Option.getOrNull(entry.lastModified)}, ${
+            entry.body
+          }, 0, CURRENT_TIMESTAMP)
+            ON CONFLICT (url) DO UPDATE SET
+              etag = excluded.etag,
+              last_modified = excluded.last_modified,
+              body = excluded.body,
+              hits = 0,
+              stored_at = excluded.stored_at
+          `;
+        },
+        Effect.catchAll(
+          (error) =>
+            new DatabaseError({
+              message: `Failed to write the HTTP cache: ${error.message}`,
+            })
+        )
+      );
+
+      /**
+       * Records that the cached body of a URL was reused after a 304.
+       *
+       * @param url - Full URL of the request
+       * @returns Effect that completes when the hit is counted
+       * @throws {DatabaseError} When the query fails
+       *
+       * @since 1.0.0
+       */
+      const recordHit = Effect.fn("recordHit")(
+        function* (url: string) {
+          yield* sql`UPDATE http_cache SET hits = hits + 1 WHERE url = ${url}`;
+        },
+        Effect.catchAll(
+          (error) =>
+            new DatabaseError({
+              message: `Failed to write the HTTP cache: ${error.message}`,
+            })
+        )
+      );
+
+      /**
+       * Summarizes the cache contents.
+       *
+       * @returns Effect that resolves to the number of entries, their size and hits
+       * @throws {DatabaseError} When the query fails
+       *
+       * @example
+       * ```typescript
+       * const { entries, bytes } = yield* HttpCacheService.stats();
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const stats = Effect.fn("stats")(
+        function* () {
+          const [row] = yield* sql<{
+            readonly entries: number;
+            readonly bytes: number | null;
+            readonly hits: number | null;
+            readonly oldest: string | null;
+            readonly newest: string | null;
+          }>`SELECT COUNT(*) AS entries, SUM(LENGTH(CAST(body AS BLOB))) AS bytes, SUM(hits) AS hits, MIN(stored_at) AS oldest, MAX(stored_at) AS newest FROM http_cache`;
+          const result: HttpCacheStats = {
+            entries: row?.entries ?? 0,
+            bytes: row?.bytes ?? 0,
+            hits: row?.hits ?? 0,
+            oldest: Option.fromNullable(row?.oldest),
+            newest: Option.fromNullable(row?.newest),
+          };
+          return result;
+        },
+        Effect.catchAll(
+          (error) =>
+            new DatabaseError({
+              message: `Failed to read the HTTP cache: ${error.message}`,
+            })
+        )
+      );
+
+      /**
+       * Removes every cached response.
+       *
+       * @returns Effect that resolves to the number of removed entries
+       * @throws {DatabaseError} When the query fails
+       *
+       * @since 1.0.0
+       */
+      const clear = Effect.fn("clear")(
+        function* () {
+          const rows = yield* sql<{
+            readonly url: string;
+          }>`DELETE FROM http_cache RETURNING url`;
+          return rows.length;
+        },
+        Effect.catchAll(
+          (error) =>
+            new DatabaseError({
+              message: `Failed to clear the HTTP cache: ${error.message}`,
+            })
+        )
+      );
+
+      /**
+       * Internal helper: Wraps a cache operation so that it first verifies
+       * the schema version.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const guarded =
+        <Args extends ReadonlyArray<unknown>, A, E, R>(
+          operation: (...args: Args) => Effect.Effect<A, E, R>
+        ) =>
+        (...args: Args) =>
+          Effect.zipRight(ensureSchemaCurrent, operation(...args));
+
+      return {
+        lookup: guarded(lookup),
+        store: guarded(store),
+        recordHit: guarded(recordHit),
+        stats: guarded(stats),
+        clear: guarded(clear),
+      };
+    }),
+    accessors: true,
+  }
+) {}
@@ -0,0 +1,362 @@
+/**
+ * Migration service for evolving the SQLite schema.
+ *
+ * This service applies and reverts the ordered migrations registered in
+ * `src/migrations` and records each applied migration, with a checksum of its
+ * statements, in the `schema_migrations` table.
+ *
+ * Features:
+ * - Ordered, transactional migrations (one transaction per migration)
+ * - Checksum verification of already applied migrations
+ * - Migrating up or down to a specific version
+ * - Adoption of databases created before migrations existed
+ * - A guard that refuses to work with outdated or unknown schema versions
+ *
+ * @example
+ * ```typescript
+ * import { Effect } from "effect";
+ * import { MigrationService } from "./service/MigrationService.js";
+ *
+ * const program = Effect.gen(function* () {
+ *   const applied = yield* MigrationService.migrateUp();
+ *   console.log(`Applied ${applied.length} migration(s)`);
+ * });
+ * ```
+ *
+ * @since 1.0.0
+ */
+
+import { Effect } from "effect";
+import { SqlClient } from "@effect/sql";
+import { createHash } from "crypto";
+import type { Migration, MigrationStatus } from "../domain/Migration.js";
+import { MigrationError, SchemaOutdated } from "../domain/MigrationErrors.js";
+import { migrations } from "../migrations/index.js";
+
+/**
+ * Computes the checksum of a migration's statements.
+ *
+ * @param migration - The migration to fingerprint
+ * @returns Hex-encoded SHA-256 digest of the up and down statements
+ *
+ * @since 1.0.0
+ */
+export const migrationChecksum = (migration: Migration): string =>
+  createHash("sha256")
+    .update(JSON.stringify({ up: migration.up, down: migration.down }))
+    .digest("hex");
+
+export class MigrationService extends Effect.Service<MigrationService>()(
+  "MigrationService",
+  {
+    effect: Effect.gen(function* () {
+      const sql = yield* SqlClient.SqlClient;
+
+      /** Version of the newest migration known to the code */
+      const latestVersion =
+        migrations.length === 0 ? 0 : migrations[migrations.length - 1].version;
+
+      /**
+       * Internal helper: Loads the applied migrations, creating the
+       * bookkeeping table on first use.
+       *
+       * A database that has a todos table but no schema_migrations table was
+       * created by the pre-migration `init`. It is brought to the shape of
+       * migration 1 (adding the deleted_at column if it is missing) and
+       * recorded as being at version 1.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const loadApplied = Effect.fn("loadApplied")(function* () {
+        const existing = yield* sql<{ name: string }>`
+          SELECT name FROM sqlite_master WHERE type = 'table' AND name IN ('schema_migrations', 'todos')
+        `;
+        const tables = new Set(existing.map((row) => row.name));
+
+        if (!tables.has("schema_migrations")) {
+          yield* sql.withTransaction(
+            Effect.gen(function* () {
+              yield* sql`
+                CREATE TABLE schema_migrations (
+                  version INTEGER PRIMARY KEY,
+                  name TEXT NOT NULL,
+                  checksum TEXT NOT NULL,
+                  applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+                )
+              `;
+
+              if (tables.has("todos")) {
+                const columns = yield* sql<{
+                  name: string;
+                }>`PRAGMA table_info(todos)`;
+                if (!columns.some((column) => column.name === "deleted_at")) {
+                  yield* sql`ALTER TABLE todos ADD COLUMN deleted_at DATETIME`;
+                }
+                const [first] = migrations;
+                yield* sql`
+                  INSERT INTO schema_migrations (version, name, checksum)
+                  VALUES (${first.version}, ${first.name}, ${migrationChecksum(
+                  first
+                )})
+                `;
+              }
+            })
+          );
+        }
+
+        return yield* sql<{
+          readonly version: number;
+          readonly name: string;
+          readonly checksum: string;
+          readonly applied_at: string;
+        }>`SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version`;
+      });
+
+      /**
+       * Internal helper: Loads the applied migrations and verifies that each
+       * one is known to the code and still matches its recorded checksum.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const loadVerified = Effect.fn("loadVerified")(function* () {
+        const applied = yield* loadApplied();
+        for (const row of applied) {
+          const migration = migrations.find((m) => m.version === row.version);
+          if (migration === undefined) {
+            return yield* new MigrationError({
+              message: `Database has migration ${row.version} (${row.name}) applied, which this CLI does not know about (latest is ${latestVersion}). Upgrade the CLI to use this database.`,
+            });
+          }
+          if (migrationChecksum(migration) !== row.checksum) {
+            return yield* new MigrationError({
+              message: `Checksum mismatch for applied migration ${row.version} (${row.name}): the migration was changed after it was applied.`,
+            });
+          }
+        }
+        return applied;
+      });
+
+      /**
+       * Reports every known migration together with whether it is applied.
+       *
+       * Unlike the other methods this does not fail on checksum mismatches;
+       * they are reported per migration instead.
+       *
+       * @returns Effect that resolves to the current version, the latest
+       *          version and the status of each known migration
+       * @throws {MigrationError} When the migration table cannot be read
+       *
+       * @example
+       * ```typescript
+       * const { currentVersion, latestVersion } = yield* MigrationService.status();
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const status = Effect.fn("status")(
+        function* () {
+          const applied = yield* loadApplied();
+          const byVersion = new Map(applied.map((row) => [row.version, row]));
+          const statuses: Array<MigrationStatus> = migrations.map(
+            (migration) => {
+              const row = byVersion.get(migration.version);
+              return {
+                version: migration.version,
+                name: migration.name,
+                appliedAt: row?.applied_at,
+                checksumMismatch:
+                  row !== undefined &&
+                  row.checksum !== migrationChecksum(migration),
+              };
+            }
+          );
+          const currentVersion =
+            applied.length === 0 ? 0 : applied[applied.length - 1].version;
+          return { currentVersion, latestVersion, migrations: statuses };
+        },
+        Effect.catchTag(
+          "SqlError",
+          (error) =>
+            new MigrationError({
+              message: `Failed to read migration status: ${error.message}`,
+            })
+        )
+      );
+
+      /**
+       * Applies pending migrations in ascending order.
+       *
+       * Each migration runs in its own transaction together with its
+       * schema_migrations record, so a failing migration leaves the database
+       * at the previous version.
+       *
+       * @param to - Version to migrate up to (defaults to the latest version)
+       * @returns Effect that resolves to the migrations that were applied
+       * @throws {MigrationError} When a migration fails or the applied
+       *                          migrations do not match the code
+       *
+       * @example
+       * ```typescript
+       * yield* MigrationService.migrateUp();  // to the latest version
+       * yield* MigrationService.migrateUp(2); // up to version 2 only
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const migrateUp = Effect.fn("migrateUp")(
+        function* (to?: number) {
+          const target = to ?? latestVersion;
+          const applied = new Set(
+            (yield* loadVerified()).map((row) => row.version)
+          );
+          const pending = migrations.filter(
+            (migration) =>
+              !applied.has(migration.version) && migration.version <= target
+          );
+
+          for (const migration of pending) {
+            yield* sql
+              .withTransaction(
+                Effect.gen(function* () {
+                  for (const statement of migration.up) {
+                    yield* sql.unsafe(statement);
+                  }
+                  yield* sql`
+                  INSERT INTO schema_migrations (version, name, checksum)
+                  VALUES (${
+                    migration.version
+                  }, ${migration.name}, ${migrationChecksum(migration)})
+                `;
+                })
+              )
+              .pipe(
+                Effect.mapError(
+                  (error) =>
+                    new MigrationError({
+                      message: `Failed to apply migration ${migration.version} (${migration.name}): ${error.message}`,
+                    })
+                )
+              );
+          }
+
+          return pending;
+        },
+        Effect.catchTag(
+          "SqlError",
+          (error) =>
+            new MigrationError({
+              message: `Failed to migrate up: ${error.message}`,
+            })
+        )
+      );
+
+      /**
+       * Reverts applied migrations in descending order.
+       *
+       * Each migration is reverted in its own transaction together with the
+       * removal of its schema_migrations record.
+       *
+       * @param to - Version to migrate down to; every migration above it is
+       *             reverted (defaults to one step below the current version)
+       * @returns Effect that resolves to the migrations that were reverted
+       * @throws {MigrationError} When a revert fails or the applied
+       *                          migrations do not match the code
+       *
+       * @example
+       * ```typescript
+       * yield* MigrationService.migrateDown();  // revert the last migration
+       * yield* MigrationService.migrateDown(0); // revert everything
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const migrateDown = Effect.fn("migrateDown")(
+        function* (to?: number) {
+          const applied = yield* loadVerified();
+          const currentVersion =
+            applied.length === 0 ? 0 : applied[applied.length - 1].version;
+          const target = to ?? Math.max(currentVersion - 1, 0);
+          const versions = new Set(applied.map((row) => row.version));
+          const reverting = migrations
+            .filter(
+              (migration) =>
+                versions.has(migration.version) && migration.version > target
+            )
+            .reverse();
+
+          for (const migration of reverting) {
+            yield* sql
+              .withTransaction(
+                Effect.gen(function* () {
+                  for (const statement of migration.down) {
+                    yield* sql.unsafe(statement);
+                  }
+                  yield* sql`DELETE FROM schema_migrations WHERE version = ${migration.version}`;
+                })
+              )
+              .pipe(
+                Effect.mapError(
+                  (error) =>
+                    new MigrationError({
+                      message: `Failed to revert migration ${migration.version} (${migration.name}): ${error.message}`,
+                    })
+                )
+              );
+          }
+
+          return reverting;
+        },
+        Effect.catchTag(
+          "SqlError",
+          (error) =>
+            new MigrationError({
+              message: `Failed to migrate down: ${error.message}`,
+            })
+        )
+      );
+
+      /**
+       * Verifies that the database schema matches the code exactly.
+       *
+       * Database operations run this before touching any table, so that no
+       * command works against a schema that is missing migrations.
+       *
+       * @returns Effect that completes when the schema is current
+       * @throws {SchemaOutdated} When migrations are pending
+       * @throws {MigrationError} When the applied migrations do not match the code
+       *
+       * @since 1.0.0
+       */
+      const ensureCurrent = Effect.fn("ensureCurrent")(
+        function* () {
+          const applied = yield* loadVerified();
+          const currentVersion =
+            applied.length === 0 ? 0 : applied[applied.length - 1].version;
+          if (applied.length < migrations.length) {
+            return yield* new SchemaOutdated({
+              currentVersion,
+              requiredVersion: latestVersion,
+            });
+          }
+        },
+        Effect.catchTag(
+          "SqlError",
+          (error) =>
+            new MigrationError({
+              message: `Failed to check schema version: ${error.message}`,
+            })
+        )
+      );
+
+      return {
+        status,
+        migrateUp,
+        migrateDown,
+        ensureCurrent,
+      };
+    }),
+    accessors: true,
+  }
+) {}
@@ -17,6 +17,7 @@ import { NodeTerminal } from "@effect/platform-node";
  * Service for creating and managing progress bar displays.
  *
  * This service provides high-level methods for:
+ * - Formatting progress messages for screens that place them themselves
  * - Initializing progress displays in the terminal
  * - Updating progress with automatic cursor management
  * - Consistent visual styling across the application
@@ -52,7 +53,7 @@ export class ProgressBarService extends Effect.Service<ProgressBarService>()(
       const terminal = yield* Terminal.Terminal;
 
       /**
-       * Internal helper: Creates a formatted progress message with a visual progress bar for sync operations.
+       * Creates a formatted progress message with a visual progress bar for sync operations.
        *
        * This function generates a string containing:
        * - A visual progress bar using block characters (█)
@@ -64,28 +65,35 @@ export class ProgressBarService extends Effect.Service<ProgressBarService>()(
        * - Empty spaces for remaining progress
        * - Hourglass emoji (⏳) prefix for sync operations
        *
-       * This function is not exposed in the public API.
+       * Screens that place the progress themselves, like the `tui` command,
+       * use the message directly instead of initializeProgress/updateProgress.
        *
        * @param completed - Number of completed items (must be >= 0)
        * @param total - Total number of items (must be > 0)
        * @returns Effect that resolves to a formatted progress string with visual bar and statistics
        *
-       * @internal
+       * @example
+       * ```typescript
+       * const message = yield* progressBar.formatProgress(1, 3);
+       * // "⏳ Progress: [██████████                    ] 1/3 (33%)"
+       * ```
+       *
        * @since 1.0.0
        */
-      const createSyncProgressMessage = Effect.fn("createSyncProgressMessage")(
-        function* (completed: number, total: number) {
-          const percentage = Math.round((completed / total) * 100);
-          const barWidth = 30;
-          const filledWidth = Math.round((completed / total) * barWidth);
-          const emptyWidth = barWidth - filledWidth;
+      const formatProgress = Effect.fn("formatProgress")(function* (
+        completed: number,
+        total: number
+      ) {
+        const percentage = Math.round((completed / total) * 100);
+        const barWidth = 30;
+        const filledWidth = Math.round((completed / total) * barWidth);
+        const emptyWidth = barWidth - filledWidth;
 
-          const filledBar = "█".repeat(filledWidth);
-          const emptyBar = " ".repeat(emptyWidth);
+        const filledBar = "█".repeat(filledWidth);
+        const emptyBar = " ".repeat(emptyWidth);
 
-          return `⏳ Progress: [${filledBar}${emptyBar}] ${completed}/${total} (${percentage}%)`;
-        }
-      );
+        return `⏳ Progress: [${filledBar}${emptyBar}] ${completed}/${total} (${percentage}%)`;
+      });
 
       /**
        * Initializes the progress display in the terminal.
@@ -111,10 +119,7 @@ export class ProgressBarService extends Effect.Service<ProgressBarService>()(
         completed: number,
         total: number
       ) {
-        const initialProgress = yield* createSyncProgressMessage(
-          completed,
-          total
-        );
+        const initialProgress = yield* formatProgress(completed, total);
         // Write initial progress without newline using terminal service
         yield* terminal.display(initialProgress);
       });
@@ -154,10 +159,7 @@ export class ProgressBarService extends Effect.Service<ProgressBarService>()(
         completed: number,
         total: number
       ) {
-        const progressMessage = yield* createSyncProgressMessage(
-          completed,
-          total
-        );
+        const progressMessage = yield* formatProgress(completed, total);
         // Use carriage return to go back to beginning of line and overwrite
         yield* terminal.display(`\r${progressMessage}`);
 
@@ -168,6 +170,7 @@ export class ProgressBarService extends Effect.Service<ProgressBarService>()(
       });
 
       return {
+        formatProgress,
         initializeProgress,
         updateProgress,
       };
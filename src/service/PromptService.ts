@@ -0,0 +1,118 @@
+/**
+ * Prompt service for asking the user questions in the terminal.
+ *
+ * This service runs the prompts of `@effect/cli` on behalf of commands that
+ * ask for missing arguments or confirm destructive operations. It only
+ * prompts when standard input is a terminal: in scripts and pipes it fails
+ * with {@link NotInteractive} instead, so that a command never waits for
+ * input that cannot come.
+ *
+ * @since 1.0.0
+ */
+
+import { Context, Effect } from "effect";
+import type { Prompt } from "@effect/cli";
+import { Terminal } from "@effect/platform";
+import { NodeTerminal } from "@effect/platform-node";
+import { NotInteractive } from "../domain/PromptErrors.js";
+
+/**
+ * Whether questions can be asked, i.e. whether standard input is a terminal.
+ *
+ * Defaults to what the process was started with; tests provide it to
+ * exercise both cases.
+ *
+ * @since 1.0.0
+ */
+export class Interactive extends Context.Reference<Interactive>()(
+  "Interactive",
+  { defaultValue: () => process.stdin.isTTY === true }
+) {}
+
+/**
+ * Service for asking the user questions.
+ *
+ * @example
+ * ```typescript
+ * import { Prompt } from "@effect/cli";
+ * import { PromptService } from "./service/PromptService.js";
+ *
+ * const program = Effect.gen(function* () {
+ *   const prompts = yield* PromptService;
+ *   const title = yield* prompts.ask(
+ *     Prompt.text({ message: "Title" }),
+ *     "the todo title"
+ *   );
+ * });
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class PromptService extends Effect.Service<PromptService>()(
+  "PromptService",
+  {
+    effect: Effect.gen(function* () {
+      const terminal = yield* Terminal.Terminal;
+
+      /**
+       * Fails unless questions can be asked.
+       *
+       * Commands call it up front when they will have to ask later, so that
+       * they fail before doing any work.
+       *
+       * @param subject - What would be asked, e.g. `the todo title`
+       * @returns Effect that completes when standard input is a terminal
+       * @throws {NotInteractive} When standard input is not a terminal
+       *
+       * @example
+       * ```typescript
+       * yield* prompts.ensureInteractive("how to resolve conflicts");
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const ensureInteractive = Effect.fn("ensureInteractive")(function* (
+        subject: string
+      ) {
+        if (!(yield* Interactive)) {
+          return yield* new NotInteractive({
+            message: `Cannot ask for ${subject}: standard input is not a terminal`,
+          });
+        }
+      });
+
+      /**
+       * Asks a question and waits for the answer.
+       *
+       * @param prompt - The prompt to show
+       * @param subject - What is asked, for the error when it cannot be
+       * @returns Effect that resolves to the answer
+       * @throws {NotInteractive} When standard input is not a terminal
+       * @throws {QuitException} When the user quits the prompt with Ctrl-C
+       *
+       * @example
+       * ```typescript
+       * const sure = yield* prompts.ask(
+       *   Prompt.confirm({ message: "Delete everything?" }),
+       *   "a confirmation"
+       * );
+       * ```
+       *
+       * @since 1.0.0
+       */
+      const ask = <A>(prompt: Prompt.Prompt<A>, subject: string) =>
+        ensureInteractive(subject).pipe(
+          Effect.zipRight(prompt),
+          Effect.provideService(Terminal.Terminal, terminal),
+          Effect.withSpan("ask")
+        );
+
+      return {
+        ensureInteractive,
+        ask,
+      };
+    }),
+    dependencies: [NodeTerminal.layer],
+    accessors: true,
+  }
+) {}
@@ -0,0 +1,431 @@
+/**
+ * Rendering service for printing todos in the selected output format.
+ *
+ * This service is the single place that turns todos into console output.
+ * Commands hand it the todos to show together with the human-oriented
+ * header/footer lines, and the service prints them according to the
+ * {@link CurrentOutputFormat} chosen with the global `--format` option.
+ *
+ * Machine-readable formats (json, ndjson, csv) only contain the data:
+ * headers and footers are omitted, and todos are encoded with the Todo
+ * schema so that `completed` is a real boolean.
+ *
+ * @since 1.0.0
+ */
+
+import { Console, Context, Effect, Schema } from "effect";
+import { Terminal } from "@effect/platform";
+import { NodeTerminal } from "@effect/platform-node";
+import { Todo } from "../domain/Todo.js";
+import { csvColumns, csvTagSeparator } from "../domain/TodoFile.js";
+import type { OutputFormat } from "../domain/OutputFormat.js";
+import type { SearchHit } from "../domain/TodoSearch.js";
+import {
+  buildTodoTree,
+  drawTodoTree,
+  type SubtaskCount,
+} from "../domain/TodoTree.js";
+
+/**
+ * The output format in effect for the current command.
+ *
+ * Provided by the root command from the global `--format` option and
+ * defaults to "pretty" when nothing is provided.
+ *
+ * @since 1.0.0
+ */
+export class CurrentOutputFormat extends Context.Reference<CurrentOutputFormat>()(
+  "CurrentOutputFormat",
+  { defaultValue: (): OutputFormat => "pretty" }
+) {}
+
+/**
+ * A todo encoded with the Todo schema, as emitted by the machine-readable formats.
+ * @since 1.0.0
+ */
+export type EncodedTodo = typeof Todo.Encoded;
+
+/**
+ * Quotes a CSV field when it contains a delimiter, quote or line break.
+ */
+const csvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Formats encoded todos as CSV with a header row, in the columns that
+ * `import` reads back (see {@link csvColumns}).
+ *
+ * Tags are separated by spaces and fields a todo does not have are left
+ * empty. Fields containing commas, quotes or line breaks are quoted as
+ * described in RFC 4180.
+ *
+ * @param todos - Encoded todos to format
+ * @returns The CSV document, without a trailing newline
+ *
+ * @since 1.0.0
+ */
+export const formatCsv = (todos: ReadonlyArray<EncodedTodo>): string =>
+  [
+    csvColumns.join(","),
+    ...todos.map((todo) =>
+      csvColumns
+        .map((column) => {
+          const value =
+            column === "tags" ? todo.tags?.join(csvTagSeparator) : todo[column];
+          return csvField(value === undefined ? "" : String(value));
+        })
+        .join(",")
+    ),
+  ].join("\n");
+
+/**
+ * Formats encoded todos as a table with aligned columns.
+ *
+ * The ID, user and status columns are sized to their content; the title
+ * column takes the remaining width and longer titles are truncated with an
+ * ellipsis so that no line exceeds `width` characters.
+ *
+ * @param todos - Encoded todos to format
+ * @param width - Maximum line width (typically the terminal width)
+ * @returns The table, without a trailing newline
+ *
+ * @since 1.0.0
+ */
+export const formatTable = (
+  todos: ReadonlyArray<EncodedTodo>,
+  width: number
+): string => {
+  const header = ["ID", "USER", "STATUS", "TITLE"];
+  const rows = todos.map((todo) => [
+    String(todo.id),
+    String(todo.userId),
+    todo.completed ? "completed" : "pending",
+    todo.title.replace(/[\r\n]+/g, " "),
+  ]);
+  const gap = "  ";
+  const fixed = [0, 1, 2].map((i) =>
+    Math.max(header[i].length, ...rows.map((row) => row[i].length))
+  );
+  const fixedWidth = fixed.reduce((a, b) => a + b, 0) + gap.length * 3;
+  const titleWidth = Math.max(header[3].length, width - fixedWidth);
+  const fit = (title: string) =>
+    title.length > titleWidth ? `${title.slice(0, titleWidth - 1)}…` : title;
+  const line = (row: ReadonlyArray<string>) =>
+    [
+      row[0].padStart(fixed[0]),
+      row[1].padStart(fixed[1]),
+      row[2].padEnd(fixed[2]),
+      fit(row[3]),
+    ]
+      .join(gap)
+      .trimEnd();
+
+  return [
+    line(header),
+    line(fixed.map((w) => "-".repeat(w)).concat("-".repeat(titleWidth))),
+    ...rows.map(line),
+  ].join("\n");
+};
+
+/**
+ * ANSI escape codes that show matched search terms in bold yellow.
+ */
+const matchStyle = { open: "\u001b[1;33m", close: "\u001b[0m" } as const;
+
+/**
+ * Formats a search hit like `Todo.pretty`, with the matched terms of the
+ * title wrapped in the given markers.
+ *
+ * @param hit - The search hit to format
+ * @param style - Text placed before and after each matched term, e.g. ANSI
+ *                escape codes
+ * @returns The formatted todo
+ *
+ * @example
+ * ```typescript
+ * formatSearchHit(hit, { open: "[", close: "]" });
+ * // Todo({ "userId": 1, "id": 1, "title": "Learn [Effect]", "completed": "pending" })
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const formatSearchHit = (
+  hit: SearchHit,
+  style: { readonly open: string; readonly close: string }
+): string => {
+  // Todo.pretty prints the title as a JSON string, so the highlighted title
+  // is escaped the same way and put in its place
+  const title = hit.title
+    .map(({ text, match }) => {
+      const escaped = JSON.stringify(text).slice(1, -1);
+      return match ? `${style.open}${escaped}${style.close}` : escaped;
+    })
+    .join("");
+  return Todo.pretty(hit.todo).replace(
+    JSON.stringify(hit.todo.title),
+    () => `"${title}"`
+  );
+};
+
+/**
+ * Service for printing todos in the current output format.
+ *
+ * @example
+ * ```typescript
+ * import { Effect } from "effect";
+ * import { RenderService } from "./service/RenderService.js";
+ *
+ * const program = Effect.gen(function* () {
+ *   const todos = yield* DatabaseService.getAllTodos();
+ *   yield* RenderService.renderTodos(todos, {
+ *     header: "💾 All Todos from Local Database:"
+ *   });
+ * });
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class RenderService extends Effect.Service<RenderService>()(
+  "RenderService",
+  {
+    effect: Effect.gen(function* () {
+      const terminal = yield* Terminal.Terminal;
+
+      /**
+       * Internal helper: Encodes todos with the Todo schema.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const encodeTodos = Effect.fn("encodeTodos")(function* (
+        todos: ReadonlyArray<Todo>
+      ) {
+        return yield* Effect.orDie(Schema.encode(Schema.Array(Todo))(todos));
+      });
+
+      /**
+       * Prints a single todo.
+       *
+       * In the pretty format the header is printed before the todo. The json
+       * format prints the todo as a single object rather than an array.
+       *
+       * @param todo - The todo to print
+       * @param options.header - Line printed before the todo in the pretty format
+       * @returns Effect that completes when the todo is printed
+       *
+       * @since 1.0.0
+       */
+      const renderTodo = Effect.fn("renderTodo")(function* (
+        todo: Todo,
+        options: { readonly header: string }
+      ) {
+        const format = yield* CurrentOutputFormat;
+        if (format === "pretty") {
+          yield* Console.log(options.header);
+          yield* Console.log(Todo.pretty(todo));
+          return;
+        }
+        if (format === "json") {
+          const [encoded] = yield* encodeTodos([todo]);
+          yield* Console.log(JSON.stringify(encoded, null, 2));
+          return;
+        }
+        yield* renderTodos([todo], options);
+      });
+
+      /**
+       * Prints a list of todos.
+       *
+       * In the pretty format the header, each todo followed by a `---`
+       * separator, and the optional footer are printed. The table format keeps
+       * the header and footer around the table. All other formats print the
+       * data only.
+       *
+       * @param todos - The todos to print
+       * @param options.header - Line printed before the todos
+       * @param options.footer - Optional line printed after the todos
+       * @returns Effect that completes when the todos are printed
+       *
+       * @since 1.0.0
+       */
+      const renderTodos = Effect.fn("renderTodos")(function* (
+        todos: ReadonlyArray<Todo>,
+        options: { readonly header: string; readonly footer?: string }
+      ) {
+        const format = yield* CurrentOutputFormat;
+        switch (format) {
+          case "pretty": {
+            yield* Console.log(options.header);
+            for (const todo of todos) {
+              yield* Console.log(Todo.pretty(todo));
+              yield* Console.log("---");
+            }
+            break;
+          }
+          case "json": {
+            const encoded = yield* encodeTodos(todos);
+            yield* Console.log(JSON.stringify(encoded, null, 2));
+            return;
+          }
+          case "ndjson": {
+            const encoded = yield* encodeTodos(todos);
+            for (const todo of encoded) {
+              yield* Console.log(JSON.stringify(todo));
+            }
+            return;
+          }
+          case "csv": {
+            const encoded = yield* encodeTodos(todos);
+            yield* Console.log(formatCsv(encoded));
+            return;
+          }
+          case "table": {
+            const encoded = yield* encodeTodos(todos);
+            const width = yield* terminal.columns;
+            yield* Console.log(options.header);
+            yield* Console.log(formatTable(encoded, width > 0 ? width : 80));
+            break;
+          }
+        }
+        if (options.footer !== undefined) {
+          yield* Console.log(options.footer);
+        }
+      });
+
+      /**
+       * Prints the todos found by a search.
+       *
+       * In the pretty format every hit is printed like in {@link renderTodos},
+       * with the matched terms of its title highlighted when the output is a
+       * terminal. All other formats print the todos exactly as renderTodos
+       * does, in ranked order.
+       *
+       * @param hits - The search hits to print, in ranked order
+       * @param options.header - Line printed before the todos
+       * @param options.footer - Optional line printed after the todos
+       * @returns Effect that completes when the todos are printed
+       *
+       * @since 1.0.0
+       */
+      const renderSearchHits = Effect.fn("renderSearchHits")(function* (
+        hits: ReadonlyArray<SearchHit>,
+        options: { readonly header: string; readonly footer?: string }
+      ) {
+        const format = yield* CurrentOutputFormat;
+        if (format !== "pretty") {
+          yield* renderTodos(
+            hits.map((hit) => hit.todo),
+            options
+          );
+          return;
+        }
+        const style = (yield* terminal.isTTY)
+          ? matchStyle
+          : { open: "", close: "" };
+        yield* Console.log(options.header);
+        for (const hit of hits) {
+          yield* Console.log(formatSearchHit(hit, style));
+          yield* Console.log("---");
+        }
+        if (options.footer !== undefined) {
+          yield* Console.log(options.footer);
+        }
+      });
+
+      /**
+       * Prints todos in groups, each under its own heading.
+       *
+       * In the pretty format the header is followed by each group's heading
+       * and todos (each followed by a `---` separator), and the optional
+       * footer. All other formats print the todos of all groups, in order,
+       * exactly as {@link renderTodos} does.
+       *
+       * @param groups - The groups to print, each with a heading and its todos
+       * @param options.header - Line printed before the groups
+       * @param options.footer - Optional line printed after the groups
+       * @returns Effect that completes when the todos are printed
+       *
+       * @since 1.0.0
+       */
+      const renderTodoGroups = Effect.fn("renderTodoGroups")(function* (
+        groups: ReadonlyArray<{
+          readonly heading: string;
+          readonly todos: ReadonlyArray<Todo>;
+        }>,
+        options: { readonly header: string; readonly footer?: string }
+      ) {
+        const format = yield* CurrentOutputFormat;
+        if (format !== "pretty") {
+          yield* renderTodos(
+            groups.flatMap((group) => group.todos),
+            options
+          );
+          return;
+        }
+        yield* Console.log(options.header);
+        for (const { heading, todos } of groups) {
+          yield* Console.log(heading);
+          for (const todo of todos) {
+            yield* Console.log(Todo.pretty(todo));
+            yield* Console.log("---");
+          }
+        }
+        if (options.footer !== undefined) {
+          yield* Console.log(options.footer);
+        }
+      });
+
+      /**
+       * Prints todos as trees of subtasks.
+       *
+       * In the pretty format the header is followed by one line per todo,
+       * with subtasks indented under their parent using box-drawing
+       * characters, and the optional footer. Todos with subtasks end with a
+       * completion rollup such as `[2/5]`. All other formats print the todos
+       * exactly as {@link renderTodos} does; their `parentId` tells the tree.
+       *
+       * @param todos - The todos to print, in the order siblings should appear
+       * @param counts - Subtask counts by todo ID (see DatabaseService.getSubtaskCounts)
+       * @param options.header - Line printed before the tree
+       * @param options.footer - Optional line printed after the tree
+       * @returns Effect that completes when the todos are printed
+       *
+       * @since 1.0.0
+       */
+      const renderTodoTree = Effect.fn("renderTodoTree")(function* (
+        todos: ReadonlyArray<Todo>,
+        counts: ReadonlyMap<number, SubtaskCount>,
+        options: { readonly header: string; readonly footer?: string }
+      ) {
+        const format = yield* CurrentOutputFormat;
+        if (format !== "pretty") {
+          yield* renderTodos(todos, options);
+          return;
+        }
+        yield* Console.log(options.header);
+        const lines = drawTodoTree(buildTodoTree(todos), (todo) => {
+          const count = counts.get(todo.id);
+          return count === undefined
+            ? Todo.pretty(todo)
+            : `${Todo.pretty(todo)} [${count.completed}/${count.total}]`;
+        });
+        for (const line of lines) {
+          yield* Console.log(line);
+        }
+        if (options.footer !== undefined) {
+          yield* Console.log(options.footer);
+        }
+      });
+
+      return {
+        renderTodo,
+        renderTodos,
+        renderSearchHits,
+        renderTodoGroups,
+        renderTodoTree,
+      };
+    }),
+    dependencies: [NodeTerminal.layer],
+    accessors: true,
+  }
+) {}
@@ -0,0 +1,431 @@
+import {
+  Clock,
+  Data,
+  Duration,
+  Effect,
+  Option,
+  RateLimiter,
+  Ref,
+  Schedule,
+  Scope,
+} from "effect";
+import {
+  HttpClient,
+  HttpClientError,
+  HttpClientRequest,
+  HttpClientResponse,
+  UrlParams,
+} from "@effect/platform";
+import { NodeHttpClient } from "@effect/platform-node";
+import type { TodoSource, TodoSourceFailure } from "../domain/TodoSource.js";
+import {
+  CircuitOpen,
+  RateLimited,
+  RequestTimeout,
+  TodoSourceError,
+} from "../domain/TodoServiceErrors.js";
+import { ConfigService } from "./ConfigService.js";
+import { HttpCacheEnabled, HttpCacheService } from "./HttpCacheService.js";
+
+/** Number of retries of a transient failure */
+const maxRetries = 4;
+
+/** Longest Retry-After delay that is honored, in seconds */
+const maxRetryAfter = 60;
+
+/** How long an open circuit rejects requests before trying again */
+const circuitCooldown = Duration.seconds(30);
+
+/**
+ * Remote backend for JSONPlaceholder-style REST APIs.
+ *
+ * Talks to the API configured with the `apiUrl` setting (jsonplaceholder.typicode.com
+ * by default), using `GET /todos/:id`, `GET /todos[?userId=]`, `POST /todos`,
+ * `PUT /todos/:id` and `GET /users`. When the `apiAuth` setting is not empty, it is sent as
+ * the Authorization header of every request.
+ *
+ * Features:
+ * - Automatic retry of transient failures (transport errors, 5xx responses)
+ *   with exponential backoff (100ms base, 2x multiplier, max 5s, 4 retries)
+ * - A timeout per request (the `timeout` setting), reported as RequestTimeout
+ * - A token-bucket rate limit shared by all requests (the `rate` setting)
+ * - Throttling answers (429 and 503) retried after the delay of their
+ *   Retry-After header (at most 60s), reported as RateLimited when they persist
+ * - A circuit breaker: after `maxFailures` consecutive failed requests, every
+ *   request fails with CircuitOpen for 30 seconds, after which requests are
+ *   tried again
+ * - HTTP status validation (only 2xx responses are considered successful)
+ * - 404 responses reported as "not-found", undecodable bodies as "invalid"
+ * - Conditional GET requests: when the database is available, responses with
+ *   an ETag or Last-Modified header are stored in the HTTP cache (see
+ *   HttpCacheService), and a `304 Not Modified` is answered with the cached body
+ *
+ * @example
+ * ```typescript
+ * const rest = yield* RestTodoSource;
+ * const raw = yield* rest.fetchTodo(1);
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class RestTodoSource extends Effect.Service<RestTodoSource>()(
+  "RestTodoSource",
+  {
+    scoped: Effect.gen(function* () {
+      const config = yield* ConfigService;
+      const scope = yield* Effect.scope;
+
+      /**
+       * HTTP client for the configured API.
+       *
+       * Prefixes every request path with the `apiUrl` setting and adds the
+       * `apiAuth` header, both resolved per request so that a broken setting
+       * only affects API commands. Retries, timeouts and rate limiting are
+       * applied by {@link send}, and status codes are checked per request,
+       * since a 304 is only a success for conditional requests.
+       */
+      const httpClient = (yield* HttpClient.HttpClient).pipe(
+        HttpClient.mapRequestEffect((request) =>
+          Effect.gen(function* () {
+            const { value: apiUrl } = yield* config.resolve("apiUrl");
+            const { value: apiAuth } = yield* config.resolve("apiAuth");
+            const prefixed = HttpClientRequest.prependUrl(request, apiUrl);
+            return apiAuth === ""
+              ? prefixed
+              : HttpClientRequest.setHeader(prefixed, "authorization", apiAuth);
+          })
+        )
+      );
+
+      /**
+       * One rate limiter per rate, shared by every request of the process.
+       * Rates are passed as Data structs, so that equal rates share a limiter.
+       */
+      const limiterFor = yield* Effect.cachedFunction(
+        (rate: {
+          readonly limit: number;
+          readonly interval: Duration.Duration;
+        }) =>
+          Scope.extend(
+            RateLimiter.make({ ...rate, algorithm: "token-bucket" }),
+            scope
+          )
+      );
+
+      /**
+       * Circuit breaker state: the number of consecutive failed requests, and
+       * when the last of them opened the circuit.
+       */
+      const breaker = yield* Ref.make({ failures: 0, openedAt: 0 });
+
+      /**
+       * Internal helper: Turns HTTP failures into TodoSourceError.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const fromHttpError = (error: HttpClientError.HttpClientError) =>
+        new TodoSourceError({
+          reason:
+            error._tag === "ResponseError" && error.reason === "Decode"
+              ? "invalid"
+              : error._tag === "ResponseError" && error.response.status === 404
+              ? "not-found"
+              : "network",
+          message: error.message,
+        });
+
+      /** Error handlers for {@link fromHttpError}, for use with Effect.catchTags */
+      const toSourceError = {
+        RequestError: fromHttpError,
+        ResponseError: fromHttpError,
+      };
+
+      /**
+       * Internal helper: Parses a response body as JSON.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const parseBody = (url: string, body: string) =>
+        Effect.try({
+          try: (): unknown => JSON.parse(body),
+          catch: (error) =>
+            new TodoSourceError({
+              reason: "invalid",
+              message: `Invalid JSON response from ${url}: ${String(error)}`,
+            }),
+        });
+
+      /**
+       * Internal helper: Reads the delay of a Retry-After header, given either
+       * in seconds or as an HTTP date, capped at {@link maxRetryAfter}.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const retryAfterSeconds = (header: string | undefined, now: number) => {
+        if (header === undefined) {
+          return undefined;
+        }
+        const seconds = /^\d+$/.test(header.trim())
+          ? Number(header)
+          : Math.ceil((Date.parse(header) - now) / 1000);
+        return Number.isNaN(seconds)
+          ? undefined
+          : Math.min(Math.max(seconds, 0), maxRetryAfter);
+      };
+
+      /**
+       * Retry schedule of {@link send}: exponential backoff capped at 5
+       * seconds, or the delay the API asked for with Retry-After.
+       */
+      const retrySchedule = Schedule.exponential("100 millis", 2).pipe(
+        Schedule.intersect(
+          Schedule.identity<
+            TodoSourceFailure | HttpClientError.HttpClientError
+          >()
+        ),
+        Schedule.modifyDelay(([, error], delay) =>
+          error._tag === "RateLimited" && error.retryAfter !== undefined
+            ? Duration.seconds(error.retryAfter)
+            : Duration.min(delay, Duration.seconds(5))
+        ),
+        Schedule.intersect(Schedule.recurs(maxRetries))
+      );
+
+      /**
+       * Internal helper: Sends a request with the configured limits and reads
+       * its response.
+       *
+       * - Fails right away with CircuitOpen while the circuit is open
+       * - Waits for the rate limiter before every attempt
+       * - Fails an attempt with RequestTimeout when sending the request and
+       *   reading its response take longer than the `timeout` setting
+       * - Turns 429 and 503 answers into RateLimited
+       * - Retries transport errors, throttling and 5xx responses (but not
+       *   timeouts), see {@link retrySchedule}. A POST is only retried when
+       *   throttled, since the API may have created the todo before the
+       *   response got lost
+       * - Counts failed requests for the circuit breaker; missing todos and
+       *   invalid responses do not count, since the API did answer
+       *
+       * @param request - The request to send
+       * @param read - Reads a response that is not a throttling answer
+       * @returns Effect that resolves to the result of `read`
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const send = Effect.fn("send")(function* <A>(
+        request: HttpClientRequest.HttpClientRequest,
+        read: (
+          response: HttpClientResponse.HttpClientResponse
+        ) => Effect.Effect<A, HttpClientError.ResponseError | TodoSourceError>
+      ) {
+        const { value: maxFailures } = yield* config.resolve("maxFailures");
+        const { value: rate } = yield* config.resolve("rate");
+        const { value: timeout } = yield* config.resolve("timeout");
+        const { value: apiUrl } = yield* config.resolve("apiUrl");
+        const query = UrlParams.toString(request.urlParams);
+        const url = `${apiUrl}${request.url}${query === "" ? "" : `?${query}`}`;
+
+        const now = yield* Clock.currentTimeMillis;
+        const { failures, openedAt } = yield* Ref.get(breaker);
+        if (
+          maxFailures > 0 &&
+          failures >= maxFailures &&
+          now - openedAt < Duration.toMillis(circuitCooldown)
+        ) {
+          return yield* new CircuitOpen({
+            failures,
+            message: `Stopped calling the API after ${failures} consecutive failures (trying again in ${Duration.format(
+              Duration.millis(
+                Duration.toMillis(circuitCooldown) - (now - openedAt)
+              )
+            )})`,
+          });
+        }
+
+        const limiter =
+          rate === "unlimited"
+            ? undefined
+            : yield* limiterFor(Data.struct(rate));
+        const attempt = Effect.gen(function* () {
+          const response = yield* httpClient.execute(request);
+          if (response.status === 429 || response.status === 503) {
+            const retryAfter = retryAfterSeconds(
+              response.headers["retry-after"],
+              yield* Clock.currentTimeMillis
+            );
+            return yield* new RateLimited({
+              url,
+              status: response.status,
+              retryAfter,
+              message: `API is rate limiting requests to ${url} (HTTP ${
+                response.status
+              }${
+                retryAfter === undefined ? "" : `, retry after ${retryAfter}s`
+              })`,
+            });
+          }
+          return yield* read(response);
+        }).pipe(
+          Effect.timeoutFail({
+            duration: timeout,
+            onTimeout: () =>
+              new RequestTimeout({
+                url,
+                message: `Request to ${url} timed out after ${Duration.format(
+                  timeout
+                )}`,
+              }),
+          })
+        );
+
+        return yield* (limiter === undefined ? attempt : limiter(attempt)).pipe(
+          Effect.retry({
+            schedule: retrySchedule,
+            while: (error) =>
+              error._tag === "RateLimited" ||
+              (request.method !== "POST" &&
+                (error._tag === "RequestError" ||
+                  (error._tag === "ResponseError" &&
+                    error.response.status >= 500))),
+          }),
+          Effect.catchTags(toSourceError),
+          Effect.tapBoth({
+            onSuccess: () => Ref.set(breaker, { failures: 0, openedAt: 0 }),
+            onFailure: (error) =>
+              error._tag === "ConfigError"
+                ? Effect.void
+                : error._tag === "TodoSourceError" && error.reason !== "network"
+                ? Ref.set(breaker, { failures: 0, openedAt: 0 })
+                : Effect.flatMap(Clock.currentTimeMillis, (failedAt) =>
+                    Ref.update(breaker, ({ failures, openedAt }) => ({
+                      failures: failures + 1,
+                      openedAt:
+                        failures + 1 >= maxFailures ? failedAt : openedAt,
+                    }))
+                  ),
+          })
+        );
+      });
+
+      /**
+       * Internal helper: Sends a request and returns its JSON body, failing
+       * for non-2xx responses.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const execute = (request: HttpClientRequest.HttpClientRequest) =>
+        send(request, (response) =>
+          HttpClientResponse.filterStatusOk(response).pipe(
+            Effect.flatMap((ok) => ok.json)
+          )
+        );
+
+      /**
+       * Internal helper: Sends a GET request through the HTTP cache.
+       *
+       * When a response for the URL is cached (and the cache is enabled), its
+       * validators are sent with If-None-Match / If-Modified-Since, and a 304
+       * answer returns the cached body. Full responses that carry a validator
+       * are stored for the next request. The cache is best-effort: when it
+       * cannot be read or written, for example because the database is not
+       * available, the request is simply sent unconditionally.
+       *
+       * @internal
+       * @since 1.0.0
+       */
+      const cachedGet = Effect.fn("cachedGet")(function* (
+        path: string,
+        urlParams: Record<string, string> = {}
+      ) {
+        const { value: apiUrl } = yield* config.resolve("apiUrl");
+        const query = new URLSearchParams(urlParams).toString();
+        const url = `${apiUrl}${path}${query === "" ? "" : `?${query}`}`;
+        const cache = yield* Effect.serviceOption(HttpCacheService);
+        const enabled = yield* HttpCacheEnabled;
+        const cached =
+          enabled && Option.isSome(cache)
+            ? yield* cache.value
+                .lookup(url)
+                .pipe(Effect.orElseSucceed(() => Option.none()))
+            : Option.none();
+
+        let request = HttpClientRequest.get(path, { urlParams });
+        if (Option.isSome(cached)) {
+          const { etag, lastModified } = cached.value;
+          if (Option.isSome(etag)) {
+            request = HttpClientRequest.setHeader(
+              request,
+              "if-none-match",
+              etag.value
+            );
+          }
+          if (Option.isSome(lastModified)) {
+            request = HttpClientRequest.setHeader(
+              request,
+              "if-modified-since",
+              lastModified.value
+            );
+          }
+        }
+
+        return yield* send(request, (response) =>
+          Effect.gen(function* () {
+            if (response.status === 304 && Option.isSome(cached)) {
+              if (Option.isSome(cache)) {
+                yield* Effect.ignore(cache.value.recordHit(url));
+              }
+              return yield* parseBody(url, cached.value.body);
+            }
+
+            const body = yield* HttpClientResponse.filterStatusOk(
+              response
+            ).pipe(Effect.flatMap((ok) => ok.text));
+            const etag = Option.fromNullable(response.headers["etag"]);
+            const lastModified = Option.fromNullable(
+              response.headers["last-modified"]
+            );
+            if (
+              Option.isSome(cache) &&
+              (Option.isSome(etag) || Option.isSome(lastModified))
+            ) {
+              yield* Effect.ignore(
+                cache.value.store({ url, etag, lastModified, body })
+              );
+            }
+            return yield* parseBody(url, body);
+          })
+        );
+      });
+
+      const source: TodoSource = {
+        fetchTodo: (id) => cachedGet(`/todos/${id}`),
+        listTodos: (userId) =>
+          cachedGet(
+            "/todos",
+            userId === undefined ? {} : { userId: String(userId) }
+          ),
+        createTodo: (todo) =>
+          execute(
+            HttpClientRequest.post("/todos").pipe(
+              HttpClientRequest.bodyUnsafeJson(todo)
+            )
+          ),
+        replaceTodo: (id, todo) =>
+          execute(
+            HttpClientRequest.put(`/todos/${id}`).pipe(
+              HttpClientRequest.bodyUnsafeJson(todo)
+            )
+          ),
+        listUsers: () => cachedGet("/users"),
+      };
+      return source;
+    }),
+    dependencies: [NodeHttpClient.layer, ConfigService.Default],
+  }
+) {}
@@ -1,20 +1,66 @@
-import { Effect, Schema, Schedule } from "effect";
-import { HttpClient, HttpClientRequest } from "@effect/platform";
-import { NodeHttpClient } from "@effect/platform-node";
+import { Effect, Either, Schema } from "effect";
 import { Todo } from "../domain/Todo.js";
-import { GetTodoByIdError } from "../domain/TodoServiceErrors.js";
+import { User } from "../domain/User.js";
+import type {
+  TodoSource,
+  TodoSourceFailure,
+  TodoSourceName,
+} from "../domain/TodoSource.js";
+import {
+  CreateTodoError,
+  GetTodoByIdError,
+  ListTodosError,
+  ListUsersError,
+  UpdateTodoError,
+} from "../domain/TodoServiceErrors.js";
+import { ConfigService } from "./ConfigService.js";
+import { RestTodoSource } from "./RestTodoSource.js";
+import { FileTodoSource } from "./FileTodoSource.js";
+import { FakeTodoSource } from "./FakeTodoSource.js";
 
 /**
- * Service for interacting with the external Todo API (jsonplaceholder.typicode.com).
+ * Backend failures that this service passes on unchanged, since they are not
+ * about a single todo: invalid settings and the limits on outbound requests.
  *
- * This service provides methods to fetch todo items from the remote API with built-in
- * retry logic, error handling, and schema validation. It uses Effect's HTTP client
- * with exponential backoff retry strategy for resilient network operations.
+ * @since 1.0.0
+ */
+type PassedThrough = Exclude<TodoSourceFailure, { _tag: "TodoSourceError" }>;
+
+/**
+ * Checks whether an error is about the request itself rather than one of
+ * the {@link PassedThrough} failures.
+ *
+ * @since 1.0.0
+ */
+const isRequestError = <E extends { readonly _tag: string }>(
+  error: E
+): error is Exclude<E, PassedThrough> =>
+  error._tag !== "ConfigError" &&
+  error._tag !== "RequestTimeout" &&
+  error._tag !== "RateLimited" &&
+  error._tag !== "CircuitOpen";
+
+/**
+ * Service for interacting with the remote todo backend.
+ *
+ * The backend is picked per request with the `source` setting (or the
+ * `--source` flag of `sync`):
+ * - rest: The external Todo API (jsonplaceholder.typicode.com by default, or any
+ *   compatible API configured with the `apiUrl` setting), see RestTodoSource
+ * - file: A local JSON or NDJSON file, see FileTodoSource
+ * - fake: An in-process list of sample todos, see FakeTodoSource
+ *
+ * Backends only move raw JSON; this service decodes the todos of every backend
+ * with the same Todo schema and turns backend failures into tagged errors.
+ * RequestTimeout, RateLimited and CircuitOpen are passed on unchanged, so that
+ * callers can tell them from failures of a single todo.
  *
  * Features:
- * - Automatic retry with exponential backoff (100ms base, 2x multiplier, max 5s)
- * - HTTP status validation (only 2xx responses are considered successful)
- * - Schema validation of API responses using the Todo domain model
+ * - Swappable backends behind the TodoSource interface
+ * - Schema validation of backend responses using the Todo domain model
+ * - Bulk listing of all todos, or of one user's todos, in a single request
+ * - Listing the users who own the todos
+ * - Pushing local todos with POST (new) and PUT (modified) requests
  * - Comprehensive error handling with tagged errors
  *
  * @example
@@ -33,31 +79,34 @@ import { GetTodoByIdError } from "../domain/TodoServiceErrors.js";
  */
 export class TodoService extends Effect.Service<TodoService>()("TodoService", {
   effect: Effect.gen(function* () {
+    const config = yield* ConfigService;
+
+    /** Every available backend, by name */
+    const sources: Record<TodoSourceName, TodoSource> = {
+      rest: yield* RestTodoSource,
+      file: yield* FileTodoSource,
+      fake: yield* FakeTodoSource,
+    };
+
     /**
-     * HTTP client configured with retry logic and status validation.
-     *
-     * Configuration:
-     * - Retries transient failures (network errors, 5xx responses)
-     * - Exponential backoff: starts at 100ms, doubles each retry, max 5 seconds
-     * - Only accepts 2xx HTTP status codes as successful
+     * The backend selected with the `source` setting, resolved per request so
+     * that `sync --source` can override it for a single command.
      */
-    const httpClient = (yield* HttpClient.HttpClient).pipe(
-      HttpClient.retryTransient({
-        schedule: Schedule.exponential("100 millis", 2).pipe(
-          Schedule.upTo("5 seconds")
-        ),
-      }),
-      HttpClient.filterStatusOk
+    const source = Effect.map(
+      config.resolve("source"),
+      ({ value }) => sources[value]
     );
 
     /**
-     * Fetches a todo item by ID from the external API.
+     * Fetches a todo item by ID from the remote backend.
      *
-     * This method makes an HTTP GET request to the jsonplaceholder API,
-     * validates the response, and decodes it into a Todo domain object.
+     * This method fetches the todo from the selected backend, validates the
+     * response, and decodes it into a Todo domain object.
      *
      * @param id - The ID of the todo to fetch (must be a positive integer)
-     * @returns Effect that resolves to a Todo object or fails with GetTodoByIdError
+     * @returns Effect that resolves to a Todo object or fails with GetTodoByIdError,
+     *          whose reason tells a missing todo from an invalid one and from
+     *          an unreachable backend
      *
      * @example
      * ```typescript
@@ -67,36 +116,275 @@ export class TodoService extends Effect.Service<TodoService>()("TodoService", {
      * });
      * ```
      *
-     * @throws {GetTodoByIdError} When the API request fails, returns non-2xx status,
+     * @throws {GetTodoByIdError} When the backend fails, has no such todo,
      *                            or the response doesn't match the Todo schema
      *
      * @since 1.0.0
      */
     const getTodoById = Effect.fn("getTodoById")(
       function* (id: number) {
-        const request = HttpClientRequest.get(
-          `https://jsonplaceholder.typicode.com/todos/${id}`
-        );
-        const response = yield* httpClient.execute(request);
-        const jsonData = yield* response.json;
+        const jsonData = yield* (yield* source).fetchTodo(id);
 
         return yield* Schema.decodeUnknown(Todo)(jsonData);
       },
       (effect, id) =>
-        Effect.catchAll(
+        Effect.catchIf(
           effect,
+          isRequestError,
           (error) =>
             new GetTodoByIdError({
               id,
+              reason: error._tag === "ParseError" ? "invalid" : error.reason,
               message: `Failed to fetch todo ${id}: ${error.message}`,
             })
         )
     );
 
+    /**
+     * Internal helper: Decodes the todos of a list response one by one, so
+     * that a single malformed todo does not hide the others. Every entry must
+     * at least carry a numeric ID.
+     *
+     * @internal
+     * @since 1.0.0
+     */
+    const decodeEntries = Effect.fn("decodeEntries")(function* (
+      jsonData: unknown
+    ) {
+      const entries = yield* Schema.decodeUnknown(
+        Schema.Array(Schema.Struct({ id: Schema.Number }))
+      )(jsonData);
+      const raw = jsonData as ReadonlyArray<unknown>;
+      return entries.map(({ id }, index) =>
+        Either.mapLeft(
+          Schema.decodeUnknownEither(Todo)(raw[index]),
+          (error) =>
+            new GetTodoByIdError({
+              id,
+              reason: "invalid",
+              message: `Invalid todo ${id}: ${error.message}`,
+            })
+        )
+      );
+    });
+
+    /**
+     * Fetches every todo from the remote backend in a single request.
+     *
+     * Each todo is decoded on its own: a todo that does not match the Todo
+     * schema is returned as a failed entry instead of failing the whole list.
+     *
+     * @returns Effect that resolves to one entry per todo, ordered as returned
+     *          by the API: the decoded todo, or a GetTodoByIdError with reason
+     *          "invalid"
+     *
+     * @example
+     * ```typescript
+     * const entries = yield* TodoService.listTodos();
+     * const todos = entries.filter(Either.isRight).map((entry) => entry.right);
+     * console.log(`The API has ${todos.length} valid todos`);
+     * ```
+     *
+     * @throws {ListTodosError} When the backend fails, or the response is not
+     *                          a list of todos with IDs
+     *
+     * @since 1.0.0
+     */
+    const listTodos = Effect.fn("listTodos")(
+      function* () {
+        const jsonData = yield* (yield* source).listTodos();
+
+        return yield* decodeEntries(jsonData);
+      },
+      Effect.catchIf(
+        isRequestError,
+        (error) =>
+          new ListTodosError({
+            message: `Failed to fetch todos: ${error.message}`,
+          })
+      )
+    );
+
+    /**
+     * Fetches all todos of one user from the remote backend in a single request.
+     *
+     * Like {@link listTodos}, each todo is decoded on its own.
+     *
+     * @param userId - The ID of the user whose todos to fetch
+     * @returns Effect that resolves to one entry per todo of the user (none for
+     *          unknown users)
+     *
+     * @example
+     * ```typescript
+     * const entries = yield* TodoService.listTodosByUser(3);
+     * ```
+     *
+     * @throws {ListTodosError} When the backend fails, or the response is not
+     *                          a list of todos with IDs
+     *
+     * @since 1.0.0
+     */
+    const listTodosByUser = Effect.fn("listTodosByUser")(
+      function* (userId: number) {
+        const jsonData = yield* (yield* source).listTodos(userId);
+
+        return yield* decodeEntries(jsonData);
+      },
+      (effect, userId) =>
+        Effect.catchIf(
+          effect,
+          isRequestError,
+          (error) =>
+            new ListTodosError({
+              userId,
+              message: `Failed to fetch todos of user ${userId}: ${error.message}`,
+            })
+        )
+    );
+
+    /**
+     * Fetches every user from the remote backend in a single request.
+     *
+     * Unlike todos, users are decoded as a whole list: the users are needed
+     * together to tell which todos belong to a known user.
+     *
+     * @returns Effect that resolves to the users, ordered as returned by the API
+     *
+     * @example
+     * ```typescript
+     * const users = yield* TodoService.listUsers();
+     * console.log(`The API has ${users.length} users`);
+     * ```
+     *
+     * @throws {ListUsersError} When the backend fails, or the response is not
+     *                          a list of valid users
+     *
+     * @since 1.0.0
+     */
+    const listUsers = Effect.fn("listUsers")(
+      function* () {
+        const jsonData = yield* (yield* source).listUsers();
+
+        return yield* Schema.decodeUnknown(Schema.Array(User))(jsonData);
+      },
+      Effect.catchIf(
+        isRequestError,
+        (error) =>
+          new ListUsersError({
+            message: `Failed to fetch users: ${error.message}`,
+          })
+      )
+    );
+
+    /**
+     * Creates a todo on the remote backend (a POST request for the REST API).
+     *
+     * The local ID, tags, due date, priority and parent are not sent; the
+     * backend assigns its own ID, which is returned as part of the created
+     * todo.
+     *
+     * @param todo - The locally created todo to send
+     * @returns Effect that resolves to the todo as created by the API
+     *
+     * @example
+     * ```typescript
+     * const created = yield* TodoService.createTodo(localTodo);
+     * console.log(`Created as todo ${created.id} on the API`);
+     * ```
+     *
+     * @throws {CreateTodoError} When the backend fails, or the response doesn't
+     *                           match the Todo schema
+     *
+     * @since 1.0.0
+     */
+    const createTodo = Effect.fn("createTodo")(
+      function* (todo: Todo) {
+        // Tags, due dates, priorities and subtasks exist only in the local
+        // database
+        const {
+          id: _,
+          tags: _tags,
+          dueAt: _dueAt,
+          priority: _priority,
+          parentId: _parentId,
+          ...body
+        } = yield* Schema.encode(Todo)(todo);
+        const jsonData = yield* (yield* source).createTodo(body);
+
+        return yield* Schema.decodeUnknown(Todo)(jsonData);
+      },
+      (effect, todo) =>
+        Effect.catchIf(
+          effect,
+          isRequestError,
+          (error) =>
+            new CreateTodoError({
+              id: todo.id,
+              message: `Failed to create todo ${todo.id} on the API: ${error.message}`,
+            })
+        )
+    );
+
+    /**
+     * Replaces a todo on the remote backend (a PUT request for the REST API).
+     *
+     * @param remoteId - The ID of the todo on the backend
+     * @param todo - The local version of the todo to send (without its tags, due date, priority and parent)
+     * @returns Effect that resolves to the todo as stored by the API
+     *
+     * @example
+     * ```typescript
+     * const updated = yield* TodoService.updateTodo(42, localTodo);
+     * ```
+     *
+     * @throws {UpdateTodoError} When the backend fails, has no such todo, or
+     *                           the response doesn't match the Todo schema
+     *
+     * @since 1.0.0
+     */
+    const updateTodo = Effect.fn("updateTodo")(
+      function* (remoteId: number, todo: Todo) {
+        const {
+          tags: _tags,
+          dueAt: _dueAt,
+          priority: _priority,
+          parentId: _parentId,
+          ...body
+        } = yield* Schema.encode(Todo)(todo);
+        const jsonData = yield* (yield* source).replaceTodo(remoteId, {
+          ...body,
+          id: remoteId,
+        });
+
+        return yield* Schema.decodeUnknown(Todo)(jsonData);
+      },
+      (effect, remoteId, todo) =>
+        Effect.catchIf(
+          effect,
+          isRequestError,
+          (error) =>
+            new UpdateTodoError({
+              id: todo.id,
+              remoteId,
+              message: `Failed to update todo ${todo.id} on the API: ${error.message}`,
+            })
+        )
+    );
+
     return {
       getTodoById,
+      listTodos,
+      listTodosByUser,
+      listUsers,
+      createTodo,
+      updateTodo,
     };
   }),
-  dependencies: [NodeHttpClient.layer],
+  dependencies: [
+    RestTodoSource.Default,
+    FileTodoSource.Default,
+    FakeTodoSource.Default,
+    ConfigService.Default,
+  ],
   accessors: true,
 }) {}
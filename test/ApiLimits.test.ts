@@ -0,0 +1,151 @@
+import { describe, it, expect } from "@effect/vitest";
+import { Duration, Effect, Schema } from "effect";
+import {
+  MaxFailuresSchema,
+  RateSchema,
+  TimeoutSchema,
+} from "../src/domain/ApiLimits.js";
+import { Todo } from "../src/domain/Todo.js";
+import { TodoService } from "../src/service/TodoService.js";
+import { sendJson, standInApi } from "./StandInApi.js";
+
+describe("API limit schemas", () => {
+  it("parses rates per second and per minute", () => {
+    const decode = Schema.decodeUnknownSync(RateSchema);
+    expect(decode("unlimited")).toBe("unlimited");
+    expect(decode("20/s")).toEqual({
+      limit: 20,
+      interval: Duration.seconds(1),
+    });
+    expect(decode("300/m")).toEqual({
+      limit: 300,
+      interval: Duration.minutes(1),
+    });
+    expect(() => decode("0/s")).toThrow();
+    expect(() => decode("20/h")).toThrow();
+  });
+
+  it("parses timeouts", () => {
+    const decode = Schema.decodeUnknownSync(TimeoutSchema);
+    expect(Duration.toMillis(decode("500ms"))).toBe(500);
+    expect(Duration.toMillis(decode("30s"))).toBe(30_000);
+    expect(Duration.toMillis(decode("2m"))).toBe(120_000);
+    expect(() => decode("30")).toThrow();
+  });
+
+  it("accepts 0 to disable the circuit breaker", () => {
+    const decode = Schema.decodeUnknownSync(MaxFailuresSchema);
+    expect(decode("0")).toBe(0);
+    expect(() => decode("-1")).toThrow();
+  });
+});
+
+// A stand-in for the remote API that hangs, throttles, fails or answers
+let requests = 0;
+let throttled = 0;
+let failed = 0;
+let posts = 0;
+const { run } = standInApi((req, res) => {
+  requests++;
+  const send = (status: number, json: unknown, headers = {}) =>
+    sendJson(res, status, json, headers);
+  if (req.method === "POST") {
+    posts++;
+    return send(500, {});
+  }
+  if (req.url === "/todos/4") {
+    // Fails once, then answered
+    return failed++ === 0
+      ? send(500, {})
+      : send(200, { userId: 1, id: 4, title: "Retried", completed: false });
+  }
+  if (req.url === "/todos/1") {
+    return send(200, { userId: 1, id: 1, title: "Remote", completed: false });
+  }
+  if (req.url === "/todos/2") {
+    // Throttled once, then answered
+    return throttled++ === 0
+      ? send(429, {}, { "retry-after": "1" })
+      : send(200, { userId: 1, id: 2, title: "Later", completed: false });
+  }
+  if (req.url === "/todos/3") {
+    return send(429, {}, { "retry-after": "0" });
+  }
+  // Every other request hangs until the client gives up
+  req.on("close", () => res.destroy());
+});
+
+describe("API limits", () => {
+  it("fails with RequestTimeout when the API does not answer", async () => {
+    const error = await run(Effect.flip(TodoService.getTodoById(9)), [
+      ["TODO_TIMEOUT", "100ms"],
+    ]);
+    expect(error._tag).toBe("RequestTimeout");
+  });
+
+  it("waits for Retry-After before retrying a throttled request", async () => {
+    const started = Date.now();
+    const todo = await run(TodoService.getTodoById(2));
+    expect(todo.title).toBe("Later");
+    expect(Date.now() - started).toBeGreaterThanOrEqual(1000);
+  });
+
+  it("fails with RateLimited when the API keeps throttling", async () => {
+    const error = await run(Effect.flip(TodoService.getTodoById(3)));
+    expect(error).toMatchObject({ _tag: "RateLimited", status: 429 });
+  });
+
+  it("retries a GET after a server error", async () => {
+    const todo = await run(TodoService.getTodoById(4));
+    expect(todo.title).toBe("Retried");
+  });
+
+  it("does not resend a POST after a server error", async () => {
+    const error = await run(
+      Effect.flip(
+        TodoService.createTodo(
+          Schema.decodeSync(Todo)({
+            userId: 1,
+            id: 7,
+            title: "Local",
+            completed: false,
+          })
+        )
+      )
+    );
+    expect(error._tag).toBe("CreateTodoError");
+    expect(posts).toBe(1);
+  });
+
+  it("stays below the configured rate", async () => {
+    const started = Date.now();
+    await run(
+      Effect.forEach([1, 1, 1, 1], TodoService.getTodoById, {
+        concurrency: "unbounded",
+      }),
+      [["TODO_RATE", "2/s"]]
+    );
+    // Two requests right away, then one every 500ms
+    expect(Date.now() - started).toBeGreaterThanOrEqual(900);
+  });
+
+  it("opens the circuit after consecutive failures", async () => {
+    const before = requests;
+    const errors = await run(
+      Effect.forEach([9, 9, 9, 1], (id) =>
+        Effect.flip(TodoService.getTodoById(id))
+      ),
+      [
+        ["TODO_TIMEOUT", "50ms"],
+        ["TODO_MAX_FAILURES", "2"],
+      ]
+    );
+    expect(errors.map((error) => error._tag)).toEqual([
+      "RequestTimeout",
+      "RequestTimeout",
+      "CircuitOpen",
+      "CircuitOpen",
+    ]);
+    expect(requests - before).toBe(2);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "@effect/vitest";
+import { Effect, Either } from "effect";
+import type { ConfigKey } from "../src/domain/Config.js";
+import {
+  resolveSetting,
+  type ConfigCandidate,
+} from "../src/service/ConfigService.js";
+
+// Helper to run resolveSetting synchronously, capturing failures
+const resolve = (key: ConfigKey, candidates: Array<ConfigCandidate>) =>
+  Effect.runSync(Effect.either(resolveSetting(key, candidates)));
+
+const flag = (raw: unknown): ConfigCandidate => ({
+  source: { _tag: "flag", name: "--format" },
+  raw,
+});
+const env = (raw: unknown): ConfigCandidate => ({
+  source: { _tag: "env", name: "TODO_FORMAT" },
+  raw,
+});
+const user = (raw: unknown): ConfigCandidate => ({
+  source: { _tag: "user", path: "/home/me/.config/todo/config.json" },
+  raw,
+});
+
+describe("resolveSetting", () => {
+  it("picks the first candidate that sets a value", () => {
+    const result = resolve("format", [
+      flag(undefined),
+      env("csv"),
+      user("table"),
+    ]);
+    expect(result).toEqual(
+      Either.right({
+        key: "format",
+        value: "csv",
+        source: { _tag: "env", name: "TODO_FORMAT" },
+      })
+    );
+  });
+
+  it("falls back to the built-in default", () => {
+    const result = resolve("concurrency", [flag(undefined), user(undefined)]);
+    expect(result).toEqual(
+      Either.right({
+        key: "concurrency",
+        value: 1,
+        source: { _tag: "default" },
+      })
+    );
+  });
+
+  it("decodes numbers from config files", () => {
+    const result = resolve("concurrency", [user(4)]);
+    expect(Either.map(result, ({ value }) => value)).toEqual(Either.right(4));
+  });
+
+  it("rejects an invalid value instead of falling back", () => {
+    const result = resolve("format", [env("xml"), user("table")]);
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left._tag).toBe("ConfigError");
+      expect(result.left.message).toContain("env TODO_FORMAT");
+    }
+  });
+
+  it("rejects an empty database path", () => {
+    expect(Either.isLeft(resolve("dbPath", [flag("")]))).toBe(true);
+  });
+});
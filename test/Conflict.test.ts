@@ -0,0 +1,50 @@
+import { describe, it, expect } from "@effect/vitest";
+import { Schema } from "effect";
+import { conflictingFields } from "../src/domain/Conflict.js";
+import { Todo } from "../src/domain/Todo.js";
+import { remoteFingerprint } from "../src/service/DatabaseService.js";
+
+const todo = Schema.decodeSync(Todo)({
+  userId: 1,
+  id: 1,
+  title: "Learn Effect",
+  completed: false,
+});
+const withChanges = (changes: Partial<typeof Todo.Encoded>) =>
+  Schema.decodeSync(Todo)({ ...Schema.encodeSync(Todo)(todo), ...changes });
+
+describe("conflictingFields", () => {
+  it("is empty when both versions agree", () => {
+    expect(conflictingFields(todo, withChanges({ id: 201 }))).toEqual([]);
+  });
+
+  it("lists every differing field in declaration order", () => {
+    expect(
+      conflictingFields(
+        todo,
+        withChanges({ completed: true, title: "Learn Effect properly" })
+      )
+    ).toEqual(["title", "completed"]);
+    expect(conflictingFields(todo, withChanges({ userId: 2 }))).toEqual([
+      "userId",
+    ]);
+  });
+});
+
+describe("remoteFingerprint", () => {
+  it("ignores the ID, which differs between local and remote todos", () => {
+    expect(remoteFingerprint(withChanges({ id: 201 }))).toBe(
+      remoteFingerprint(todo)
+    );
+  });
+
+  it("changes when any compared field changes", () => {
+    const fingerprints = [
+      todo,
+      withChanges({ userId: 2 }),
+      withChanges({ title: "Learn Effect!" }),
+      withChanges({ completed: true }),
+    ].map(remoteFingerprint);
+    expect(new Set(fingerprints).size).toBe(fingerprints.length);
+  });
+});
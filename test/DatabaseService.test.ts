@@ -0,0 +1,1479 @@
+import { describe, it, expect } from "@effect/vitest";
+import { DateTime, Duration, Effect, Either, Layer, Schema } from "effect";
+import { SqlClient } from "@effect/sql";
+import { SqliteClient } from "@effect/sql-sqlite-node";
+import { Todo } from "../src/domain/Todo.js";
+import { User } from "../src/domain/User.js";
+import { describeEvent } from "../src/domain/TodoHistory.js";
+import type { TodoQuery } from "../src/domain/TodoQuery.js";
+import { DatabaseService } from "../src/service/DatabaseService.js";
+import { MigrationService } from "../src/service/MigrationService.js";
+import {
+  BackupNotFound,
+  OpenSubtasks,
+  TodoCycle,
+  TodoNotFound,
+  TodoTrashed,
+  UserNotFound,
+} from "../src/domain/DatabaseErrors.js";
+
+const user = (id: number, name = `User ${id}`) =>
+  Schema.decodeSync(User)({ id, name });
+
+// Runs a program against a fresh, migrated in-memory database that knows
+// users 1 and 2
+const run = <A, E>(
+  program: Effect.Effect<A, E, DatabaseService | SqlClient.SqlClient>
+) =>
+  Effect.runPromise(
+    Effect.gen(function* () {
+      yield* MigrationService.migrateUp();
+      yield* DatabaseService.saveUsers([user(1), user(2)]);
+      return yield* program;
+    }).pipe(
+      Effect.provide(
+        DatabaseService.Default.pipe(
+          Layer.provideMerge(MigrationService.Default),
+          Layer.provideMerge(SqliteClient.layer({ filename: ":memory:" }))
+        )
+      )
+    )
+  );
+
+const remote = (id: number, title = `Remote ${id}`) =>
+  Schema.decodeSync(Todo)({ userId: 1, id, title, completed: false });
+
+const count = Effect.flatMap(
+  SqlClient.SqlClient,
+  (sql) => sql<{ count: number }>`SELECT COUNT(*) AS count FROM todos`
+).pipe(Effect.map(([row]) => row.count));
+
+const create = (title: string) =>
+  DatabaseService.createTodo({ userId: 1, title });
+
+describe("saveTodos", () => {
+  it("inserts new todos and leaves unchanged ones alone", async () => {
+    const [first, second] = await run(
+      Effect.gen(function* () {
+        const first = yield* DatabaseService.saveTodos([remote(1), remote(2)]);
+        const second = yield* DatabaseService.saveTodos([
+          remote(1),
+          remote(2, "Renamed"),
+        ]);
+        return [first, second];
+      })
+    );
+    expect(first.map(Either.map(({ changed }) => changed))).toEqual([
+      Either.right(true),
+      Either.right(true),
+    ]);
+    expect(
+      second.map(Either.map(({ todo, changed }) => [todo.title, changed]))
+    ).toEqual([
+      Either.right(["Remote 1", false]),
+      Either.right(["Renamed", true]),
+    ]);
+  });
+
+  it("saves many todos in chunks", async () => {
+    const todos = Array.from({ length: 250 }, (_, i) => remote(i + 1));
+    const [saved, rows] = await run(
+      Effect.all([DatabaseService.saveTodos(todos), count])
+    );
+    expect(saved.every(Either.isRight)).toBe(true);
+    expect(rows).toBe(250);
+  });
+
+  it("reports trashed and conflicting todos without failing the batch", async () => {
+    const saved = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([remote(1), remote(2)]);
+        yield* DatabaseService.deleteTodo(1);
+        yield* DatabaseService.updateTodo(2, { title: "Local edit" });
+        return yield* DatabaseService.saveTodos([
+          remote(1, "Changed"),
+          remote(2, "Remote edit"),
+          remote(3),
+        ]);
+      })
+    );
+    expect(
+      saved.map(
+        Either.match({
+          onLeft: (error) => error._tag,
+          onRight: ({ changed }) => changed,
+        })
+      )
+    ).toEqual(["TodoTrashed", "TodoConflict", true]);
+  });
+
+  it("keeps a local todo that has the remote ID under a new ID", async () => {
+    const saved = await run(
+      Effect.gen(function* () {
+        const local = yield* DatabaseService.createTodo({
+          userId: 1,
+          title: "Local",
+          completed: false,
+        });
+        const [entry] = yield* DatabaseService.saveTodos([remote(local.id)]);
+        return [local.id, yield* entry] as const;
+      })
+    );
+    const [localId, { todo }] = saved;
+    expect(todo.id).not.toBe(localId);
+    expect(todo.title).toBe(`Remote ${localId}`);
+  });
+
+  it("writes nothing when a chunk fails", async () => {
+    const todos = Array.from({ length: 150 }, (_, i) => remote(i + 1));
+    const [error, rows] = await run(
+      Effect.gen(function* () {
+        const sql = yield* SqlClient.SqlClient;
+        yield* sql`
+          CREATE TRIGGER reject_todo BEFORE INSERT ON todos
+          WHEN NEW.remote_id = 120
+          BEGIN SELECT RAISE(ABORT, 'rejected'); END
+        `;
+        const error = yield* Effect.flip(DatabaseService.saveTodos(todos));
+        return [error, yield* count] as const;
+      })
+    );
+    expect(error._tag).toBe("DatabaseError");
+    expect(rows).toBe(0);
+  });
+});
+
+describe("importTodos", () => {
+  it("merges todos by ID and leaves identical ones alone", async () => {
+    const [summary, titles] = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([remote(1), remote(2)]);
+        const summary = yield* DatabaseService.importTodos(
+          [remote(1), remote(2, "Imported"), remote(3)],
+          { mode: "merge" }
+        );
+        const todos = yield* DatabaseService.getAllTodos();
+        return [summary, todos.map((todo) => todo.title)] as const;
+      })
+    );
+    expect(summary).toEqual({
+      inserted: 1,
+      updated: 1,
+      unchanged: 1,
+      removed: 0,
+    });
+    expect(titles).toEqual(["Remote 1", "Imported", "Remote 3"]);
+  });
+
+  it("replaces every local todo", async () => {
+    const [summary, ids] = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([remote(1), remote(2)]);
+        const summary = yield* DatabaseService.importTodos([remote(5)], {
+          mode: "replace",
+        });
+        const todos = yield* DatabaseService.getAllTodos();
+        return [summary, todos.map((todo) => todo.id)] as const;
+      })
+    );
+    expect(summary).toMatchObject({ inserted: 1, removed: 2 });
+    expect(ids).toEqual([5]);
+  });
+
+  it("writes nothing in a dry run", async () => {
+    const [summary, rows] = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([remote(1)]);
+        const summary = yield* DatabaseService.importTodos([remote(2)], {
+          mode: "replace",
+          dryRun: true,
+        });
+        return [summary, yield* count] as const;
+      })
+    );
+    expect(summary).toMatchObject({ inserted: 1, removed: 1 });
+    expect(rows).toBe(1);
+  });
+});
+
+describe("queryTodos", () => {
+  // Four todos of users 1 and 2, and one of user 1 in the trash
+  const seeded = Effect.gen(function* () {
+    const todo = (userId: number, title: string, completed: boolean) =>
+      DatabaseService.createTodo({ userId, title }).pipe(
+        Effect.tap((created) =>
+          completed
+            ? DatabaseService.updateTodo(created.id, { completed })
+            : Effect.void
+        )
+      );
+    yield* todo(1, "Learn Effect", false);
+    yield* todo(1, "Build a CLI app", true);
+    yield* todo(2, "Use 100% of Effect", false);
+    yield* todo(2, "Write docs", true);
+    const trashed = yield* todo(1, "Effect in the trash", false);
+    yield* DatabaseService.deleteTodo(trashed.id);
+  });
+
+  const titles = (query: TodoQuery) =>
+    DatabaseService.queryTodos(query).pipe(
+      Effect.map(({ todos }) => todos.map(({ title }) => title))
+    );
+
+  it("filters by user, status and title, never matching the trash", async () => {
+    const results = await run(
+      Effect.gen(function* () {
+        yield* seeded;
+        return yield* Effect.all([
+          titles({}),
+          titles({ userId: 1 }),
+          titles({ status: "completed" }),
+          titles({ titleContains: "EFFECT" }),
+          titles({ titleContains: "100%" }),
+          titles({ titleContains: "_" }),
+          titles({ userId: 2, status: "pending", titleContains: "effect" }),
+        ]);
+      })
+    );
+    expect(results).toEqual([
+      ["Learn Effect", "Build a CLI app", "Use 100% of Effect", "Write docs"],
+      ["Learn Effect", "Build a CLI app"],
+      ["Build a CLI app", "Write docs"],
+      ["Learn Effect", "Use 100% of Effect"],
+      ["Use 100% of Effect"],
+      [],
+      ["Use 100% of Effect"],
+    ]);
+  });
+
+  it("sorts by the given field in either direction, then by ID", async () => {
+    const results = await run(
+      Effect.gen(function* () {
+        yield* seeded;
+        return yield* Effect.all([
+          titles({ sort: "title" }),
+          titles({ sort: "title", descending: true }),
+          titles({ sort: "user", descending: true }),
+          titles({ sort: "id", descending: true }),
+        ]);
+      })
+    );
+    expect(results).toEqual([
+      ["Build a CLI app", "Learn Effect", "Use 100% of Effect", "Write docs"],
+      ["Write docs", "Use 100% of Effect", "Learn Effect", "Build a CLI app"],
+      ["Write docs", "Use 100% of Effect", "Build a CLI app", "Learn Effect"],
+      ["Write docs", "Use 100% of Effect", "Build a CLI app", "Learn Effect"],
+    ]);
+  });
+
+  it("pages through the matches and reports their total", async () => {
+    const pages = await run(
+      Effect.gen(function* () {
+        yield* seeded;
+        const page = (query: TodoQuery) =>
+          DatabaseService.queryTodos(query).pipe(
+            Effect.map(({ todos, total }) => [
+              todos.map(({ title }) => title),
+              total,
+            ])
+          );
+        return yield* Effect.all([
+          page({ limit: 2 }),
+          page({ limit: 2, offset: 3 }),
+          page({ offset: 1 }),
+          page({ offset: 10 }),
+          page({ userId: 9 }),
+        ]);
+      })
+    );
+    expect(pages).toEqual([
+      [["Learn Effect", "Build a CLI app"], 4],
+      [["Write docs"], 4],
+      [["Build a CLI app", "Use 100% of Effect", "Write docs"], 4],
+      [[], 4],
+      [[], 0],
+    ]);
+  });
+});
+
+describe("updateTodo", () => {
+  it("changes only the fields in the patch", async () => {
+    const [before, renamed, completed] = await run(
+      Effect.gen(function* () {
+        const { id } = yield* create("Draft");
+        yield* DatabaseService.addTags(id, ["work"]);
+        const before = yield* DatabaseService.updateTodo(id, {
+          dueAt: "2026-11-01T00:00:00.000Z",
+          priority: "high",
+        });
+        const renamed = yield* DatabaseService.updateTodo(id, {
+          title: "Renamed",
+        });
+        const completed = yield* DatabaseService.updateTodo(id, {
+          completed: true,
+        });
+        return [before, renamed, completed] as const;
+      })
+    );
+    expect(renamed).toEqual(new Todo({ ...before, title: "Renamed" }));
+    expect(completed).toEqual(
+      new Todo({ ...before, title: "Renamed", completed: "completed" })
+    );
+  });
+
+  it("rejects patches that break the Todo rules, changing nothing", async () => {
+    const [created, errors, todo] = await run(
+      Effect.gen(function* () {
+        const created = yield* create("Draft");
+        const errors = [
+          yield* Effect.flip(
+            DatabaseService.updateTodo(created.id, { title: "" })
+          ),
+          yield* Effect.flip(
+            DatabaseService.updateTodo(created.id, {
+              title: "x".repeat(256),
+              completed: true,
+            })
+          ),
+          yield* Effect.flip(
+            DatabaseService.updateTodo(created.id, { userId: 1.5 })
+          ),
+          yield* Effect.flip(
+            DatabaseService.updateTodo(created.id, { dueAt: "next week" })
+          ),
+        ];
+        return [
+          created,
+          errors,
+          yield* DatabaseService.getTodoById(created.id),
+        ] as const;
+      })
+    );
+    expect(errors.map((error) => error._tag)).toEqual([
+      "TodoValidationError",
+      "TodoValidationError",
+      "TodoValidationError",
+      "TodoValidationError",
+    ]);
+    expect(errors[0].message).toContain(
+      `Invalid update for todo ${created.id}`
+    );
+    expect(todo).toEqual(created);
+  });
+
+  it("fails for a todo that is missing or in the trash", async () => {
+    const [trashed, errors] = await run(
+      Effect.gen(function* () {
+        const trashed = yield* create("Draft");
+        yield* DatabaseService.deleteTodo(trashed.id);
+        return [
+          trashed,
+          [
+            yield* Effect.flip(
+              DatabaseService.updateTodo(99, { title: "New" })
+            ),
+            yield* Effect.flip(
+              DatabaseService.updateTodo(trashed.id, { title: "New" })
+            ),
+          ],
+        ] as const;
+      })
+    );
+    expect(errors).toEqual([
+      new TodoNotFound({ id: 99 }),
+      new TodoNotFound({ id: trashed.id }),
+    ]);
+  });
+});
+
+describe("searchTodos", () => {
+  const titles = (hits: ReadonlyArray<{ readonly todo: Todo }>) =>
+    hits.map(({ todo }) => todo.title);
+
+  it("finds words, prefixes and phrases and highlights them", async () => {
+    const [words, prefix, phrase] = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([
+          remote(1, "Learn Effect"),
+          remote(2, "Build a CLI app"),
+          remote(3, "Use the CLI to build"),
+        ]);
+        return [
+          yield* DatabaseService.searchTodos("cli BUILD"),
+          yield* DatabaseService.searchTodos("eff*"),
+          yield* DatabaseService.searchTodos('"build a"'),
+        ];
+      })
+    );
+    expect(titles(words).sort()).toEqual([
+      "Build a CLI app",
+      "Use the CLI to build",
+    ]);
+    expect(titles(prefix)).toEqual(["Learn Effect"]);
+    expect(prefix[0].title).toEqual([
+      { text: "Learn ", match: false },
+      { text: "Effect", match: true },
+    ]);
+    expect(titles(phrase)).toEqual(["Build a CLI app"]);
+  });
+
+  it("ranks the most relevant todos first", async () => {
+    const hits = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([
+          remote(1, "Effect docs and a long list of other unrelated words"),
+          remote(2, "Effect effect effect"),
+        ]);
+        return yield* DatabaseService.searchTodos("effect");
+      })
+    );
+    expect(hits.map(({ todo }) => todo.id)).toEqual([2, 1]);
+    expect(hits[0].rank).toBeLessThan(hits[1].rank);
+  });
+
+  it("stays in sync with creates, updates, deletes and clears", async () => {
+    const [created, renamed, trashed, cleared] = await run(
+      Effect.gen(function* () {
+        const todo = yield* DatabaseService.createTodo({
+          userId: 1,
+          title: "Water plants",
+          completed: false,
+        });
+        const created = yield* DatabaseService.searchTodos("plants");
+        yield* DatabaseService.updateTodo(todo.id, { title: "Water garden" });
+        const renamed = [
+          ...(yield* DatabaseService.searchTodos("plants")),
+          ...(yield* DatabaseService.searchTodos("garden")),
+        ];
+        yield* DatabaseService.deleteTodo(todo.id);
+        const trashed = yield* DatabaseService.searchTodos("garden");
+        yield* DatabaseService.restoreTodo(todo.id);
+        yield* DatabaseService.clearTodos();
+        const cleared = yield* DatabaseService.searchTodos("garden");
+        return [created, renamed, trashed, cleared];
+      })
+    );
+    expect(titles(created)).toEqual(["Water plants"]);
+    expect(titles(renamed)).toEqual(["Water garden"]);
+    expect(trashed).toEqual([]);
+    expect(cleared).toEqual([]);
+  });
+
+  it("narrows the matches by user, status and limit", async () => {
+    const [byUser, byStatus, limited] = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([
+          remote(1, "Read a book"),
+          Schema.decodeSync(Todo)({
+            userId: 2,
+            id: 2,
+            title: "Read the news",
+            completed: true,
+          }),
+          remote(3, "Read mail"),
+        ]);
+        return [
+          yield* DatabaseService.searchTodos("read", { userId: 2 }),
+          yield* DatabaseService.searchTodos("read", { status: "pending" }),
+          yield* DatabaseService.searchTodos("read", { limit: 1 }),
+        ];
+      })
+    );
+    expect(titles(byUser)).toEqual(["Read the news"]);
+    expect(titles(byStatus).sort()).toEqual(["Read a book", "Read mail"]);
+    expect(limited).toHaveLength(1);
+  });
+
+  it("finds nothing for a query without words", async () => {
+    const hits = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([remote(1)]);
+        return yield* DatabaseService.searchTodos(' "" * ');
+      })
+    );
+    expect(hits).toEqual([]);
+  });
+});
+
+describe("trash", () => {
+  // The IDs of the todos each view shows
+  const visible = Effect.all([
+    Effect.map(DatabaseService.getAllTodos(), (todos) =>
+      todos.map(({ id }) => id)
+    ),
+    Effect.map(DatabaseService.queryTodos({}), ({ todos }) =>
+      todos.map(({ id }) => id)
+    ),
+    Effect.map(DatabaseService.searchTodos("draft"), (hits) =>
+      hits.map(({ todo }) => todo.id).sort()
+    ),
+    Effect.map(DatabaseService.getTrashedTodos(), (trashed) =>
+      trashed.map(({ todo }) => todo.id)
+    ),
+  ]);
+
+  it("hides a deleted todo from lists and search until it is restored", async () => {
+    const [[first, second], deleted, hidden, missing, restored, shown] =
+      await run(
+        Effect.gen(function* () {
+          const created = [yield* create("Draft 1"), yield* create("Draft 2")];
+          const { todo: deleted } = yield* DatabaseService.deleteTodo(
+            created[0].id
+          );
+          const hidden = yield* visible;
+          const missing = yield* Effect.flip(
+            DatabaseService.getTodoById(created[0].id)
+          );
+          const restored = yield* DatabaseService.restoreTodo(created[0].id);
+          return [
+            created,
+            deleted,
+            hidden,
+            missing,
+            restored,
+            yield* visible,
+          ] as const;
+        })
+      );
+    expect(deleted).toEqual(first);
+    expect(hidden).toEqual([[second.id], [second.id], [second.id], [first.id]]);
+    expect(missing).toEqual(new TodoNotFound({ id: first.id }));
+    expect(restored).toEqual({ todo: first, subtasks: 0 });
+    expect(shown).toEqual([
+      [first.id, second.id],
+      [first.id, second.id],
+      [first.id, second.id],
+      [],
+    ]);
+  });
+
+  it("only restores todos that are in the trash", async () => {
+    const [created, errors] = await run(
+      Effect.gen(function* () {
+        const created = yield* create("Draft 1");
+        return [
+          created,
+          [
+            yield* Effect.flip(DatabaseService.restoreTodo(created.id)),
+            yield* Effect.flip(DatabaseService.restoreTodo(99)),
+          ],
+        ] as const;
+      })
+    );
+    expect(errors).toEqual([
+      new TodoNotFound({ id: created.id }),
+      new TodoNotFound({ id: 99 }),
+    ]);
+  });
+
+  it("empties only the todos trashed at least --older-than ago", async () => {
+    const [ids, old, rest, remaining] = await run(
+      Effect.gen(function* () {
+        const sql = yield* SqlClient.SqlClient;
+        const ids = [
+          (yield* create("Draft 1")).id,
+          (yield* create("Draft 2")).id,
+          (yield* create("Draft 3")).id,
+        ];
+        yield* DatabaseService.deleteTodo(ids[0]);
+        yield* DatabaseService.deleteTodo(ids[1]);
+        yield* sql`UPDATE todos SET deleted_at = datetime('now', '-10 days') WHERE id = ${ids[0]}`;
+        const old = yield* DatabaseService.emptyTrash(Duration.days(7));
+        const [, , , trashed] = yield* visible;
+        const rest = yield* DatabaseService.emptyTrash();
+        return [ids, old, [trashed, rest], yield* visible] as const;
+      })
+    );
+    expect(old).toBe(1);
+    expect(rest).toEqual([[ids[1]], 1]);
+    expect(remaining).toEqual([[ids[2]], [ids[2]], [ids[2]], []]);
+  });
+
+  it("refuses to save or sync over a trashed todo", async () => {
+    const [single, batch, trashed] = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([remote(1)]);
+        yield* DatabaseService.deleteTodo(1);
+        const single = yield* Effect.flip(
+          DatabaseService.saveTodo(remote(1, "Changed"), {
+            overwriteLocalChanges: true,
+          })
+        );
+        const [batch] = yield* DatabaseService.saveTodos([
+          remote(1, "Changed"),
+        ]);
+        return [single, batch, yield* DatabaseService.getTrashedTodos()];
+      })
+    );
+    expect(single).toEqual(new TodoTrashed({ id: 1 }));
+    expect(batch).toEqual(Either.left(new TodoTrashed({ id: 1 })));
+    expect(trashed.map(({ todo }) => todo)).toEqual([remote(1)]);
+  });
+});
+
+describe("tags", () => {
+  it("adds and removes tags, deleting tags no todo carries", async () => {
+    const [tagged, untagged, tags] = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([remote(1), remote(2)]);
+        yield* DatabaseService.addTags(2, ["home"]);
+        const tagged = yield* DatabaseService.addTags(1, ["work", "Urgent"]);
+        yield* DatabaseService.addTags(1, ["WORK"]);
+        const untagged = yield* DatabaseService.removeTags(1, [
+          "urgent",
+          "work",
+        ]);
+        return [tagged, untagged, yield* DatabaseService.getTags()];
+      })
+    );
+    expect(tagged.tags).toEqual(["Urgent", "work"]);
+    expect(untagged.tags).toBeUndefined();
+    expect(tags).toEqual([{ name: "home", count: 1 }]);
+  });
+
+  it("fails for a todo that is missing or in the trash", async () => {
+    const error = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([remote(1)]);
+        yield* DatabaseService.deleteTodo(1);
+        return yield* Effect.flip(DatabaseService.addTags(1, ["work"]));
+      })
+    );
+    expect(error).toEqual(new TodoNotFound({ id: 1 }));
+  });
+
+  it("lists todos carrying all of the given tags", async () => {
+    const ids = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([remote(1), remote(2), remote(3)]);
+        yield* DatabaseService.addTags(1, ["work", "urgent"]);
+        yield* DatabaseService.addTags(2, ["work"]);
+        yield* DatabaseService.addTags(3, ["urgent"]);
+        const { todos } = yield* DatabaseService.queryTodos({
+          tags: ["Work", "urgent", "work"],
+        });
+        return todos.map((todo) => todo.id);
+      })
+    );
+    expect(ids).toEqual([1]);
+  });
+
+  it("counts only todos outside the trash", async () => {
+    const tags = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([remote(1), remote(2)]);
+        yield* DatabaseService.addTags(1, ["work"]);
+        yield* DatabaseService.addTags(2, ["work", "home"]);
+        yield* DatabaseService.deleteTodo(2);
+        return yield* DatabaseService.getTags();
+      })
+    );
+    expect(tags).toEqual([
+      { name: "home", count: 0 },
+      { name: "work", count: 1 },
+    ]);
+  });
+
+  it("renames a tag, merging it into an existing one", async () => {
+    const [renamed, merged, todos, error] = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([remote(1), remote(2)]);
+        yield* DatabaseService.addTags(1, ["wrk", "work"]);
+        yield* DatabaseService.addTags(2, ["wrk"]);
+        const renamed = yield* DatabaseService.renameTag("work", "Work");
+        const merged = yield* DatabaseService.renameTag("WRK", "work");
+        return [
+          renamed,
+          merged,
+          yield* DatabaseService.getAllTodos(),
+          yield* Effect.flip(DatabaseService.renameTag("wrk", "x")),
+        ] as const;
+      })
+    );
+    expect(renamed).toEqual({ merged: false });
+    expect(merged).toEqual({ merged: true });
+    expect(todos.map((todo) => todo.tags)).toEqual([["Work"], ["Work"]]);
+    expect(error._tag).toBe("TagNotFound");
+  });
+
+  it("drops the tags of deleted todos", async () => {
+    const tags = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([remote(1)]);
+        yield* DatabaseService.addTags(1, ["work"]);
+        yield* DatabaseService.clearTodos();
+        yield* DatabaseService.saveTodos([remote(1)]);
+        return yield* DatabaseService.getTags();
+      })
+    );
+    expect(tags).toEqual([]);
+  });
+
+  it("imports the tags of todos that list them", async () => {
+    const [summary, todos] = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([remote(1), remote(2)]);
+        yield* DatabaseService.addTags(1, ["old"]);
+        yield* DatabaseService.addTags(2, ["kept"]);
+        const summary = yield* DatabaseService.importTodos(
+          [new Todo({ ...remote(1), tags: ["new", "work"] }), remote(2)],
+          { mode: "merge" }
+        );
+        return [summary, yield* DatabaseService.getAllTodos()] as const;
+      })
+    );
+    expect(summary).toMatchObject({ updated: 1, unchanged: 1 });
+    expect(todos.map((todo) => todo.tags)).toEqual([["new", "work"], ["kept"]]);
+  });
+});
+
+describe("clearTodos", () => {
+  const ids = Effect.map(DatabaseService.getAllTodos(), (todos) =>
+    todos.map(({ id }) => id)
+  );
+
+  it("reports the matching todos in a dry run without removing them", async () => {
+    const [matching, remaining, backups] = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([remote(1), remote(2), remote(3)]);
+        yield* DatabaseService.deleteTodo(2);
+        const matching = yield* DatabaseService.clearTodos(
+          {},
+          { dryRun: true }
+        );
+        return [
+          matching,
+          yield* count,
+          yield* DatabaseService.getBackups(),
+        ] as const;
+      })
+    );
+    expect(matching.todos.map(({ id }) => id)).toEqual([1, 2, 3]);
+    expect(matching).toMatchObject({ trashed: 1, backup: undefined });
+    expect(remaining).toBe(3);
+    expect(backups).toEqual([]);
+  });
+
+  it("only removes the todos matching every part of the filter", async () => {
+    const [byUser, completed, synced, left] = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([
+          remote(1),
+          Schema.decodeSync(Todo)({
+            userId: 1,
+            id: 2,
+            title: "Done",
+            completed: true,
+          }),
+          Schema.decodeSync(Todo)({
+            userId: 2,
+            id: 3,
+            title: "Done too",
+            completed: true,
+          }),
+          remote(4),
+        ]);
+        yield* DatabaseService.updateTodo(4, { title: "Local edit" });
+        yield* DatabaseService.createTodo({ userId: 1, title: "New" });
+        const byUser = yield* DatabaseService.clearTodos(
+          { userId: 2, completedOnly: true },
+          { dryRun: true }
+        );
+        const completed = yield* DatabaseService.clearTodos({
+          userId: 1,
+          completedOnly: true,
+        });
+        const synced = yield* DatabaseService.clearTodos({ syncedOnly: true });
+        return [byUser, completed, synced, yield* ids] as const;
+      })
+    );
+    expect(byUser.todos.map(({ id }) => id)).toEqual([3]);
+    expect(completed.todos.map(({ id }) => id)).toEqual([2]);
+    expect(synced.todos.map(({ id }) => id)).toEqual([1, 3]);
+    expect(left).toEqual([4, 5]);
+  });
+
+  it("takes a backup that restores the todos as they were", async () => {
+    const [cleared, backups, restored, trashed] = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([remote(1), remote(2), remote(3)]);
+        yield* DatabaseService.addTags(1, ["work"]);
+        yield* DatabaseService.deleteTodo(3);
+        const cleared = yield* DatabaseService.clearTodos();
+        yield* DatabaseService.clearTodos();
+        const backups = yield* DatabaseService.getBackups();
+        const restored = yield* DatabaseService.restoreBackup();
+        return [
+          cleared,
+          backups,
+          restored,
+          yield* DatabaseService.getTrashedTodos(),
+        ] as const;
+      })
+    );
+    expect(cleared.backup).toMatchObject({
+      id: 1,
+      scope: "all todos",
+      count: 3,
+    });
+    expect(backups).toEqual([cleared.backup]);
+    expect(restored.backup).toEqual(cleared.backup);
+    expect(restored.restored.map(({ id, tags }) => [id, tags ?? []])).toEqual([
+      [1, ["work"]],
+      [2, []],
+      [3, []],
+    ]);
+    expect(restored.skipped).toEqual([]);
+    expect(trashed.map(({ todo }) => todo.id)).toEqual([3]);
+  });
+
+  it("skips todos whose ID is taken and drops missing parents", async () => {
+    const [restored, todos, log] = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([
+          remote(1),
+          Schema.decodeSync(Todo)({
+            userId: 1,
+            id: 2,
+            title: "Done",
+            completed: true,
+          }),
+        ]);
+        yield* DatabaseService.createTodo({
+          userId: 1,
+          title: "Subtask",
+          parentId: 1,
+        });
+        yield* DatabaseService.updateTodo(3, { completed: true });
+        yield* DatabaseService.clearTodos({ completedOnly: true });
+        yield* DatabaseService.clearTodos();
+        yield* DatabaseService.saveTodos([remote(2, "Synced again")]);
+        const restored = yield* DatabaseService.restoreBackup(1);
+        return [
+          restored,
+          yield* DatabaseService.getAllTodos(),
+          (yield* DatabaseService.getOperations()).map(({ name }) => name),
+        ] as const;
+      })
+    );
+    expect(restored.restored.map(({ id }) => id)).toEqual([3]);
+    expect(restored.skipped).toEqual([2]);
+    expect(
+      todos.map(({ id, title, parentId }) => [id, title, parentId])
+    ).toEqual([
+      [2, "Synced again", undefined],
+      [3, "Subtask", undefined],
+    ]);
+    expect(log.slice(-1)).toEqual(["restore-backup"]);
+  });
+
+  it("fails for a missing backup", async () => {
+    const [latest, numbered] = await run(
+      Effect.gen(function* () {
+        return [
+          yield* Effect.either(DatabaseService.restoreBackup()),
+          yield* Effect.either(DatabaseService.restoreBackup(7)),
+        ] as const;
+      })
+    );
+    expect(latest).toMatchObject({
+      _tag: "Left",
+      left: { _tag: "BackupNotFound" },
+    });
+    expect(numbered).toMatchObject({
+      _tag: "Left",
+      left: new BackupNotFound({ id: 7 }),
+    });
+  });
+});
+
+describe("due dates", () => {
+  const day = (text: string) => DateTime.unsafeMake(text);
+
+  it("sets and clears due dates without marking the todo for pushing", async () => {
+    const [due, cleared, dirty] = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([remote(1)]);
+        const due = yield* DatabaseService.updateTodo(1, {
+          dueAt: "2026-11-01T00:00:00.000Z",
+        });
+        const dirty = yield* DatabaseService.getDirtyTodos();
+        const cleared = yield* DatabaseService.updateTodo(1, { dueAt: null });
+        return [due, cleared, dirty] as const;
+      })
+    );
+    expect(due.dueAt).toEqual(day("2026-11-01"));
+    expect(cleared.dueAt).toBeUndefined();
+    expect(dirty).toEqual([]);
+  });
+
+  it("keeps local due dates when syncing", async () => {
+    const todo = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([remote(1)]);
+        yield* DatabaseService.updateTodo(1, {
+          dueAt: "2026-11-01T00:00:00.000Z",
+        });
+        yield* DatabaseService.saveTodos([remote(1, "Renamed")]);
+        return yield* DatabaseService.getTodoById(1);
+      })
+    );
+    expect(todo).toMatchObject({ title: "Renamed", dueAt: day("2026-11-01") });
+  });
+
+  it("lists todos due before a time, soonest first", async () => {
+    const [due, undated] = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.createTodo({
+          userId: 1,
+          title: "Later",
+          completed: false,
+          dueAt: day("2026-11-05"),
+        });
+        yield* DatabaseService.createTodo({
+          userId: 1,
+          title: "Undated",
+          completed: false,
+        });
+        yield* DatabaseService.createTodo({
+          userId: 1,
+          title: "Sooner",
+          completed: false,
+          dueAt: day("2026-11-01"),
+        });
+        yield* DatabaseService.createTodo({
+          userId: 1,
+          title: "Much later",
+          completed: false,
+          dueAt: day("2026-12-01"),
+        });
+        const due = yield* DatabaseService.queryTodos({
+          dueBefore: day("2026-11-06"),
+          sort: "due",
+        });
+        const undated = yield* DatabaseService.queryTodos({
+          hasDueDate: false,
+        });
+        return [due, undated] as const;
+      })
+    );
+    expect(due.todos.map((todo) => todo.title)).toEqual(["Sooner", "Later"]);
+    expect(undated.todos.map((todo) => todo.title)).toEqual(["Undated"]);
+  });
+
+  it("imports due dates and keeps them for todos without one", async () => {
+    const todos = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([remote(1), remote(2)]);
+        yield* DatabaseService.updateTodo(2, {
+          dueAt: "2026-11-02T00:00:00.000Z",
+        });
+        yield* DatabaseService.importTodos(
+          [new Todo({ ...remote(1), dueAt: day("2026-11-01") }), remote(2)],
+          { mode: "merge" }
+        );
+        return yield* DatabaseService.getAllTodos();
+      })
+    );
+    expect(todos.map((todo) => todo.dueAt)).toEqual([
+      day("2026-11-01"),
+      day("2026-11-02"),
+    ]);
+  });
+});
+
+describe("priorities and order", () => {
+  const listed = DatabaseService.queryTodos({}).pipe(
+    Effect.map(({ todos }) => todos.map((todo) => todo.id))
+  );
+
+  it("lists the most important todos first without marking them for pushing", async () => {
+    const [ids, dirty, todo] = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([remote(1), remote(2), remote(3)]);
+        yield* DatabaseService.updateTodo(3, { priority: "urgent" });
+        yield* DatabaseService.updateTodo(1, { priority: "low" });
+        return [
+          yield* listed,
+          yield* DatabaseService.getDirtyTodos(),
+          yield* DatabaseService.getTodoById(3),
+        ] as const;
+      })
+    );
+    expect(ids).toEqual([3, 2, 1]);
+    expect(dirty).toEqual([]);
+    expect(todo.priority).toBe("urgent");
+  });
+
+  // Todos 1 to 4, where 2 is high and 4 is low priority: listed 2, 1, 3, 4
+  const prioritized = Effect.gen(function* () {
+    yield* DatabaseService.saveTodos([
+      remote(1),
+      remote(2),
+      remote(3),
+      remote(4),
+    ]);
+    yield* DatabaseService.updateTodo(2, { priority: "high" });
+    yield* DatabaseService.updateTodo(4, { priority: "low" });
+  });
+
+  it("moves a todo before another, taking its priority", async () => {
+    const [{ todo, previousPriority }, order] = await run(
+      Effect.gen(function* () {
+        yield* prioritized;
+        const moved = yield* DatabaseService.moveTodo(4, {
+          _tag: "Before",
+          id: 1,
+        });
+        return [moved, yield* listed] as const;
+      })
+    );
+    expect(order).toEqual([2, 4, 1, 3]);
+    expect([previousPriority, todo.priority]).toEqual(["low", undefined]);
+  });
+
+  it("moves a todo after another, taking its priority", async () => {
+    const [{ todo, previousPriority }, order] = await run(
+      Effect.gen(function* () {
+        yield* prioritized;
+        const moved = yield* DatabaseService.moveTodo(3, {
+          _tag: "After",
+          id: 2,
+        });
+        return [moved, yield* listed] as const;
+      })
+    );
+    expect(order).toEqual([2, 3, 1, 4]);
+    expect([previousPriority, todo.priority]).toEqual(["normal", "high"]);
+  });
+
+  it("moves a todo to the top, taking the priority of the first todo", async () => {
+    const [{ todo, previousPriority }, order, next] = await run(
+      Effect.gen(function* () {
+        yield* prioritized;
+        const moved = yield* DatabaseService.moveTodo(4, { _tag: "Top" });
+        const order = yield* listed;
+        const next = yield* DatabaseService.moveTodo(1, { _tag: "Top" });
+        return [moved, order, next] as const;
+      })
+    );
+    expect(order).toEqual([4, 2, 1, 3]);
+    expect([previousPriority, todo.priority]).toEqual(["low", "high"]);
+    expect(next.previousPriority).toBe("normal");
+    expect(next.todo.priority).toBe("high");
+  });
+
+  it("renumbers positions when there is no room left between two todos", async () => {
+    const order = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([remote(1), remote(2), remote(3)]);
+        for (let i = 0; i < 12; i++) {
+          yield* DatabaseService.moveTodo(3, { _tag: "After", id: 1 });
+          yield* DatabaseService.moveTodo(2, { _tag: "After", id: 1 });
+        }
+        return yield* listed;
+      })
+    );
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  it("fails to move next to a todo that is missing", async () => {
+    const error = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([remote(1)]);
+        return yield* Effect.flip(
+          DatabaseService.moveTodo(1, { _tag: "Before", id: 2 })
+        );
+      })
+    );
+    expect(error).toEqual(new TodoNotFound({ id: 2 }));
+  });
+
+  it("imports priorities and keeps them for todos without one", async () => {
+    const todos = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([remote(1), remote(2)]);
+        yield* DatabaseService.updateTodo(2, { priority: "high" });
+        yield* DatabaseService.importTodos(
+          [new Todo({ ...remote(1), priority: "urgent" }), remote(2)],
+          { mode: "merge" }
+        );
+        return yield* DatabaseService.getAllTodos();
+      })
+    );
+    expect(todos.map((todo) => todo.priority)).toEqual(["urgent", "high"]);
+  });
+});
+
+describe("subtasks", () => {
+  const subtask = (id: number, parentId: number) =>
+    Schema.decodeSync(Todo)({
+      userId: 1,
+      id,
+      title: `Remote ${id}`,
+      completed: false,
+      parentId,
+    });
+
+  const family = Effect.gen(function* () {
+    yield* DatabaseService.saveTodos([remote(1), remote(2)]);
+    yield* DatabaseService.createTodo({ userId: 1, title: "A", parentId: 1 });
+    yield* DatabaseService.createTodo({ userId: 1, title: "B", parentId: 3 });
+  });
+
+  it("creates subtasks of existing todos only", async () => {
+    const [todo, error] = await run(
+      Effect.gen(function* () {
+        yield* family;
+        return [
+          yield* DatabaseService.getTodoById(4),
+          yield* Effect.flip(
+            DatabaseService.createTodo({ userId: 1, title: "C", parentId: 9 })
+          ),
+        ] as const;
+      })
+    );
+    expect(todo.parentId).toBe(3);
+    expect(error).toEqual(new TodoNotFound({ id: 9 }));
+  });
+
+  it("refuses to make a todo a subtask of itself or of its subtasks", async () => {
+    const [self, loop] = await run(
+      Effect.gen(function* () {
+        yield* family;
+        return [
+          yield* Effect.flip(DatabaseService.updateTodo(1, { parentId: 1 })),
+          yield* Effect.flip(DatabaseService.updateTodo(1, { parentId: 4 })),
+        ] as const;
+      })
+    );
+    expect(self).toEqual(new TodoCycle({ id: 1, parentId: 1 }));
+    expect(loop).toEqual(new TodoCycle({ id: 1, parentId: 4 }));
+  });
+
+  it("completes a todo with pending subtasks only when cascading", async () => {
+    const [error, statuses] = await run(
+      Effect.gen(function* () {
+        yield* family;
+        const error = yield* Effect.flip(
+          DatabaseService.updateTodo(1, { completed: true })
+        );
+        yield* DatabaseService.updateTodo(
+          1,
+          { completed: true },
+          { cascade: true }
+        );
+        const todos = yield* DatabaseService.getAllTodos();
+        return [error, todos.map((todo) => todo.completed)] as const;
+      })
+    );
+    expect(error).toEqual(new OpenSubtasks({ id: 1, pending: 2 }));
+    expect(statuses).toEqual([
+      "completed",
+      "pending",
+      "completed",
+      "completed",
+    ]);
+  });
+
+  it("trashes and restores a todo together with its subtasks", async () => {
+    const [deleted, restored, detached] = await run(
+      Effect.gen(function* () {
+        yield* family;
+        const deleted = yield* DatabaseService.deleteTodo(1);
+        const restored = yield* DatabaseService.restoreTodo(1);
+        yield* DatabaseService.deleteTodo(1);
+        const detached = yield* DatabaseService.restoreTodo(3);
+        return [deleted.subtasks, restored.subtasks, detached] as const;
+      })
+    );
+    expect(deleted).toBe(2);
+    expect(restored).toBe(2);
+    expect(detached.todo.parentId).toBeUndefined();
+    expect(detached.subtasks).toBe(1);
+  });
+
+  it("counts the completed direct subtasks", async () => {
+    const counts = await run(
+      Effect.gen(function* () {
+        yield* family;
+        yield* DatabaseService.createTodo({
+          userId: 1,
+          title: "C",
+          completed: true,
+          parentId: 1,
+        });
+        return yield* DatabaseService.getSubtaskCounts([1, 2, 3]);
+      })
+    );
+    expect([...counts]).toEqual([
+      [1, { completed: 1, total: 2 }],
+      [3, { completed: 0, total: 1 }],
+    ]);
+  });
+
+  it("imports parent links and rejects loops", async () => {
+    const [todo, error, ids] = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.importTodos([remote(1), subtask(2, 1)], {
+          mode: "merge",
+        });
+        const todo = yield* DatabaseService.getTodoById(2);
+        const error = yield* Effect.flip(
+          DatabaseService.importTodos([subtask(1, 2), remote(3)], {
+            mode: "merge",
+          })
+        );
+        const todos = yield* DatabaseService.getAllTodos();
+        return [todo, error, todos.map((todo) => todo.id)] as const;
+      })
+    );
+    expect(todo.parentId).toBe(1);
+    expect(error).toBeInstanceOf(TodoCycle);
+    expect(ids).toEqual([1, 2]);
+  });
+});
+
+describe("users", () => {
+  it("refuses todos of unknown users unless told otherwise", async () => {
+    const [created, updated, saved, allowed, rows] = await run(
+      Effect.gen(function* () {
+        const created = yield* Effect.flip(
+          DatabaseService.createTodo({ userId: 3, title: "New" })
+        );
+        yield* DatabaseService.saveTodos([remote(1)]);
+        const updated = yield* Effect.flip(
+          DatabaseService.updateTodo(1, { userId: 3 })
+        );
+        const saved = yield* Effect.flip(
+          DatabaseService.saveTodos([
+            remote(2),
+            Schema.decodeSync(Todo)({
+              userId: 4,
+              id: 3,
+              title: "Remote 3",
+              completed: false,
+            }),
+          ])
+        );
+        const allowed = yield* DatabaseService.createTodo(
+          { userId: 3, title: "New" },
+          { allowUnknownUser: true }
+        );
+        return [created, updated, saved, allowed, yield* count] as const;
+      })
+    );
+    expect(created).toEqual(new UserNotFound({ id: 3 }));
+    expect(updated).toEqual(new UserNotFound({ id: 3 }));
+    expect(saved).toEqual(new UserNotFound({ id: 4 }));
+    expect(allowed.userId).toBe(3);
+    expect(rows).toBe(2);
+  });
+
+  it("saves users from the API and counts their completed todos", async () => {
+    const [changed, unchanged, users] = await run(
+      Effect.gen(function* () {
+        const changed = yield* DatabaseService.saveUsers([
+          user(1, "Leanne Graham"),
+          user(2),
+          user(3),
+        ]);
+        const unchanged = yield* DatabaseService.saveUsers([user(3)]);
+        yield* DatabaseService.saveTodos([remote(1), remote(2)]);
+        yield* DatabaseService.updateTodo(2, { completed: true });
+        return [changed, unchanged, yield* DatabaseService.getUsers()] as const;
+      })
+    );
+    expect(changed).toBe(2);
+    expect(unchanged).toBe(0);
+    expect(
+      users.map(({ user, todos, completed }) => [user.name, todos, completed])
+    ).toEqual([
+      ["Leanne Graham", 2, 1],
+      ["User 2", 0, 0],
+      ["User 3", 0, 0],
+    ]);
+  });
+
+  it("adds users with the next free ID", async () => {
+    const [added, shown, missing] = await run(
+      Effect.gen(function* () {
+        const added = yield* DatabaseService.addUser({
+          name: "Ada Lovelace",
+          email: "ada@example.com",
+        });
+        return [
+          added,
+          yield* DatabaseService.getUserById(3),
+          yield* Effect.flip(DatabaseService.getUserById(4)),
+        ] as const;
+      })
+    );
+    expect(added).toEqual(
+      new User({
+        id: added.id,
+        name: "Ada Lovelace",
+        email: "ada@example.com",
+      })
+    );
+    expect(added.id).toBe(3);
+    expect(shown).toEqual({ user: added, todos: 0, completed: 0 });
+    expect(missing).toEqual(new UserNotFound({ id: 4 }));
+  });
+});
+
+describe("history", () => {
+  const titles = Effect.map(DatabaseService.getAllTodos(), (todos) =>
+    todos.map(({ id, title, tags }) => [id, title, tags ?? []])
+  );
+
+  it("records every change of a todo with the write that made it", async () => {
+    const history = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.createTodo({ userId: 1, title: "Draft" });
+        yield* DatabaseService.updateTodo(1, { title: "Final" });
+        yield* DatabaseService.updateTodo(1, {});
+        yield* DatabaseService.deleteTodo(1);
+        return yield* DatabaseService.getTodoHistory(1);
+      })
+    );
+    expect(
+      history.map(({ name, events }) =>
+        events.map(describeEvent).map((change) => `${name}: ${change}`)
+      )
+    ).toEqual([
+      ['create: created "Draft"'],
+      ['update: title: "Draft" → "Final"'],
+      ["delete: moved to trash"],
+    ]);
+  });
+
+  it("undoes a clear, tags included, then the writes before it", async () => {
+    const [cleared, restored, undone, earlier, log] = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([remote(1), remote(2)]);
+        yield* DatabaseService.addTags(1, ["work"]);
+        yield* DatabaseService.updateTodo(2, { title: "Local edit" });
+        yield* DatabaseService.clearTodos();
+        const cleared = yield* titles;
+        const undone = yield* DatabaseService.undoOperations(1);
+        const restored = yield* titles;
+        yield* DatabaseService.undoOperations(1);
+        return [
+          cleared,
+          restored,
+          undone.map(({ name, events }) => [name, events.length]),
+          yield* titles,
+          (yield* DatabaseService.getOperations()).map(({ name, undoneBy }) => [
+            name,
+            undoneBy,
+          ]),
+        ] as const;
+      })
+    );
+    expect(cleared).toEqual([]);
+    expect(restored).toEqual([
+      [1, "Remote 1", ["work"]],
+      [2, "Local edit", []],
+    ]);
+    expect(undone).toEqual([["clear", 2]]);
+    expect(earlier).toEqual([
+      [1, "Remote 1", ["work"]],
+      [2, "Remote 2", []],
+    ]);
+    expect(log).toEqual([
+      ["sync", undefined],
+      ["tag", undefined],
+      ["update", 6],
+      ["clear", 5],
+      ["undo", undefined],
+      ["undo", undefined],
+    ]);
+  });
+
+  it("undoes tagging, untagging and renaming tags", async () => {
+    const [history, steps] = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([remote(1), remote(2)]);
+        yield* DatabaseService.addTags(1, ["urgent", "work"]);
+        yield* DatabaseService.addTags(2, ["urgent"]);
+        yield* DatabaseService.removeTags(1, ["work"]);
+        yield* DatabaseService.renameTag("urgent", "later");
+        const history = yield* DatabaseService.getTodoHistory(1);
+        const steps = [yield* titles];
+        for (let step = 0; step < 3; step++) {
+          yield* DatabaseService.undoOperations(1);
+          steps.push(yield* titles);
+        }
+        return [history, steps] as const;
+      })
+    );
+    expect(
+      history.map(({ name, events }) =>
+        events.map(describeEvent).map((change) => `${name}: ${change}`)
+      )
+    ).toEqual([
+      ['sync: created "Remote 1"'],
+      ["tag: tags: none → urgent", "tag: tags: urgent → urgent, work"],
+      ["untag: tags: urgent, work → urgent"],
+      ["rename-tag: tags: urgent → later"],
+    ]);
+    expect(steps).toEqual([
+      [
+        [1, "Remote 1", ["later"]],
+        [2, "Remote 2", ["later"]],
+      ],
+      [
+        [1, "Remote 1", ["urgent"]],
+        [2, "Remote 2", ["urgent"]],
+      ],
+      [
+        [1, "Remote 1", ["urgent", "work"]],
+        [2, "Remote 2", ["urgent"]],
+      ],
+      [
+        [1, "Remote 1", ["urgent", "work"]],
+        [2, "Remote 2", []],
+      ],
+    ]);
+  });
+
+  it("undoes the tags an import gave", async () => {
+    const [imported, undone] = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([remote(1)]);
+        yield* DatabaseService.addTags(1, ["work"]);
+        yield* DatabaseService.importTodos(
+          [
+            new Todo({ ...remote(1), tags: ["home"] }),
+            new Todo({ ...remote(2), tags: ["home"] }),
+          ],
+          { mode: "merge" }
+        );
+        const imported = yield* titles;
+        yield* DatabaseService.undoOperations(1);
+        return [imported, yield* titles] as const;
+      })
+    );
+    expect(imported).toEqual([
+      [1, "Remote 1", ["home"]],
+      [2, "Remote 2", ["home"]],
+    ]);
+    expect(undone).toEqual([[1, "Remote 1", ["work"]]]);
+  });
+
+  it("keeps no record of writes that change nothing", async () => {
+    const [operations, undone] = await run(
+      Effect.gen(function* () {
+        yield* DatabaseService.saveTodos([remote(1)]);
+        yield* DatabaseService.saveTodos([remote(1)]);
+        yield* DatabaseService.emptyTrash();
+        const operations = yield* DatabaseService.getOperations();
+        yield* DatabaseService.undoOperations(5);
+        return [operations, yield* DatabaseService.undoOperations(1)] as const;
+      })
+    );
+    expect(operations.map(({ name }) => name)).toEqual(["sync"]);
+    expect(undone).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "@effect/vitest";
+import { DateTime, Either, Schema } from "effect";
+import { groupByDueDay, parseDueDate } from "../src/domain/DueDate.js";
+import { Todo } from "../src/domain/Todo.js";
+
+// Monday 2026-10-19, 15:30 in Berlin (UTC+2)
+const now = DateTime.unsafeMakeZoned("2026-10-19T13:30:00Z", {
+  timeZone: "Europe/Berlin",
+});
+
+const parse = (input: string) =>
+  Either.map(parseDueDate(input, now), DateTime.formatIso);
+
+describe("parseDueDate", () => {
+  it("reads relative days as the start of that day", () => {
+    expect(parse("today")).toEqual(Either.right("2026-10-18T22:00:00.000Z"));
+    expect(parse("Tomorrow")).toEqual(Either.right("2026-10-19T22:00:00.000Z"));
+    expect(parse("+3d")).toEqual(Either.right("2026-10-21T22:00:00.000Z"));
+    expect(parse("+2w")).toEqual(Either.right("2026-11-01T23:00:00.000Z"));
+  });
+
+  it("reads day names as the next such day", () => {
+    expect(parse("friday")).toEqual(Either.right("2026-10-22T22:00:00.000Z"));
+    expect(parse("next fri")).toEqual(Either.right("2026-10-22T22:00:00.000Z"));
+    expect(parse("monday")).toEqual(Either.right("2026-10-25T23:00:00.000Z"));
+  });
+
+  it("reads ISO dates in the local time zone unless an offset is given", () => {
+    expect(parse("2026-11-01")).toEqual(
+      Either.right("2026-10-31T23:00:00.000Z")
+    );
+    expect(parse("2026-11-01T15:30")).toEqual(
+      Either.right("2026-11-01T14:30:00.000Z")
+    );
+    expect(parse("2026-11-01T15:30:00Z")).toEqual(
+      Either.right("2026-11-01T15:30:00.000Z")
+    );
+  });
+
+  it("rejects anything else", () => {
+    for (const input of ["someday", "fr", "+3m", "2026-02-30", ""]) {
+      expect(Either.isLeft(parseDueDate(input, now))).toBe(true);
+    }
+  });
+});
+
+describe("groupByDueDay", () => {
+  const todo = (id: number, dueAt?: string) =>
+    Schema.decodeSync(Todo)({
+      userId: 1,
+      id,
+      title: `Todo ${id}`,
+      completed: false,
+      ...(dueAt !== undefined ? { dueAt } : {}),
+    });
+
+  it("groups todos by local day and leaves out undated ones", () => {
+    const days = groupByDueDay(
+      [
+        todo(1, "2026-10-19T22:00:00Z"),
+        todo(2),
+        todo(3, "2026-10-20T21:59:00Z"),
+        todo(4, "2026-10-20T22:00:00Z"),
+      ],
+      now.zone
+    );
+    expect(
+      days.map(({ day, weekDay, todos }) => [
+        day,
+        weekDay,
+        todos.map(({ id }) => id),
+      ])
+    ).toEqual([
+      ["2026-10-20", "Tuesday", [1, 3]],
+      ["2026-10-21", "Wednesday", [4]],
+    ]);
+  });
+});
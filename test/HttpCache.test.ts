@@ -0,0 +1,94 @@
+import { describe, it, expect, afterAll } from "@effect/vitest";
+import { Effect, Layer } from "effect";
+import { SqliteClient } from "@effect/sql-sqlite-node";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { TodoService } from "../src/service/TodoService.js";
+import {
+  HttpCacheEnabled,
+  HttpCacheService,
+} from "../src/service/HttpCacheService.js";
+import { MigrationService } from "../src/service/MigrationService.js";
+import { standInApi } from "./StandInApi.js";
+
+// A stand-in for the remote API that answers conditional requests with 304
+const conditional: Array<string | undefined> = [];
+const todo = { userId: 1, id: 1, title: "Cached", completed: false };
+const { config } = standInApi((req, res) => {
+  conditional.push(req.headers["if-none-match"]);
+  if (req.headers["if-none-match"] === '"v1"') {
+    res.writeHead(304, { etag: '"v1"' });
+    return res.end();
+  }
+  res.writeHead(200, { "content-type": "application/json", etag: '"v1"' });
+  res.end(JSON.stringify(todo));
+});
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "todo-cache-"));
+let databases = 0;
+afterAll(() => fs.rmSync(dir, { recursive: true }));
+
+// Runs a program with TodoService and an HTTP cache in a fresh database
+const run = <A, E>(
+  program: Effect.Effect<A, E, TodoService | HttpCacheService>
+) => {
+  const database = HttpCacheService.Default.pipe(
+    Layer.provideMerge(MigrationService.Default),
+    Layer.provide(
+      SqliteClient.layer({
+        filename: path.join(dir, `${++databases}.db`),
+      })
+    )
+  );
+  return Effect.runPromise(
+    Effect.gen(function* () {
+      yield* MigrationService.migrateUp();
+      return yield* program;
+    }).pipe(
+      Effect.provide(Layer.merge(TodoService.Default, database)),
+      Effect.withConfigProvider(config())
+    )
+  );
+};
+
+describe("HTTP cache", () => {
+  it("revalidates cached todos and reuses the body on 304", async () => {
+    conditional.length = 0;
+    const [first, second, stats] = await run(
+      Effect.gen(function* () {
+        return [
+          yield* TodoService.getTodoById(1),
+          yield* TodoService.getTodoById(1),
+          yield* HttpCacheService.stats(),
+        ] as const;
+      })
+    );
+    expect(conditional).toEqual([undefined, '"v1"']);
+    expect(second).toEqual(first);
+    expect(stats).toMatchObject({ entries: 1, hits: 1 });
+  });
+
+  it("sends unconditional requests when the cache is disabled", async () => {
+    conditional.length = 0;
+    await run(
+      Effect.gen(function* () {
+        yield* TodoService.getTodoById(1);
+        yield* TodoService.getTodoById(1).pipe(
+          Effect.provideService(HttpCacheEnabled, false)
+        );
+      })
+    );
+    expect(conditional).toEqual([undefined, undefined]);
+  });
+
+  it("forgets every response on clear", async () => {
+    const removed = await run(
+      Effect.gen(function* () {
+        yield* TodoService.getTodoById(1);
+        return yield* HttpCacheService.clear();
+      })
+    );
+    expect(removed).toBe(1);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "@effect/vitest";
+import { Duration, FastCheck, Schema } from "effect";
+import { OlderThanSchema } from "../src/cmd/trash.js";
+
+// Helper to decode with OlderThanSchema
+const decode = (input: unknown) =>
+  Schema.decodeUnknownSync(OlderThanSchema)(input);
+
+describe("OlderThanSchema", () => {
+  it("accepts each supported unit", () => {
+    expect(Duration.toMinutes(decode("30m"))).toBe(30);
+    expect(Duration.toHours(decode("12h"))).toBe(12);
+    expect(Duration.toDays(decode("7d"))).toBe(7);
+    expect(Duration.toWeeks(decode("2w"))).toBe(2);
+  });
+
+  it("accepts any positive amount of days", () => {
+    FastCheck.assert(
+      FastCheck.property(
+        FastCheck.integer({ min: 1, max: 10000 }),
+        (n: number) => {
+          expect(Duration.toDays(decode(`${n}d`))).toBe(n);
+        }
+      )
+    );
+  });
+
+  it("rejects malformed ages", () => {
+    const badInputs = [
+      "0d",
+      "-1d",
+      "1.5d",
+      "7",
+      "d",
+      "7 d",
+      "7days",
+      "7s",
+      "",
+      null,
+      undefined,
+      7,
+    ];
+    for (const input of badInputs) {
+      expect(() => decode(input)).toThrow();
+    }
+  });
+});
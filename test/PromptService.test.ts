@@ -0,0 +1,47 @@
+import { describe, it, expect } from "@effect/vitest";
+import { Prompt } from "@effect/cli";
+import { Effect, Either } from "effect";
+import { Interactive, PromptService } from "../src/service/PromptService.js";
+
+const run = <A, E>(
+  program: Effect.Effect<A, E, PromptService>,
+  interactive: boolean
+) =>
+  Effect.runPromise(
+    program.pipe(
+      Effect.either,
+      Effect.provide(PromptService.Default),
+      Effect.provideService(Interactive, interactive)
+    )
+  );
+
+describe("PromptService", () => {
+  it("fails instead of asking when standard input is not a terminal", async () => {
+    const result = await run(
+      Effect.flatMap(PromptService, (prompts) =>
+        prompts.ask(Prompt.text({ message: "Title" }), "the title")
+      ),
+      false
+    );
+    expect(result).toMatchObject({
+      _tag: "Left",
+      left: {
+        _tag: "NotInteractive",
+        message: "Cannot ask for the title: standard input is not a terminal",
+      },
+    });
+  });
+
+  it("lets commands check up front whether they can ask", async () => {
+    expect(
+      Either.isRight(
+        await run(PromptService.ensureInteractive("a confirmation"), true)
+      )
+    ).toBe(true);
+    expect(
+      Either.isLeft(
+        await run(PromptService.ensureInteractive("a confirmation"), false)
+      )
+    ).toBe(true);
+  });
+});
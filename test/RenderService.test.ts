@@ -0,0 +1,89 @@
+import { describe, it, expect } from "@effect/vitest";
+import { Schema } from "effect";
+import { Todo } from "../src/domain/Todo.js";
+import {
+  formatCsv,
+  formatSearchHit,
+  formatTable,
+} from "../src/service/RenderService.js";
+
+const todos = [
+  { userId: 1, id: 1, title: "Learn Effect", completed: false },
+  { userId: 12, id: 100, title: 'Say "hi", then\nleave', completed: true },
+];
+
+describe("formatCsv", () => {
+  it("writes a header row followed by one row per todo", () => {
+    const lines = formatCsv([todos[0]]).split("\n");
+    expect(lines).toEqual([
+      "userId,id,title,completed,tags,dueAt,priority,parentId",
+      "1,1,Learn Effect,false,,,,",
+    ]);
+  });
+
+  it("quotes fields containing commas, quotes or line breaks", () => {
+    expect(formatCsv([todos[1]])).toBe(
+      'userId,id,title,completed,tags,dueAt,priority,parentId\n12,100,"Say ""hi"", then\nleave",true,,,,'
+    );
+  });
+
+  it("writes only the header for an empty list", () => {
+    expect(formatCsv([])).toBe(
+      "userId,id,title,completed,tags,dueAt,priority,parentId"
+    );
+  });
+
+  it("writes tags, due date, priority and parent when a todo has them", () => {
+    expect(
+      formatCsv([
+        {
+          ...todos[0],
+          tags: ["home", "work"],
+          dueAt: "2024-05-01T00:00:00.000Z",
+          priority: "high",
+          parentId: 3,
+        },
+      ]).split("\n")[1]
+    ).toBe("1,1,Learn Effect,false,home work,2024-05-01T00:00:00.000Z,high,3");
+  });
+});
+
+describe("formatTable", () => {
+  it("aligns every column", () => {
+    const lines = formatTable([todos[0]], 80).split("\n");
+    expect(lines).toEqual([
+      "ID  USER  STATUS   TITLE",
+      "--  ----  -------  " + "-".repeat(61),
+      " 1     1  pending  Learn Effect",
+    ]);
+  });
+
+  it("truncates titles so no line exceeds the width", () => {
+    const long = { userId: 1, id: 1, title: "x".repeat(200), completed: true };
+    for (const width of [40, 60, 80, 120]) {
+      const lines = formatTable([long], width).split("\n");
+      for (const line of lines) {
+        expect(line.length).toBeLessThanOrEqual(width);
+      }
+      expect(lines[2].endsWith("…")).toBe(true);
+    }
+  });
+});
+
+describe("formatSearchHit", () => {
+  it("wraps the matched terms of the title", () => {
+    const todo = Schema.decodeSync(Todo)({ ...todos[0], title: 'Say "hi" $&' });
+    const hit = {
+      todo,
+      title: [
+        { text: "Say ", match: false },
+        { text: '"hi"', match: true },
+        { text: " $&", match: false },
+      ],
+      rank: -1,
+    };
+    expect(formatSearchHit(hit, { open: "[", close: "]" })).toBe(
+      'Todo({ "userId": 1, "id": 1, "title": "Say [\\"hi\\"] $&", "completed": "pending" })'
+    );
+  });
+});
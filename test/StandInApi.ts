@@ -0,0 +1,59 @@
+import { beforeAll, afterAll } from "@effect/vitest";
+import { ConfigProvider, Effect } from "effect";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import * as os from "node:os";
+import { TodoService } from "../src/service/TodoService.js";
+
+// Answers a request of the stand-in API with a JSON body
+export const sendJson = (
+  res: http.ServerResponse,
+  status: number,
+  json: unknown,
+  headers: http.OutgoingHttpHeaders = {}
+) => {
+  res.writeHead(status, { "content-type": "application/json", ...headers });
+  res.end(JSON.stringify(json));
+};
+
+// Starts a stand-in for the remote API that answers with the given handler,
+// on a free local port, for the tests of the calling file. Connections still
+// open when the tests are done are cut off
+export const standInApi = (handler: http.RequestListener) => {
+  const server = http.createServer(handler);
+  let url = "";
+  beforeAll(
+    () =>
+      new Promise<void>((resolve) =>
+        server.listen(0, "127.0.0.1", () => {
+          url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+          resolve();
+        })
+      )
+  );
+  afterAll(() => {
+    server.closeAllConnections();
+    return new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  // Settings pointing at the stand-in API rather than the user's config,
+  // with extra environment variables
+  const config = (env: ReadonlyArray<[string, string]> = []) =>
+    ConfigProvider.fromMap(
+      new Map([["TODO_API_URL", url], ["XDG_CONFIG_HOME", os.tmpdir()], ...env])
+    );
+
+  // Runs a TodoService program against the stand-in API
+  const run = <A, E>(
+    program: Effect.Effect<A, E, TodoService>,
+    env: ReadonlyArray<[string, string]> = []
+  ) =>
+    Effect.runPromise(
+      program.pipe(
+        Effect.provide(TodoService.Default),
+        Effect.withConfigProvider(config(env))
+      )
+    );
+
+  return { config, run };
+};
@@ -0,0 +1,156 @@
+import { describe, it, expect, afterAll } from "@effect/vitest";
+import { Effect, Layer, Schema } from "effect";
+import { NodeContext } from "@effect/platform-node";
+import { SqliteClient } from "@effect/sql-sqlite-node";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { run as cli } from "../src/Cli.js";
+import { User } from "../src/domain/User.js";
+import { refreshUsers } from "../src/cmd/syncTodos.js";
+import { DatabaseService } from "../src/service/DatabaseService.js";
+import { MigrationService } from "../src/service/MigrationService.js";
+import { ConfigService } from "../src/service/ConfigService.js";
+import { ProgressBarService } from "../src/service/ProgressBarService.js";
+import { PromptService } from "../src/service/PromptService.js";
+import { RenderService } from "../src/service/RenderService.js";
+import { TodoService } from "../src/service/TodoService.js";
+import { sendJson, standInApi } from "./StandInApi.js";
+
+// A stand-in for the remote API that has no user list unless enabled, and
+// only has todos 1 and 3
+const requests: Array<string> = [];
+let usersAvailable = false;
+const { config } = standInApi((req, res) => {
+  requests.push(req.url!);
+  if (req.url === "/users" && usersAvailable) {
+    return sendJson(res, 200, [{ id: 3, name: "Remote user" }]);
+  }
+  const [, id] = req.url!.match(/^\/todos\/([13])$/) ?? [];
+  if (id !== undefined) {
+    return sendJson(res, 200, {
+      userId: 1,
+      id: Number(id),
+      title: `Remote ${id}`,
+      completed: false,
+    });
+  }
+  sendJson(res, 404, {});
+});
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "todo-sync-"));
+afterAll(() => fs.rmSync(dir, { recursive: true }));
+
+// Runs a program against the stand-in API and a fresh, migrated in-memory
+// database that knows user 1
+const run = <A, E>(
+  program: Effect.Effect<A, E, DatabaseService | TodoService>
+) =>
+  Effect.runPromise(
+    Effect.gen(function* () {
+      requests.length = 0;
+      yield* MigrationService.migrateUp();
+      yield* DatabaseService.saveUsers([
+        Schema.decodeSync(User)({ id: 1, name: "Local user" }),
+      ]);
+      return yield* program;
+    }).pipe(
+      Effect.provide(
+        Layer.merge(
+          TodoService.Default,
+          DatabaseService.Default.pipe(
+            Layer.provideMerge(MigrationService.Default),
+            Layer.provide(SqliteClient.layer({ filename: ":memory:" }))
+          )
+        )
+      ),
+      Effect.withConfigProvider(config())
+    )
+  );
+
+const userIds = Effect.map(DatabaseService.getUsers(), (users) =>
+  users.map(({ user }) => user.id)
+);
+
+describe("refreshUsers", () => {
+  it("saves the users of the API", async () => {
+    usersAvailable = true;
+    const [changed, ids] = await run(
+      Effect.all([refreshUsers(false), userIds])
+    );
+    expect(changed).toBe(1);
+    expect(ids).toEqual([1, 3]);
+  });
+
+  it("keeps the local users when the user list fails", async () => {
+    usersAvailable = false;
+    const [changed, ids] = await run(
+      Effect.all([refreshUsers(false), userIds])
+    );
+    expect(requests).toEqual(["/users"]);
+    expect(changed).toBe(0);
+    expect(ids).toEqual([1]);
+  });
+
+  it("does not fetch the users when unknown users are allowed", async () => {
+    usersAvailable = true;
+    const changed = await run(refreshUsers(true));
+    expect(requests).toEqual([]);
+    expect(changed).toBe(0);
+  });
+});
+
+describe("sync --fail-fast", () => {
+  // Runs the CLI with the given arguments against the stand-in API and a
+  // database file in the temporary directory
+  const runCli = (args: ReadonlyArray<string>) =>
+    Effect.runPromise(
+      cli(["node", "todo", ...args]).pipe(
+        Effect.provide(
+          Layer.mergeAll(
+            NodeContext.layer,
+            TodoService.Default,
+            ConfigService.Default,
+            ProgressBarService.Default,
+            PromptService.Default,
+            RenderService.Default
+          )
+        ),
+        Effect.withConfigProvider(
+          config([["TODO_DB_PATH", path.join(dir, "todos.db")]])
+        )
+      )
+    );
+
+  it("saves the todos fetched before the first failure", async () => {
+    await runCli(["init"]);
+    requests.length = 0;
+    await runCli([
+      "sync",
+      "--fail-fast",
+      "--allow-unknown-user",
+      "--failed-file",
+      path.join(dir, "failed.json"),
+      "1",
+      "2",
+      "3",
+    ]);
+    const titles = await Effect.runPromise(
+      DatabaseService.getAllTodos().pipe(
+        Effect.map((todos) => todos.map(({ title }) => title)),
+        Effect.provide(
+          DatabaseService.Default.pipe(
+            Layer.provide(MigrationService.Default),
+            Layer.provide(
+              SqliteClient.layer({ filename: path.join(dir, "todos.db") })
+            )
+          )
+        )
+      )
+    );
+    expect(requests).toEqual(["/todos/1", "/todos/2"]);
+    expect(titles).toContain("Remote 1");
+    expect(titles).not.toContain("Remote 3");
+    expect(fs.existsSync(path.join(dir, "failed.json"))).toBe(false);
+  });
+});
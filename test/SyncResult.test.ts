@@ -0,0 +1,73 @@
+import { describe, it, expect } from "@effect/vitest";
+import { Schema } from "effect";
+import {
+  FailedSyncFile,
+  formatSyncSummary,
+  isFailedOutcome,
+  type SyncResult,
+} from "../src/domain/SyncResult.js";
+
+describe("SyncResult", () => {
+  it("treats only fetch failures as failed", () => {
+    expect(isFailedOutcome("not-found")).toBe(true);
+    expect(isFailedOutcome("invalid")).toBe(true);
+    expect(isFailedOutcome("network-error")).toBe(true);
+    expect(isFailedOutcome("timeout")).toBe(true);
+    expect(isFailedOutcome("rate-limited")).toBe(true);
+    expect(isFailedOutcome("circuit-open")).toBe(true);
+    expect(isFailedOutcome("synced")).toBe(false);
+    expect(isFailedOutcome("trashed")).toBe(false);
+    expect(isFailedOutcome("conflict")).toBe(false);
+  });
+
+  it("formats a summary table with the IDs of each outcome", () => {
+    const results: Array<SyncResult> = [
+      { id: 1, outcome: "synced" },
+      { id: 2, outcome: "unchanged" },
+      { id: 999, outcome: "not-found", message: "missing" },
+      { id: 5, outcome: "network-error", message: "timeout" },
+    ];
+    expect(formatSyncSummary(results).split("\n")).toEqual([
+      "OUTCOME        COUNT  IDS",
+      "synced             1",
+      "unchanged          1",
+      "not found          1  999",
+      "invalid            0",
+      "network error      1  5",
+    ]);
+  });
+
+  it("shows trashed and conflict rows only when they occur", () => {
+    const summary = formatSyncSummary([{ id: 4, outcome: "trashed" }]);
+    expect(summary).toContain("trashed            1  4");
+    expect(summary).not.toContain("conflict");
+  });
+
+  it("shows API limit rows only when they occur", () => {
+    const summary = formatSyncSummary([
+      { id: 6, outcome: "timeout", message: "timed out" },
+      { id: 7, outcome: "circuit-open", message: "stopped" },
+    ]);
+    expect(summary).toContain("timeout            1  6");
+    expect(summary).toContain("circuit open       1  7");
+    expect(summary).not.toContain("rate limited");
+  });
+
+  it("truncates long ID lists", () => {
+    const results = Array.from(
+      { length: 12 },
+      (_, i): SyncResult => ({ id: i + 1, outcome: "invalid" })
+    );
+    expect(formatSyncSummary(results)).toContain(
+      "1, 2, 3, 4, 5, 6, 7, 8, 9, 10 (+2 more)"
+    );
+  });
+
+  it("round-trips the failed todos file", () => {
+    const file = {
+      failed: [{ id: 999, outcome: "not-found" as const, message: "missing" }],
+    };
+    const json = Schema.encodeSync(FailedSyncFile)(file);
+    expect(Schema.decodeUnknownSync(FailedSyncFile)(json)).toEqual(file);
+  });
+});
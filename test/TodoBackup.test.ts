@@ -0,0 +1,17 @@
+import { describe, it, expect } from "@effect/vitest";
+import { describeClearFilter } from "../src/domain/TodoBackup.js";
+
+describe("describeClearFilter", () => {
+  it("describes an empty filter as all todos", () => {
+    expect(describeClearFilter({})).toBe("all todos");
+    expect(describeClearFilter({ completedOnly: false })).toBe("all todos");
+  });
+
+  it("names every part of the filter", () => {
+    expect(describeClearFilter({ userId: 2 })).toBe("todos of user 2");
+    expect(describeClearFilter({ syncedOnly: true })).toBe("synced todos");
+    expect(
+      describeClearFilter({ userId: 1, completedOnly: true, syncedOnly: true })
+    ).toBe("completed and synced todos of user 1");
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from "@effect/vitest";
+import { Either, Option, Schema } from "effect";
+import { Todo } from "../src/domain/Todo.js";
+import { formatFromPath, parseTodoFile } from "../src/domain/TodoFile.js";
+import { formatCsv } from "../src/service/RenderService.js";
+
+// Summarizes entries as [line, title] for valid and [line, "invalid"] for
+// invalid todos
+const summarize = (text: string, format: "json" | "ndjson" | "csv") =>
+  Either.map(parseTodoFile(text, format), (entries) =>
+    entries.map(({ line, todo }) => [
+      line,
+      Either.match(todo, {
+        onLeft: () => "invalid",
+        onRight: ({ title }) => title,
+      }),
+    ])
+  );
+
+describe("formatFromPath", () => {
+  it("infers the format from the extension", () => {
+    expect(formatFromPath("todos.json")).toEqual(Option.some("json"));
+    expect(formatFromPath("todos.JSONL")).toEqual(Option.some("ndjson"));
+    expect(formatFromPath("dir.v2/todos.csv")).toEqual(Option.some("csv"));
+    expect(formatFromPath("todos.txt")).toEqual(Option.none());
+  });
+});
+
+describe("parseTodoFile", () => {
+  it("reads quoted CSV fields and reports rows by line", () => {
+    const csv = [
+      "id,userId,title,completed",
+      '1,1,"Comma, ""quoted""",true',
+      '2,1,"Two',
+      'lines",false',
+      "",
+      "x,1,Bad,false",
+    ].join("\r\n");
+    expect(summarize(csv, "csv")).toEqual(
+      Either.right([
+        [2, 'Comma, "quoted"'],
+        [3, "Two\r\nlines"],
+        [6, "invalid"],
+      ])
+    );
+  });
+
+  it("rejects CSV files without the todo columns", () => {
+    expect(
+      Either.isLeft(parseTodoFile("id,title\n1,Only a title", "csv"))
+    ).toBe(true);
+    expect(
+      Either.isLeft(
+        parseTodoFile('userId,id,title,completed\n1,1,"Open', "csv")
+      )
+    ).toBe(true);
+  });
+
+  it("reads back every field of the CSV written by export", () => {
+    const todos = [
+      Schema.decodeSync(Todo)({
+        userId: 1,
+        id: 1,
+        title: "Plan, then ship",
+        completed: false,
+        tags: ["home", "work"],
+        dueAt: "2024-05-01T00:00:00.000Z",
+        priority: "high",
+      }),
+      Schema.decodeSync(Todo)({
+        userId: 2,
+        id: 2,
+        title: "Subtask",
+        completed: true,
+        parentId: 1,
+      }),
+    ];
+    const csv = formatCsv(Schema.encodeSync(Schema.Array(Todo))(todos));
+    expect(
+      Either.map(parseTodoFile(csv, "csv"), (entries) =>
+        entries.map(({ todo }) => Either.getOrThrow(todo))
+      )
+    ).toEqual(Either.right(todos));
+  });
+
+  it("reports JSON array elements by the line they start on", () => {
+    const json = [
+      "[",
+      '  { "userId": 1, "id": 1, "title": "[One], {}", "completed": false },',
+      "  {",
+      '    "userId": 1, "id": 2, "title": "", "completed": false',
+      "  }",
+      "]",
+    ].join("\n");
+    expect(summarize(json, "json")).toEqual(
+      Either.right([
+        [2, "[One], {}"],
+        [3, "invalid"],
+      ])
+    );
+    expect(Either.isLeft(parseTodoFile('{"id": 1}', "json"))).toBe(true);
+  });
+
+  it("reads NDJSON line by line, skipping blank lines", () => {
+    const ndjson = [
+      '{"userId":1,"id":1,"title":"One","completed":true}',
+      "",
+      "not json",
+    ].join("\n");
+    expect(summarize(ndjson, "ndjson")).toEqual(
+      Either.right([
+        [1, "One"],
+        [3, "invalid"],
+      ])
+    );
+  });
+});
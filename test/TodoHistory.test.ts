@@ -0,0 +1,54 @@
+import { describe, it, expect } from "@effect/vitest";
+import {
+  describeEvent,
+  diffSnapshots,
+  type TodoSnapshot,
+} from "../src/domain/TodoHistory.js";
+
+const snapshot: TodoSnapshot = {
+  id: 1,
+  userId: 1,
+  title: "Draft",
+  completed: "pending",
+  dueAt: null,
+  priority: "normal",
+  position: 1024,
+  parentId: null,
+  deletedAt: null,
+};
+
+describe("diffSnapshots", () => {
+  it("describes the changed fields in a fixed order", () => {
+    expect(
+      diffSnapshots(snapshot, {
+        ...snapshot,
+        completed: "completed",
+        title: "Final",
+        dueAt: "2026-10-23T22:00:00.000Z",
+        position: 512,
+      })
+    ).toEqual([
+      'title: "Draft" → "Final"',
+      "status: pending → completed",
+      "due: none → 2026-10-23T22:00:00.000Z",
+      "reordered",
+    ]);
+  });
+
+  it("describes moves in and out of the trash", () => {
+    const trashed = { ...snapshot, deletedAt: "2026-10-19 14:10:03" };
+    expect(diffSnapshots(snapshot, trashed)).toEqual(["moved to trash"]);
+    expect(diffSnapshots(trashed, snapshot)).toEqual(["restored from trash"]);
+  });
+});
+
+describe("describeEvent", () => {
+  it("names created and deleted todos by title", () => {
+    expect(describeEvent({ todoId: 1, kind: "created", after: snapshot })).toBe(
+      'created "Draft"'
+    );
+    expect(
+      describeEvent({ todoId: 1, kind: "deleted", before: snapshot })
+    ).toBe('deleted "Draft" for good');
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "@effect/vitest";
+import { FastCheck, Schema } from "effect";
+import { TodoRangeSchema } from "../src/cmd/syncTodos.js";
+
+// Helper to decode with TodoRangeSchema
+const decode = (input: unknown) =>
+  Schema.decodeUnknownSync(TodoRangeSchema)(input);
+
+describe("TodoRangeSchema", () => {
+  it("decodes the bounds of a range", () => {
+    expect(decode("1..200")).toEqual({ start: 1, end: 200 });
+    expect(decode("7..7")).toEqual({ start: 7, end: 7 });
+  });
+
+  it("accepts any ordered pair of positive IDs", () => {
+    FastCheck.assert(
+      FastCheck.property(
+        FastCheck.integer({ min: 1, max: 10000 }),
+        FastCheck.integer({ min: 0, max: 10000 }),
+        (start: number, length: number) => {
+          const end = start + length;
+          expect(decode(`${start}..${end}`)).toEqual({ start, end });
+        }
+      )
+    );
+  });
+
+  it("rejects malformed or reversed ranges", () => {
+    const badInputs = [
+      "200..1",
+      "0..10",
+      "1...10",
+      "1-10",
+      "1..",
+      "..10",
+      "1 .. 10",
+      "-1..10",
+      "1.5..10",
+      "",
+      null,
+      undefined,
+      10,
+    ];
+    for (const input of badInputs) {
+      expect(() => decode(input)).toThrow();
+    }
+  });
+});
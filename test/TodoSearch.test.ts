@@ -0,0 +1,55 @@
+import { describe, it, expect } from "@effect/vitest";
+import { Option } from "effect";
+import {
+  splitHighlighted,
+  toMatchExpression,
+} from "../src/domain/TodoSearch.js";
+
+describe("toMatchExpression", () => {
+  it("quotes every word", () => {
+    expect(toMatchExpression("learn effect")).toEqual(
+      Option.some('"learn" "effect"')
+    );
+  });
+
+  it("keeps prefixes and phrases", () => {
+    expect(toMatchExpression('eff* "build a cli" "use sql"*')).toEqual(
+      Option.some('"eff"* "build a cli" "use sql"*')
+    );
+  });
+
+  it("reads an unterminated phrase up to the end", () => {
+    expect(toMatchExpression('learn "build a')).toEqual(
+      Option.some('"learn" "build a"')
+    );
+  });
+
+  it("searches for FTS5 syntax literally", () => {
+    expect(toMatchExpression("a OR b NEAR(c) -d ^e")).toEqual(
+      Option.some('"a" "OR" "b" "NEAR(c)" "-d" "^e"')
+    );
+  });
+
+  it("is none when there is nothing to search for", () => {
+    expect(toMatchExpression("")).toEqual(Option.none());
+    expect(toMatchExpression(' * "" ')).toEqual(Option.none());
+  });
+});
+
+describe("splitHighlighted", () => {
+  it("splits a title into matched and unmatched parts", () => {
+    expect(
+      splitHighlighted("\u0002Learn\u0003 more \u0002Effect\u0003")
+    ).toEqual([
+      { text: "Learn", match: true },
+      { text: " more ", match: false },
+      { text: "Effect", match: true },
+    ]);
+  });
+
+  it("returns a title without matches as one part", () => {
+    expect(splitHighlighted("Learn Effect")).toEqual([
+      { text: "Learn Effect", match: false },
+    ]);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from "@effect/vitest";
+import { Effect, Either, Option, Schema } from "effect";
+import { Todo } from "../src/domain/Todo.js";
+import { TodoService } from "../src/service/TodoService.js";
+import { sendJson, standInApi } from "./StandInApi.js";
+
+// A stand-in for the remote API that records every request it receives
+const requests: Array<{ method: string; url: string; body: unknown }> = [];
+const authHeaders: Array<string | undefined> = [];
+const remote = [
+  { userId: 1, id: 1, title: "Remote one", completed: false },
+  { userId: 2, id: 2, title: "Remote two", completed: true },
+];
+const malformed = { userId: 4, id: 3, title: "", completed: "maybe" };
+const { run } = standInApi((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    const parsed = body === "" ? undefined : JSON.parse(body);
+    requests.push({ method: req.method!, url: req.url!, body: parsed });
+    authHeaders.push(req.headers.authorization);
+    const send = (status: number, json: unknown) => sendJson(res, status, json);
+    if (req.method === "GET" && req.url === "/todos") return send(200, remote);
+    if (req.method === "GET" && req.url === "/users")
+      return send(200, [
+        { id: 1, name: "Leanne Graham", username: "Bret", phone: "1-770" },
+      ]);
+    if (req.method === "GET" && req.url === "/todos?userId=2")
+      return send(200, [remote[1]]);
+    if (req.method === "GET" && req.url === "/todos?userId=4")
+      return send(200, [malformed]);
+    if (req.method === "GET" && req.url === "/todos/3")
+      return send(200, malformed);
+    if (req.method === "GET" && req.url === "/todos/1")
+      return send(200, remote[0]);
+    if (req.method === "POST" && req.url === "/todos")
+      return send(201, { ...parsed, id: 201 });
+    if (req.method === "PUT" && req.url === "/todos/1")
+      return send(200, parsed);
+    send(404, {});
+  });
+});
+
+const local = Schema.decodeSync(Todo)({
+  userId: 3,
+  id: 7,
+  title: "Local todo",
+  completed: false,
+});
+
+describe("TodoService", () => {
+  it("lists all todos with a single request", async () => {
+    requests.length = 0;
+    const todos = await run(TodoService.listTodos());
+    expect(todos.map((entry) => Either.getOrThrow(entry).id)).toEqual([1, 2]);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("lists the todos of one user", async () => {
+    const todos = await run(TodoService.listTodosByUser(2));
+    expect(todos.map((entry) => Either.getOrThrow(entry).title)).toEqual([
+      "Remote two",
+    ]);
+  });
+
+  it("keeps an invalid list entry as a failure for its ID", async () => {
+    const [entry] = await run(TodoService.listTodosByUser(4));
+    const error = Either.getLeft(entry!).pipe(Option.getOrThrow);
+    expect(error.id).toBe(3);
+    expect(error.reason).toBe("invalid");
+  });
+
+  it("lists users, keeping only the fields it knows", async () => {
+    const users = await run(TodoService.listUsers());
+    expect(users.map((user) => ({ ...user }))).toEqual([
+      { id: 1, name: "Leanne Graham", username: "Bret" },
+    ]);
+  });
+
+  it("fetches a single todo by ID", async () => {
+    const todo = await run(TodoService.getTodoById(1));
+    expect(todo.title).toBe("Remote one");
+  });
+
+  it("tells missing todos apart from invalid ones", async () => {
+    const missing = await run(Effect.flip(TodoService.getTodoById(999)));
+    expect(missing).toMatchObject({ reason: "not-found" });
+    const invalid = await run(Effect.flip(TodoService.getTodoById(3)));
+    expect(invalid).toMatchObject({ reason: "invalid" });
+  });
+
+  it("creates a todo with POST, without the local ID", async () => {
+    requests.length = 0;
+    const created = await run(TodoService.createTodo(local));
+    expect(created.id).toBe(201);
+    expect(requests).toEqual([
+      {
+        method: "POST",
+        url: "/todos",
+        body: { userId: 3, title: "Local todo", completed: false },
+      },
+    ]);
+  });
+
+  it("replaces a todo with PUT under its remote ID", async () => {
+    requests.length = 0;
+    const updated = await run(TodoService.updateTodo(1, local));
+    expect(updated.id).toBe(1);
+    expect(requests).toEqual([
+      {
+        method: "PUT",
+        url: "/todos/1",
+        body: { userId: 3, id: 1, title: "Local todo", completed: false },
+      },
+    ]);
+  });
+
+  it("sends the configured Authorization header", async () => {
+    authHeaders.length = 0;
+    await run(TodoService.getTodoById(1), [["TODO_API_AUTH", "Bearer secret"]]);
+    await run(TodoService.getTodoById(1));
+    expect(authHeaders).toEqual(["Bearer secret", undefined]);
+  });
+
+  it("fails with UpdateTodoError when the API rejects the update", async () => {
+    const error = await run(Effect.flip(TodoService.updateTodo(99, local)));
+    expect(error._tag).toBe("UpdateTodoError");
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, afterAll } from "@effect/vitest";
+import { ConfigProvider, Effect, Either, Schema } from "effect";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { Todo } from "../src/domain/Todo.js";
+import { TodoService } from "../src/service/TodoService.js";
+
+// Runs a TodoService program with the given settings in the environment
+const run = <A, E>(
+  program: Effect.Effect<A, E, TodoService>,
+  env: ReadonlyArray<[string, string]>
+) =>
+  Effect.runPromise(
+    program.pipe(
+      Effect.provide(TodoService.Default),
+      Effect.withConfigProvider(
+        ConfigProvider.fromMap(
+          new Map([["XDG_CONFIG_HOME", os.tmpdir()], ...env])
+        )
+      )
+    )
+  );
+
+const local = Schema.decodeSync(Todo)({
+  userId: 3,
+  id: 7,
+  title: "Local todo",
+  completed: false,
+});
+
+describe("fake source", () => {
+  const env: Array<[string, string]> = [["TODO_SOURCE", "fake"]];
+
+  it("serves the sample todos", async () => {
+    const todo = await run(TodoService.getTodoById(1), env);
+    expect(todo.title).toBe("delectus aut autem");
+    const missing = await run(Effect.flip(TodoService.getTodoById(99)), env);
+    expect(missing).toMatchObject({ reason: "not-found" });
+  });
+
+  it("keeps pushed todos for the lifetime of the service", async () => {
+    const todos = await run(
+      Effect.gen(function* () {
+        const created = yield* TodoService.createTodo(local);
+        yield* TodoService.updateTodo(1, local);
+        return [created, yield* TodoService.getTodoById(1)];
+      }),
+      env
+    );
+    expect(todos.map((todo) => [todo.id, todo.title])).toEqual([
+      [6, "Local todo"],
+      [1, "Local todo"],
+    ]);
+  });
+});
+
+describe("file source", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "todo-source-"));
+  afterAll(() => fs.rmSync(dir, { recursive: true }));
+  const lines = [
+    { userId: 1, id: 1, title: "From file", completed: true },
+    { userId: 2, id: 2, title: "", completed: false },
+  ];
+
+  it("reads JSON arrays and NDJSON the same way", async () => {
+    const json = path.join(dir, "todos.json");
+    const ndjson = path.join(dir, "todos.ndjson");
+    fs.writeFileSync(json, JSON.stringify(lines));
+    fs.writeFileSync(ndjson, lines.map((l) => JSON.stringify(l)).join("\n"));
+
+    for (const file of [json, ndjson]) {
+      const entries = await run(TodoService.listTodos(), [
+        ["TODO_SOURCE", "file"],
+        ["TODO_SOURCE_FILE", file],
+      ]);
+      expect(entries.map(Either.isRight)).toEqual([true, false]);
+    }
+  });
+
+  it("writes pushed todos back in the file's format", async () => {
+    const file = path.join(dir, "push.ndjson");
+    fs.writeFileSync(file, `${JSON.stringify(lines[0])}\n`);
+    const created = await run(TodoService.createTodo(local), [
+      ["TODO_SOURCE", "file"],
+      ["TODO_SOURCE_FILE", file],
+    ]);
+    expect(created.id).toBe(2);
+    expect(fs.readFileSync(file, "utf8").trim().split("\n")).toHaveLength(2);
+  });
+
+  it("names a user for every user ID in the file", async () => {
+    const file = path.join(dir, "users.json");
+    fs.writeFileSync(file, JSON.stringify([lines[1], lines[0], lines[1]]));
+    const users = await run(TodoService.listUsers(), [
+      ["TODO_SOURCE", "file"],
+      ["TODO_SOURCE_FILE", file],
+    ]);
+    expect(users.map(({ id, name }) => [id, name])).toEqual([
+      [1, "User 1"],
+      [2, "User 2"],
+    ]);
+  });
+
+  it("reports a missing file as unreachable", async () => {
+    const error = await run(Effect.flip(TodoService.getTodoById(1)), [
+      ["TODO_SOURCE", "file"],
+      ["TODO_SOURCE_FILE", path.join(dir, "missing.json")],
+    ]);
+    expect(error).toMatchObject({ reason: "network" });
+  });
+});
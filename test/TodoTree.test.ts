@@ -0,0 +1,58 @@
+import { describe, it, expect } from "@effect/vitest";
+import { Schema } from "effect";
+import { Todo } from "../src/domain/Todo.js";
+import { buildTodoTree, drawTodoTree } from "../src/domain/TodoTree.js";
+
+const todo = (id: number, parentId?: number) =>
+  Schema.decodeSync(Todo)({
+    userId: 1,
+    id,
+    title: `Todo ${id}`,
+    completed: false,
+    ...(parentId !== undefined ? { parentId } : {}),
+  });
+
+describe("buildTodoTree", () => {
+  it("nests subtasks under their parents, keeping the given order", () => {
+    const roots = buildTodoTree([todo(1), todo(3, 1), todo(2), todo(4, 1)]);
+    expect(
+      roots.map(({ todo, children }) => [
+        todo.id,
+        children.map(({ todo }) => todo.id),
+      ])
+    ).toEqual([
+      [1, [3, 4]],
+      [2, []],
+    ]);
+  });
+
+  it("shows subtasks whose parent is not listed as roots", () => {
+    const roots = buildTodoTree([todo(2, 1), todo(3, 2)]);
+    expect(roots.map(({ todo }) => todo.id)).toEqual([2]);
+    expect(roots[0].children.map(({ todo }) => todo.id)).toEqual([3]);
+  });
+});
+
+describe("drawTodoTree", () => {
+  it("joins subtasks to their parents with box-drawing characters", () => {
+    const lines = drawTodoTree(
+      buildTodoTree([
+        todo(1),
+        todo(2, 1),
+        todo(3, 2),
+        todo(4, 2),
+        todo(5, 1),
+        todo(6),
+      ]),
+      ({ title }) => title
+    );
+    expect(lines).toEqual([
+      "Todo 1",
+      "├── Todo 2",
+      "│   ├── Todo 3",
+      "│   └── Todo 4",
+      "└── Todo 5",
+      "Todo 6",
+    ]);
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect } from "@effect/vitest";
+import { Option, Schema } from "effect";
+import type { Terminal } from "@effect/platform";
+import { Todo } from "../src/domain/Todo.js";
+import {
+  handleKey,
+  initialTuiState,
+  renderScreen,
+  replaceTodos,
+  scrollToCursor,
+  selectedTodo,
+  type TuiState,
+} from "../src/domain/Tui.js";
+
+const todo = (id: number, title = `Todo ${id}`, completed = false) =>
+  Schema.decodeSync(Todo)({ userId: 1, id, title, completed });
+
+const key = (
+  name: string,
+  input: string | undefined = name
+): Terminal.UserInput => ({
+  input: Option.fromNullable(input),
+  key: { name, ctrl: false, meta: false, shift: false },
+});
+
+/** Presses the keys in order, dropping the actions */
+const press = (state: TuiState, ...keys: ReadonlyArray<Terminal.UserInput>) =>
+  keys.reduce((current, input) => handleKey(current, input).state, state);
+
+const todos = [
+  todo(1, "Learn Effect"),
+  todo(2, "Build a CLI app", true),
+  todo(3, "Use SQLite with Effect"),
+];
+
+describe("handleKey", () => {
+  it("moves the cursor within the list", () => {
+    const state = initialTuiState(todos);
+    expect(press(state, key("j"), key("j"), key("j")).cursor).toBe(2);
+    expect(press(state, key("down"), key("k")).cursor).toBe(0);
+    expect(press(state, key("up")).cursor).toBe(0);
+  });
+
+  it("asks to toggle, delete, sync and quit", () => {
+    const state = press(initialTuiState(todos), key("j"));
+    expect(handleKey(state, key("space", " ")).action).toEqual({
+      _tag: "Toggle",
+      todo: todos[1],
+    });
+    expect(handleKey(state, key("d")).action).toEqual({
+      _tag: "Delete",
+      todo: todos[1],
+    });
+    expect(handleKey(state, key("s")).action).toEqual({ _tag: "Sync" });
+    expect(handleKey(state, key("q")).action).toEqual({ _tag: "Quit" });
+  });
+
+  it("edits the title and asks to rename only when it changed", () => {
+    const editing = press(initialTuiState(todos), key("e"));
+    expect(editing.mode).toEqual({ _tag: "Edit", text: "Learn Effect" });
+
+    const typed = press(
+      editing,
+      key("backspace", undefined),
+      key("t"),
+      key("s")
+    );
+    const { state, action } = handleKey(typed, key("return", "\r"));
+    expect(action).toEqual({
+      _tag: "Rename",
+      todo: todos[0],
+      title: "Learn Effects",
+    });
+    expect(state.mode).toEqual({ _tag: "Browse" });
+
+    expect(handleKey(editing, key("return", "\r")).action).toBeUndefined();
+    expect(handleKey(typed, key("escape", undefined)).action).toBeUndefined();
+  });
+
+  it("filters while typing and restores the old filter on escape", () => {
+    const filtering = press(
+      initialTuiState(todos),
+      key("/"),
+      key("e"),
+      key("f")
+    );
+    expect(filtering.filter).toBe("ef");
+    expect(selectedTodo(filtering).pipe(Option.map(({ id }) => id))).toEqual(
+      Option.some(1)
+    );
+
+    const kept = press(filtering, key("return", "\r"), key("j"));
+    expect(kept.mode).toEqual({ _tag: "Browse" });
+    expect(selectedTodo(kept).pipe(Option.map(({ id }) => id))).toEqual(
+      Option.some(3)
+    );
+
+    expect(
+      press(kept, key("/"), key("x"), key("escape", undefined)).filter
+    ).toBe("ef");
+  });
+
+  it("ignores keys while busy", () => {
+    const busy: TuiState = {
+      ...initialTuiState(todos),
+      mode: { _tag: "Busy", progress: "syncing" },
+    };
+    expect(handleKey(busy, key("q"))).toEqual({ state: busy });
+  });
+});
+
+describe("replaceTodos", () => {
+  it("keeps the selected todo selected", () => {
+    const state = press(initialTuiState(todos), key("j"));
+    const replaced = replaceTodos(state, [todo(0), ...todos]);
+    expect(selectedTodo(replaced).pipe(Option.map(({ id }) => id))).toEqual(
+      Option.some(2)
+    );
+  });
+
+  it("keeps the cursor in range when the selected todo is gone", () => {
+    const state = press(initialTuiState(todos), key("j"), key("j"));
+    expect(replaceTodos(state, todos.slice(0, 2)).cursor).toBe(1);
+  });
+});
+
+describe("scrollToCursor", () => {
+  const many = Array.from({ length: 20 }, (_, index) => todo(index + 1));
+
+  it("scrolls just far enough to show the cursor", () => {
+    const down = scrollToCursor({ ...initialTuiState(many), cursor: 10 }, 8);
+    expect(down.scroll).toBe(6);
+    expect(scrollToCursor({ ...down, cursor: 7 }, 8).scroll).toBe(6);
+    expect(scrollToCursor({ ...down, cursor: 2 }, 8).scroll).toBe(2);
+  });
+
+  it("fills the screen after it grew", () => {
+    const state = { ...initialTuiState(many), cursor: 19, scroll: 15 };
+    expect(scrollToCursor(state, 13).scroll).toBe(10);
+  });
+});
+
+describe("renderScreen", () => {
+  it("draws the header, the shown todos, the status and the key help", () => {
+    const state = { ...initialTuiState(todos), status: "✅ Completed todo 2" };
+    expect(renderScreen(state, { columns: 80, rows: 6 })).toEqual([
+      "📋 Todos: 3 of 3",
+      "> [ ] 1 Learn Effect",
+      "  [x] 2 Build a CLI app",
+      "  [ ] 3 Use SQLite with Effect",
+      "✅ Completed todo 2",
+      "j/k move · space toggle · e edit · d delete · / filter · s sync · q quit",
+    ]);
+  });
+
+  it("cuts lines to the width and rows to the height of the terminal", () => {
+    const state = press(initialTuiState(todos), key("/"), key("e"));
+    const screen = renderScreen(state, { columns: 13, rows: 5 });
+    expect(screen).toEqual([
+      "📋 Todos: 2 o",
+      "> [ ] 1 Lear",
+      "  [ ] 3 Use ",
+      "🔍 Filter: e█",
+      "enter keep ·",
+    ]);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "@effect/vitest";
+import { migrations } from "../src/migrations/index.js";
+import { migrationChecksum } from "../src/service/MigrationService.js";
+
+describe("migrations", () => {
+  it("are numbered 1..N in order", () => {
+    expect(migrations.map((m) => m.version)).toEqual(
+      migrations.map((_, i) => i + 1)
+    );
+  });
+
+  it("have unique snake_case names", () => {
+    const names = migrations.map((m) => m.name);
+    expect(new Set(names).size).toBe(names.length);
+    for (const name of names) {
+      expect(name).toMatch(/^[a-z0-9]+(_[a-z0-9]+)*$/);
+    }
+  });
+
+  it("can all be reverted", () => {
+    for (const migration of migrations) {
+      expect(migration.up.length).toBeGreaterThan(0);
+      expect(migration.down.length).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe("migrationChecksum", () => {
+  it("changes when a statement changes", () => {
+    const [first] = migrations;
+    expect(migrationChecksum(first)).toBe(migrationChecksum({ ...first }));
+    expect(
+      migrationChecksum({ ...first, up: [...first.up, "SELECT 1"] })
+    ).not.toBe(migrationChecksum(first));
+    expect(
+      migrationChecksum({ ...first, down: [...first.down, "SELECT 1"] })
+    ).not.toBe(migrationChecksum(first));
+  });
+});
@@ -0,0 +1,72 @@
+import { afterAll, bench, describe } from "vitest";
+import { Effect, Layer, ManagedRuntime, Schema } from "effect";
+import { SqliteClient } from "@effect/sql-sqlite-node";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { Todo } from "../src/domain/Todo.js";
+import { User } from "../src/domain/User.js";
+import { DatabaseService } from "../src/service/DatabaseService.js";
+import { MigrationService } from "../src/service/MigrationService.js";
+
+// Compares saving a 200-todo sync one todo at a time with saving it as one
+// batch, on a database file like the CLI uses
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "todo-bench-"));
+afterAll(() => fs.rmSync(dir, { recursive: true }));
+
+const runtimeFor = (name: string) =>
+  ManagedRuntime.make(
+    DatabaseService.Default.pipe(
+      Layer.provideMerge(MigrationService.Default),
+      Layer.provide(SqliteClient.layer({ filename: path.join(dir, name) }))
+    )
+  );
+const single = runtimeFor("single.db");
+const batch = runtimeFor("batch.db");
+
+// Every run renames the todos, so that every save is a write
+let runs = 0;
+const todos = () => {
+  runs++;
+  return Array.from({ length: 200 }, (_, i) =>
+    Schema.decodeSync(Todo)({
+      userId: 1,
+      id: i + 1,
+      title: `Remote ${i + 1} (run ${runs})`,
+      completed: false,
+    })
+  );
+};
+
+// Migrates the database and adds the owner of the todos
+const setup = Effect.asVoid(
+  Effect.zipRight(
+    MigrationService.migrateUp(),
+    DatabaseService.saveUsers([
+      Schema.decodeSync(User)({ id: 1, name: "User 1" }),
+    ])
+  )
+);
+
+describe("saving 200 synced todos", () => {
+  bench(
+    "saveTodo per todo",
+    () =>
+      single.runPromise(
+        Effect.forEach(todos(), (todo) => DatabaseService.saveTodo(todo), {
+          discard: true,
+        })
+      ),
+    {
+      setup: () => single.runPromise(setup),
+    }
+  );
+
+  bench(
+    "saveTodos",
+    () => batch.runPromise(Effect.asVoid(DatabaseService.saveTodos(todos()))),
+    {
+      setup: () => batch.runPromise(setup),
+    }
+  );
+});